@@ -8,6 +8,10 @@ import Tasks from './pages/Tasks';
 import Materials from './pages/Materials';
 import Equipment from './pages/Equipment';
 import Finance from './pages/Finance';
+import WorkPricing from './pages/Finance/WorkPricing';
+import Invoices from './pages/Finance/Invoices';
+import InvoiceDetails from './pages/Finance/InvoiceDetails';
+import FinancialOverview from './pages/Finance/FinancialOverview';
 import Calculator from './pages/Calculator';
 import Calendar from './pages/Calendar';
 import EventDetails from './pages/EventDetails';
@@ -44,12 +48,17 @@ function App() {
             <Route path="/materials" element={<Materials />} />
             <Route path="/equipment" element={<Equipment />} />
             <Route path="/finance" element={<Finance />} />
+            <Route path="/finance/pricing" element={<WorkPricing />} />
+            <Route path="/finance/invoices" element={<Invoices />} />
+            <Route path="/finance/invoices/:id" element={<InvoiceDetails />} />
+            <Route path="/finance/overview" element={<FinancialOverview />} />
             <Route path="/calculator" element={<Calculator />} />
             <Route path="/calendar" element={<Calendar />} />
             <Route path="/events/new" element={<EventForm />} />
             <Route path="/events/:id" element={<EventDetails />} />
             <Route path="/project-management" element={<ProjectManagement />} />
             <Route path="/project-management/create" element={<ProjectCreating />} />
+            <Route path="/project-management/:id/edit" element={<ProjectCreating />} />
             <Route path="/project-performance" element={<ProjectPerformance />} />
             <Route path="/setup-page" element={<SetupPage />} />
             <Route path="/user-profile" element={<UserProfile />} />
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { FolderPlus } from 'lucide-react';
+import { useAuthStore } from '../../lib/store';
+import { CalculatorRun, addCalculatorRunToEvent, fetchActiveEvents } from '../../lib/calculatorRuns';
+
+interface AddToProjectPanelProps {
+  run: CalculatorRun;
+}
+
+const AddToProjectPanel: React.FC<AddToProjectPanelProps> = ({ run }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const [selectedEventId, setSelectedEventId] = useState(run.event_id || '');
+
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ['active_events'],
+    queryFn: fetchActiveEvents
+  });
+
+  const addMutation = useMutation({
+    mutationFn: () => addCalculatorRunToEvent(run, selectedEventId, user?.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calculator_runs'] });
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['materials'] });
+    }
+  });
+
+  const addedEvent = addMutation.isSuccess ? events.find(event => event.id === selectedEventId) : null;
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg bg-gray-50">
+      <div className="flex items-center mb-3">
+        <FolderPlus className="w-5 h-5 text-gray-600 mr-2" />
+        <h3 className="font-medium text-gray-900">Add to Project</h3>
+      </div>
+
+      {addedEvent ? (
+        <p className="text-sm text-green-700">
+          {run.results.name} was added to{' '}
+          <Link to={`/events/${addedEvent.id}`} className="font-medium underline">
+            {addedEvent.title}
+          </Link>
+          .
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-3">
+            Adds the task breakdown and materials of this calculation to an active project.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <select
+              value={selectedEventId}
+              onChange={(e) => setSelectedEventId(e.target.value)}
+              className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              disabled={isLoading}
+            >
+              <option value="">{isLoading ? 'Loading projects...' : 'Select a project'}</option>
+              {events.map(event => (
+                <option key={event.id} value={event.id}>
+                  {event.title}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => addMutation.mutate()}
+              disabled={!selectedEventId || addMutation.isPending}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {addMutation.isPending ? 'Adding...' : 'Add to Project'}
+            </button>
+          </div>
+          {run.event_id && (
+            <p className="text-sm text-yellow-700 mt-2">
+              This calculation was already added to a project. Adding it again creates the tasks and materials twice.
+            </p>
+          )}
+          {addMutation.isError && (
+            <p className="text-sm text-red-600 mt-2">
+              {addMutation.error instanceof Error ? addMutation.error.message : 'Failed to add the calculation to the project'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AddToProjectPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { PenTool } from 'lucide-react';
+import AreaSketcher from './AreaSketcher';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import { AreaSketch, SketchCorners, countCorners, measureSketch, parseSketch, sketchVertices } from '../../lib/calculations/polygon';
+
+interface AreaInputProps {
+  label?: string;
+  area: string;
+  onAreaChange: (area: string) => void;
+  // The sketch as JSON, kept with the calculator inputs so a reopened calculation shows it
+  sketch: string;
+  onSketchChange: (sketch: string) => void;
+  // Receives the sketch's perimeter, for edging along it
+  onPerimeterChange?: (perimeter: string) => void;
+  // Receives the sketch's corners, for cutting edging round them
+  onCornersChange?: (corners: SketchCorners) => void;
+}
+
+const AreaInput: React.FC<AreaInputProps> = ({
+  label = 'Area',
+  area,
+  onAreaChange,
+  sketch,
+  onSketchChange,
+  onPerimeterChange,
+  onCornersChange
+}) => {
+  const { unit } = useUnits();
+  const areaSketch = parseSketch(sketch);
+
+  const handleSketchChange = (next: AreaSketch) => {
+    const vertices = sketchVertices(next);
+    const measurement = measureSketch(vertices);
+    onSketchChange(JSON.stringify(next));
+    onAreaChange(measurement.area > 0 ? measurement.area.toString() : '');
+    if (onPerimeterChange) {
+      onPerimeterChange(measurement.perimeter > 0 ? measurement.perimeter.toString() : '');
+    }
+    if (onCornersChange) {
+      onCornersChange(countCorners(vertices));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">{label} ({unit('square meters')})</label>
+        <button
+          type="button"
+          onClick={() => (areaSketch ? onSketchChange('') : handleSketchChange({ mode: 'points', points: [] }))}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <PenTool className="w-4 h-4 mr-1" />
+          {areaSketch ? 'Type Area Instead' : 'Sketch Area'}
+        </button>
+      </div>
+      <UnitInput
+        unit="square meters"
+        value={area}
+        onValueChange={onAreaChange}
+        readOnly={!!areaSketch}
+        className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600 ${areaSketch ? 'bg-gray-100' : ''}`}
+        placeholder={`Enter area in ${unit('square meters')}`}
+      />
+      {areaSketch && <AreaSketcher sketch={areaSketch} onChange={handleSketchChange} />}
+    </div>
+  );
+};
+
+export default AreaInput;
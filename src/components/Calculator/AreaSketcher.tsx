@@ -0,0 +1,294 @@
+import React, { useRef } from 'react';
+import { Plus, Trash2, Undo2 } from 'lucide-react';
+import {
+  AreaSketch,
+  SketchEdge,
+  SketchVertex,
+  arcMidpoint,
+  isClockwise,
+  measureSketch,
+  sketchVertices
+} from '../../lib/calculations/polygon';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+
+interface AreaSketcherProps {
+  sketch: AreaSketch;
+  onChange: (sketch: AreaSketch) => void;
+}
+
+// Clicked corners snap to half a meter
+const SNAP = 0.5;
+// Smallest grid shown, in meters
+const MIN_GRID_SIZE = 10;
+const GRID_MARGIN = 1;
+
+const snap = (value: number) => Math.round(value / SNAP) * SNAP;
+
+/**
+ * Draws an edge as a line or, when it bulges, an arc through its midpoint
+ * @returns The SVG path command for the edge, y flipped so north is up
+ */
+const edgePath = (from: SketchVertex, to: SketchVertex, clockwise: boolean) => {
+  if (from.bulge === 0) return `L ${to.x} ${-to.y}`;
+
+  const mid = arcMidpoint(from, to, clockwise);
+  const chord = Math.hypot(to.x - from.x, to.y - from.y);
+  const sagitta = Math.abs(from.bulge);
+  const radius = (chord * chord / 4 + sagitta * sagitta) / (2 * sagitta);
+  // On screen the arc bends to the side of the midpoint
+  const cross = (to.x - from.x) * (-mid.y + from.y) - (-to.y + from.y) * (mid.x - from.x);
+  return `A ${radius} ${radius} 0 ${sagitta > chord / 2 ? 1 : 0} ${cross > 0 ? 0 : 1} ${to.x} ${-to.y}`;
+};
+
+const AreaSketcher: React.FC<AreaSketcherProps> = ({ sketch, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { unit, symbol, value } = useUnits();
+  const vertices = sketchVertices(sketch);
+  const clockwise = isClockwise(vertices);
+  const measurement = measureSketch(vertices);
+
+  // Fit the grid around the shape, arcs included
+  const extents = vertices.flatMap((vertex, index) => [
+    vertex,
+    arcMidpoint(vertex, vertices[(index + 1) % vertices.length], clockwise)
+  ]);
+  const minX = Math.floor(Math.min(0, ...extents.map(point => point.x))) - GRID_MARGIN;
+  const minY = Math.floor(Math.min(0, ...extents.map(point => point.y))) - GRID_MARGIN;
+  const size = Math.max(
+    MIN_GRID_SIZE,
+    Math.ceil(Math.max(...extents.map(point => point.x), 0) - minX) + GRID_MARGIN,
+    Math.ceil(Math.max(...extents.map(point => point.y), 0) - minY) + GRID_MARGIN
+  );
+  const fontSize = size / 35;
+
+  const path = vertices.length > 1
+    ? `M ${vertices[0].x} ${-vertices[0].y} ` +
+      vertices.map((vertex, index) => edgePath(vertex, vertices[(index + 1) % vertices.length], clockwise)).join(' ') +
+      ' Z'
+    : '';
+
+  const handleGridClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (sketch.mode !== 'points' || !svgRef.current) return;
+
+    const matrix = svgRef.current.getScreenCTM();
+    if (!matrix) return;
+    const point = svgRef.current.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const { x, y } = point.matrixTransform(matrix.inverse());
+
+    onChange({ mode: 'points', points: [...sketch.points, { x: snap(x), y: snap(-y), bulge: 0 }] });
+  };
+
+  const updateBulge = (index: number, bulge: number) => {
+    if (sketch.mode === 'points') {
+      onChange({ ...sketch, points: sketch.points.map((point, i) => (i === index ? { ...point, bulge } : point)) });
+    } else {
+      updateEdge(index, { bulge });
+    }
+  };
+
+  const updateEdge = (index: number, changes: Partial<SketchEdge>) => {
+    if (sketch.mode !== 'edges') return;
+    onChange({ ...sketch, edges: sketch.edges.map((edge, i) => (i === index ? { ...edge, ...changes } : edge)) });
+  };
+
+  const switchMode = (mode: AreaSketch['mode']) => {
+    if (mode === sketch.mode) return;
+    onChange(mode === 'points'
+      ? { mode: 'points', points: [] }
+      : { mode: 'edges', edges: [{ length: 0, turn: 0, bulge: 0 }] });
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-3 bg-gray-50">
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => switchMode('points')}
+          className={`px-3 py-1 rounded-md text-sm ${sketch.mode === 'points' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border'}`}
+        >
+          Click Corners
+        </button>
+        <button
+          type="button"
+          onClick={() => switchMode('edges')}
+          className={`px-3 py-1 rounded-md text-sm ${sketch.mode === 'edges' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border'}`}
+        >
+          Enter Edges
+        </button>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`${minX} ${-(minY + size)} ${size} ${size}`}
+        className={`w-full max-w-md aspect-square bg-white border rounded ${sketch.mode === 'points' ? 'cursor-crosshair' : ''}`}
+        onClick={handleGridClick}
+      >
+        {/* One meter grid */}
+        {Array.from({ length: size + 1 }, (_, i) => (
+          <g key={i}>
+            <line x1={minX + i} y1={-minY} x2={minX + i} y2={-(minY + size)} stroke="#e5e7eb" vectorEffect="non-scaling-stroke" />
+            <line x1={minX} y1={-(minY + i)} x2={minX + size} y2={-(minY + i)} stroke="#e5e7eb" vectorEffect="non-scaling-stroke" />
+          </g>
+        ))}
+        {path && (
+          <path d={path} fill="rgba(37, 99, 235, 0.15)" stroke="#2563eb" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        )}
+        {vertices.map((vertex, index) => (
+          <circle key={index} cx={vertex.x} cy={-vertex.y} r={size / 120} fill="#2563eb" />
+        ))}
+        {vertices.length > 1 && vertices.map((vertex, index) => {
+          const next = vertices[(index + 1) % vertices.length];
+          const label = arcMidpoint(vertex, next, clockwise);
+          return (
+            <text key={index} x={label.x} y={-label.y} fontSize={fontSize} textAnchor="middle" fill="#374151">
+              {value(Math.hypot(next.x - vertex.x, next.y - vertex.y), 'meters').toFixed(2)}{symbol('meters')}
+            </text>
+          );
+        })}
+      </svg>
+
+      {sketch.mode === 'points' ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Click the corners in order around the area. The last corner joins back to the first.
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => onChange({ mode: 'points', points: sketch.points.slice(0, -1) })}
+              disabled={sketch.points.length === 0}
+              className="flex items-center px-3 py-1 text-sm bg-white border rounded-md disabled:opacity-50"
+            >
+              <Undo2 className="w-4 h-4 mr-1" />
+              Undo
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange({ mode: 'points', points: [] })}
+              disabled={sketch.points.length === 0}
+              className="flex items-center px-3 py-1 text-sm bg-white border rounded-md disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Clear
+            </button>
+          </div>
+          {sketch.points.length > 2 && (
+            <table className="text-sm">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="pr-4 text-left font-medium">Edge</th>
+                  <th className="pr-4 text-right font-medium">Length</th>
+                  <th className="text-left font-medium">Curve ({symbol('meters')})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sketch.points.map((point, index) => (
+                  <tr key={index}>
+                    <td className="pr-4">{index + 1}</td>
+                    <td className="pr-4 text-right">
+                      {value(Math.hypot(
+                        sketch.points[(index + 1) % sketch.points.length].x - point.x,
+                        sketch.points[(index + 1) % sketch.points.length].y - point.y
+                      ), 'meters').toFixed(2)}{symbol('meters')}
+                    </td>
+                    <td>
+                      <UnitInput
+                        unit="meters"
+                        step="0.1"
+                        value={String(point.bulge)}
+                        onValueChange={(bulge) => updateBulge(index, parseFloat(bulge) || 0)}
+                        className="w-20 p-1 border rounded text-sm"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Enter each edge in turn. Turn is the angle turned left from the previous edge, negative to turn right.
+            The shape is closed back to the start with a straight edge.
+          </p>
+          <table className="text-sm">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="pr-2 text-left font-medium">Edge</th>
+                <th className="pr-2 text-left font-medium">Length ({symbol('meters')})</th>
+                <th className="pr-2 text-left font-medium">Turn (°)</th>
+                <th className="pr-2 text-left font-medium">Curve ({symbol('meters')})</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {sketch.edges.map((edge, index) => (
+                <tr key={index}>
+                  <td className="pr-2">{index + 1}</td>
+                  <td className="pr-2">
+                    <UnitInput
+                      unit="meters"
+                      step="0.1"
+                      value={String(edge.length)}
+                      onValueChange={(length) => updateEdge(index, { length: parseFloat(length) || 0 })}
+                      className="w-20 p-1 border rounded text-sm"
+                    />
+                  </td>
+                  <td className="pr-2">
+                    <input
+                      type="number"
+                      value={edge.turn}
+                      onChange={(e) => updateEdge(index, { turn: parseFloat(e.target.value) || 0 })}
+                      className="w-20 p-1 border rounded text-sm"
+                      disabled={index === 0}
+                    />
+                  </td>
+                  <td className="pr-2">
+                    <UnitInput
+                      unit="meters"
+                      step="0.1"
+                      value={String(edge.bulge)}
+                      onValueChange={(bulge) => updateEdge(index, { bulge: parseFloat(bulge) || 0 })}
+                      className="w-20 p-1 border rounded text-sm"
+                    />
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() => onChange({ ...sketch, edges: sketch.edges.filter((_, i) => i !== index) })}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            type="button"
+            onClick={() => onChange({ ...sketch, edges: [...sketch.edges, { length: 0, turn: 90, bulge: 0 }] })}
+            className="flex items-center px-3 py-1 text-sm bg-white border rounded-md"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Edge
+          </button>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        A positive curve bows the edge outwards by that many {unit('meters')} at its middle, a negative one inwards.
+      </p>
+      <div className="flex gap-6 text-sm font-medium text-gray-900">
+        <span>Area: {value(measurement.area, 'square meters').toFixed(2)} {symbol('square meters')}</span>
+        <span>Perimeter: {value(measurement.perimeter, 'meters').toFixed(2)} {symbol('meters')}</span>
+      </div>
+    </div>
+  );
+};
+
+export default AreaSketcher;
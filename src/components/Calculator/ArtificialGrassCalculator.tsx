@@ -1,187 +1,118 @@
 import React, { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '../../lib/supabase';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import AreaInput from './AreaInput';
+import EdgingInput from './EdgingInput';
+import { fetchMappedTaskTemplates } from '../../lib/calculatorTaskMappings';
+import { fetchMaterialPrices, fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, PricedMaterial } from '../../lib/calculations/common';
+import { calculateArtificialGrass } from '../../lib/calculations/surfaces';
+import { SketchCorners } from '../../lib/calculations/polygon';
+import { EdgingType, calculateEdging, edgingOutputKeys, linkEdging } from '../../lib/calculations/edging';
 
-interface Material {
-  name: string;
-  amount: number;
-  unit: string;
-  price_per_unit: number | null;
-  total_price: number | null;
-}
-
-interface ArtificialGrassCalculatorProps {
+interface ArtificialGrassCalculatorProps extends CalculatorInputProps {
   onResultsChange?: (results: any) => void;
 }
 
-const ArtificialGrassCalculator: React.FC<ArtificialGrassCalculatorProps> = ({ onResultsChange }) => {
-  const [area, setArea] = useState<string>('');
-  const [tape1ThicknessCm, setTape1ThicknessCm] = useState<string>('');
-  const [sandThicknessCm, setSandThicknessCm] = useState<string>('');
-  const [materials, setMaterials] = useState<Material[]>([]);
-  const [totalHours, setTotalHours] = useState<number | null>(null);
+const ArtificialGrassCalculator: React.FC<ArtificialGrassCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, material: displayMaterial } = useUnits();
+  const [area, setArea] = useState<string>(initialInputs?.area as string ?? '');
+  const [areaSketch, setAreaSketch] = useState<string>(initialInputs?.areaSketch as string ?? '');
+  const [edgingLength, setEdgingLength] = useState<string>(initialInputs?.edgingLength as string ?? '');
+  const [edgingType, setEdgingType] = useState<string>(initialInputs?.edgingType as string ?? '');
+  const [internalCorners, setInternalCorners] = useState<string>(initialInputs?.internalCorners as string ?? '0');
+  const [externalCorners, setExternalCorners] = useState<string>(initialInputs?.externalCorners as string ?? '4');
+  const [tape1ThicknessCm, setTape1ThicknessCm] = useState<string>(initialInputs?.tape1ThicknessCm as string ?? '');
+  const [sandThicknessCm, setSandThicknessCm] = useState<string>(initialInputs?.sandThicknessCm as string ?? '');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [materials, setMaterials] = useState<PricedMaterial[]>([]);
   const [calculationError, setCalculationError] = useState<string | null>(null);
-  const [taskBreakdown, setTaskBreakdown] = useState<{task: string, hours: number}[]>([]);
 
-  // Fetch task template for artificial grass laying
-  const { data: layingTask, isLoading } = useQuery({
-    queryKey: ['artificial_grass_laying_task'],
-    queryFn: async () => {
-      console.log('Fetching artificial grass laying task...');
-      const { data, error } = await supabase
-        .from('event_tasks_with_dynamic_estimates')
-        .select('id, name, unit, estimated_hours')
-        .eq('name', 'laying artificial grass')
-        .single();
-      
-      if (error) {
-        console.error('Error fetching laying task:', error);
-        throw error;
-      }
-      
-      console.log('Fetched laying task:', data);
-      if (!data) {
-        throw new Error('No task found for laying artificial grass');
-      }
-      
-      return data;
-    }
+  useCalculatorInputs({ area, areaSketch, edgingLength, edgingType, internalCorners, externalCorners, tape1ThicknessCm, sandThicknessCm }, onInputsChange);
+
+  // Fetch the task template bound to artificial grass laying in Setup
+  const { data: mappedTasks = {}, isLoading } = useQuery({
+    queryKey: ['mapped_task_templates', 'grass'],
+    queryFn: () => fetchMappedTaskTemplates(['grass.laying'])
   });
 
-  const fetchMaterialPrices = async (materials: Material[]) => {
-    try {
-      const materialNames = materials.map(m => m.name);
-      
-      const { data, error } = await supabase
-        .from('materials')
-        .select('name, price')
-        .in('name', materialNames);
-      
-      if (error) throw error;
-      
-      const priceMap = data.reduce((acc, item) => {
-        acc[item.name] = item.price;
-        return acc;
-      }, {} as Record<string, number>);
-      
-      return materials.map(material => ({
-        ...material,
-        price_per_unit: priceMap[material.name] || null,
-        total_price: priceMap[material.name] ? priceMap[material.name] * material.amount : null
-      }));
-    } catch (err) {
-      console.error('Error fetching material prices:', err);
-      return materials.map(material => ({
-        ...material,
-        price_per_unit: null,
-        total_price: null
-      }));
-    }
-  };
+  // Fetch the task templates bound to the edging laid round the grass
+  const edgingKeys = edgingOutputKeys(edgingType as EdgingType);
+  const { data: edgingTasks = {} } = useQuery({
+    queryKey: ['mapped_task_templates', edgingKeys.laying, edgingKeys.corners, edgingKeys.haunching],
+    queryFn: () => fetchMappedTaskTemplates([edgingKeys.laying, edgingKeys.corners, edgingKeys.haunching]),
+    enabled: !!edgingType
+  });
+
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
 
   const calculate = async () => {
     if (!area || !tape1ThicknessCm || !sandThicknessCm) {
       setCalculationError('Please fill in all required fields');
       return;
     }
-
-    setCalculationError(null);
+    if (edgingType && !edgingLength) {
+      setCalculationError('Please enter the edging length');
+      return;
+    }
 
     try {
-      const areaNum = parseFloat(area);
-      const tape1ThicknessM = parseFloat(tape1ThicknessCm) / 100;
-      const sandThicknessM = parseFloat(sandThicknessCm) / 100;
-
-      // Calculate base hours needed for installation
-      let mainTaskHours = 0;
-      console.log('Laying task data:', layingTask);
-      
-      if (layingTask?.unit && layingTask?.estimated_hours !== undefined) {
-        console.log(`Task: ${layingTask.name}, Unit: ${layingTask.unit}, Estimated hours: ${layingTask.estimated_hours}`);
-        
-        if (layingTask.unit.toLowerCase() === 'm2') {
-          mainTaskHours = areaNum * layingTask.estimated_hours;
-          console.log(`Calculated main task hours: ${areaNum} m² × ${layingTask.estimated_hours} hours/m² = ${mainTaskHours} hours`);
-        } else {
-          console.warn('Task unit is not m2:', layingTask.unit);
-          mainTaskHours = areaNum * layingTask.estimated_hours;
-        }
-      } else {
-        console.warn('Laying task has no unit or estimated_hours:', layingTask);
-      }
-
-      // Calculate materials needed
-      const totalDepthM = tape1ThicknessM + sandThicknessM;
-
-      // Calculate soil to be excavated (area × total depth)
-      const soilVolume = areaNum * totalDepthM;
-      const soilTonnes = soilVolume * 1.5; // 1.5 tonnes per cubic meter
-
-      // Calculate sand needed (area × sand thickness)
-      const sandVolume = areaNum * sandThicknessM;
-      const sandTonnes = sandVolume * 1.6; // 1.6 tonnes per cubic meter
+      const grass = calculateArtificialGrass({
+        area: parseFloat(area),
+        type1ThicknessCm: parseFloat(tape1ThicknessCm),
+        sandThicknessCm: parseFloat(sandThicknessCm),
+        // Chosen edging is calculated below instead of listed by the meter
+        edgingLength: edgingLength && !edgingType ? parseFloat(edgingLength) : 0
+      }, {
+        laying: mappedTasks['grass.laying']
+      }, materialProperties);
+      const calculation = edgingType
+        ? linkEdging(grass, calculateEdging({
+          type: edgingType as EdgingType,
+          length: parseFloat(edgingLength),
+          internalCorners: parseInt(internalCorners) || 0,
+          externalCorners: parseInt(externalCorners) || 0
+        }, {
+          laying: edgingTasks[edgingKeys.laying],
+          corners: edgingTasks[edgingKeys.corners],
+          haunching: edgingTasks[edgingKeys.haunching]
+        }, materialProperties))
+        : grass;
 
-      // Calculate Type 1 needed (area × Type 1 thickness)
-      const tape1Volume = areaNum * tape1ThicknessM;
-      const tape1Tonnes = tape1Volume * 2.1; // Updated to 2.1 tonnes per cubic meter to match AggregateCalculator
-
-      // Create task breakdown
-      const breakdown = [
-        { task: 'Laying Artificial Grass', hours: mainTaskHours }
-      ];
-
-      // Calculate total hours
-      const totalHours = breakdown.reduce((sum, item) => sum + item.hours, 0);
-
-      // Prepare materials list
-      const materialsList: Material[] = [
-        { name: 'Soil excavation', amount: Number(soilTonnes.toFixed(2)), unit: 'tonnes', price_per_unit: null, total_price: null },
-        { name: 'Sand', amount: Number(sandTonnes.toFixed(2)), unit: 'tonnes', price_per_unit: null, total_price: null },
-        { name: 'tape1', amount: Number(tape1Tonnes.toFixed(2)), unit: 'tonnes', price_per_unit: null, total_price: null }
-      ];
-
-      // Fetch prices and update state
-      const materialsWithPrices = await fetchMaterialPrices(materialsList);
-      
-      setMaterials(materialsWithPrices);
-      setTotalHours(totalHours);
-      setTaskBreakdown(breakdown);
+      setMaterials(await fetchMaterialPrices(calculation.materials));
+      setResult(calculation);
+      setCalculationError(null);
     } catch (error) {
       console.error('Calculation error:', error);
-      setCalculationError('An error occurred during calculation');
+      setCalculationError(error instanceof Error ? error.message : 'An error occurred during calculation');
     }
   };
 
-  // Add useEffect to notify parent of result changes
-  useEffect(() => {
-    if (totalHours !== null && materials.length > 0) {
-      const formattedResults = {
-        name: 'Artificial Grass Installation',
-        amount: parseFloat(area) || 0,
-        hours_worked: totalHours,
-        materials: materials.map(material => ({
-          name: material.name,
-          quantity: material.amount,
-          unit: material.unit
-        })),
-        taskBreakdown: taskBreakdown.map(task => ({
-          task: task.task,
-          hours: task.hours
-        }))
-      };
+  const handleCornersChange = (corners: SketchCorners) => {
+    setInternalCorners(corners.internal.toString());
+    setExternalCorners(corners.external.toString());
+  };
 
+  // Notify parent of result changes
+  useEffect(() => {
+    if (result) {
       // Store results in data attribute
       const calculatorElement = document.querySelector('[data-calculator-results]');
       if (calculatorElement) {
-        calculatorElement.setAttribute('data-results', JSON.stringify(formattedResults));
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
       }
 
-      // Notify parent component
       if (onResultsChange) {
-        onResultsChange(formattedResults);
+        onResultsChange(result);
       }
     }
-  }, [totalHours, materials, taskBreakdown, area, onResultsChange]);
+  }, [result, onResultsChange]);
 
   if (isLoading) {
     return (
@@ -199,40 +130,55 @@ const ArtificialGrassCalculator: React.FC<ArtificialGrassCalculatorProps> = ({ o
       </p>
       
       <div className="space-y-4">
+        <AreaInput
+          area={area}
+          onAreaChange={setArea}
+          sketch={areaSketch}
+          onSketchChange={setAreaSketch}
+          onPerimeterChange={setEdgingLength}
+          onCornersChange={handleCornersChange}
+        />
         <div>
-          <label className="block text-sm font-medium text-gray-700">Area (m²)</label>
-          <input
-            type="number"
-            value={area}
-            onChange={(e) => setArea(e.target.value)}
+          <label className="block text-sm font-medium text-gray-700">Edging Length ({unit('meters')}, optional)</label>
+          <UnitInput
+            unit="meters"
+            value={edgingLength}
+            onValueChange={setEdgingLength}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-input"
-            placeholder="Enter area in square meters"
-            min="0"
-            step="0.01"
+            placeholder="Filled in from the sketched perimeter"
           />
         </div>
+        <EdgingInput
+          type={edgingType}
+          onTypeChange={setEdgingType}
+          internalCorners={internalCorners}
+          onInternalCornersChange={setInternalCorners}
+          externalCorners={externalCorners}
+          onExternalCornersChange={setExternalCorners}
+          noneLabel="Edging by the meter"
+        />
         
         <div>
-          <label className="block text-sm font-medium text-gray-700">Type 1 Aggregate Thickness (cm)</label>
-          <input
-            type="number"
+          <label className="block text-sm font-medium text-gray-700">Type 1 Aggregate Thickness ({unit('cm')})</label>
+          <UnitInput
+            unit="cm"
             value={tape1ThicknessCm}
-            onChange={(e) => setTape1ThicknessCm(e.target.value)}
+            onValueChange={setTape1ThicknessCm}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-input"
-            placeholder="Enter thickness in centimeters"
+            placeholder={`Enter thickness in ${unit('cm')}`}
             min="0"
             step="0.5"
           />
         </div>
         
         <div>
-          <label className="block text-sm font-medium text-gray-700">Sand Thickness (cm)</label>
-          <input
-            type="number"
+          <label className="block text-sm font-medium text-gray-700">Sand Thickness ({unit('cm')})</label>
+          <UnitInput
+            unit="cm"
             value={sandThicknessCm}
-            onChange={(e) => setSandThicknessCm(e.target.value)}
+            onValueChange={setSandThicknessCm}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-input"
-            placeholder="Enter thickness in centimeters"
+            placeholder={`Enter thickness in ${unit('cm')}`}
             min="0"
             step="0.5"
           />
@@ -252,15 +198,15 @@ const ArtificialGrassCalculator: React.FC<ArtificialGrassCalculatorProps> = ({ o
           </div>
         )}
         
-        {(totalHours !== null || materials.length > 0) && (
+        {result && (
           <div className="mt-6 space-y-4">
             <div>
-              <h3 className="text-lg font-medium">Total Labor Hours: <span className="text-blue-600">{totalHours?.toFixed(2)} hours</span></h3>
+              <h3 className="text-lg font-medium">Total Labor Hours: <span className="text-blue-600">{result.hours_worked.toFixed(2)} hours</span></h3>
               
               <div className="mt-2">
                 <h4 className="font-medium text-gray-700 mb-2">Task Breakdown:</h4>
                 <ul className="space-y-1 pl-5 list-disc">
-                  {taskBreakdown.map((task, index) => (
+                  {result.taskBreakdown.map((task, index) => (
                     <li key={index} className="text-sm">
                       <span className="font-medium">{task.task}:</span> {task.hours.toFixed(2)} hours
                     </li>
@@ -293,13 +239,13 @@ const ArtificialGrassCalculator: React.FC<ArtificialGrassCalculatorProps> = ({ o
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
-                    {materials.map((material, index) => (
+                    {materials.map(displayMaterial).map((material, index) => (
                       <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {material.name}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {material.amount.toFixed(2)}
+                          {material.quantity.toFixed(2)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {material.unit}
@@ -334,4 +280,4 @@ const ArtificialGrassCalculator: React.FC<ArtificialGrassCalculatorProps> = ({ o
   );
 };
 
-export default ArtificialGrassCalculator;
+export default ArtificialGrassCalculator;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { CalculatorRun } from '../../lib/calculatorRuns';
+
+interface CalculatorRunHistoryProps {
+  runs: CalculatorRun[];
+  isLoading: boolean;
+  // Label of the calculator a run was made with
+  labelOf: (run: CalculatorRun) => string;
+  onOpen: (run: CalculatorRun) => void;
+}
+
+const CalculatorRunHistory: React.FC<CalculatorRunHistoryProps> = ({ runs, isLoading, labelOf, onOpen }) => (
+  <div className="bg-white rounded-lg shadow p-4">
+    <div className="flex items-center mb-3">
+      <History className="w-5 h-5 text-gray-600 mr-2" />
+      <h3 className="font-medium text-gray-900">Recent Calculations</h3>
+    </div>
+
+    {isLoading ? (
+      <p className="text-sm text-gray-500">Loading...</p>
+    ) : runs.length === 0 ? (
+      <p className="text-sm text-gray-500">Your calculations will appear here</p>
+    ) : (
+      <ul className="space-y-2">
+        {runs.map(run => (
+          <li key={run.id}>
+            <button
+              onClick={() => onOpen(run)}
+              disabled={!run.inputs}
+              title={run.inputs ? 'Reopen with these inputs' : 'This calculator does not keep its inputs'}
+              className="w-full text-left p-2 rounded-md hover:bg-gray-100 disabled:hover:bg-transparent disabled:cursor-default group"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-800">{run.results.name}</span>
+                {run.inputs && <RotateCcw className="w-4 h-4 text-gray-400 group-hover:text-blue-600" />}
+              </div>
+              <div className="text-xs text-gray-500">
+                {labelOf(run)} · {run.results.amount} {run.results.unit || ''} · {run.results.hours_worked.toFixed(2)} h
+              </div>
+              <div className="text-xs text-gray-400">
+                {format(new Date(run.created_at), 'MMM d, h:mm a')}
+                {run.event_id && <span className="ml-2 text-green-600">Added to project</span>}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default CalculatorRunHistory;
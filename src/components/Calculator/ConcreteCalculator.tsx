@@ -0,0 +1,331 @@
+import React, { useState, useEffect, ChangeEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import AreaInput from './AreaInput';
+import { fetchMappedTaskTemplates } from '../../lib/calculatorTaskMappings';
+import { fetchMaterialPrices, fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, PricedMaterial } from '../../lib/calculations/common';
+import { measureSavedSketch } from '../../lib/calculations/polygon';
+import {
+  CONCRETE_MIXES,
+  ConcreteSupply,
+  MESH_OPTIONS,
+  ReinforcementMesh,
+  calculateConcreteBase,
+  concreteOutputKeys
+} from '../../lib/calculations/concrete';
+
+interface ConcreteCalculatorProps extends CalculatorInputProps {
+  onResultsChange?: (results: CalculationResult) => void;
+}
+
+const ConcreteCalculator: React.FC<ConcreteCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, material: displayMaterial } = useUnits();
+  // A rectangular base is measured, any other shape is sketched
+  const [shape, setShape] = useState<'rectangle' | 'sketch'>(initialInputs?.shape as 'rectangle' | 'sketch' ?? 'rectangle');
+  const [length, setLength] = useState<string>(initialInputs?.length as string ?? '');
+  const [width, setWidth] = useState<string>(initialInputs?.width as string ?? '');
+  const [area, setArea] = useState<string>(initialInputs?.area as string ?? '');
+  const [areaSketch, setAreaSketch] = useState<string>(initialInputs?.areaSketch as string ?? '');
+  const [depth, setDepth] = useState<string>(initialInputs?.depth as string ?? '10');
+  const [subBaseDepth, setSubBaseDepth] = useState<string>(initialInputs?.subBaseDepth as string ?? '10');
+  const [supply, setSupply] = useState<ConcreteSupply>(initialInputs?.supply as ConcreteSupply ?? 'readymix');
+  const [mix, setMix] = useState<string>(initialInputs?.mix as string ?? '1:2:4');
+  const [mesh, setMesh] = useState<ReinforcementMesh>(initialInputs?.mesh as ReinforcementMesh ?? 'A142');
+  const [dpm, setDpm] = useState<boolean>(initialInputs?.dpm as boolean ?? true);
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [materials, setMaterials] = useState<PricedMaterial[]>([]);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+
+  useCalculatorInputs({ shape, length, width, area, areaSketch, depth, subBaseDepth, supply, mix, mesh, dpm }, onInputsChange);
+
+  // Fetch the task templates bound to the concrete outputs in Setup
+  const outputKeys = concreteOutputKeys(supply);
+  const { data: mappedTasks = {}, isLoading } = useQuery({
+    queryKey: ['mapped_task_templates', outputKeys.formwork, outputKeys.subBase, outputKeys.mesh, outputKeys.pour],
+    queryFn: () => fetchMappedTaskTemplates([outputKeys.formwork, outputKeys.subBase, outputKeys.mesh, outputKeys.pour])
+  });
+
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>, setter: (value: string) => void) => {
+    setter(e.target.value);
+  };
+
+  const calculate = async () => {
+    if (shape === 'rectangle' ? !length || !width : !area) {
+      setCalculationError('Please fill in all required fields');
+      return;
+    }
+
+    try {
+      const baseLength = parseFloat(length);
+      const baseWidth = parseFloat(width);
+      const measurement = shape === 'sketch' ? measureSavedSketch(areaSketch) : null;
+      if (shape === 'sketch' && !measurement) {
+        throw new Error('Please sketch the base to measure its edge for formwork');
+      }
+
+      const calculation = calculateConcreteBase({
+        area: shape === 'rectangle' ? baseLength * baseWidth : parseFloat(area),
+        perimeter: shape === 'rectangle' ? 2 * (baseLength + baseWidth) : measurement!.perimeter,
+        depth: parseFloat(depth),
+        subBaseDepth: parseFloat(subBaseDepth) || 0,
+        supply,
+        mix,
+        mesh,
+        dpm
+      }, {
+        formwork: mappedTasks[outputKeys.formwork],
+        subBase: mappedTasks[outputKeys.subBase],
+        mesh: mappedTasks[outputKeys.mesh],
+        pour: mappedTasks[outputKeys.pour]
+      }, materialProperties);
+
+      setMaterials(await fetchMaterialPrices(calculation.materials));
+      setResult(calculation);
+      setCalculationError(null);
+    } catch (error) {
+      setCalculationError(error instanceof Error ? error.message : 'Please enter valid numbers');
+    }
+  };
+
+  // Notify parent of result changes
+  useEffect(() => {
+    if (result) {
+      // Store results in data attribute
+      const calculatorElement = document.querySelector('[data-calculator-results]');
+      if (calculatorElement) {
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
+      }
+
+      if (onResultsChange) {
+        onResultsChange(result);
+      }
+    }
+  }, [result, onResultsChange]);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold">Concrete Base Calculator</h2>
+      <p className="text-sm text-gray-600">
+        Calculate concrete, mesh, formwork, membrane, sub-base and time for a shed or garden room base.
+      </p>
+
+      <div className="flex space-x-2">
+        <button
+          className={`px-4 py-2 rounded-md ${shape === 'rectangle' ? 'bg-blue-600 text-white' : 'bg-gray-300'}`}
+          onClick={() => setShape('rectangle')}
+        >
+          Rectangle
+        </button>
+        <button
+          className={`px-4 py-2 rounded-md ${shape === 'sketch' ? 'bg-blue-600 text-white' : 'bg-gray-300'}`}
+          onClick={() => setShape('sketch')}
+        >
+          Other Shape
+        </button>
+      </div>
+
+      {shape === 'rectangle' ? (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Base Length ({symbol('meters')})</label>
+            <UnitInput
+              unit="meters"
+              value={length}
+              onValueChange={setLength}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              placeholder={`Enter length in ${unit('meters')}`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Base Width ({symbol('meters')})</label>
+            <UnitInput
+              unit="meters"
+              value={width}
+              onValueChange={setWidth}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              placeholder={`Enter width in ${unit('meters')}`}
+            />
+          </div>
+        </div>
+      ) : (
+        <AreaInput
+          label="Base Area"
+          area={area}
+          onAreaChange={setArea}
+          sketch={areaSketch}
+          onSketchChange={setAreaSketch}
+        />
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Concrete Depth ({unit('cm')})</label>
+          <UnitInput
+            unit="cm"
+            value={depth}
+            onValueChange={setDepth}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Type 1 Sub-base Depth ({unit('cm')})</label>
+          <UnitInput
+            unit="cm"
+            value={subBaseDepth}
+            onValueChange={setSubBaseDepth}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Concrete</label>
+          <select
+            value={supply}
+            onChange={(e) => setSupply(e.target.value as ConcreteSupply)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="readymix">Ready-mix</option>
+            <option value="site">Mixed on site</option>
+          </select>
+        </div>
+        {supply === 'site' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Mix (cement:sand:gravel)</label>
+            <select
+              value={mix}
+              onChange={(e) => handleInputChange(e, setMix)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {CONCRETE_MIXES.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Reinforcement</label>
+          <select
+            value={mesh}
+            onChange={(e) => setMesh(e.target.value as ReinforcementMesh)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {MESH_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}{option.lap > 0 ? ` (${option.lap * 1000}mm laps)` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end pb-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={dpm}
+              onChange={(e) => setDpm(e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 rounded"
+            />
+            Damp proof membrane
+          </label>
+        </div>
+      </div>
+
+      <button
+        onClick={calculate}
+        disabled={isLoading}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-blue-300"
+      >
+        {isLoading ? 'Loading...' : 'Calculate'}
+      </button>
+
+      {calculationError && (
+        <div className="mt-4 p-4 bg-red-100 text-red-700 rounded-md">
+          {calculationError}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-6 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Labor Breakdown</h3>
+            <div className="space-y-2">
+              {result.taskBreakdown.map((task, index) => (
+                <div key={index} className="flex justify-between text-gray-700">
+                  <span>{task.task}</span>
+                  <span className="font-medium">{task.hours.toFixed(2)} hours</span>
+                </div>
+              ))}
+              <div className="pt-2 mt-2 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Labor Hours</span>
+                  <span>{result.hours_worked.toFixed(2)} hours</span>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Materials Required</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Material</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Amount</th>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Price/Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {materials.map(displayMaterial).map((material, index) => (
+                      <tr key={index} className="text-gray-700">
+                        <td className="px-3 py-2">{material.name}</td>
+                        <td className="px-3 py-2 text-right">{material.quantity.toFixed(2)}</td>
+                        <td className="px-3 py-2">{material.unit}</td>
+                        <td className="px-3 py-2 text-right">
+                          {material.price_per_unit ? `£${material.price_per_unit.toFixed(2)}` : 'N/A'}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {material.total_price ? `£${material.total_price.toFixed(2)}` : 'N/A'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="pt-4 mt-4 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Material Cost</span>
+                  <span>
+                    £{materials.reduce((sum: number, material: PricedMaterial) => sum + (material.total_price || 0), 0).toFixed(2)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConcreteCalculator;
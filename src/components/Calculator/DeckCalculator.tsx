@@ -0,0 +1,289 @@
+import React, { useState, useEffect, ChangeEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import { fetchMappedTaskTemplates } from '../../lib/calculatorTaskMappings';
+import { fetchMaterialPrices, fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, PricedMaterial } from '../../lib/calculations/common';
+import { calculateDeck, deckOutputKeys } from '../../lib/calculations/deck';
+
+interface DeckCalculatorProps extends CalculatorInputProps {
+  deckType: 'timber' | 'composite';
+  onResultsChange?: (results: CalculationResult) => void;
+}
+
+const DeckCalculator: React.FC<DeckCalculatorProps> = ({ deckType, onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, format, material: displayMaterial } = useUnits();
+  const [length, setLength] = useState(initialInputs?.length as string ?? '');
+  const [width, setWidth] = useState(initialInputs?.width as string ?? '');
+  const [height, setHeight] = useState(initialInputs?.height as string ?? '0.3');
+  const [boardWidth, setBoardWidth] = useState(initialInputs?.boardWidth as string ?? (deckType === 'composite' ? '140' : '120'));
+  const [boardLength, setBoardLength] = useState(initialInputs?.boardLength as string ?? (deckType === 'composite' ? '3.6' : '4.8'));
+  const [joistSpacing, setJoistSpacing] = useState(initialInputs?.joistSpacing as string ?? (deckType === 'composite' ? '30' : '40'));
+  const [boardDirection, setBoardDirection] = useState<'length' | 'width'>(initialInputs?.boardDirection as 'length' | 'width' ?? 'length');
+  const [postmixPerPost, setPostmixPerPost] = useState(initialInputs?.postmixPerPost as string ?? '1');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [materials, setMaterials] = useState<PricedMaterial[]>([]);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+
+  useCalculatorInputs({ length, width, height, boardWidth, boardLength, joistSpacing, boardDirection, postmixPerPost }, onInputsChange);
+
+  // Fetch the task templates bound to the deck outputs in Setup
+  const outputKeys = deckOutputKeys(deckType);
+  const { data: mappedTasks = {}, isLoading } = useQuery({
+    queryKey: ['mapped_task_templates', outputKeys.posts, outputKeys.frame, outputKeys.boards],
+    queryFn: () => fetchMappedTaskTemplates([outputKeys.posts, outputKeys.frame, outputKeys.boards])
+  });
+
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>, setter: (value: string) => void) => {
+    setter(e.target.value);
+  };
+
+  const calculate = async () => {
+    if (!length || !width) {
+      setCalculationError('Please fill in all required fields');
+      return;
+    }
+
+    try {
+      const calculation = calculateDeck({
+        deckType,
+        length: parseFloat(length),
+        width: parseFloat(width),
+        height: parseFloat(height) || 0,
+        boardWidth: parseFloat(boardWidth),
+        boardLength: parseFloat(boardLength),
+        joistSpacing: parseFloat(joistSpacing),
+        boardDirection,
+        postmixPerPost: parseFloat(postmixPerPost) || 0
+      }, {
+        posts: mappedTasks[outputKeys.posts],
+        frame: mappedTasks[outputKeys.frame],
+        boards: mappedTasks[outputKeys.boards]
+      }, materialProperties);
+
+      setMaterials(await fetchMaterialPrices(calculation.materials));
+      setResult(calculation);
+      setCalculationError(null);
+    } catch (error) {
+      setCalculationError(error instanceof Error ? error.message : 'Please enter valid numbers');
+    }
+  };
+
+  // Notify parent of result changes
+  useEffect(() => {
+    if (result) {
+      // Store results in data attribute
+      const calculatorElement = document.querySelector('[data-calculator-results]');
+      if (calculatorElement) {
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
+      }
+
+      if (onResultsChange) {
+        onResultsChange(result);
+      }
+    }
+  }, [result, onResultsChange]);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold">{deckType === 'composite' ? 'Composite' : 'Timber'} Deck Calculator</h2>
+      <p className="text-sm text-gray-600">
+        Calculate boards, frame timber, posts, fixings and time for a {deckType} deck.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Deck Length ({symbol('meters')})</label>
+          <UnitInput
+            unit="meters"
+            value={length}
+            onValueChange={setLength}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder={`Enter length in ${unit('meters')}`}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Deck Width ({symbol('meters')})</label>
+          <UnitInput
+            unit="meters"
+            value={width}
+            onValueChange={setWidth}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder={`Enter width in ${unit('meters')}`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Height Above Ground ({symbol('meters')})</label>
+        <UnitInput
+          unit="meters"
+          value={height}
+          onValueChange={setHeight}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          min="0"
+          step="0.1"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Board Width</label>
+          <select
+            value={boardWidth}
+            onChange={(e) => handleInputChange(e, setBoardWidth)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="120">{format(120, 'mm')}</option>
+            <option value="140">{format(140, 'mm')}</option>
+            <option value="145">{format(145, 'mm')}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Board Length</label>
+          <select
+            value={boardLength}
+            onChange={(e) => handleInputChange(e, setBoardLength)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="2.4">{format(2.4, 'meters')}</option>
+            <option value="3.6">{format(3.6, 'meters')}</option>
+            <option value="4.8">{format(4.8, 'meters')}</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Joist Spacing</label>
+          <select
+            value={joistSpacing}
+            onChange={(e) => handleInputChange(e, setJoistSpacing)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="30">{format(30, 'cm')}</option>
+            <option value="40">{format(40, 'cm')}</option>
+            <option value="60">{format(60, 'cm')}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Boards Run Along</label>
+          <select
+            value={boardDirection}
+            onChange={(e) => setBoardDirection(e.target.value as 'length' | 'width')}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="length">Length</option>
+            <option value="width">Width</option>
+          </select>
+        </div>
+      </div>
+
+      {deckType === 'composite' && joistSpacing === '60' && (
+        <p className="text-sm text-yellow-700">
+          Composite boards usually need joists at {format(40, 'cm')} or closer, check the manufacturer's span.
+        </p>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Postmix Per Post (bags)</label>
+        <input
+          type="number"
+          value={postmixPerPost}
+          onChange={(e) => handleInputChange(e, setPostmixPerPost)}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          min="0"
+          step="0.5"
+        />
+      </div>
+
+      <button
+        onClick={calculate}
+        disabled={isLoading}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-blue-300"
+      >
+        {isLoading ? 'Loading...' : 'Calculate'}
+      </button>
+
+      {calculationError && (
+        <div className="mt-4 p-4 bg-red-100 text-red-700 rounded-md">
+          {calculationError}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-6 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Labor Breakdown</h3>
+            <div className="space-y-2">
+              {result.taskBreakdown.map((task, index) => (
+                <div key={index} className="flex justify-between text-gray-700">
+                  <span>{task.task}</span>
+                  <span className="font-medium">{task.hours.toFixed(2)} hours</span>
+                </div>
+              ))}
+              <div className="pt-2 mt-2 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Labor Hours</span>
+                  <span>{result.hours_worked.toFixed(2)} hours</span>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Materials Required</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Material</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Amount</th>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Price/Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {materials.map(displayMaterial).map((material, index) => (
+                      <tr key={index} className="text-gray-700">
+                        <td className="px-3 py-2">{material.name}</td>
+                        <td className="px-3 py-2 text-right">{material.quantity.toFixed(2)}</td>
+                        <td className="px-3 py-2">{material.unit}</td>
+                        <td className="px-3 py-2 text-right">
+                          {material.price_per_unit ? `£${material.price_per_unit.toFixed(2)}` : 'N/A'}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {material.total_price ? `£${material.total_price.toFixed(2)}` : 'N/A'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="pt-4 mt-4 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Material Cost</span>
+                  <span>
+                    £{materials.reduce((sum: number, material: PricedMaterial) => sum + (material.total_price || 0), 0).toFixed(2)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeckCalculator;
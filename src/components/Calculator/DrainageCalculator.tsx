@@ -0,0 +1,332 @@
+import React, { useState, useEffect, ChangeEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import AreaInput from './AreaInput';
+import { fetchMappedTaskTemplates } from '../../lib/calculatorTaskMappings';
+import { fetchMaterialPrices, fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, PricedMaterial } from '../../lib/calculations/common';
+import {
+  DRAINAGE_SOILS,
+  DrainageSoil,
+  SoakawayFill,
+  SoakawaySize,
+  calculateDrainage,
+  drainageOutputKeys,
+  sizeSoakaway
+} from '../../lib/calculations/drainage';
+
+interface DrainageCalculatorProps extends CalculatorInputProps {
+  onResultsChange?: (results: CalculationResult) => void;
+}
+
+const DrainageCalculator: React.FC<DrainageCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, value, format, material: displayMaterial } = useUnits();
+  const [area, setArea] = useState<string>(initialInputs?.area as string ?? '');
+  const [areaSketch, setAreaSketch] = useState<string>(initialInputs?.areaSketch as string ?? '');
+  const [soil, setSoil] = useState<DrainageSoil>(initialInputs?.soil as DrainageSoil ?? 'loam');
+  const [soakawayFill, setSoakawayFill] = useState<SoakawayFill>(initialInputs?.soakawayFill as SoakawayFill ?? 'crates');
+  const [soakawayDepth, setSoakawayDepth] = useState<string>(initialInputs?.soakawayDepth as string ?? '1');
+  const [channelLength, setChannelLength] = useState<string>(initialInputs?.channelLength as string ?? '');
+  const [channelRuns, setChannelRuns] = useState<string>(initialInputs?.channelRuns as string ?? '1');
+  const [pipeLength, setPipeLength] = useState<string>(initialInputs?.pipeLength as string ?? '');
+  const [pipeDepth, setPipeDepth] = useState<string>(initialInputs?.pipeDepth as string ?? '0.6');
+  const [pipeBends, setPipeBends] = useState<string>(initialInputs?.pipeBends as string ?? '0');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [soakaway, setSoakaway] = useState<SoakawaySize | null>(null);
+  const [materials, setMaterials] = useState<PricedMaterial[]>([]);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+
+  useCalculatorInputs({ area, areaSketch, soil, soakawayFill, soakawayDepth, channelLength, channelRuns, pipeLength, pipeDepth, pipeBends }, onInputsChange);
+
+  // Fetch the task templates bound to the drainage outputs in Setup
+  const outputKeys = drainageOutputKeys();
+  const { data: mappedTasks = {}, isLoading } = useQuery({
+    queryKey: ['mapped_task_templates', outputKeys.channel, outputKeys.pipe, outputKeys.soakaway],
+    queryFn: () => fetchMappedTaskTemplates([outputKeys.channel, outputKeys.pipe, outputKeys.soakaway])
+  });
+
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>, setter: (value: string) => void) => {
+    setter(e.target.value);
+  };
+
+  const calculate = async () => {
+    if (!area) {
+      setCalculationError('Please enter the drained area');
+      return;
+    }
+
+    try {
+      const inputs = {
+        drainedArea: parseFloat(area),
+        soil,
+        soakawayFill,
+        soakawayDepth: parseFloat(soakawayDepth),
+        channelLength: parseFloat(channelLength) || 0,
+        channelRuns: parseInt(channelRuns) || 0,
+        pipeLength: parseFloat(pipeLength) || 0,
+        pipeDepth: parseFloat(pipeDepth) || 0,
+        pipeBends: parseInt(pipeBends) || 0
+      };
+      const calculation = calculateDrainage(inputs, {
+        channel: mappedTasks[outputKeys.channel],
+        pipe: mappedTasks[outputKeys.pipe],
+        soakaway: mappedTasks[outputKeys.soakaway]
+      }, materialProperties);
+
+      setMaterials(await fetchMaterialPrices(calculation.materials));
+      setSoakaway(sizeSoakaway(inputs.drainedArea, inputs.soil, inputs.soakawayFill, inputs.soakawayDepth));
+      setResult(calculation);
+      setCalculationError(null);
+    } catch (error) {
+      setCalculationError(error instanceof Error ? error.message : 'Please enter valid numbers');
+    }
+  };
+
+  // Notify parent of result changes
+  useEffect(() => {
+    if (result) {
+      // Store results in data attribute
+      const calculatorElement = document.querySelector('[data-calculator-results]');
+      if (calculatorElement) {
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
+      }
+
+      if (onResultsChange) {
+        onResultsChange(result);
+      }
+    }
+  }, [result, onResultsChange]);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold">Drainage Calculator</h2>
+      <p className="text-sm text-gray-600">
+        Size a soakaway for the area it drains and calculate channel drains, pipe, fittings, gravel, excavation and time.
+      </p>
+
+      <AreaInput
+        label="Drained Area"
+        area={area}
+        onAreaChange={setArea}
+        sketch={areaSketch}
+        onSketchChange={setAreaSketch}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Soil</label>
+          <select
+            value={soil}
+            onChange={(e) => setSoil(e.target.value as DrainageSoil)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {DRAINAGE_SOILS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Soakaway</label>
+          <select
+            value={soakawayFill}
+            onChange={(e) => setSoakawayFill(e.target.value as SoakawayFill)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="crates">Soakaway crates</option>
+            <option value="stone">Clean stone</option>
+          </select>
+        </div>
+      </div>
+
+      {soil === 'clay' && (
+        <p className="text-sm text-yellow-700">
+          Clay barely drains, so the soakaway is sized to hold the whole storm. Check a percolation test before relying on it.
+        </p>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Soakaway Depth ({symbol('meters')})</label>
+        <UnitInput
+          unit="meters"
+          value={soakawayDepth}
+          onValueChange={setSoakawayDepth}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          min="0"
+          step="0.1"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Channel Drain Length ({symbol('meters')})</label>
+          <UnitInput
+            unit="meters"
+            value={channelLength}
+            onValueChange={setChannelLength}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder={`Enter length in ${unit('meters')}`}
+            min="0"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Channel Runs</label>
+          <input
+            type="number"
+            value={channelRuns}
+            onChange={(e) => handleInputChange(e, setChannelRuns)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+            step="1"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Pipe Length ({symbol('meters')})</label>
+          <UnitInput
+            unit="meters"
+            value={pipeLength}
+            onValueChange={setPipeLength}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder={`Enter length in ${unit('meters')}`}
+            min="0"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Trench Depth ({symbol('meters')})</label>
+          <UnitInput
+            unit="meters"
+            value={pipeDepth}
+            onValueChange={setPipeDepth}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+            step="0.1"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Pipe Bends</label>
+          <input
+            type="number"
+            value={pipeBends}
+            onChange={(e) => handleInputChange(e, setPipeBends)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+            step="1"
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={calculate}
+        disabled={isLoading}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-blue-300"
+      >
+        {isLoading ? 'Loading...' : 'Calculate'}
+      </button>
+
+      {calculationError && (
+        <div className="mt-4 p-4 bg-red-100 text-red-700 rounded-md">
+          {calculationError}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-6 space-y-6">
+          {soakaway && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 bg-white rounded border">
+                <p className="text-sm text-gray-500">Water to Hold</p>
+                <p className="text-xl font-semibold">{format(soakaway.storage, 'cubic meters')}</p>
+              </div>
+              <div className="p-3 bg-white rounded border">
+                <p className="text-sm text-gray-500">Soakaway Volume</p>
+                <p className="text-xl font-semibold">{format(soakaway.volume, 'cubic meters')}</p>
+              </div>
+              <div className="p-3 bg-white rounded border">
+                <p className="text-sm text-gray-500">Soakaway Size</p>
+                <p className="text-xl font-semibold">{value(soakaway.side, 'meters').toFixed(2)} x {value(soakaway.side, 'meters').toFixed(2)} {symbol('meters')}</p>
+              </div>
+              <div className="p-3 bg-white rounded border">
+                <p className="text-sm text-gray-500">Soakaway Depth</p>
+                <p className="text-xl font-semibold">{format(soakaway.depth, 'meters')}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Labor Breakdown</h3>
+            <div className="space-y-2">
+              {result.taskBreakdown.map((task, index) => (
+                <div key={index} className="flex justify-between text-gray-700">
+                  <span>{task.task}</span>
+                  <span className="font-medium">{task.hours.toFixed(2)} hours</span>
+                </div>
+              ))}
+              <div className="pt-2 mt-2 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Labor Hours</span>
+                  <span>{result.hours_worked.toFixed(2)} hours</span>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Materials Required</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Material</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Amount</th>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Price/Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {materials.map(displayMaterial).map((material, index) => (
+                      <tr key={index} className="text-gray-700">
+                        <td className="px-3 py-2">{material.name}</td>
+                        <td className="px-3 py-2 text-right">{material.quantity.toFixed(2)}</td>
+                        <td className="px-3 py-2">{material.unit}</td>
+                        <td className="px-3 py-2 text-right">
+                          {material.price_per_unit ? `£${material.price_per_unit.toFixed(2)}` : 'N/A'}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {material.total_price ? `£${material.total_price.toFixed(2)}` : 'N/A'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="pt-4 mt-4 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Material Cost</span>
+                  <span>
+                    £{materials.reduce((sum: number, material: PricedMaterial) => sum + (material.total_price || 0), 0).toFixed(2)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrainageCalculator;
@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import EdgingInput from './EdgingInput';
+import { fetchMappedTaskTemplates } from '../../lib/calculatorTaskMappings';
+import { fetchMaterialPrices, fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, PricedMaterial } from '../../lib/calculations/common';
+import { EdgingType, calculateEdging, edgingOutputKeys, getEdgingOption } from '../../lib/calculations/edging';
+
+interface EdgingCalculatorProps extends CalculatorInputProps {
+  onResultsChange?: (results: CalculationResult) => void;
+}
+
+const EdgingCalculator: React.FC<EdgingCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, value, format, material: displayMaterial } = useUnits();
+  const [edgingLength, setEdgingLength] = useState<string>(initialInputs?.edgingLength as string ?? '');
+  const [edgingType, setEdgingType] = useState<string>(initialInputs?.edgingType as string ?? 'kerb');
+  const [internalCorners, setInternalCorners] = useState<string>(initialInputs?.internalCorners as string ?? '0');
+  const [externalCorners, setExternalCorners] = useState<string>(initialInputs?.externalCorners as string ?? '0');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [materials, setMaterials] = useState<PricedMaterial[]>([]);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+
+  useCalculatorInputs({ edgingLength, edgingType, internalCorners, externalCorners }, onInputsChange);
+
+  // Fetch the task templates bound to the chosen edging's outputs in Setup
+  const outputKeys = edgingOutputKeys(edgingType as EdgingType);
+  const { data: mappedTasks = {}, isLoading } = useQuery({
+    queryKey: ['mapped_task_templates', outputKeys.laying, outputKeys.corners, outputKeys.haunching],
+    queryFn: () => fetchMappedTaskTemplates([outputKeys.laying, outputKeys.corners, outputKeys.haunching])
+  });
+
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
+
+  const calculate = async () => {
+    if (!edgingLength) {
+      setCalculationError('Please enter the edging length');
+      return;
+    }
+
+    try {
+      const calculation = calculateEdging({
+        type: edgingType as EdgingType,
+        length: parseFloat(edgingLength),
+        internalCorners: parseInt(internalCorners) || 0,
+        externalCorners: parseInt(externalCorners) || 0
+      }, {
+        laying: mappedTasks[outputKeys.laying],
+        corners: mappedTasks[outputKeys.corners],
+        haunching: mappedTasks[outputKeys.haunching]
+      }, materialProperties);
+
+      setMaterials(await fetchMaterialPrices(calculation.materials));
+      setResult(calculation);
+      setCalculationError(null);
+    } catch (error) {
+      setCalculationError(error instanceof Error ? error.message : 'Please enter valid numbers');
+    }
+  };
+
+  // Notify parent of result changes
+  useEffect(() => {
+    if (result) {
+      // Store results in data attribute
+      const calculatorElement = document.querySelector('[data-calculator-results]');
+      if (calculatorElement) {
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
+      }
+
+      if (onResultsChange) {
+        onResultsChange(result);
+      }
+    }
+  }, [result, onResultsChange]);
+
+  const option = getEdgingOption(edgingType);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold">Edging Calculator</h2>
+      <p className="text-sm text-gray-600">
+        Calculate kerbs, setts or edging, the concrete to haunch them and the time to lay them along an edge.
+      </p>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Edging Length ({unit('meters')})</label>
+        <UnitInput
+          unit="meters"
+          value={edgingLength}
+          onValueChange={setEdgingLength}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
+          placeholder="Enter the length round the edge"
+          min="0"
+        />
+      </div>
+
+      <EdgingInput
+        type={edgingType}
+        onTypeChange={setEdgingType}
+        internalCorners={internalCorners}
+        onInternalCornersChange={setInternalCorners}
+        externalCorners={externalCorners}
+        onExternalCornersChange={setExternalCorners}
+      />
+      <p className="text-sm text-gray-500">
+        {option.haunching > 0
+          ? `Bedded and haunched in a lean mix, ${format(option.haunching * 10 / value(1, 'meters'), 'cubic meters')} of concrete per 10 ${symbol('meters')}.`
+          : 'Pegged in, with no concrete haunching.'}
+      </p>
+
+      <button
+        onClick={calculate}
+        disabled={isLoading}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-blue-300"
+      >
+        {isLoading ? 'Loading...' : 'Calculate'}
+      </button>
+
+      {calculationError && (
+        <div className="mt-4 p-4 bg-red-100 text-red-700 rounded-md">
+          {calculationError}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-6 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Labor Breakdown</h3>
+            <div className="space-y-2">
+              {result.taskBreakdown.map((task, index) => (
+                <div key={index} className="flex justify-between text-gray-700">
+                  <span>{task.task} ({format(task.amount, task.unit)})</span>
+                  <span className="font-medium">{task.hours.toFixed(2)} hours</span>
+                </div>
+              ))}
+              <div className="pt-2 mt-2 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Labor Hours</span>
+                  <span>{result.hours_worked.toFixed(2)} hours</span>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Materials Required</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Material</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Amount</th>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Price/Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {materials.map(displayMaterial).map((material, index) => (
+                      <tr key={index} className="text-gray-700">
+                        <td className="px-3 py-2">{material.name}</td>
+                        <td className="px-3 py-2 text-right">{material.quantity.toFixed(2)}</td>
+                        <td className="px-3 py-2">{material.unit}</td>
+                        <td className="px-3 py-2 text-right">
+                          {material.price_per_unit ? `£${material.price_per_unit.toFixed(2)}` : 'N/A'}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {material.total_price ? `£${material.total_price.toFixed(2)}` : 'N/A'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="pt-4 mt-4 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Material Cost</span>
+                  <span>
+                    £{materials.reduce((sum: number, material: PricedMaterial) => sum + (material.total_price || 0), 0).toFixed(2)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EdgingCalculator;
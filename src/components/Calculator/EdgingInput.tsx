@@ -0,0 +1,67 @@
+import React from 'react';
+import { EDGING_OPTIONS } from '../../lib/calculations/edging';
+
+interface EdgingInputProps {
+  type: string;
+  onTypeChange: (type: string) => void;
+  internalCorners: string;
+  onInternalCornersChange: (corners: string) => void;
+  externalCorners: string;
+  onExternalCornersChange: (corners: string) => void;
+  // Offered as an empty choice, for edging listed as a plain length instead of calculated
+  noneLabel?: string;
+}
+
+const EdgingInput: React.FC<EdgingInputProps> = ({
+  type,
+  onTypeChange,
+  internalCorners,
+  onInternalCornersChange,
+  externalCorners,
+  onExternalCornersChange,
+  noneLabel
+}) => (
+  <div className="space-y-4">
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Edging Type</label>
+      <select
+        value={type}
+        onChange={(e) => onTypeChange(e.target.value)}
+        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
+      >
+        {noneLabel !== undefined && <option value="">{noneLabel}</option>}
+        {EDGING_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+    {type && (
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">External Corners</label>
+          <input
+            type="number"
+            value={externalCorners}
+            onChange={(e) => onExternalCornersChange(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
+            min="0"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Internal Corners</label>
+          <input
+            type="number"
+            value={internalCorners}
+            onChange={(e) => onInternalCornersChange(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
+            min="0"
+          />
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default EdgingInput;
@@ -1,208 +1,129 @@
 import React, { useState, useEffect, ChangeEvent } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '../../lib/supabase';
-
-interface FenceCalculatorProps {
+import { Plus, Trash2 } from 'lucide-react';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import { fetchMappedTaskTemplates } from '../../lib/calculatorTaskMappings';
+import { fetchMaterialPrices, fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, PricedMaterial } from '../../lib/calculations/common';
+import { FencePostType, FenceSlopeMethod, calculateFence, fenceOutputKeys } from '../../lib/calculations/fence';
+
+interface FenceCalculatorProps extends CalculatorInputProps {
   fenceType: 'vertical' | 'horizontal';
   onResultsChange?: (results: any) => void;
 }
 
-interface Material {
-  name: string;
-  amount: number;
-  unit: string;
-  price_per_unit: number | null;
-  total_price: number | null;
-}
-
-interface TaskBreakdown {
-  task: string;
-  hours: number;
-  amount: number;
-  unit: string;
-}
-
-interface MaterialPrice {
-  name: string;
-  price: number;
+interface FenceRunForm {
+  length: string;
+  rise: string;
 }
 
-const FenceCalculator: React.FC<FenceCalculatorProps> = ({ fenceType, onResultsChange }) => {
-  console.log(`FenceCalculator.tsx: Received fenceType=${fenceType}`);
+/**
+ * Reads the fence runs saved with the inputs
+ * @param value The runs as JSON
+ * @param length Length saved before fences had more than one run
+ * @returns FenceRunForm[]
+ */
+const parseRuns = (value: unknown, length: unknown): FenceRunForm[] => {
+  try {
+    const runs = typeof value === 'string' ? JSON.parse(value) : null;
+    if (Array.isArray(runs) && runs.length > 0) return runs;
+  } catch {
+    // Fall back to a single run
+  }
+  return [{ length: typeof length === 'string' ? length : '', rise: '' }];
+};
 
-  const [length, setLength] = useState('');
-  const [height, setHeight] = useState('');
-  const [slatWidth, setSlatWidth] = useState('10');
-  const [slatLength, setSlatLength] = useState('180');
-  const [postmixPerPost, setPostmixPerPost] = useState<string>('');
-  const [materials, setMaterials] = useState<Material[]>([]);
-  const [totalHours, setTotalHours] = useState<number | null>(null);
+const FenceCalculator: React.FC<FenceCalculatorProps> = ({ fenceType, onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, format, material: displayMaterial } = useUnits();
+  const [runs, setRuns] = useState<FenceRunForm[]>(() => parseRuns(initialInputs?.runs, initialInputs?.length));
+  const [height, setHeight] = useState(initialInputs?.height as string ?? '');
+  const [slatWidth, setSlatWidth] = useState(initialInputs?.slatWidth as string ?? '10');
+  const [slatLength, setSlatLength] = useState(initialInputs?.slatLength as string ?? '180');
+  const [postmixPerPost, setPostmixPerPost] = useState<string>(initialInputs?.postmixPerPost as string ?? '');
+  const [postSpacing, setPostSpacing] = useState(initialInputs?.postSpacing as string ?? '180');
+  const [postType, setPostType] = useState<FencePostType>(initialInputs?.postType as FencePostType ?? 'timber');
+  const [gravelBoards, setGravelBoards] = useState<boolean>(initialInputs?.gravelBoards as boolean ?? false);
+  const [gates, setGates] = useState(initialInputs?.gates as string ?? '');
+  const [gateWidth, setGateWidth] = useState(initialInputs?.gateWidth as string ?? '0.9');
+  const [slopeMethod, setSlopeMethod] = useState<FenceSlopeMethod>(initialInputs?.slopeMethod as FenceSlopeMethod ?? 'stepped');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [materials, setMaterials] = useState<PricedMaterial[]>([]);
   const [calculationError, setCalculationError] = useState<string | null>(null);
-  const [taskBreakdown, setTaskBreakdown] = useState<TaskBreakdown[]>([]);
 
-  // Fetch task template for fence installation
-  const { data: layingTask, isLoading } = useQuery({
-    queryKey: ['fence_laying_task', fenceType],
-    queryFn: async () => {
-      const taskName = fenceType === 'vertical' ? 'standard fence vertical' : 'standard fence horizontal';
-      const { data, error } = await supabase
-        .from('event_tasks_with_dynamic_estimates')
-        .select('id, name, unit, estimated_hours')
-        .eq('name', taskName)
-        .single();
-      
-      if (error) throw error;
-      return data;
-    }
+  useCalculatorInputs({ runs: JSON.stringify(runs), height, slatWidth, slatLength, postmixPerPost, postSpacing, postType, gravelBoards, gates, gateWidth, slopeMethod }, onInputsChange);
+
+  // Fetch the task templates bound to the fence outputs in Setup
+  const outputKeys = fenceOutputKeys(fenceType);
+  const { data: mappedTasks = {}, isLoading } = useQuery({
+    queryKey: ['mapped_task_templates', outputKeys.fence, outputKeys.posts, outputKeys.gravelBoards, outputKeys.gates],
+    queryFn: () => fetchMappedTaskTemplates([outputKeys.fence, outputKeys.posts, outputKeys.gravelBoards, outputKeys.gates])
   });
 
-  const fetchMaterialPrices = async (materials: Material[]): Promise<Material[]> => {
-    try {
-      const materialNames = materials.map(m => m.name);
-      
-      const { data, error } = await supabase
-        .from('materials')
-        .select('name, price')
-        .in('name', materialNames);
-      
-      if (error) throw error;
-      
-      const priceMap = data.reduce((acc: Record<string, number>, item: MaterialPrice) => {
-        acc[item.name] = item.price;
-        return acc;
-      }, {});
-      
-      return materials.map(material => ({
-        ...material,
-        price_per_unit: priceMap[material.name] || null,
-        total_price: priceMap[material.name] ? priceMap[material.name] * material.amount : null
-      }));
-    } catch (err) {
-      console.error('Error fetching material prices:', err);
-      return materials.map(material => ({
-        ...material,
-        price_per_unit: null,
-        total_price: null
-      }));
-    }
-  };
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
 
   const handleInputChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>, setter: (value: string) => void) => {
     setter(e.target.value);
   };
 
-  const calculate = async () => {
-    console.log(`FenceCalculator.tsx: calculate called with fenceType=${fenceType}`);
+  const updateRun = (index: number, changes: Partial<FenceRunForm>) => {
+    setRuns(runs.map((run, i) => (i === index ? { ...run, ...changes } : run)));
+  };
 
-    if (!length || !height) {
+  const calculate = async () => {
+    if (runs.some(run => !run.length) || !height) {
       setCalculationError('Please fill in all required fields');
       return;
     }
 
-    const l = parseFloat(length) * 100; // Convert meters to cm
-    const h = parseFloat(height) * 100; // Convert meters to cm
-    const slatW = parseFloat(slatWidth);
-    const slatL = parseFloat(slatLength);
-
-    if (isNaN(l) || isNaN(h) || isNaN(slatW) || (fenceType === 'horizontal' && isNaN(slatL))) {
-      setCalculationError('Please enter valid numbers');
-      return;
-    }
-
-    let posts = Math.ceil(l / 180) + 1; // One post every 1.8m (180cm) + 1 extra post
-    posts = Math.max(posts, 2); // Minimum 2 posts
-
-    let slatsNeeded = 0;
-    let fenceRails = 0;
-    let slatsPerLength = 0;
-
-    if (fenceType === 'vertical') {
-      console.log('FenceCalculator.tsx: Performing vertical fence calculation');
-      fenceRails = Math.ceil((l * 3) / 360); // 3 rows of rails, 360cm each
-      slatsNeeded = Math.ceil(l / (slatW + 2)) * Math.ceil(1 / slatL); // Total slats needed
-    } else {
-      console.log('FenceCalculator.tsx: Performing horizontal fence calculation');
-      let slatsPerRow = Math.ceil(h / (slatW + 2)); // Horizontal slats needed per row
-      slatsPerLength = Math.ceil(l / slatL); // How many slats fit across the length
-      slatsNeeded = slatsPerRow * slatsPerLength; // Total slats needed
-    }
-
-    const postmix = parseFloat(postmixPerPost) || 0;
-    const totalPostmix = posts * postmix;
-
-    // Calculate labor hours
-    let mainTaskHours = 0;
-    if (layingTask?.unit && layingTask?.estimated_hours !== undefined) {
-      const lengthInMeters = parseFloat(length);
-      mainTaskHours = lengthInMeters * layingTask.estimated_hours;
-    }
-
-    // Create task breakdown
-    const breakdown: TaskBreakdown[] = [
-      { 
-        task: layingTask?.name || `${fenceType === 'vertical' ? 'Vertical' : 'Horizontal'} Fence Installation`,
-        hours: mainTaskHours,
-        amount: parseFloat(length),
-        unit: 'meters'
-      }
-    ];
-
-    // Calculate total hours
-    const totalHours = breakdown.reduce((sum, item) => sum + item.hours, 0);
-
-    // Prepare materials list
-    const materialsList: Material[] = [
-      { name: 'Fence Posts', amount: posts, unit: 'posts', price_per_unit: null, total_price: null },
-      { name: 'Fence Slats', amount: slatsNeeded, unit: 'slats', price_per_unit: null, total_price: null },
-      { name: 'Postmix', amount: totalPostmix, unit: 'bags', price_per_unit: null, total_price: null }
-    ];
-
-    if (fenceType === 'vertical') {
-      materialsList.push({ name: 'Fence Rails', amount: fenceRails, unit: 'rails', price_per_unit: null, total_price: null });
+    try {
+      const calculation = calculateFence({
+        fenceType,
+        runs: runs.map(run => ({ length: parseFloat(run.length), rise: parseFloat(run.rise) || 0 })),
+        height: parseFloat(height),
+        slatWidth: parseFloat(slatWidth),
+        slatLength: parseFloat(slatLength),
+        postmixPerPost: parseFloat(postmixPerPost) || 0,
+        postSpacing: parseFloat(postSpacing),
+        postType,
+        gravelBoards,
+        gates: parseInt(gates) || 0,
+        gateWidth: parseFloat(gateWidth) || 0,
+        slopeMethod
+      }, {
+        fence: mappedTasks[outputKeys.fence],
+        posts: mappedTasks[outputKeys.posts],
+        gravelBoards: mappedTasks[outputKeys.gravelBoards],
+        gates: mappedTasks[outputKeys.gates]
+      }, materialProperties);
+
+      setMaterials(await fetchMaterialPrices(calculation.materials));
+      setResult(calculation);
+      setCalculationError(null);
+    } catch (error) {
+      setCalculationError(error instanceof Error ? error.message : 'Please enter valid numbers');
     }
-
-    // Fetch prices and update state
-    const materialsWithPrices = await fetchMaterialPrices(materialsList);
-    
-    setMaterials(materialsWithPrices);
-    setTotalHours(totalHours);
-    setTaskBreakdown(breakdown);
-    setCalculationError(null);
   };
 
-  // Add useEffect to notify parent of result changes
+  // Notify parent of result changes
   useEffect(() => {
-    if (totalHours !== null && materials.length > 0) {
-      const formattedResults = {
-        name: `${fenceType === 'vertical' ? 'Vertical' : 'Horizontal'} Fence Installation`,
-        amount: parseFloat(length) || 0,
-        unit: 'meters',
-        hours_worked: totalHours,
-        materials: materials.map(material => ({
-          name: material.name,
-          quantity: material.amount,
-          unit: material.unit
-        })),
-        taskBreakdown: taskBreakdown.map(task => ({
-          task: task.task,
-          hours: task.hours,
-          amount: task.amount,
-          unit: task.unit
-        }))
-      };
-
+    if (result) {
       // Store results in data attribute
       const calculatorElement = document.querySelector('[data-calculator-results]');
       if (calculatorElement) {
-        calculatorElement.setAttribute('data-results', JSON.stringify(formattedResults));
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
       }
 
-      // Notify parent component
       if (onResultsChange) {
-        onResultsChange(formattedResults);
+        onResultsChange(result);
       }
     }
-  }, [totalHours, materials, taskBreakdown, length, fenceType, onResultsChange]);
+  }, [result, onResultsChange]);
 
   return (
     <div className="space-y-4">
@@ -212,54 +133,158 @@ const FenceCalculator: React.FC<FenceCalculatorProps> = ({ fenceType, onResultsC
       </p>
 
       <div>
-        <label className="block text-sm font-medium text-gray-700">Fence Length (m)</label>
-        <input
-          type="number"
-          value={length}
-          onChange={(e) => handleInputChange(e, setLength)}
-          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          placeholder="Enter length in meters"
-        />
+        <label className="block text-sm font-medium text-gray-700">Fence Runs</label>
+        <p className="text-sm text-gray-500">Each run after the first turns a corner. Rise is how much the ground climbs along the run.</p>
+        <div className="mt-2 space-y-2">
+          {runs.map((run, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-6 text-sm text-gray-500">{index + 1}</span>
+              <UnitInput
+                unit="meters"
+                value={run.length}
+                onValueChange={(length) => updateRun(index, { length })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder={`Length (${symbol('meters')})`}
+              />
+              <UnitInput
+                unit="meters"
+                value={run.rise}
+                onValueChange={(rise) => updateRun(index, { rise })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder={`Rise (${symbol('meters')}, optional)`}
+              />
+              <button
+                type="button"
+                onClick={() => setRuns(runs.filter((_, i) => i !== index))}
+                disabled={runs.length === 1}
+                className="text-red-500 hover:text-red-700 disabled:opacity-30"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => setRuns([...runs, { length: '', rise: '' }])}
+          className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Run
+        </button>
       </div>
 
+      {runs.some(run => parseFloat(run.rise) > 0) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Sloping Ground</label>
+          <select
+            value={slopeMethod}
+            onChange={(e) => setSlopeMethod(e.target.value as FenceSlopeMethod)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="stepped">Stepped panels</option>
+            <option value="raked">Raked panels</option>
+          </select>
+        </div>
+      )}
+
       <div>
-        <label className="block text-sm font-medium text-gray-700">Fence Height (m)</label>
-        <input
-          type="number"
+        <label className="block text-sm font-medium text-gray-700">Fence Height ({symbol('meters')})</label>
+        <UnitInput
+          unit="meters"
           value={height}
-          onChange={(e) => handleInputChange(e, setHeight)}
+          onValueChange={setHeight}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          placeholder="Enter height in meters"
+          placeholder={`Enter height in ${unit('meters')}`}
         />
       </div>
 
       <div>
-        <label className="block text-sm font-medium text-gray-700">Slat Width (cm)</label>
+        <label className="block text-sm font-medium text-gray-700">Slat Width</label>
         <select
           value={slatWidth}
           onChange={(e) => handleInputChange(e, setSlatWidth)}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
         >
-          <option value="10">10 cm</option>
-          <option value="12">12 cm</option>
-          <option value="15">15 cm</option>
+          <option value="10">{format(10, 'cm')}</option>
+          <option value="12">{format(12, 'cm')}</option>
+          <option value="15">{format(15, 'cm')}</option>
         </select>
       </div>
 
       {fenceType === 'horizontal' && (
         <div>
-          <label className="block text-sm font-medium text-gray-700">Slat Length (cm)</label>
+          <label className="block text-sm font-medium text-gray-700">Slat Length</label>
           <select
             value={slatLength}
             onChange={(e) => handleInputChange(e, setSlatLength)}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
           >
-            <option value="180">180 cm</option>
-            <option value="360">360 cm</option>
+            <option value="180">{format(180, 'cm')}</option>
+            <option value="360">{format(360, 'cm')}</option>
           </select>
         </div>
       )}
 
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Post Type</label>
+          <select
+            value={postType}
+            onChange={(e) => setPostType(e.target.value as FencePostType)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="timber">Timber</option>
+            <option value="concrete">Concrete</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Post Spacing ({unit('cm')})</label>
+          <UnitInput
+            unit="cm"
+            value={postSpacing}
+            onValueChange={setPostSpacing}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={gravelBoards}
+          onChange={(e) => setGravelBoards(e.target.checked)}
+          className="h-4 w-4 text-blue-600 rounded mr-2"
+        />
+        Gravel boards along the bottom
+      </label>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Gates (optional)</label>
+          <input
+            type="number"
+            value={gates}
+            onChange={(e) => handleInputChange(e, setGates)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder="Number of gates"
+            min="0"
+            step="1"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Gate Width ({symbol('meters')})</label>
+          <UnitInput
+            unit="meters"
+            value={gateWidth}
+            onValueChange={setGateWidth}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+            step="0.1"
+          />
+        </div>
+      </div>
+
       <div>
         <label className="block text-sm font-medium text-gray-700">Postmix Per Post (bags)</label>
         <input
@@ -287,12 +312,12 @@ const FenceCalculator: React.FC<FenceCalculatorProps> = ({ fenceType, onResultsC
         </div>
       )}
 
-      {totalHours !== null && (
+      {result && (
         <div className="mt-6 space-y-6">
           <div className="bg-white rounded-lg shadow p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Labor Breakdown</h3>
             <div className="space-y-2">
-              {taskBreakdown.map((task, index) => (
+              {result.taskBreakdown.map((task, index) => (
                 <div key={index} className="flex justify-between text-gray-700">
                   <span>{task.task}</span>
                   <span className="font-medium">{task.hours.toFixed(2)} hours</span>
@@ -301,7 +326,7 @@ const FenceCalculator: React.FC<FenceCalculatorProps> = ({ fenceType, onResultsC
               <div className="pt-2 mt-2 border-t border-gray-200">
                 <div className="flex justify-between text-gray-900 font-semibold">
                   <span>Total Labor Hours</span>
-                  <span>{totalHours.toFixed(2)} hours</span>
+                  <span>{result.hours_worked.toFixed(2)} hours</span>
                 </div>
               </div>
             </div>
@@ -322,10 +347,10 @@ const FenceCalculator: React.FC<FenceCalculatorProps> = ({ fenceType, onResultsC
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
-                    {materials.map((material, index) => (
+                    {materials.map(displayMaterial).map((material, index) => (
                       <tr key={index} className="text-gray-700">
                         <td className="px-3 py-2">{material.name}</td>
-                        <td className="px-3 py-2 text-right">{material.amount.toFixed(2)}</td>
+                        <td className="px-3 py-2 text-right">{material.quantity.toFixed(2)}</td>
                         <td className="px-3 py-2">{material.unit}</td>
                         <td className="px-3 py-2 text-right">
                           {material.price_per_unit ? `£${material.price_per_unit.toFixed(2)}` : 'N/A'}
@@ -342,7 +367,7 @@ const FenceCalculator: React.FC<FenceCalculatorProps> = ({ fenceType, onResultsC
                 <div className="flex justify-between text-gray-900 font-semibold">
                   <span>Total Material Cost</span>
                   <span>
-                    £{materials.reduce((sum: number, material: Material) => sum + (material.total_price || 0), 0).toFixed(2)}
+                    £{materials.reduce((sum: number, material: PricedMaterial) => sum + (material.total_price || 0), 0).toFixed(2)}
                   </span>
                 </div>
               </div>
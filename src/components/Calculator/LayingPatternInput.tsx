@@ -0,0 +1,77 @@
+import React from 'react';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import { LAYING_PATTERNS, RANDOM_PACK_SIZES } from '../../lib/calculations/cuts';
+
+interface LayingPatternInputProps {
+  // What is laid, e.g. Block or Slab
+  unitLabel: string;
+  pattern: string;
+  onPatternChange: (pattern: string) => void;
+  unitLengthCm: string;
+  onUnitLengthChange: (length: string) => void;
+  unitWidthCm: string;
+  onUnitWidthChange: (width: string) => void;
+}
+
+const LayingPatternInput: React.FC<LayingPatternInputProps> = ({
+  unitLabel,
+  pattern,
+  onPatternChange,
+  unitLengthCm,
+  onUnitLengthChange,
+  unitWidthCm,
+  onUnitWidthChange
+}) => {
+  const { unit, symbol, value } = useUnits();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Laying Pattern</label>
+        <select
+          value={pattern}
+          onChange={(e) => onPatternChange(e.target.value)}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
+        >
+          {LAYING_PATTERNS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {pattern === 'random' ? (
+        <p className="text-sm text-gray-600">
+          Cuts are estimated for a pack of{' '}
+          {RANDOM_PACK_SIZES.map(size => `${Number(value(size.lengthCm, 'cm').toFixed(1))}x${Number(value(size.widthCm, 'cm').toFixed(1))}`).join(', ')} {symbol('cm')} {unitLabel.toLowerCase()}s.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{unitLabel} Length ({unit('cm')})</label>
+            <UnitInput
+              unit="cm"
+              value={unitLengthCm}
+              onValueChange={onUnitLengthChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
+              min="0"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{unitLabel} Width ({unit('cm')})</label>
+            <UnitInput
+              unit="cm"
+              value={unitWidthCm}
+              onValueChange={onUnitWidthChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
+              min="0"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayingPatternInput;
@@ -1,127 +1,108 @@
 import React, { useState, useEffect } from 'react';
-
-interface CalculatorProps {
-  type: 'slab' | 'general';
-  onResultsChange?: (results: any) => void;
+import { useQuery } from '@tanstack/react-query';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import { fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, requirePositive } from '../../lib/calculations/common';
+import { MortarUse, SLAB_BEDDING_THICKNESS, calculateMortar } from '../../lib/calculations/mortar';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+
+interface CalculatorProps extends CalculatorInputProps {
+  type: MortarUse;
+  onResultsChange?: (results: CalculationResult) => void;
 }
 
-const MortarCalculator: React.FC<CalculatorProps> = ({ type, onResultsChange }) => {
-  const [length, setLength] = useState('');
-  const [width, setWidth] = useState('');
-  const [thickness, setThickness] = useState('');
-  const [area, setArea] = useState('');
-  const [result, setResult] = useState<{ volume: number; cementBags: number; sand: number } | null>(null);
-  const [totalHours, setTotalHours] = useState<number | null>(null);
-  const [materials, setMaterials] = useState<{ name: string; amount: number; unit: string }[]>([]);
-  const [taskBreakdown, setTaskBreakdown] = useState<{ task: string; hours: number }[]>([]);
-
-  const calculate = () => {
-    let volume = 0;
-    let cement = 0;
-    let sand = 0;
+const MortarCalculator: React.FC<CalculatorProps> = ({ type, onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, format } = useUnits();
+  const [length, setLength] = useState<string>(initialInputs?.length as string ?? '');
+  const [width, setWidth] = useState<string>(initialInputs?.width as string ?? '');
+  const [thickness, setThickness] = useState<string>(initialInputs?.thickness as string ?? '');
+  const [area, setArea] = useState<string>(initialInputs?.area as string ?? '');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
 
-    if (type === 'slab') {
-      // Slab Calculation: Use area input & fixed thickness (3cm = 0.03m)
-      const a = parseFloat(area);
-      if (isNaN(a) || a <= 0) return;
+  useCalculatorInputs({ length, width, thickness, area }, onInputsChange);
 
-      const thickness = 0.03; // 3cm = 0.03m
-      volume = a * thickness;
+  // Cement and sand packs set in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
 
-      cement = volume * 350; // 350kg cement per m³
-      sand = volume * 1200; // 1200kg sand per m³
-    } else {
-      // General Calculation: Use length, width, and thickness inputs
+  const calculate = () => {
+    setCalculationError(null);
+    try {
+      // Slabs are bedded on a fixed thickness, anything else is measured
+      if (type === 'slab') {
+        setResult(calculateMortar({ area: parseFloat(area), thickness: SLAB_BEDDING_THICKNESS }, materialProperties));
+        return;
+      }
       const l = parseFloat(length);
       const w = parseFloat(width);
-      const t = parseFloat(thickness);
-
-      if (isNaN(l) || isNaN(w) || isNaN(t) || l <= 0 || w <= 0 || t <= 0) return;
-
-      volume = l * w * (t / 100); // Convert thickness from cm to m
-
-      cement = volume * 400; // 400kg cement per m³ (for general)
-      sand = volume * 1350; // 1350kg sand per m³ (for general)
+      requirePositive({ length: l, width: w });
+      setResult(calculateMortar({ area: l * w, thickness: parseFloat(thickness) }, materialProperties));
+    } catch (error) {
+      setResult(null);
+      setCalculationError(error instanceof Error ? error.message : 'Please check your inputs');
     }
+  };
 
-    const cementBags = Math.ceil(cement / 25); // Convert cement to 25kg bags
-
-    setResult({
-      volume: Number(volume.toFixed(3)),
-      cementBags,
-      sand: Number(sand.toFixed(1))
-    });
-
-    // Add useEffect to notify parent of result changes
-    useEffect(() => {
-      if (totalHours !== null && materials.length > 0) {
-        const formattedResults = {
-          name: 'Mortar Mixing',
-          amount: parseFloat(volume) || 0,
-          hours_worked: totalHours,
-          materials: materials.map(material => ({
-            name: material.name,
-            quantity: material.amount,
-            unit: material.unit
-          })),
-          taskBreakdown: taskBreakdown.map(task => ({
-            task: task.task,
-            hours: task.hours
-          }))
-        };
-
-        // Store results in data attribute
-        const calculatorElement = document.querySelector('[data-calculator-results]');
-        if (calculatorElement) {
-          calculatorElement.setAttribute('data-results', JSON.stringify(formattedResults));
-        }
+  // Notify parent of result changes
+  useEffect(() => {
+    if (result) {
+      // Store results in data attribute
+      const calculatorElement = document.querySelector('[data-calculator-results]');
+      if (calculatorElement) {
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
+      }
 
-        // Notify parent component
-        if (onResultsChange) {
-          onResultsChange(formattedResults);
-        }
+      if (onResultsChange) {
+        onResultsChange(result);
       }
-    }, [totalHours, materials, taskBreakdown, volume, onResultsChange]);
-  };
+    }
+  }, [result, onResultsChange]);
+
+  const cement = result?.materials.find(material => material.name === 'Cement');
+  const sand = result?.materials.find(material => material.name === 'Sand');
 
   return (
     <div className="space-y-4">
       {type === 'slab' ? (
         <div>
-          <label className="block text-sm font-medium text-gray-700">Area (m²)</label>
-          <input
-            type="number"
+          <label className="block text-sm font-medium text-gray-700">Area ({symbol('square meters')})</label>
+          <UnitInput
+            unit="square meters"
             value={area}
-            onChange={(e) => setArea(e.target.value)}
+            onValueChange={setArea}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
           />
         </div>
       ) : (
         <>
           <div>
-            <label className="block text-sm font-medium text-gray-700">Length (m)</label>
-            <input
-              type="number"
+            <label className="block text-sm font-medium text-gray-700">Length ({symbol('meters')})</label>
+            <UnitInput
+              unit="meters"
               value={length}
-              onChange={(e) => setLength(e.target.value)}
+              onValueChange={setLength}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
             />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">Width (m)</label>
-            <input
-              type="number"
+            <label className="block text-sm font-medium text-gray-700">Width ({symbol('meters')})</label>
+            <UnitInput
+              unit="meters"
               value={width}
-              onChange={(e) => setWidth(e.target.value)}
+              onValueChange={setWidth}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
             />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">Thickness (cm)</label>
-            <input
-              type="number"
+            <label className="block text-sm font-medium text-gray-700">Thickness ({unit('cm')})</label>
+            <UnitInput
+              unit="cm"
               value={thickness}
-              onChange={(e) => setThickness(e.target.value)}
+              onValueChange={setThickness}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
             />
           </div>
@@ -135,17 +116,25 @@ const MortarCalculator: React.FC<CalculatorProps> = ({ type, onResultsChange })
         Calculate
       </button>
 
+      {calculationError && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md">{calculationError}</div>
+      )}
+
       {result && (
         <div className="mt-4 p-4 bg-blue-50 rounded-md space-y-2">
           <p className="text-blue-900">
-            Volume: <span className="font-bold">{result.volume} m³</span>
-          </p>
-          <p className="text-blue-900">
-            Cement Required: <span className="font-bold">{result.cementBags} bags (25kg each)</span>
-          </p>
-          <p className="text-blue-900">
-            Sand Required: <span className="font-bold">{result.sand} kg</span>
+            Volume: <span className="font-bold">{format(result.amount, 'cubic meters')}</span>
           </p>
+          {cement && (
+            <p className="text-blue-900">
+              Cement Required: <span className="font-bold">{format(cement.quantity, cement.unit)}</span>
+            </p>
+          )}
+          {sand && (
+            <p className="text-blue-900">
+              Sand Required: <span className="font-bold">{format(sand.quantity, sand.unit)}</span>
+            </p>
+          )}
         </div>
       )}
     </div>
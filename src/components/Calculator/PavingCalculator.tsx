@@ -1,258 +1,209 @@
 import React, { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '../../lib/supabase';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import AreaInput from './AreaInput';
+import LayingPatternInput from './LayingPatternInput';
+import EdgingInput from './EdgingInput';
+import { fetchMappedTaskTemplates } from '../../lib/calculatorTaskMappings';
+import { fetchMaterialPrices, fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, PricedMaterial } from '../../lib/calculations/common';
+import { LayingPattern } from '../../lib/calculations/cuts';
+import { SketchCorners, measureSavedSketch } from '../../lib/calculations/polygon';
+import { EdgingType, calculateEdging, edgingOutputKeys, linkEdging } from '../../lib/calculations/edging';
+import { calculatePaving } from '../../lib/calculations/surfaces';
 
-interface Material {
-  name: string;
-  amount: number;
-  unit: string;
-  price_per_unit: number | null;
-  total_price: number | null;
-}
-
-interface PavingCalculatorProps {
+interface PavingCalculatorProps extends CalculatorInputProps {
   onResultsChange?: (results: any) => void;
 }
 
-const PavingCalculator: React.FC<PavingCalculatorProps> = ({ onResultsChange }) => {
-  const [area, setArea] = useState<string>('');
-  const [sandThicknessCm, setSandThicknessCm] = useState<string>('');
-  const [tape1ThicknessCm, setTape1ThicknessCm] = useState<string>('');
-  const [monoBlocksHeightCm, setMonoBlocksHeightCm] = useState<string>('');
-  const [cutBlocks, setCutBlocks] = useState<string>('');
-  const [materials, setMaterials] = useState<Material[]>([]);
-  const [totalHours, setTotalHours] = useState<number | null>(null);
+const PavingCalculator: React.FC<PavingCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, material: displayMaterial } = useUnits();
+  const [area, setArea] = useState<string>(initialInputs?.area as string ?? '');
+  const [areaSketch, setAreaSketch] = useState<string>(initialInputs?.areaSketch as string ?? '');
+  const [edgingLength, setEdgingLength] = useState<string>(initialInputs?.edgingLength as string ?? '');
+  const [edgingType, setEdgingType] = useState<string>(initialInputs?.edgingType as string ?? '');
+  const [internalCorners, setInternalCorners] = useState<string>(initialInputs?.internalCorners as string ?? '0');
+  const [externalCorners, setExternalCorners] = useState<string>(initialInputs?.externalCorners as string ?? '4');
+  const [sandThicknessCm, setSandThicknessCm] = useState<string>(initialInputs?.sandThicknessCm as string ?? '');
+  const [tape1ThicknessCm, setTape1ThicknessCm] = useState<string>(initialInputs?.tape1ThicknessCm as string ?? '');
+  const [monoBlocksHeightCm, setMonoBlocksHeightCm] = useState<string>(initialInputs?.monoBlocksHeightCm as string ?? '');
+  const [layingPattern, setLayingPattern] = useState<string>(initialInputs?.layingPattern as string ?? 'stretcher');
+  const [blockLengthCm, setBlockLengthCm] = useState<string>(initialInputs?.blockLengthCm as string ?? '20');
+  const [blockWidthCm, setBlockWidthCm] = useState<string>(initialInputs?.blockWidthCm as string ?? '10');
+  const [cutBlocks, setCutBlocks] = useState<string>(initialInputs?.cutBlocks as string ?? '');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [materials, setMaterials] = useState<PricedMaterial[]>([]);
   const [calculationError, setCalculationError] = useState<string | null>(null);
-  const [taskBreakdown, setTaskBreakdown] = useState<{task: string, hours: number, amount: number, unit: string}[]>([]);
 
-  // Fetch task templates for monoblock laying
-  const { data: layingTask, isLoading } = useQuery({
-    queryKey: ['monoblock_laying_task'],
-    queryFn: async () => {
-      console.log('Fetching monoblock laying task...');
-      const { data, error } = await supabase
-        .from('event_tasks_with_dynamic_estimates')
-        .select('id, name, unit, estimated_hours')
-        .eq('name', 'laying monoblocks with screed')
-        .single();
-      
-      if (error) {
-        console.error('Error fetching laying task:', error);
-        throw error;
-      }
-      
-      console.log('Fetched laying task:', data);
-      if (!data) {
-        throw new Error('No task found for laying monoblocks with screed');
-      }
-      
-      return data;
-    }
+  useCalculatorInputs({ area, areaSketch, edgingLength, edgingType, internalCorners, externalCorners, sandThicknessCm, tape1ThicknessCm, monoBlocksHeightCm, layingPattern, blockLengthCm, blockWidthCm, cutBlocks }, onInputsChange);
+
+  // Fetch the task templates bound to the paving outputs in Setup
+  const { data: mappedTasks = {} } = useQuery({
+    queryKey: ['mapped_task_templates', 'paving'],
+    queryFn: () => fetchMappedTaskTemplates(['paving.laying', 'paving.cutting'])
   });
 
-  const fetchMaterialPrices = async (materials: Material[]) => {
-    try {
-      const materialNames = materials.map(m => m.name);
-      
-      const { data, error } = await supabase
-        .from('materials')
-        .select('name, price')
-        .in('name', materialNames);
-      
-      if (error) throw error;
-      
-      const priceMap = data.reduce((acc, item) => {
-        acc[item.name] = item.price;
-        return acc;
-      }, {} as Record<string, number>);
-      
-      return materials.map(material => ({
-        ...material,
-        price_per_unit: priceMap[material.name] || null,
-        total_price: priceMap[material.name] ? priceMap[material.name] * material.amount : null
-      }));
-    } catch (err) {
-      console.error('Error fetching material prices:', err);
-      return materials.map(material => ({
-        ...material,
-        price_per_unit: null,
-        total_price: null
-      }));
-    }
-  };
+  // Fetch the task templates bound to the edging laid round the paving
+  const edgingKeys = edgingOutputKeys(edgingType as EdgingType);
+  const { data: edgingTasks = {} } = useQuery({
+    queryKey: ['mapped_task_templates', edgingKeys.laying, edgingKeys.corners, edgingKeys.haunching],
+    queryFn: () => fetchMappedTaskTemplates([edgingKeys.laying, edgingKeys.corners, edgingKeys.haunching]),
+    enabled: !!edgingType
+  });
+
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
 
   const calculate = async () => {
     if (!area || !sandThicknessCm || !tape1ThicknessCm || !monoBlocksHeightCm) {
       setCalculationError('Please fill in all required fields');
       return;
     }
-
-    setCalculationError(null);
+    if (edgingType && !edgingLength) {
+      setCalculationError('Please enter the edging length');
+      return;
+    }
 
     try {
-      const areaNum = parseFloat(area);
-      const sandThicknessM = parseFloat(sandThicknessCm) / 100;
-      const tape1ThicknessM = parseFloat(tape1ThicknessCm) / 100;
-      const monoBlocksHeightM = parseFloat(monoBlocksHeightCm) / 100;
-      const cutBlocksNum = cutBlocks ? parseInt(cutBlocks) : 0;
-
-      // Calculate base hours needed for installation
-      let mainTaskHours = 0;
-      console.log('Laying task data:', layingTask);
-      
-      if (layingTask?.unit && layingTask?.estimated_hours !== undefined) {
-        console.log(`Task: ${layingTask.name}, Unit: ${layingTask.unit}, Estimated hours: ${layingTask.estimated_hours}`);
-        
-        // Always calculate hours based on area
-        mainTaskHours = areaNum * layingTask.estimated_hours;
-        console.log(`Calculated main task hours: ${areaNum} square meters × ${layingTask.estimated_hours} hours/square meter = ${mainTaskHours} hours`);
-      } else {
-        console.warn('Laying task has no unit or estimated_hours:', layingTask);
-      }
-
-      // Add time for cuts (2 minutes per cut)
-      const cuttingHours = (cutBlocksNum * 2) / 60; // Convert minutes to hours
-
-      // Calculate materials needed
-      const totalDepthM = sandThicknessM + tape1ThicknessM + monoBlocksHeightM;
+      const paving = calculatePaving({
+        area: parseFloat(area),
+        sandThicknessCm: parseFloat(sandThicknessCm),
+        type1ThicknessCm: parseFloat(tape1ThicknessCm),
+        blockHeightCm: parseFloat(monoBlocksHeightCm),
+        pattern: layingPattern as LayingPattern,
+        unitLengthCm: parseFloat(blockLengthCm),
+        unitWidthCm: parseFloat(blockWidthCm),
+        perimeter: measureSavedSketch(areaSketch)?.perimeter,
+        cutBlocks: cutBlocks ? parseInt(cutBlocks) : 0,
+        // Chosen edging is calculated below instead of listed by the meter
+        edgingLength: edgingLength && !edgingType ? parseFloat(edgingLength) : 0
+      }, {
+        laying: mappedTasks['paving.laying'],
+        cutting: mappedTasks['paving.cutting']
+      }, materialProperties);
+      const calculation = edgingType
+        ? linkEdging(paving, calculateEdging({
+          type: edgingType as EdgingType,
+          length: parseFloat(edgingLength),
+          internalCorners: parseInt(internalCorners) || 0,
+          externalCorners: parseInt(externalCorners) || 0
+        }, {
+          laying: edgingTasks[edgingKeys.laying],
+          corners: edgingTasks[edgingKeys.corners],
+          haunching: edgingTasks[edgingKeys.haunching]
+        }, materialProperties))
+        : paving;
 
-      // Calculate soil to be excavated (area × total depth)
-      const soilVolume = areaNum * totalDepthM;
-      const soilTonnes = soilVolume * 1.5; // 1.5 tonnes per cubic meter
-
-      // Calculate sand needed (area × sand thickness)
-      const sandVolume = areaNum * sandThicknessM;
-      const sandTonnes = sandVolume * 1.6; // 1.6 tonnes per cubic meter
-
-      // Calculate Type 1 needed (area × Type 1 thickness)
-      const tape1Volume = areaNum * tape1ThicknessM;
-      const tape1Tonnes = tape1Volume * 2.1; // 2.1 tonnes per cubic meter
-
-      // Create task breakdown
-      const breakdown = [
-        { 
-          task: 'laying monoblocks with screed',
-          hours: mainTaskHours,
-          amount: areaNum,
-          unit: 'square meters'
-        }
-      ];
-
-      if (cutBlocksNum > 0) {
-        breakdown.push({ 
-          task: 'cutting blocks',
-          hours: cuttingHours,
-          amount: cutBlocksNum,
-          unit: 'blocks'
-        });
-      }
-
-      // Calculate total hours
-      const totalHours = breakdown.reduce((sum, item) => sum + item.hours, 0);
-
-      // Prepare materials list
-      const materialsList: Material[] = [
-        { name: 'Soil excavation', amount: Number(soilTonnes.toFixed(2)), unit: 'tonnes', price_per_unit: null, total_price: null },
-        { name: 'Sand', amount: Number(sandTonnes.toFixed(2)), unit: 'tonnes', price_per_unit: null, total_price: null },
-        { name: 'tape1', amount: Number(tape1Tonnes.toFixed(2)), unit: 'tonnes', price_per_unit: null, total_price: null }
-      ];
-
-      // Fetch prices and update state
-      const materialsWithPrices = await fetchMaterialPrices(materialsList);
-      
-      setMaterials(materialsWithPrices);
-      setTotalHours(totalHours);
-      setTaskBreakdown(breakdown);
+      setMaterials(await fetchMaterialPrices(calculation.materials));
+      setResult(calculation);
+      setCalculationError(null);
     } catch (error) {
       console.error('Calculation error:', error);
-      setCalculationError('An error occurred during calculation');
+      setCalculationError(error instanceof Error ? error.message : 'An error occurred during calculation');
     }
   };
 
-  // Add useEffect to notify parent of result changes
-  useEffect(() => {
-    if (totalHours !== null && materials.length > 0) {
-      const formattedResults = {
-        name: 'Paving Installation',
-        amount: parseFloat(area) || 0,
-        unit: 'square meters',
-        hours_worked: totalHours,
-        materials: materials.map(material => ({
-          name: material.name,
-          quantity: material.amount,
-          unit: material.unit
-        })),
-        taskBreakdown: taskBreakdown.map(task => ({
-          task: task.task,
-          hours: task.hours,
-          amount: task.amount,
-          unit: task.unit
-        }))
-      };
+  const handleCornersChange = (corners: SketchCorners) => {
+    setInternalCorners(corners.internal.toString());
+    setExternalCorners(corners.external.toString());
+  };
 
+  // Notify parent of result changes
+  useEffect(() => {
+    if (result) {
       // Store results in data attribute
       const calculatorElement = document.querySelector('[data-calculator-results]');
       if (calculatorElement) {
-        calculatorElement.setAttribute('data-results', JSON.stringify(formattedResults));
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
       }
 
-      // Notify parent component
       if (onResultsChange) {
-        onResultsChange(formattedResults);
+        onResultsChange(result);
       }
     }
-  }, [totalHours, materials, taskBreakdown, area, onResultsChange]);
+  }, [result, onResultsChange]);
 
   return (
     <div className="space-y-4">
+      <AreaInput
+        area={area}
+        onAreaChange={setArea}
+        sketch={areaSketch}
+        onSketchChange={setAreaSketch}
+        onPerimeterChange={setEdgingLength}
+        onCornersChange={handleCornersChange}
+      />
       <div>
-        <label className="block text-sm font-medium text-gray-700">Area (square meters)</label>
-        <input
-          type="number"
-          value={area}
-          onChange={(e) => setArea(e.target.value)}
+        <label className="block text-sm font-medium text-gray-700">Edging Length ({unit('meters')}, optional)</label>
+        <UnitInput
+          unit="meters"
+          value={edgingLength}
+          onValueChange={setEdgingLength}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
-          placeholder="Enter area in m²"
+          placeholder="Filled in from the sketched perimeter"
         />
       </div>
+      <EdgingInput
+        type={edgingType}
+        onTypeChange={setEdgingType}
+        internalCorners={internalCorners}
+        onInternalCornersChange={setInternalCorners}
+        externalCorners={externalCorners}
+        onExternalCornersChange={setExternalCorners}
+        noneLabel="Edging by the meter"
+      />
       <div>
-        <label className="block text-sm font-medium text-gray-700">Sand Thickness (cm)</label>
-        <input
-          type="number"
+        <label className="block text-sm font-medium text-gray-700">Sand Thickness ({unit('cm')})</label>
+        <UnitInput
+          unit="cm"
           value={sandThicknessCm}
-          onChange={(e) => setSandThicknessCm(e.target.value)}
+          onValueChange={setSandThicknessCm}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
-          placeholder="Enter sand thickness in cm"
+          placeholder={`Enter sand thickness in ${unit('cm')}`}
         />
       </div>
       <div>
-        <label className="block text-sm font-medium text-gray-700">Type 1 Thickness (cm)</label>
-        <input
-          type="number"
+        <label className="block text-sm font-medium text-gray-700">Type 1 Thickness ({unit('cm')})</label>
+        <UnitInput
+          unit="cm"
           value={tape1ThicknessCm}
-          onChange={(e) => setTape1ThicknessCm(e.target.value)}
+          onValueChange={setTape1ThicknessCm}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
-          placeholder="Enter Type 1 thickness in cm"
+          placeholder={`Enter Type 1 thickness in ${unit('cm')}`}
         />
       </div>
       <div>
-        <label className="block text-sm font-medium text-gray-700">Monoblock Height (cm)</label>
-        <input
-          type="number"
+        <label className="block text-sm font-medium text-gray-700">Monoblock Height ({unit('cm')})</label>
+        <UnitInput
+          unit="cm"
           value={monoBlocksHeightCm}
-          onChange={(e) => setMonoBlocksHeightCm(e.target.value)}
+          onValueChange={setMonoBlocksHeightCm}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
-          placeholder="Enter monoblock height in cm"
+          placeholder={`Enter monoblock height in ${unit('cm')}`}
         />
       </div>
+      <LayingPatternInput
+        unitLabel="Block"
+        pattern={layingPattern}
+        onPatternChange={setLayingPattern}
+        unitLengthCm={blockLengthCm}
+        onUnitLengthChange={setBlockLengthCm}
+        unitWidthCm={blockWidthCm}
+        onUnitWidthChange={setBlockWidthCm}
+      />
       <div>
-        <label className="block text-sm font-medium text-gray-700">Number of Blocks to Cut</label>
+        <label className="block text-sm font-medium text-gray-700">Number of Blocks to Cut (optional)</label>
         <input
           type="number"
           value={cutBlocks}
           onChange={(e) => setCutBlocks(e.target.value)}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
-          placeholder="Enter number of blocks to cut (optional)"
+          placeholder="Estimated from the laying pattern when left empty"
         />
       </div>
 
@@ -269,12 +220,12 @@ const PavingCalculator: React.FC<PavingCalculatorProps> = ({ onResultsChange })
         </div>
       )}
 
-      {totalHours !== null && (
+      {result && (
         <div className="mt-6 space-y-6">
           <div className="bg-white rounded-lg shadow p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Labor Breakdown</h3>
             <div className="space-y-2">
-              {taskBreakdown.map((task, index) => (
+              {result.taskBreakdown.map((task, index) => (
                 <div key={index} className="flex justify-between text-gray-700">
                   <span>{task.task}</span>
                   <span className="font-medium">{task.hours.toFixed(2)} hours</span>
@@ -283,7 +234,7 @@ const PavingCalculator: React.FC<PavingCalculatorProps> = ({ onResultsChange })
               <div className="pt-2 mt-2 border-t border-gray-200">
                 <div className="flex justify-between text-gray-900 font-semibold">
                   <span>Total Labor Hours</span>
-                  <span>{totalHours.toFixed(2)} hours</span>
+                  <span>{result.hours_worked.toFixed(2)} hours</span>
                 </div>
               </div>
             </div>
@@ -304,10 +255,10 @@ const PavingCalculator: React.FC<PavingCalculatorProps> = ({ onResultsChange })
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
-                    {materials.map((material, index) => (
+                    {materials.map(displayMaterial).map((material, index) => (
                       <tr key={index} className="text-gray-700">
                         <td className="px-3 py-2">{material.name}</td>
-                        <td className="px-3 py-2 text-right">{material.amount.toFixed(2)}</td>
+                        <td className="px-3 py-2 text-right">{material.quantity.toFixed(2)}</td>
                         <td className="px-3 py-2">{material.unit}</td>
                         <td className="px-3 py-2 text-right">
                           {material.price_per_unit ? `£${material.price_per_unit.toFixed(2)}` : 'N/A'}
@@ -336,4 +287,4 @@ const PavingCalculator: React.FC<PavingCalculatorProps> = ({ onResultsChange })
   );
 };
 
-export default PavingCalculator;
+export default PavingCalculator;
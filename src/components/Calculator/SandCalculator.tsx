@@ -1,26 +1,34 @@
 import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import { fetchMaterialProperties } from '../../lib/pricing';
+import { AGGREGATE_MATERIALS, CalculationResult, densityOf } from '../../lib/calculations/common';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
 
-const materials = [
-  { name: 'Type 1 Aggregate', density: 2.1 },
-  { name: 'Grid Sand', density: 1.6 },
-  { name: 'Soil', density: 1.5 },
-  { name: 'Gravel', density: 1.6 },
-  { name: 'Crushed Stone', density: 2.4 },
-];
+const materials = AGGREGATE_MATERIALS;
 
-interface SandCalculatorProps {
-  onResultsChange?: (results: any) => void;
+interface SandCalculatorProps extends CalculatorInputProps {
+  onResultsChange?: (results: CalculationResult) => void;
 }
 
-const SandCalculator: React.FC<SandCalculatorProps> = ({ onResultsChange }) => {
-  const [selectedMaterial, setSelectedMaterial] = useState(materials[0]);
-  const [length, setLength] = useState('');
-  const [width, setWidth] = useState('');
-  const [height, setHeight] = useState('');
-  const [result, setResult] = useState<number | null>(null);
-  const [totalHours, setTotalHours] = useState<number | null>(null);
-  const [taskBreakdown, setTaskBreakdown] = useState([]);
-  const [volume, setVolume] = useState('');
+const SandCalculator: React.FC<SandCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, format } = useUnits();
+  const [selectedMaterial, setSelectedMaterial] = useState(
+    materials.find(material => material.name === initialInputs?.material) || materials[0]
+  );
+  const [length, setLength] = useState<string>(initialInputs?.length as string ?? '');
+  const [width, setWidth] = useState<string>(initialInputs?.width as string ?? '');
+  const [height, setHeight] = useState<string>(initialInputs?.height as string ?? '');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+
+  useCalculatorInputs({ material: selectedMaterial.name, length, width, height }, onInputsChange);
+
+  // Densities set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
 
   const calculate = () => {
     const l = parseFloat(length);
@@ -31,43 +39,33 @@ const SandCalculator: React.FC<SandCalculatorProps> = ({ onResultsChange }) => {
       return;
     }
 
-    let volume = l * w * (h / 1000); // Convert mm to m
-    let mass = volume * selectedMaterial.density;
-
-    setResult(Number(mass.toFixed(2)));
-    setVolume(volume.toFixed(2));
+    const volume = l * w * (h / 1000); // Convert mm to m
+    const mass = Number((volume * densityOf(materialProperties, selectedMaterial.name, selectedMaterial.density)).toFixed(2));
 
-    // Add useEffect to notify parent of result changes
-    useEffect(() => {
-      if (totalHours !== null && materials.length > 0) {
-        const formattedResults = {
-          name: 'Sand Delivery',
-          amount: parseFloat(volume) || 0,
-          hours_worked: totalHours,
-          materials: materials.map(material => ({
-            name: material.name,
-            quantity: mass,
-            unit: 'kg'
-          })),
-          taskBreakdown: taskBreakdown.map(task => ({
-            task: task.task,
-            hours: task.hours
-          }))
-        };
+    setResult({
+      name: 'Sand Delivery',
+      amount: mass,
+      unit: 'tonnes',
+      hours_worked: 0,
+      materials: [{ name: selectedMaterial.name, quantity: mass, unit: 'tonnes' }],
+      taskBreakdown: []
+    });
+  };
 
-        // Store results in data attribute
-        const calculatorElement = document.querySelector('[data-calculator-results]');
-        if (calculatorElement) {
-          calculatorElement.setAttribute('data-results', JSON.stringify(formattedResults));
-        }
+  // Notify parent of result changes
+  useEffect(() => {
+    if (result) {
+      // Store results in data attribute
+      const calculatorElement = document.querySelector('[data-calculator-results]');
+      if (calculatorElement) {
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
+      }
 
-        // Notify parent component
-        if (onResultsChange) {
-          onResultsChange(formattedResults);
-        }
+      if (onResultsChange) {
+        onResultsChange(result);
       }
-    }, [totalHours, materials, taskBreakdown, volume, onResultsChange]);
-  };
+    }
+  }, [result, onResultsChange]);
 
   return (
     <div className="space-y-4">
@@ -88,29 +86,29 @@ const SandCalculator: React.FC<SandCalculatorProps> = ({ onResultsChange }) => {
         </select>
       </div>
       <div>
-        <label className="block text-sm font-medium text-gray-700">Length (m)</label>
-        <input
-          type="number"
+        <label className="block text-sm font-medium text-gray-700">Length ({symbol('meters')})</label>
+        <UnitInput
+          unit="meters"
           value={length}
-          onChange={(e) => setLength(e.target.value)}
+          onValueChange={setLength}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
         />
       </div>
       <div>
-        <label className="block text-sm font-medium text-gray-700">Width (m)</label>
-        <input
-          type="number"
+        <label className="block text-sm font-medium text-gray-700">Width ({symbol('meters')})</label>
+        <UnitInput
+          unit="meters"
           value={width}
-          onChange={(e) => setWidth(e.target.value)}
+          onValueChange={setWidth}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
         />
       </div>
       <div>
-        <label className="block text-sm font-medium text-gray-700">Height (mm)</label>
-        <input
-          type="number"
+        <label className="block text-sm font-medium text-gray-700">Height ({unit('mm')})</label>
+        <UnitInput
+          unit="mm"
           value={height}
-          onChange={(e) => setHeight(e.target.value)}
+          onValueChange={setHeight}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-gray-600 focus:ring-gray-600"
         />
       </div>
@@ -120,10 +118,10 @@ const SandCalculator: React.FC<SandCalculatorProps> = ({ onResultsChange }) => {
       >
         Calculate
       </button>
-      {result !== null && (
+      {result && (
         <div className="mt-4 p-4 bg-gray-100 rounded-md">
           <p className="text-gray-900">
-            Required Mass: <span className="font-bold">{result} kg</span>
+            Required Mass: <span className="font-bold">{format(result.amount, 'tonnes')}</span>
           </p>
         </div>
       )}
@@ -131,4 +129,4 @@ const SandCalculator: React.FC<SandCalculatorProps> = ({ onResultsChange }) => {
   );
 };
 
-export default SandCalculator;
+export default SandCalculator;
@@ -1,37 +1,62 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../../lib/supabase';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import AreaInput from './AreaInput';
+import LayingPatternInput from './LayingPatternInput';
+import SlabLayoutPlan from './SlabLayoutPlan';
+import { fetchMappedTaskTemplates } from '../../lib/calculatorTaskMappings';
+import { fetchMaterialPrices, fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, PricedMaterial } from '../../lib/calculations/common';
+import { LayingPattern } from '../../lib/calculations/cuts';
+import { measureSavedSketch } from '../../lib/calculations/polygon';
+import { planSlabLayout } from '../../lib/calculations/slabLayout';
+import { calculateSlab, isPorcelainSlab } from '../../lib/calculations/surfaces';
 
-interface SlabType {
-  id: number;
-  name: string;
-  unit: string;
-  estimated_hours: number;
-  is_porcelain: boolean;
-}
-
-interface Material {
-  name: string;
-  amount: number;
-  unit: string;
-  price_per_unit: number | null;
-  total_price: number | null;
-}
-
-interface SlabCalculatorProps {
+interface SlabCalculatorProps extends CalculatorInputProps {
   onResultsChange?: (results: any) => void;
 }
 
-const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange }) => {
-  const [area, setArea] = useState<string>('');
-  const [tape1ThicknessCm, setTape1ThicknessCm] = useState<string>('');
-  const [mortarThicknessCm, setMortarThicknessCm] = useState<string>('');
-  const [selectedSlabId, setSelectedSlabId] = useState<string>('');
-  const [cutSlabs, setCutSlabs] = useState<string>('');
-  const [materials, setMaterials] = useState<Material[]>([]);
-  const [totalHours, setTotalHours] = useState<number | null>(null);
+const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, format, material: displayMaterial } = useUnits();
+  const [area, setArea] = useState<string>(initialInputs?.area as string ?? '');
+  const [areaSketch, setAreaSketch] = useState<string>(initialInputs?.areaSketch as string ?? '');
+  const [edgingLength, setEdgingLength] = useState<string>(initialInputs?.edgingLength as string ?? '');
+  const [tape1ThicknessCm, setTape1ThicknessCm] = useState<string>(initialInputs?.tape1ThicknessCm as string ?? '');
+  const [mortarThicknessCm, setMortarThicknessCm] = useState<string>(initialInputs?.mortarThicknessCm as string ?? '');
+  const [selectedSlabId, setSelectedSlabId] = useState<string>(initialInputs?.selectedSlabId as string ?? '');
+  const [layingPattern, setLayingPattern] = useState<string>(initialInputs?.layingPattern as string ?? 'stretcher');
+  const [slabLengthCm, setSlabLengthCm] = useState<string>(initialInputs?.slabLengthCm as string ?? '60');
+  const [slabWidthCm, setSlabWidthCm] = useState<string>(initialInputs?.slabWidthCm as string ?? '60');
+  const [layoutLength, setLayoutLength] = useState<string>(initialInputs?.layoutLength as string ?? '');
+  const [layoutWidth, setLayoutWidth] = useState<string>(initialInputs?.layoutWidth as string ?? '');
+  const [slabGapMm, setSlabGapMm] = useState<string>(initialInputs?.slabGapMm as string ?? '3');
+  const [staggeredRows, setStaggeredRows] = useState<boolean>(initialInputs?.staggeredRows as boolean ?? true);
+  const [cutSlabs, setCutSlabs] = useState<string>(initialInputs?.cutSlabs as string ?? '');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [materials, setMaterials] = useState<PricedMaterial[]>([]);
   const [calculationError, setCalculationError] = useState<string | null>(null);
-  const [taskBreakdown, setTaskBreakdown] = useState<{task: string, hours: number, amount: number, unit: string}[]>([]);
+
+  useCalculatorInputs({ area, areaSketch, edgingLength, tape1ThicknessCm, mortarThicknessCm, selectedSlabId, layingPattern, slabLengthCm, slabWidthCm, layoutLength, layoutWidth, slabGapMm, staggeredRows, cutSlabs }, onInputsChange);
+
+  // Row-by-row plan of a rectangular patio laid in stretcher bond
+  const slabLayout = useMemo(() => {
+    if (layingPattern !== 'stretcher' || !layoutLength || !layoutWidth) return null;
+    try {
+      return planSlabLayout({
+        lengthCm: parseFloat(layoutLength) * 100,
+        widthCm: parseFloat(layoutWidth) * 100,
+        slabLengthCm: parseFloat(slabLengthCm),
+        slabWidthCm: parseFloat(slabWidthCm),
+        gapMm: parseFloat(slabGapMm),
+        staggered: staggeredRows
+      });
+    } catch {
+      return null;
+    }
+  }, [layingPattern, layoutLength, layoutWidth, slabLengthCm, slabWidthCm, slabGapMm, staggeredRows]);
 
   // Fetch task templates for slab types
   const { data: slabTypes = [], isLoading, error: fetchError } = useQuery({
@@ -44,75 +69,28 @@ const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange }) => {
         .order('name');
       
       if (error) throw error;
-      
-      console.log('Fetched slab types:', data);
-      
+
       // Transform data to include is_porcelain flag based on name
       return data.map(item => ({
         ...item,
-        is_porcelain: item.name.toLowerCase().includes('slab') && !item.name.toLowerCase().includes('sandstone')
+        is_porcelain: isPorcelainSlab(item.name)
       }));
     }
   });
 
-  // Add a new query to fetch time estimates for cutting tasks
-  const { data: cuttingTasks = [], isLoading: isLoadingCuttingTasks } = useQuery({
-    queryKey: ['cutting_tasks'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('event_tasks_with_dynamic_estimates')
-        .select('id, name, unit, estimated_hours')
-        .or('name.ilike.%cutting%,name.ilike.%cut%')
-        .order('name');
-      
-      if (error) throw error;
-      console.log('Fetched cutting tasks:', data);
-      return data;
-    }
+  // Fetch the cutting task templates bound to the slab outputs in Setup
+  const { data: cuttingTasks = {} } = useQuery({
+    queryKey: ['mapped_task_templates', 'slab'],
+    queryFn: () => fetchMappedTaskTemplates(['slab.cutting_porcelain', 'slab.cutting_sandstone'])
   });
 
-  const fetchMaterialPrices = async (materials: Material[]) => {
-    try {
-      const materialNames = materials.map(m => m.name);
-      
-      const { data, error } = await supabase
-        .from('materials')
-        .select('name, price')
-        .in('name', materialNames);
-      
-      if (error) throw error;
-      
-      // Create a map of material names to prices
-      const priceMap = data.reduce((acc, item) => {
-        acc[item.name] = item.price;
-        return acc;
-      }, {} as Record<string, number>);
-      
-      // Update materials with prices
-      return materials.map(material => ({
-        ...material,
-        price_per_unit: priceMap[material.name] || null,
-        total_price: priceMap[material.name] ? priceMap[material.name] * material.amount : null
-      }));
-    } catch (err) {
-      console.error('Error fetching material prices:', err);
-      return materials.map(material => ({
-        ...material,
-        price_per_unit: null,
-        total_price: null
-      }));
-    }
-  };
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
 
   const calculate = async () => {
-    console.log('Calculating with values:', {
-      area,
-      tape1ThicknessCm,
-      mortarThicknessCm,
-      selectedSlabId,
-      slabTypes
-    });
-
     if (!area) {
       setCalculationError('Please enter the area');
       return;
@@ -140,174 +118,52 @@ const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange }) => {
       setCalculationError(`Selected slab type not found (ID: ${selectedSlabId})`);
       return;
     }
-    
-    console.log('Selected slab type:', selectedSlabType);
-    
-    setCalculationError(null);
-    
+
     try {
-      const areaNum = parseFloat(area);
-      // Convert cm to meters for calculations
-      const tape1ThicknessM = parseFloat(tape1ThicknessCm) / 100;
-      const mortarThicknessM = parseFloat(mortarThicknessCm) / 100;
-      const cutSlabsNum = cutSlabs ? parseInt(cutSlabs) : 0;
-      
-      // Calculate base hours needed for installation based on time estimator
-      let mainTaskHours = 0;
-      
-      // Check if the selected task has a valid unit and estimated_hours
-      if (selectedSlabType.unit && selectedSlabType.estimated_hours !== undefined) {
-        console.log(`Task: ${selectedSlabType.name}, Unit: ${selectedSlabType.unit}, Estimated hours: ${selectedSlabType.estimated_hours}`);
-        
-        if (selectedSlabType.unit.toLowerCase() === 'm2') {
-          // If estimated_hours is hours per m2, multiply by area
-          // For example, if estimated_hours is 0.64 hours per m2, and area is 10m2, then total hours is 6.4
-          mainTaskHours = areaNum * selectedSlabType.estimated_hours;
-        } else {
-          // For other units, use a reasonable default
-          mainTaskHours = areaNum * selectedSlabType.estimated_hours;
+      const calculation = calculateSlab({
+        area: parseFloat(area),
+        type1ThicknessCm: parseFloat(tape1ThicknessCm),
+        mortarThicknessCm: parseFloat(mortarThicknessCm),
+        pattern: layingPattern as LayingPattern,
+        unitLengthCm: parseFloat(slabLengthCm),
+        unitWidthCm: parseFloat(slabWidthCm),
+        perimeter: measureSavedSketch(areaSketch)?.perimeter,
+        // Counted cuts first, then the layout plan's, then the pattern estimate
+        cutSlabs: cutSlabs ? parseInt(cutSlabs) : slabLayout?.cuts ?? 0,
+        edgingLength: edgingLength ? parseFloat(edgingLength) : 0,
+        slab: {
+          id: selectedSlabType.id.toString(),
+          name: selectedSlabType.name,
+          estimated_hours: selectedSlabType.estimated_hours || 0
         }
-      } else {
-        console.warn('Selected task has no unit or estimated_hours:', selectedSlabType);
-      }
-      
-      console.log('Main task hours:', mainTaskHours);
-      
-      // Calculate hours for cutting slabs based on time estimator
-      let cuttingHours = 0;
-      if (cutSlabsNum > 0) {
-        // Find the appropriate cutting task based on slab type
-        const isPorcelain = selectedSlabType.name.toLowerCase().includes('slab') && 
-                           !selectedSlabType.name.toLowerCase().includes('sandstone');
-        
-        const cuttingTaskName = isPorcelain ? 'cutting slab' : 'cutting sandstone';
-        const cuttingTask = cuttingTasks.find(task => 
-          task.name.toLowerCase().includes(cuttingTaskName)
-        );
-        
-        console.log('Cutting task:', cuttingTask);
-        
-        if (cuttingTask && cuttingTask.estimated_hours !== undefined) {
-          // If estimated_hours is hours per cut, multiply by number of cuts
-          // For example, if estimated_hours is 0.065 hours per cut, and cuts is 10, then total hours is 0.65
-          cuttingHours = cutSlabsNum * cuttingTask.estimated_hours;
-          console.log(`Cutting hours: ${cutSlabsNum} cuts × ${cuttingTask.estimated_hours} hours per cut = ${cuttingHours} hours`);
-        } else {
-          // Fallback to previous estimates if cutting task not found
-          const minutesPerCut = isPorcelain ? 6 : 4;
-          cuttingHours = (cutSlabsNum * minutesPerCut) / 60;
-          console.log(`Cutting hours (fallback): ${cutSlabsNum} cuts × ${minutesPerCut} minutes per cut = ${cuttingHours} hours`);
-        }
-      }
-      
-      // Calculate materials needed
-      const totalDepthM = tape1ThicknessM + mortarThicknessM + 0.02; // Adding 2cm (0.02m)
-      
-      // Calculate soil to be dug out (area × total depth)
-      const soilVolume = areaNum * totalDepthM;
-      // Convert soil volume to tonnes (approximately 1.5 tonnes per cubic meter)
-      const soilTonnes = soilVolume * 1.5;
-      
-      // Calculate tape1 needed (area × tape1 thickness)
-      const tape1Volume = areaNum * tape1ThicknessM;
-      // Convert tape1 volume to tonnes (approximately 2.1 tonnes per cubic meter)
-      const tape1Tonnes = tape1Volume * 2.1;
-      
-      // Calculate mortar needed (area × mortar thickness)
-      const mortarVolume = areaNum * mortarThicknessM;
-      
-      // Break down mortar into cement and sand
-      // Standard mix ratio is 1:4 (cement:sand) by volume
-      const cementVolume = mortarVolume * 0.2; // 1/5 of total volume
-      const sandVolume = mortarVolume * 0.8; // 4/5 of total volume
-      // Convert sand volume to tonnes (approximately 1.6 tonnes per cubic meter)
-      const sandTonnes = sandVolume * 1.6;
-      
-      // Convert cement volume to bags (1 bag = 25kg = ~0.0167 cubic meters)
-      const cementBags = cementVolume / 0.0167;
-      
-      // Create task breakdown with only tasks that have time estimates
-      const breakdown = [];
-      
-      // Only add main task if it has hours
-      if (mainTaskHours > 0) {
-        breakdown.push({ 
-          task: `${selectedSlabType.name}`,
-          hours: mainTaskHours,
-          amount: areaNum,
-          unit: 'square meters'
-        });
-      }
-      
-      // Only add cutting task if it has hours
-      if (cuttingHours > 0) {
-        const isPorcelain = selectedSlabType.name.toLowerCase().includes('slab') && 
-                           !selectedSlabType.name.toLowerCase().includes('sandstone');
-        const cuttingTaskName = isPorcelain ? 'cutting porcelain' : 'cutting sandstones';
-        breakdown.push({ 
-          task: cuttingTaskName,
-          hours: cuttingHours,
-          amount: cutSlabsNum,
-          unit: 'slabs'
-        });
-      }
-      
-      // Calculate total hours
-      const totalHours = breakdown.reduce((sum, item) => sum + item.hours, 0);
-      
-      // Prepare materials list (excluding slab type)
-      const materialsList: Material[] = [
-        { name: 'Soil excavation', amount: soilTonnes, unit: 'tonnes', price_per_unit: null, total_price: null },
-        { name: 'tape1', amount: tape1Tonnes, unit: 'tonnes', price_per_unit: null, total_price: null },
-        { name: 'Cement', amount: cementBags, unit: 'bags', price_per_unit: null, total_price: null },
-        { name: 'Sand', amount: sandTonnes, unit: 'tonnes', price_per_unit: null, total_price: null }
-      ];
-      
-      // Fetch prices for materials
-      const materialsWithPrices = await fetchMaterialPrices(materialsList);
-      
-      setMaterials(materialsWithPrices);
-      setTotalHours(totalHours);
-      setTaskBreakdown(breakdown);
+      }, {
+        cuttingPorcelain: cuttingTasks['slab.cutting_porcelain'],
+        cuttingSandstone: cuttingTasks['slab.cutting_sandstone']
+      }, materialProperties);
+
+      setMaterials(await fetchMaterialPrices(calculation.materials));
+      setResult(calculation);
+      setCalculationError(null);
     } catch (err) {
       console.error('Error in calculation:', err);
-      setCalculationError(`An error occurred during calculation: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setCalculationError(err instanceof Error ? err.message : 'An error occurred during calculation');
     }
   };
 
-  // Add useEffect to notify parent of result changes
+  // Notify parent of result changes
   useEffect(() => {
-    if (totalHours !== null && materials.length > 0) {
-      const formattedResults = {
-        name: selectedSlabId ? slabTypes.find(type => type.id.toString() === selectedSlabId)?.name || 'Slab Installation' : 'Slab Installation',
-        amount: parseFloat(area) || 0,
-        unit: 'square meters',
-        hours_worked: totalHours,
-        materials: materials.map(material => ({
-          name: material.name,
-          quantity: material.amount,
-          unit: material.unit
-        })),
-        taskBreakdown: taskBreakdown.map(task => ({
-          task: task.task,
-          hours: task.hours,
-          amount: task.amount,
-          unit: task.unit
-        }))
-      };
-
+    if (result) {
       // Store results in data attribute
       const calculatorElement = document.querySelector('[data-calculator-results]');
       if (calculatorElement) {
-        calculatorElement.setAttribute('data-results', JSON.stringify(formattedResults));
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
       }
 
-      // Notify parent component
       if (onResultsChange) {
-        onResultsChange(formattedResults);
+        onResultsChange(result);
       }
     }
-  }, [totalHours, materials, taskBreakdown, area, selectedSlabId, slabTypes, onResultsChange]);
+  }, [result, onResultsChange]);
 
   return (
     <div className="space-y-6">
@@ -317,40 +173,45 @@ const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange }) => {
       </p>
       
       <div className="space-y-4">
+        <AreaInput
+          area={area}
+          onAreaChange={setArea}
+          sketch={areaSketch}
+          onSketchChange={setAreaSketch}
+          onPerimeterChange={setEdgingLength}
+        />
         <div>
-          <label className="block text-sm font-medium text-gray-700">Area (m²)</label>
-          <input
-            type="number"
-            value={area}
-            onChange={(e) => setArea(e.target.value)}
+          <label className="block text-sm font-medium text-gray-700">Edging Length ({unit('meters')}, optional)</label>
+          <UnitInput
+            unit="meters"
+            value={edgingLength}
+            onValueChange={setEdgingLength}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-input"
-            placeholder="Enter area in square meters"
-            min="0"
-            step="0.01"
+            placeholder="Filled in from the sketched perimeter"
           />
         </div>
         
         <div>
-          <label className="block text-sm font-medium text-gray-700">Type 1 Aggregate Thickness (cm)</label>
-          <input
-            type="number"
+          <label className="block text-sm font-medium text-gray-700">Type 1 Aggregate Thickness ({unit('cm')})</label>
+          <UnitInput
+            unit="cm"
             value={tape1ThicknessCm}
-            onChange={(e) => setTape1ThicknessCm(e.target.value)}
+            onValueChange={setTape1ThicknessCm}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-input"
-            placeholder="Enter thickness in centimeters"
+            placeholder={`Enter thickness in ${unit('cm')}`}
             min="0"
             step="0.5"
           />
         </div>
         
         <div>
-          <label className="block text-sm font-medium text-gray-700">Mortar Thickness (cm)</label>
-          <input
-            type="number"
+          <label className="block text-sm font-medium text-gray-700">Mortar Thickness ({unit('cm')})</label>
+          <UnitInput
+            unit="cm"
             value={mortarThicknessCm}
-            onChange={(e) => setMortarThicknessCm(e.target.value)}
+            onValueChange={setMortarThicknessCm}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-input"
-            placeholder="Enter thickness in centimeters"
+            placeholder={`Enter thickness in ${unit('cm')}`}
             min="0"
             step="0.5"
           />
@@ -380,6 +241,81 @@ const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange }) => {
           <p className="text-sm text-gray-500 mt-1">Selected ID: {selectedSlabId}</p>
         </div>
         
+        <LayingPatternInput
+          unitLabel="Slab"
+          pattern={layingPattern}
+          onPatternChange={setLayingPattern}
+          unitLengthCm={slabLengthCm}
+          onUnitLengthChange={setSlabLengthCm}
+          unitWidthCm={slabWidthCm}
+          onUnitWidthChange={setSlabWidthCm}
+        />
+        
+        {layingPattern === 'stretcher' && (
+          <div className="p-4 border rounded-lg bg-gray-50 space-y-4">
+            <div>
+              <h3 className="font-medium text-gray-900">Slab Layout Plan</h3>
+              <p className="text-sm text-gray-600">
+                Enter the patio's size to plan it row by row, with the cuts and the offcuts that can be reused.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Patio Length ({symbol('meters')})</label>
+                <UnitInput
+                  unit="meters"
+                  value={layoutLength}
+                  onValueChange={setLayoutLength}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-input"
+                  placeholder="Along the rows"
+                  min="0"
+                  step="0.1"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Patio Width ({symbol('meters')})</label>
+                <UnitInput
+                  unit="meters"
+                  value={layoutWidth}
+                  onValueChange={setLayoutWidth}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-input"
+                  placeholder="Across the rows"
+                  min="0"
+                  step="0.1"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Gap</label>
+                <select
+                  value={slabGapMm}
+                  onChange={(e) => setSlabGapMm(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-select"
+                >
+                  {['2', '3', '4', '5'].map(gap => (
+                    <option key={gap} value={gap}>{format(Number(gap), 'mm')}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center mt-6 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={staggeredRows}
+                  onChange={(e) => setStaggeredRows(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 rounded mr-2"
+                />
+                Offset every other row by half a slab
+              </label>
+            </div>
+            {slabLayout && (
+              <SlabLayoutPlan
+                layout={slabLayout}
+                lengthCm={parseFloat(layoutLength) * 100}
+                widthCm={parseFloat(layoutWidth) * 100}
+              />
+            )}
+          </div>
+        )}
+        
         <div>
           <label className="block text-sm font-medium text-gray-700">Number of Slabs to be Cut (optional)</label>
           <input
@@ -387,7 +323,7 @@ const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange }) => {
             value={cutSlabs}
             onChange={(e) => setCutSlabs(e.target.value)}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 form-input"
-            placeholder="Enter number of cuts"
+            placeholder="Estimated from the laying pattern when left empty"
             min="0"
             step="1"
           />
@@ -407,15 +343,15 @@ const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange }) => {
           </div>
         )}
         
-        {totalHours !== null && (
+        {result && (
           <div className="mt-6 space-y-4">
             <div>
-              <h3 className="text-lg font-medium">Total Labor Hours: <span className="text-blue-600">{totalHours.toFixed(2)} hours</span></h3>
+              <h3 className="text-lg font-medium">Total Labor Hours: <span className="text-blue-600">{result.hours_worked.toFixed(2)} hours</span></h3>
               
               <div className="mt-2">
                 <h4 className="font-medium text-gray-700 mb-2">Task Breakdown:</h4>
                 <ul className="space-y-1 pl-5 list-disc">
-                  {taskBreakdown.map((task, index) => (
+                  {result.taskBreakdown.map((task, index) => (
                     <li key={index} className="text-sm">
                       <span className="font-medium">{task.task}:</span> {task.hours.toFixed(2)} hours
                     </li>
@@ -448,13 +384,13 @@ const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange }) => {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
-                    {materials.map((material, index) => (
+                    {materials.map(displayMaterial).map((material, index) => (
                       <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {material.name}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {material.amount.toFixed(2)}
+                          {material.quantity.toFixed(2)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {material.unit}
@@ -489,4 +425,4 @@ const SlabCalculator: React.FC<SlabCalculatorProps> = ({ onResultsChange }) => {
   );
 };
 
-export default SlabCalculator;
+export default SlabCalculator;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { LaidSlabSource, SlabLayout } from '../../lib/calculations/slabLayout';
+
+interface SlabLayoutPlanProps {
+  layout: SlabLayout;
+  lengthCm: number;
+  widthCm: number;
+}
+
+const SOURCE_STYLES: Record<LaidSlabSource, { fill: string; label: string }> = {
+  full: { fill: '#d1d5db', label: 'Full slab' },
+  cut: { fill: '#fdba74', label: 'Cut from a new slab' },
+  offcut: { fill: '#86efac', label: 'Cut from an offcut' }
+};
+
+const SlabLayoutPlan: React.FC<SlabLayoutPlanProps> = ({ layout, lengthCm, widthCm }) => {
+  const fontSize = Math.max(lengthCm, widthCm) / 40;
+
+  return (
+    <div className="space-y-4">
+      <svg viewBox={`0 0 ${lengthCm} ${widthCm}`} className="w-full border rounded bg-white">
+        {layout.rows.flatMap(row => row.pieces.map((piece, index) => (
+          <g key={`${row.row}-${index}`}>
+            <rect
+              x={piece.x}
+              y={piece.y}
+              width={piece.length}
+              height={piece.width}
+              fill={SOURCE_STYLES[piece.source].fill}
+              stroke="#4b5563"
+              vectorEffect="non-scaling-stroke"
+            />
+            {piece.source !== 'full' && piece.length > fontSize * 4 && piece.width > fontSize * 2 && (
+              <text
+                x={piece.x + piece.length / 2}
+                y={piece.y + piece.width / 2}
+                fontSize={fontSize}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fill="#1f2937"
+              >
+                {piece.length.toFixed(1)}x{piece.width.toFixed(1)}
+              </text>
+            )}
+          </g>
+        )))}
+      </svg>
+      <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+        {Object.values(SOURCE_STYLES).map(style => (
+          <span key={style.label} className="flex items-center">
+            <span className="inline-block w-3 h-3 mr-1 border border-gray-500" style={{ backgroundColor: style.fill }} />
+            {style.label}
+          </span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+              <th className="px-3 py-2 text-right font-medium text-gray-500">Row Width</th>
+              <th className="px-3 py-2 text-right font-medium text-gray-500">Full Slabs</th>
+              <th className="px-3 py-2 text-right font-medium text-gray-500">Cut Slabs</th>
+              <th className="px-3 py-2 text-right font-medium text-gray-500">Offcuts Reused</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {layout.rows.map(row => (
+              <tr key={row.row} className="text-gray-700">
+                <td className="px-3 py-2">{row.row}</td>
+                <td className="px-3 py-2 text-right">{row.widthCm.toFixed(1)} cm</td>
+                <td className="px-3 py-2 text-right">{row.fullSlabs}</td>
+                <td className="px-3 py-2 text-right">{row.cutSlabs}</td>
+                <td className="px-3 py-2 text-right">{row.offcutsReused}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-3 bg-white rounded border">
+          <p className="text-sm text-gray-500">Slabs to Order</p>
+          <p className="text-xl font-semibold">{layout.slabsToOrder}</p>
+        </div>
+        <div className="p-3 bg-white rounded border">
+          <p className="text-sm text-gray-500">Cuts</p>
+          <p className="text-xl font-semibold">{layout.cuts}</p>
+        </div>
+        <div className="p-3 bg-white rounded border">
+          <p className="text-sm text-gray-500">Offcuts Reused</p>
+          <p className="text-xl font-semibold">{layout.offcutsReused}</p>
+        </div>
+        <div className="p-3 bg-white rounded border">
+          <p className="text-sm text-gray-500">Offcuts Left</p>
+          <p className="text-xl font-semibold">{layout.offcuts.length}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlabLayoutPlan;
@@ -0,0 +1,370 @@
+import React, { useState, useEffect, ChangeEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Plus, Trash2 } from 'lucide-react';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import AreaInput from './AreaInput';
+import { fetchMappedTaskTemplates } from '../../lib/calculatorTaskMappings';
+import { fetchMaterialPrices, fetchMaterialProperties } from '../../lib/pricing';
+import { CalculationResult, PricedMaterial } from '../../lib/calculations/common';
+import {
+  TopsoilSupply,
+  calculateSoftLandscaping,
+  countPlants,
+  softLandscapingOutputKeys
+} from '../../lib/calculations/softLandscaping';
+
+interface SoftLandscapingCalculatorProps extends CalculatorInputProps {
+  onResultsChange?: (results: CalculationResult) => void;
+}
+
+interface PlantingForm {
+  name: string;
+  area: string;
+  spacing: string;
+}
+
+/**
+ * Reads the planting saved with the inputs
+ * @param value The planting as JSON
+ * @returns PlantingForm[] Empty when nothing was saved
+ */
+const parsePlanting = (value: unknown): PlantingForm[] => {
+  try {
+    const planting = typeof value === 'string' ? JSON.parse(value) : null;
+    if (Array.isArray(planting)) return planting;
+  } catch {
+    // Start without planting
+  }
+  return [];
+};
+
+const SoftLandscapingCalculator: React.FC<SoftLandscapingCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, material: displayMaterial } = useUnits();
+  const [area, setArea] = useState<string>(initialInputs?.area as string ?? '');
+  const [areaSketch, setAreaSketch] = useState<string>(initialInputs?.areaSketch as string ?? '');
+  const [turfWastage, setTurfWastage] = useState<string>(initialInputs?.turfWastage as string ?? '5');
+  const [bedArea, setBedArea] = useState<string>(initialInputs?.bedArea as string ?? '');
+  const [planting, setPlanting] = useState<PlantingForm[]>(() => parsePlanting(initialInputs?.planting));
+  const [topsoilDepth, setTopsoilDepth] = useState<string>(initialInputs?.topsoilDepth as string ?? '10');
+  const [topsoilSupply, setTopsoilSupply] = useState<TopsoilSupply>(initialInputs?.topsoilSupply as TopsoilSupply ?? 'bulk_bags');
+  const [membrane, setMembrane] = useState<boolean>(initialInputs?.membrane as boolean ?? true);
+  const [membraneOverlap, setMembraneOverlap] = useState<string>(initialInputs?.membraneOverlap as string ?? '10');
+  const [mulchDepth, setMulchDepth] = useState<string>(initialInputs?.mulchDepth as string ?? '5');
+  const [result, setResult] = useState<CalculationResult | null>(null);
+  const [materials, setMaterials] = useState<PricedMaterial[]>([]);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+
+  useCalculatorInputs({ area, areaSketch, turfWastage, bedArea, planting: JSON.stringify(planting), topsoilDepth, topsoilSupply, membrane, membraneOverlap, mulchDepth }, onInputsChange);
+
+  // Fetch the task templates bound to the soft landscaping outputs in Setup
+  const outputKeys = softLandscapingOutputKeys();
+  const { data: mappedTasks = {}, isLoading } = useQuery({
+    queryKey: ['mapped_task_templates', outputKeys.turf, outputKeys.topsoil, outputKeys.planting, outputKeys.membrane, outputKeys.mulch],
+    queryFn: () => fetchMappedTaskTemplates([outputKeys.turf, outputKeys.topsoil, outputKeys.planting, outputKeys.membrane, outputKeys.mulch])
+  });
+
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>, setter: (value: string) => void) => {
+    setter(e.target.value);
+  };
+
+  const updateSpecies = (index: number, changes: Partial<PlantingForm>) => {
+    setPlanting(planting.map((species, i) => (i === index ? { ...species, ...changes } : species)));
+  };
+
+  const calculate = async () => {
+    if (!area && !bedArea) {
+      setCalculationError('Please enter a turf or bed area');
+      return;
+    }
+    if (planting.some(species => !species.name || !species.area || !species.spacing)) {
+      setCalculationError('Please fill in the name, area and spacing of each plant');
+      return;
+    }
+
+    try {
+      const calculation = calculateSoftLandscaping({
+        turfArea: parseFloat(area) || 0,
+        turfWastage: parseFloat(turfWastage) || 0,
+        bedArea: parseFloat(bedArea) || 0,
+        planting: planting.map(species => ({
+          name: species.name,
+          area: parseFloat(species.area),
+          spacing: parseFloat(species.spacing)
+        })),
+        topsoilDepth: parseFloat(topsoilDepth) || 0,
+        topsoilSupply,
+        membrane,
+        membraneOverlap: parseFloat(membraneOverlap) || 0,
+        mulchDepth: parseFloat(mulchDepth) || 0
+      }, {
+        turf: mappedTasks[outputKeys.turf],
+        topsoil: mappedTasks[outputKeys.topsoil],
+        planting: mappedTasks[outputKeys.planting],
+        membrane: mappedTasks[outputKeys.membrane],
+        mulch: mappedTasks[outputKeys.mulch]
+      }, materialProperties);
+
+      setMaterials(await fetchMaterialPrices(calculation.materials));
+      setResult(calculation);
+      setCalculationError(null);
+    } catch (error) {
+      setCalculationError(error instanceof Error ? error.message : 'Please enter valid numbers');
+    }
+  };
+
+  // Notify parent of result changes
+  useEffect(() => {
+    if (result) {
+      // Store results in data attribute
+      const calculatorElement = document.querySelector('[data-calculator-results]');
+      if (calculatorElement) {
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
+      }
+
+      if (onResultsChange) {
+        onResultsChange(result);
+      }
+    }
+  }, [result, onResultsChange]);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold">Soft Landscaping Calculator</h2>
+      <p className="text-sm text-gray-600">
+        Calculate turf, topsoil, plants, weed membrane, mulch and time for lawns and planting beds.
+      </p>
+
+      <AreaInput
+        label="Turf Area"
+        area={area}
+        onAreaChange={setArea}
+        sketch={areaSketch}
+        onSketchChange={setAreaSketch}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Turf Wastage (%)</label>
+          <input
+            type="number"
+            value={turfWastage}
+            onChange={(e) => handleInputChange(e, setTurfWastage)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Planting Bed Area ({symbol('square meters')})</label>
+          <UnitInput
+            unit="square meters"
+            value={bedArea}
+            onValueChange={setBedArea}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder={`Enter area in ${unit('square meters')}`}
+            min="0"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Planting</label>
+        <p className="text-sm text-gray-500">Each plant covers part of the beds at its own spacing.</p>
+        <div className="mt-2 space-y-2">
+          {planting.map((species, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={species.name}
+                onChange={(e) => updateSpecies(index, { name: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="Plant"
+              />
+              <UnitInput
+                unit="square meters"
+                value={species.area}
+                onValueChange={(area) => updateSpecies(index, { area })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder={`Area (${symbol('square meters')})`}
+              />
+              <UnitInput
+                unit="cm"
+                value={species.spacing}
+                onValueChange={(spacing) => updateSpecies(index, { spacing })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder={`Spacing (${symbol('cm')})`}
+              />
+              <span className="w-24 text-sm text-gray-500 text-right">
+                {parseFloat(species.area) > 0 && parseFloat(species.spacing) > 0
+                  ? `${countPlants(parseFloat(species.area), parseFloat(species.spacing))} plants`
+                  : ''}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPlanting(planting.filter((_, i) => i !== index))}
+                className="text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => setPlanting([...planting, { name: '', area: '', spacing: '' }])}
+          className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Plant
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Topsoil Depth ({unit('cm')})</label>
+          <UnitInput
+            unit="cm"
+            value={topsoilDepth}
+            onValueChange={setTopsoilDepth}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Topsoil Delivered</label>
+          <select
+            value={topsoilSupply}
+            onChange={(e) => setTopsoilSupply(e.target.value as TopsoilSupply)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="bulk_bags">In bulk bags</option>
+            <option value="loose">Loose, by the tonne</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={membrane}
+              onChange={(e) => setMembrane(e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 rounded"
+            />
+            Weed membrane under the beds
+          </label>
+          {membrane && (
+            <div className="mt-2">
+              <label className="block text-sm font-medium text-gray-700">Membrane Overlap ({unit('cm')})</label>
+              <UnitInput
+                unit="cm"
+                value={membraneOverlap}
+                onValueChange={setMembraneOverlap}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                min="0"
+              />
+            </div>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Bark or Mulch Depth ({unit('cm')})</label>
+          <UnitInput
+            unit="cm"
+            value={mulchDepth}
+            onValueChange={setMulchDepth}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={calculate}
+        disabled={isLoading}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-blue-300"
+      >
+        {isLoading ? 'Loading...' : 'Calculate'}
+      </button>
+
+      {calculationError && (
+        <div className="mt-4 p-4 bg-red-100 text-red-700 rounded-md">
+          {calculationError}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-6 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Labor Breakdown</h3>
+            <div className="space-y-2">
+              {result.taskBreakdown.map((task, index) => (
+                <div key={index} className="flex justify-between text-gray-700">
+                  <span>{task.task}</span>
+                  <span className="font-medium">{task.hours.toFixed(2)} hours</span>
+                </div>
+              ))}
+              <div className="pt-2 mt-2 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Labor Hours</span>
+                  <span>{result.hours_worked.toFixed(2)} hours</span>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Materials Required</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Material</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Amount</th>
+                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-500">Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Price/Unit</th>
+                      <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {materials.map(displayMaterial).map((material, index) => (
+                      <tr key={index} className="text-gray-700">
+                        <td className="px-3 py-2">{material.name}</td>
+                        <td className="px-3 py-2 text-right">{material.quantity.toFixed(2)}</td>
+                        <td className="px-3 py-2">{material.unit}</td>
+                        <td className="px-3 py-2 text-right">
+                          {material.price_per_unit ? `£${material.price_per_unit.toFixed(2)}` : 'N/A'}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {material.total_price ? `£${material.total_price.toFixed(2)}` : 'N/A'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="pt-4 mt-4 border-t border-gray-200">
+                <div className="flex justify-between text-gray-900 font-semibold">
+                  <span>Total Material Cost</span>
+                  <span>
+                    £{materials.reduce((sum: number, material: PricedMaterial) => sum + (material.total_price || 0), 0).toFixed(2)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SoftLandscapingCalculator;
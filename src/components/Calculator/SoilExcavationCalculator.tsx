@@ -1,5 +1,13 @@
 import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../../lib/supabase';
+import { fetchMaterialProperties } from '../../lib/pricing';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import { GroundworksResult, calculateSoilExcavation } from '../../lib/calculations/groundworks';
+import { measureSketch, parseSketch, sketchVertices } from '../../lib/calculations/polygon';
+import AreaSketcher from './AreaSketcher';
 
 // Define types for our equipment
 interface DiggingEquipment {
@@ -10,58 +18,40 @@ interface DiggingEquipment {
   "size (in tones)": number | null;
 }
 
-// Define time estimates for different digger sizes
-const diggerTimeEstimates = [
-  { size: 'Shovel (1 Person)', sizeInTons: 0.02, timePerTon: 0.5 },
-  { size: 'Digger 1T', sizeInTons: 1, timePerTon: 0.14 },
-  { size: 'Digger 2T', sizeInTons: 2, timePerTon: 0.06 },
-  { size: 'Digger 3-5T', sizeInTons: 3, timePerTon: 0.02 },
-  { size: 'Digger 6-10T', sizeInTons: 6, timePerTon: 0.01 },
-  { size: 'Digger 11-20T', sizeInTons: 11, timePerTon: 0.003 },
-  { size: 'Digger 21-30T', sizeInTons: 21, timePerTon: 0.0012 },
-  { size: 'Digger 31-40T', sizeInTons: 31, timePerTon: 0.0007 },
-  { size: 'Digger 41-50T', sizeInTons: 41, timePerTon: 0.0004 }
-];
-
-// Define time estimates for different carrier sizes
-const carrierTimeEstimates = [
-  { carrier: 'Wheelbarrow', size: 0.1, timePerTon: 0.355 },
-  { carrier: 'Wheelbarrow', size: 0.125, timePerTon: 0.296 },
-  { carrier: 'Wheelbarrow', size: 0.15, timePerTon: 0.237 },
-  { carrier: 'Petrol Wheelbarrow', size: 0.3, timePerTon: 0.0766 },
-  { carrier: 'Petrol Wheelbarrow', size: 0.5, timePerTon: 0.03416 },
-  { carrier: 'Dumper', size: 1, timePerTon: 0.00967 },
-  { carrier: 'Dumper', size: 3, timePerTon: 0.00283 },
-  { carrier: 'Dumper', size: 5, timePerTon: 0.00157 },
-  { carrier: 'Dumper', size: 10, timePerTon: 0.00068 }
-];
-
-interface SoilExcavationCalculatorProps {
+interface SoilExcavationCalculatorProps extends CalculatorInputProps {
   onResultsChange?: (results: any) => void;
 }
 
-const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onResultsChange }) => {
+const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, value } = useUnits();
   // State for input values
-  const [calculationMethod, setCalculationMethod] = useState<'direct' | 'area'>('area');
-  const [tons, setTons] = useState<string>('');
-  const [length, setLength] = useState<string>('');
-  const [width, setWidth] = useState<string>('');
-  const [depth, setDepth] = useState<string>('');
-  const [excavationOption, setExcavationOption] = useState<'removal' | 'pile'>('removal');
+  const [calculationMethod, setCalculationMethod] = useState<'direct' | 'area'>(initialInputs?.calculationMethod as 'direct' | 'area' ?? 'area');
+  const [tons, setTons] = useState<string>(initialInputs?.tons as string ?? '');
+  const [length, setLength] = useState<string>(initialInputs?.length as string ?? '');
+  const [width, setWidth] = useState<string>(initialInputs?.width as string ?? '');
+  const [depth, setDepth] = useState<string>(initialInputs?.depth as string ?? '');
+  const [areaSketch, setAreaSketch] = useState<string>(initialInputs?.areaSketch as string ?? '');
+  const sketch = parseSketch(areaSketch);
+  const [excavationOption, setExcavationOption] = useState<'removal' | 'pile'>(initialInputs?.excavationOption as 'removal' | 'pile' ?? 'removal');
   
   // State for equipment selection
   const [excavators, setExcavators] = useState<DiggingEquipment[]>([]);
   const [carriers, setCarriers] = useState<DiggingEquipment[]>([]);
-  const [selectedExcavator, setSelectedExcavator] = useState<DiggingEquipment | null>(null);
-  const [selectedCarrier, setSelectedCarrier] = useState<DiggingEquipment | null>(null);
+  const [selectedExcavatorId, setSelectedExcavatorId] = useState<string>(initialInputs?.excavatorId as string ?? '');
+  const [selectedCarrierId, setSelectedCarrierId] = useState<string>(initialInputs?.carrierId as string ?? '');
+  const selectedExcavator = excavators.find(excavator => excavator.id === selectedExcavatorId) || null;
+  const selectedCarrier = carriers.find(carrier => carrier.id === selectedCarrierId) || null;
   
+  useCalculatorInputs({ calculationMethod, tons, length, width, depth, areaSketch, excavationOption, excavatorId: selectedExcavatorId, carrierId: selectedCarrierId }, onInputsChange);
+
   // State for results
-  const [result, setResult] = useState<{
-    totalTons: number;
-    excavationTime: number;
-    transportTime: number;
-    totalTime: number;
-  } | null>(null);
+  const [result, setResult] = useState<GroundworksResult | null>(null);
+
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
 
   // Fetch equipment from the database
   useEffect(() => {
@@ -93,52 +83,6 @@ const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onR
     fetchEquipment();
   }, []);
 
-  // Calculate soil weight from dimensions
-  const calculateSoilWeight = () => {
-    if (calculationMethod === 'direct') {
-      return parseFloat(tons) || 0;
-    } else {
-      const l = parseFloat(length) || 0;
-      const w = parseFloat(width) || 0;
-      const d = parseFloat(depth) || 0;
-      
-      // Calculate volume in cubic meters
-      const volumeInCubicMeters = l * w * d;
-      
-      // Convert to tons (1 cubic meter = 1.5 tons)
-      return volumeInCubicMeters * 1.5;
-    }
-  };
-
-  // Find the closest digger time estimate based on size
-  const findDiggerTimeEstimate = (sizeInTons: number) => {
-    if (sizeInTons <= 0) return diggerTimeEstimates[0].timePerTon;
-    
-    for (let i = 0; i < diggerTimeEstimates.length - 1; i++) {
-      if (
-        sizeInTons >= diggerTimeEstimates[i].sizeInTons &&
-        sizeInTons < diggerTimeEstimates[i + 1].sizeInTons
-      ) {
-        return diggerTimeEstimates[i].timePerTon;
-      }
-    }
-    
-    return diggerTimeEstimates[diggerTimeEstimates.length - 1].timePerTon;
-  };
-
-  // Modify the findCarrierTimeEstimate function (around line 123)
-  const findCarrierTimeEstimate = (sizeInTons: number) => {
-    // Find the closest carrier size that's not larger than the selected one
-    const sortedEstimates = [...carrierTimeEstimates].sort((a, b) => b.size - a.size);
-    const estimate = sortedEstimates.find(est => est.size <= sizeInTons);
-    
-    if (!estimate) {
-      return carrierTimeEstimates[0].timePerTon; // Default to smallest if none found
-    }
-    
-    return estimate.timePerTon;
-  };
-
   // Calculate time needed
   const calculateTime = () => {
     if (!selectedExcavator) {
@@ -151,36 +95,21 @@ const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onR
       alert('Please select a carrier');
       return;
     }
-    
-    const totalTons = calculateSoilWeight();
-    
-    if (totalTons <= 0) {
+
+    try {
+      setResult(calculateSoilExcavation({
+        quantity: calculationMethod === 'direct'
+          ? { method: 'direct', tonnes: parseFloat(tons) || 0 }
+          : sketch
+            ? { method: 'sketch', area: measureSketch(sketchVertices(sketch)).area, depth: parseFloat(depth) || 0 }
+            : { method: 'area', length: parseFloat(length) || 0, width: parseFloat(width) || 0, depth: parseFloat(depth) || 0 },
+        excavatorSize: selectedExcavator["size (in tones)"] || 0,
+        option: excavationOption,
+        carrierSize: selectedCarrier ? selectedCarrier["size (in tones)"] || 0 : null
+      }, materialProperties));
+    } catch {
       alert('Please enter valid dimensions or weight');
-      return;
-    }
-    
-    // Get excavator size
-    const excavatorSize = selectedExcavator["size (in tones)"] || 0;
-    
-    // Find excavation time estimate
-    const excavationTimePerTon = findDiggerTimeEstimate(excavatorSize);
-    const excavationTime = excavationTimePerTon * totalTons;
-    
-    // Only calculate transport time for "Removal" option
-    let transportTime = 0;
-    if (excavationOption === 'removal' && selectedCarrier) {
-      const carrierSize = selectedCarrier["size (in tones)"] || 0;
-      const transportTimePerTon = findCarrierTimeEstimate(carrierSize);
-      transportTime = transportTimePerTon * totalTons;
     }
-    
-    // Set result - total time is excavation time + transport time (if applicable)
-    setResult({
-      totalTons,
-      excavationTime,
-      transportTime,
-      totalTime: excavationTime + transportTime
-    });
   };
 
   // Format time to hours and minutes
@@ -197,47 +126,20 @@ const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onR
     }
   };
 
-  // Add useEffect to notify parent of result changes
+  // Notify parent of result changes
   useEffect(() => {
     if (result) {
-      const formattedResults = {
-        name: excavationOption === 'removal' ? 'Soil Excavation and Removal' : 'Soil Excavation and Pile Up',
-        amount: result.totalTons,
-        hours_worked: result.totalTime,
-        materials: [
-          {
-            name: 'Soil',
-            quantity: result.totalTons,
-            unit: 'tons'
-          }
-        ],
-        taskBreakdown: [
-          {
-            task: 'Excavation',
-            hours: result.excavationTime
-          }
-        ]
-      };
-
-      if (excavationOption === 'removal') {
-        formattedResults.taskBreakdown.push({
-          task: 'Transport',
-          hours: result.transportTime
-        });
-      }
-
       // Store results in data attribute
       const calculatorElement = document.querySelector('[data-calculator-results]');
       if (calculatorElement) {
-        calculatorElement.setAttribute('data-results', JSON.stringify(formattedResults));
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
       }
 
-      // Notify parent component
       if (onResultsChange) {
-        onResultsChange(formattedResults);
+        onResultsChange(result);
       }
     }
-  }, [result, excavationOption, onResultsChange]);
+  }, [result, onResultsChange]);
 
   return (
     <div className="space-y-6">
@@ -278,49 +180,32 @@ const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onR
         
         {calculationMethod === 'direct' ? (
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Soil Weight (tons)</label>
-            <input
-              type="number"
+            <label className="block text-sm font-medium text-gray-700 mb-1">Soil Weight ({unit('tonnes')})</label>
+            <UnitInput
+              unit="tonnes"
               value={tons}
-              onChange={(e) => setTons(e.target.value)}
+              onValueChange={setTons}
               className="w-full p-2 border rounded-md"
-              placeholder="Enter weight in tons"
+              placeholder={`Enter weight in ${unit('tonnes')}`}
               min="0"
               step="0.1"
             />
           </div>
-        ) : (
-          <div className="grid grid-cols-3 gap-3">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Length (m)</label>
-              <input
-                type="number"
-                value={length}
-                onChange={(e) => setLength(e.target.value)}
-                className="w-full p-2 border rounded-md"
-                placeholder="Length"
-                min="0"
-                step="0.01"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Width (m)</label>
-              <input
-                type="number"
-                value={width}
-                onChange={(e) => setWidth(e.target.value)}
-                className="w-full p-2 border rounded-md"
-                placeholder="Width"
-                min="0"
-                step="0.01"
-              />
-            </div>
+        ) : sketch ? (
+          <div className="space-y-3">
+            <p
+              className="text-sm text-blue-600 cursor-pointer hover:underline"
+              onClick={() => setAreaSketch('')}
+            >
+              Enter length and width instead
+            </p>
+            <AreaSketcher sketch={sketch} onChange={(next) => setAreaSketch(JSON.stringify(next))} />
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Depth (m)</label>
-              <input
-                type="number"
+              <label className="block text-sm font-medium text-gray-700 mb-1">Depth ({symbol('meters')})</label>
+              <UnitInput
+                unit="meters"
                 value={depth}
-                onChange={(e) => setDepth(e.target.value)}
+                onValueChange={setDepth}
                 className="w-full p-2 border rounded-md"
                 placeholder="Depth"
                 min="0"
@@ -328,6 +213,53 @@ const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onR
               />
             </div>
           </div>
+        ) : (
+          <div>
+            <p
+              className="text-sm text-blue-600 cursor-pointer hover:underline mb-2"
+              onClick={() => setAreaSketch(JSON.stringify({ mode: 'points', points: [] }))}
+            >
+              Sketch an irregular area
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Length ({symbol('meters')})</label>
+                <UnitInput
+                  unit="meters"
+                  value={length}
+                  onValueChange={setLength}
+                  className="w-full p-2 border rounded-md"
+                  placeholder="Length"
+                  min="0"
+                  step="0.01"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Width ({symbol('meters')})</label>
+                <UnitInput
+                  unit="meters"
+                  value={width}
+                  onValueChange={setWidth}
+                  className="w-full p-2 border rounded-md"
+                  placeholder="Width"
+                  min="0"
+                  step="0.01"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Depth ({symbol('meters')})</label>
+                <UnitInput
+                  unit="meters"
+                  value={depth}
+                  onValueChange={setDepth}
+                  className="w-full p-2 border rounded-md"
+                  placeholder="Depth"
+                  min="0"
+                  step="0.01"
+                />
+              </div>
+            </div>
+          </div>
         )}
       </div>
       
@@ -343,7 +275,7 @@ const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onR
                 <div 
                   key={excavator.id}
                   className="flex items-center p-2 cursor-pointer hover:bg-gray-50 rounded-md"
-                  onClick={() => setSelectedExcavator(excavator)}
+                  onClick={() => setSelectedExcavatorId(excavator.id)}
                 >
                   <div className={`w-4 h-4 rounded-full border mr-2 ${
                     selectedExcavator?.id === excavator.id 
@@ -378,7 +310,7 @@ const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onR
                   <div 
                     key={carrier.id}
                     className="flex items-center p-2 cursor-pointer hover:bg-gray-50 rounded-md"
-                    onClick={() => setSelectedCarrier(carrier)}
+                    onClick={() => setSelectedCarrierId(carrier.id)}
                   >
                     <div className={`w-4 h-4 rounded-full border mr-2 ${
                       selectedCarrier?.id === carrier.id 
@@ -419,14 +351,14 @@ const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onR
         <div className="mt-4 p-6 bg-gray-100 rounded-md">
           <h3 className="text-lg font-semibold mb-2">Estimated Time</h3>
           <div className="space-y-2">
-            <p>Total Soil: <span className="font-medium">{result.totalTons.toFixed(2)} tons</span></p>
-            <p>Excavation Time: <span className="font-medium">{formatTime(result.excavationTime)}</span></p>
+            <p>Total Soil: <span className="font-medium">{value(result.amount, 'tonnes').toFixed(2)} {unit('tonnes')}</span></p>
+            <p>Excavation Time: <span className="font-medium">{formatTime(result.excavationHours)}</span></p>
             {excavationOption === 'removal' && (
-              <p>Transport Time: <span className="font-medium">{formatTime(result.transportTime)}</span></p>
+              <p>Transport Time: <span className="font-medium">{formatTime(result.transportHours)}</span></p>
             )}
             <p className="text-lg">
               Total Time: <span className="font-bold">
-                {formatTime(result.totalTime)}
+                {formatTime(result.hours_worked)}
               </span>
             </p>
             <p className="text-sm text-gray-500 italic">* Calculated for 30 meter of transport route (each way)</p>
@@ -437,4 +369,4 @@ const SoilExcavationCalculator: React.FC<SoilExcavationCalculatorProps> = ({ onR
   );
 };
 
-export default SoilExcavationCalculator;
+export default SoilExcavationCalculator;
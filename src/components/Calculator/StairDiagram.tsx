@@ -0,0 +1,103 @@
+import React from 'react';
+import { StairStep, StairStepKind } from '../../lib/calculations/stairs';
+
+interface StairDiagramProps {
+  steps: StairStep[];
+}
+
+const KIND_STYLES: Record<StairStepKind, { fill: string; label: string }> = {
+  step: { fill: '#d1d5db', label: 'Step' },
+  landing: { fill: '#93c5fd', label: 'Landing' },
+  winder: { fill: '#fdba74', label: 'Winder' }
+};
+
+const StairDiagram: React.FC<StairDiagramProps> = ({ steps }) => {
+  const points = steps.flatMap(step => step.outline);
+  const minX = Math.min(...points.map(point => point.x));
+  const maxX = Math.max(...points.map(point => point.x));
+  const maxY = Math.max(...points.map(point => point.y));
+  const planSize = Math.max(maxX - minX, maxY);
+
+  // The elevation is unfolded along the walking line, bottom step on the left
+  const starts = steps.map((_, index) => steps.slice(0, index).reduce((sum, step) => sum + step.tread, 0));
+  const tops = steps.map((_, index) => steps.slice(0, index + 1).reduce((sum, step) => sum + step.height, 0));
+  const length = starts[starts.length - 1] + steps[steps.length - 1].tread;
+  const height = tops[tops.length - 1];
+  const elevationSize = Math.max(length, height);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <h4 className="text-lg font-medium text-white mb-2">Plan</h4>
+        <svg viewBox={`${minX} 0 ${maxX - minX} ${maxY}`} className="w-full max-h-96 border rounded bg-white">
+          {steps.map((step, index) => {
+            const outline = step.outline.map(point => ({ x: point.x, y: maxY - point.y }));
+            const centre = {
+              x: outline.reduce((sum, point) => sum + point.x, 0) / outline.length,
+              y: outline.reduce((sum, point) => sum + point.y, 0) / outline.length
+            };
+            return (
+              <g key={index}>
+                <polygon
+                  points={outline.map(point => `${point.x},${point.y}`).join(' ')}
+                  fill={KIND_STYLES[step.kind].fill}
+                  stroke="#4b5563"
+                  vectorEffect="non-scaling-stroke"
+                />
+                <text
+                  x={centre.x}
+                  y={centre.y}
+                  fontSize={planSize / 25}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  fill="#1f2937"
+                >
+                  {index + 1}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div>
+        <h4 className="text-lg font-medium text-white mb-2">Elevation</h4>
+        <svg viewBox={`0 0 ${length} ${height}`} className="w-full max-h-96 border rounded bg-white">
+          {steps.map((step, index) => (
+            <g key={index}>
+              <rect
+                x={starts[index]}
+                y={height - tops[index]}
+                width={step.tread}
+                height={tops[index]}
+                fill={KIND_STYLES[step.kind].fill}
+                stroke="#4b5563"
+                vectorEffect="non-scaling-stroke"
+              />
+              <text
+                x={starts[index] + step.tread / 2}
+                y={height - tops[index] + elevationSize / 25}
+                fontSize={elevationSize / 30}
+                textAnchor="middle"
+                fill="#1f2937"
+              >
+                {index + 1}
+              </text>
+            </g>
+          ))}
+        </svg>
+      </div>
+
+      <div className="md:col-span-2 flex flex-wrap gap-4 text-sm text-gray-300">
+        {Object.values(KIND_STYLES).map(style => (
+          <span key={style.label} className="flex items-center">
+            <span className="inline-block w-3 h-3 mr-1 border border-gray-500" style={{ backgroundColor: style.fill }} />
+            {style.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StairDiagram;
@@ -20,7 +20,6 @@ interface StepDimension {
   height: number;
   tread: number;
   isFirst: boolean;
-  remainingTread: number;
 }
 
 interface WasteMaterial {
@@ -107,7 +106,7 @@ const StandardStairsSlabs: React.FC<StandardStairsSlabsProps> = ({ stairResult }
     
     // For each step in the stair result
     for (let i = 0; i < stairResult.totalSteps; i++) {
-      const stepDimension = stairResult.stepDimensions[i];
+      const step = stairResult.stepDimensions[i];
       
       // Get the total width of the step - use the totalWidth from input if available
       const totalWidth = stairResult.totalWidth || 
@@ -141,6 +140,10 @@ const StandardStairsSlabs: React.FC<StandardStairsSlabsProps> = ({ stairResult }
         slabWidth = Math.min(selectedSlab.width, selectedSlab.length);
         slabLength = Math.max(selectedSlab.width, selectedSlab.length);
       }
+
+      // Landings and winders deeper than a slab are covered in rows of equal depth
+      const treadRows = Math.max(1, Math.ceil(step.tread / slabLength - 0.001));
+      const stepDimension = { ...step, tread: step.tread / treadRows };
       
       // Find all usable waste pieces for this step
       const usableWastePieces = wasteList.filter(waste => {
@@ -381,6 +384,11 @@ const StandardStairsSlabs: React.FC<StandardStairsSlabsProps> = ({ stairResult }
         
         stepSlabsLength = slabLength;
       }
+
+      if (treadRows > 1) {
+        newSlabsNeeded *= treadRows;
+        stepSlabDimensions = `${treadRows} rows of ${stepSlabDimensions}`;
+      }
       
       // Calculate slabs for the front (vertical part)
       let frontSlabsNeeded = 0;
@@ -647,7 +655,7 @@ const StandardStairsSlabs: React.FC<StandardStairsSlabsProps> = ({ stairResult }
         stepSlabsLength,
         stepNeedsCutting,
         stepCutLength,
-        stepTread: stepDimension.tread,
+        stepTread: step.tread,
         stepWasteUsed,
         stepWasteSource,
         frontSlabsNeeded: frontNewSlabsNeeded, // Only show NEW slabs needed
@@ -1,5 +1,11 @@
 import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../../lib/supabase';
+import { fetchMaterialProperties } from '../../lib/pricing';
+import { CalculatorInputProps, useCalculatorInputs } from '../../hooks/useCalculatorInputs';
+import UnitInput from '../UnitInput';
+import { useUnits } from '../../hooks/useUnits';
+import { GroundworksResult, calculateType1Preparation } from '../../lib/calculations/groundworks';
 
 // Define types for our equipment
 interface DiggingEquipment {
@@ -10,58 +16,37 @@ interface DiggingEquipment {
   "size (in tones)": number | null;
 }
 
-// Define loading time estimates for different digger sizes
-const diggerTimeEstimates = [
-  { equipment: 'Shovel (manual)', sizeInTons: 0.02, timePerTon: 0.5 },
-  { equipment: '0.5t mini digger', sizeInTons: 0.5, timePerTon: 0.23 },
-  { equipment: '1t mini digger', sizeInTons: 1, timePerTon: 0.18 },
-  { equipment: '1.5-2t digger', sizeInTons: 2, timePerTon: 0.15 },
-  { equipment: '3-5t digger', sizeInTons: 3, timePerTon: 0.12 },
-  { equipment: '6-10t digger', sizeInTons: 6, timePerTon: 0.08 },
-  { equipment: '11-20t digger', sizeInTons: 11, timePerTon: 0.05 },
-  { equipment: '21-30t digger', sizeInTons: 21, timePerTon: 0.03 },
-  { equipment: '31-40t digger', sizeInTons: 31, timePerTon: 0.02 },
-  { equipment: '40t+ digger', sizeInTons: 40, timePerTon: 0.01 }
-];
-
-// Define time estimates for different carrier sizes (same as SoilExcavationCalculator)
-const carrierTimeEstimates = [
-  { carrier: 'Wheelbarrow', size: 0.1, timePerTon: 0.355 },
-  { carrier: 'Wheelbarrow', size: 0.125, timePerTon: 0.296 },
-  { carrier: 'Wheelbarrow', size: 0.15, timePerTon: 0.237 },
-  { carrier: 'Petrol Wheelbarrow', size: 0.3, timePerTon: 0.0766 },
-  { carrier: 'Petrol Wheelbarrow', size: 0.5, timePerTon: 0.03416 },
-  { carrier: 'Dumper', size: 1, timePerTon: 0.00967 },
-  { carrier: 'Dumper', size: 3, timePerTon: 0.00283 },
-  { carrier: 'Dumper', size: 5, timePerTon: 0.00157 },
-  { carrier: 'Dumper', size: 10, timePerTon: 0.00068 }
-];
-
-interface Type1AggregateCalculatorProps {
+interface Type1AggregateCalculatorProps extends CalculatorInputProps {
   onResultsChange?: (results: any) => void;
 }
 
-const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onResultsChange }) => {
+const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onResultsChange, initialInputs, onInputsChange }) => {
+  const { unit, symbol, value } = useUnits();
   // State for input values
-  const [calculationMethod, setCalculationMethod] = useState<'direct' | 'area'>('area');
-  const [tons, setTons] = useState<string>('');
-  const [length, setLength] = useState<string>('');
-  const [width, setWidth] = useState<string>('');
-  const [depth, setDepth] = useState<string>('');
+  const [calculationMethod, setCalculationMethod] = useState<'direct' | 'area'>(initialInputs?.calculationMethod as 'direct' | 'area' ?? 'area');
+  const [tons, setTons] = useState<string>(initialInputs?.tons as string ?? '');
+  const [length, setLength] = useState<string>(initialInputs?.length as string ?? '');
+  const [width, setWidth] = useState<string>(initialInputs?.width as string ?? '');
+  const [depth, setDepth] = useState<string>(initialInputs?.depth as string ?? '');
   
   // State for equipment selection
   const [excavators, setExcavators] = useState<DiggingEquipment[]>([]);
   const [carriers, setCarriers] = useState<DiggingEquipment[]>([]);
-  const [selectedExcavator, setSelectedExcavator] = useState<DiggingEquipment | null>(null);
-  const [selectedCarrier, setSelectedCarrier] = useState<DiggingEquipment | null>(null);
+  const [selectedExcavatorId, setSelectedExcavatorId] = useState<string>(initialInputs?.excavatorId as string ?? '');
+  const [selectedCarrierId, setSelectedCarrierId] = useState<string>(initialInputs?.carrierId as string ?? '');
+  const selectedExcavator = excavators.find(excavator => excavator.id === selectedExcavatorId) || null;
+  const selectedCarrier = carriers.find(carrier => carrier.id === selectedCarrierId) || null;
   
+  useCalculatorInputs({ calculationMethod, tons, length, width, depth, excavatorId: selectedExcavatorId, carrierId: selectedCarrierId }, onInputsChange);
+
   // State for results
-  const [result, setResult] = useState<{
-    totalTons: number;
-    excavationTime: number;
-    transportTime: number;
-    totalTime: number;
-  } | null>(null);
+  const [result, setResult] = useState<GroundworksResult | null>(null);
+
+  // Densities, pack sizes and wastage set per material in Setup
+  const { data: materialProperties = {} } = useQuery({
+    queryKey: ['material_properties'],
+    queryFn: fetchMaterialProperties
+  });
 
   // Fetch equipment from the database
   useEffect(() => {
@@ -93,52 +78,6 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
     fetchEquipment();
   }, []);
 
-  // Calculate Type 1 aggregate weight from dimensions
-  const calculateType1Weight = () => {
-    if (calculationMethod === 'direct') {
-      return parseFloat(tons) || 0;
-    } else {
-      const l = parseFloat(length) || 0;
-      const w = parseFloat(width) || 0;
-      const d = parseFloat(depth) || 0;
-      
-      // Calculate volume in cubic meters
-      const volumeInCubicMeters = l * w * d;
-      
-      // Convert to tons (1 cubic meter = 2.3 tons for Type 1 aggregate)
-      return volumeInCubicMeters * 2.3;
-    }
-  };
-
-  // Find the closest digger time estimate based on size
-  const findDiggerTimeEstimate = (sizeInTons: number) => {
-    if (sizeInTons <= 0) return diggerTimeEstimates[0].timePerTon;
-    
-    for (let i = 0; i < diggerTimeEstimates.length - 1; i++) {
-      if (
-        sizeInTons >= diggerTimeEstimates[i].sizeInTons &&
-        sizeInTons < diggerTimeEstimates[i + 1].sizeInTons
-      ) {
-        return diggerTimeEstimates[i].timePerTon;
-      }
-    }
-    
-    return diggerTimeEstimates[diggerTimeEstimates.length - 1].timePerTon;
-  };
-
-  // Find carrier time estimate
-  const findCarrierTimeEstimate = (sizeInTons: number) => {
-    // Find the closest carrier size that's not larger than the selected one
-    const sortedEstimates = [...carrierTimeEstimates].sort((a, b) => b.size - a.size);
-    const estimate = sortedEstimates.find(est => est.size <= sizeInTons);
-    
-    if (!estimate) {
-      return carrierTimeEstimates[0].timePerTon; // Default to smallest if none found
-    }
-    
-    return estimate.timePerTon;
-  };
-
   // Calculate time needed
   const calculateTime = () => {
     if (!selectedExcavator) {
@@ -150,33 +89,18 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
       alert('Please select a carrier');
       return;
     }
-    
-    const totalTons = calculateType1Weight();
-    
-    if (totalTons <= 0) {
+
+    try {
+      setResult(calculateType1Preparation({
+        quantity: calculationMethod === 'direct'
+          ? { method: 'direct', tonnes: parseFloat(tons) || 0 }
+          : { method: 'area', length: parseFloat(length) || 0, width: parseFloat(width) || 0, depth: parseFloat(depth) || 0 },
+        excavatorSize: selectedExcavator["size (in tones)"] || 0,
+        carrierSize: selectedCarrier["size (in tones)"] || 0
+      }, materialProperties));
+    } catch {
       alert('Please enter valid dimensions or weight');
-      return;
     }
-    
-    // Get excavator size
-    const excavatorSize = selectedExcavator["size (in tones)"] || 0;
-    
-    // Find excavation time estimate
-    const excavationTimePerTon = findDiggerTimeEstimate(excavatorSize);
-    const excavationTime = excavationTimePerTon * totalTons;
-    
-    // Calculate transport time
-    const carrierSize = selectedCarrier["size (in tones)"] || 0;
-    const transportTimePerTon = findCarrierTimeEstimate(carrierSize);
-    const transportTime = transportTimePerTon * totalTons;
-    
-    // Set result - total time is excavation time + transport time
-    setResult({
-      totalTons,
-      excavationTime,
-      transportTime,
-      totalTime: excavationTime + transportTime
-    });
   };
 
   // Format time to hours and minutes
@@ -193,25 +117,18 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
     }
   };
 
-  // Add useEffect to notify parent of result changes
+  // Notify parent of result changes
   useEffect(() => {
-    if (result && onResultsChange) {
-      const formattedResults = {
-        name: 'Type 1 Aggregate Installation',
-        amount: result.totalTons,
-        hours_worked: result.totalTime,
-        materials: [],
-        taskBreakdown: []
-      };
-
+    if (result) {
       // Store results in data attribute
       const calculatorElement = document.querySelector('[data-calculator-results]');
       if (calculatorElement) {
-        calculatorElement.setAttribute('data-results', JSON.stringify(formattedResults));
+        calculatorElement.setAttribute('data-results', JSON.stringify(result));
       }
 
-      // Notify parent component
-      onResultsChange(formattedResults);
+      if (onResultsChange) {
+        onResultsChange(result);
+      }
     }
   }, [result, onResultsChange]);
 
@@ -230,13 +147,13 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
         
         {calculationMethod === 'direct' ? (
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Aggregate Weight (tons)</label>
-            <input
-              type="number"
+            <label className="block text-sm font-medium text-gray-700 mb-1">Aggregate Weight ({unit('tonnes')})</label>
+            <UnitInput
+              unit="tonnes"
               value={tons}
-              onChange={(e) => setTons(e.target.value)}
+              onValueChange={setTons}
               className="w-full p-2 border rounded-md"
-              placeholder="Enter weight in tons"
+              placeholder={`Enter weight in ${unit('tonnes')}`}
               min="0"
               step="0.1"
             />
@@ -244,11 +161,11 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
         ) : (
           <div className="grid grid-cols-3 gap-3">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Length (m)</label>
-              <input
-                type="number"
+              <label className="block text-sm font-medium text-gray-700 mb-1">Length ({symbol('meters')})</label>
+              <UnitInput
+                unit="meters"
                 value={length}
-                onChange={(e) => setLength(e.target.value)}
+                onValueChange={setLength}
                 className="w-full p-2 border rounded-md"
                 placeholder="Length"
                 min="0"
@@ -256,11 +173,11 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Width (m)</label>
-              <input
-                type="number"
+              <label className="block text-sm font-medium text-gray-700 mb-1">Width ({symbol('meters')})</label>
+              <UnitInput
+                unit="meters"
                 value={width}
-                onChange={(e) => setWidth(e.target.value)}
+                onValueChange={setWidth}
                 className="w-full p-2 border rounded-md"
                 placeholder="Width"
                 min="0"
@@ -268,11 +185,11 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Depth (m)</label>
-              <input
-                type="number"
+              <label className="block text-sm font-medium text-gray-700 mb-1">Depth ({symbol('meters')})</label>
+              <UnitInput
+                unit="meters"
                 value={depth}
-                onChange={(e) => setDepth(e.target.value)}
+                onValueChange={setDepth}
                 className="w-full p-2 border rounded-md"
                 placeholder="Depth"
                 min="0"
@@ -295,7 +212,7 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
                 <div 
                   key={excavator.id}
                   className="flex items-center p-2 cursor-pointer hover:bg-gray-50 rounded-md"
-                  onClick={() => setSelectedExcavator(excavator)}
+                  onClick={() => setSelectedExcavatorId(excavator.id)}
                 >
                   <div className={`w-4 h-4 rounded-full border mr-2 ${
                     selectedExcavator?.id === excavator.id 
@@ -328,7 +245,7 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
                 <div 
                   key={carrier.id}
                   className="flex items-center p-2 cursor-pointer hover:bg-gray-50 rounded-md"
-                  onClick={() => setSelectedCarrier(carrier)}
+                  onClick={() => setSelectedCarrierId(carrier.id)}
                 >
                   <div className={`w-4 h-4 rounded-full border mr-2 ${
                     selectedCarrier?.id === carrier.id 
@@ -365,12 +282,12 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
         <div className="mt-4 p-6 bg-gray-100 rounded-md">
           <h3 className="text-lg font-semibold mb-2">Estimated Time</h3>
           <div className="space-y-2">
-            <p>Total Aggregate: <span className="font-medium">{result.totalTons.toFixed(2)} tons</span></p>
-            <p>Preparation Time: <span className="font-medium">{formatTime(result.excavationTime)}</span></p>
-            <p>Transport Time: <span className="font-medium">{formatTime(result.transportTime)}</span></p>
+            <p>Total Aggregate: <span className="font-medium">{value(result.amount, 'tonnes').toFixed(2)} {unit('tonnes')}</span></p>
+            <p>Preparation Time: <span className="font-medium">{formatTime(result.excavationHours)}</span></p>
+            <p>Transport Time: <span className="font-medium">{formatTime(result.transportHours)}</span></p>
             <p className="text-lg">
               Total Time: <span className="font-bold">
-                {formatTime(result.totalTime)}
+                {formatTime(result.hours_worked)}
               </span>
             </p>
             <p className="text-sm text-gray-500 italic mt-2">
@@ -383,4 +300,4 @@ const Type1AggregateCalculator: React.FC<Type1AggregateCalculatorProps> = ({ onR
   );
 };
 
-export default Type1AggregateCalculator;
+export default Type1AggregateCalculator;
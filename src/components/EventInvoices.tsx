@@ -0,0 +1,105 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { FileText, Plus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../lib/store';
+import {
+  INVOICE_STATUS_COLORS,
+  INVOICE_STATUS_LABELS,
+  INVOICE_TYPE_LABELS,
+  Invoice,
+  formatInvoiceNumber,
+  getInvoiceStatus
+} from '../lib/invoices';
+
+interface EventInvoicesProps {
+  eventId: string;
+}
+
+const EventInvoices: React.FC<EventInvoicesProps> = ({ eventId }) => {
+  const navigate = useNavigate();
+  const { profile } = useAuthStore();
+  const canManageInvoices = profile?.role === 'Admin' || profile?.role === 'boss';
+
+  const { data: invoices = [], isLoading } = useQuery({
+    queryKey: ['event_invoices', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('invoice_number', { ascending: true });
+
+      if (error) throw error;
+      return data as Invoice[];
+    },
+    enabled: canManageInvoices
+  });
+
+  if (!canManageInvoices) return null;
+
+  const outstanding = invoices
+    .filter(invoice => invoice.status !== 'draft' && invoice.status !== 'paid')
+    .reduce((sum, invoice) => sum + invoice.total, 0);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <FileText className="w-5 h-5 text-blue-600 mr-2" />
+          <h2 className="text-xl font-semibold">Invoices</h2>
+        </div>
+        <button
+          onClick={() => navigate(`/finance/invoices?event=${eventId}`)}
+          className="flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Create Invoice
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading invoices...</p>
+      ) : invoices.length === 0 ? (
+        <p className="text-gray-500">No invoices raised for this project yet</p>
+      ) : (
+        <div className="space-y-3">
+          {invoices.map(invoice => {
+            const status = getInvoiceStatus(invoice);
+            return (
+              <div
+                key={invoice.id}
+                onClick={() => navigate(`/finance/invoices/${invoice.id}`)}
+                className="flex justify-between items-center p-3 border rounded-lg cursor-pointer hover:bg-gray-50"
+              >
+                <div>
+                  <p className="font-medium">
+                    {formatInvoiceNumber(invoice.invoice_number)}
+                    <span className="text-sm text-gray-500 ml-2">{INVOICE_TYPE_LABELS[invoice.invoice_type]}</span>
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Issued {format(parseISO(invoice.issue_date), 'MMM dd, yyyy')}
+                    {invoice.due_date && ` · Due ${format(parseISO(invoice.due_date), 'MMM dd, yyyy')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-medium">£{invoice.total.toFixed(2)}</span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${INVOICE_STATUS_COLORS[status]}`}>
+                    {INVOICE_STATUS_LABELS[status]}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+          {outstanding > 0 && (
+            <p className="text-sm text-gray-600 text-right">Outstanding: £{outstanding.toFixed(2)}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventInvoices;
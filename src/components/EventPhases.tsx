@@ -0,0 +1,112 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { GanttChart } from 'lucide-react';
+import { fetchEventPhases } from '../lib/projectPhases';
+
+interface PhaseTask {
+  id: string;
+  name: string | null;
+  task_name: string | null;
+  amount: string;
+  phase_id: string | null;
+  progress_completed: number;
+}
+
+interface EventPhasesProps {
+  eventId: string;
+  tasks: PhaseTask[];
+}
+
+const taskCompletion = (task: PhaseTask) => {
+  const total = parseFloat(task.amount) || 0;
+  return total > 0 ? Math.min(task.progress_completed / total, 1) : 0;
+};
+
+const EventPhases: React.FC<EventPhasesProps> = ({ eventId, tasks }) => {
+  const { data: phases = [], isLoading } = useQuery({
+    queryKey: ['event_phases', eventId],
+    queryFn: () => fetchEventPhases(eventId)
+  });
+
+  if (isLoading || phases.length === 0) return null;
+
+  // Timeline spans from the first phase start to the last phase end
+  const dated = phases.filter(phase => phase.start_date && phase.end_date);
+  const timelineStart = dated.length > 0
+    ? dated.map(phase => parseISO(phase.start_date!)).reduce((min, date) => (date < min ? date : min))
+    : null;
+  const timelineEnd = dated.length > 0
+    ? dated.map(phase => parseISO(phase.end_date!)).reduce((max, date) => (date > max ? date : max))
+    : null;
+  const totalDays = timelineStart && timelineEnd ? differenceInCalendarDays(timelineEnd, timelineStart) + 1 : 0;
+
+  const offsetPercent = (date: Date) =>
+    timelineStart ? (differenceInCalendarDays(date, timelineStart) / totalDays) * 100 : 0;
+  const todayOffset = timelineStart ? offsetPercent(new Date()) : -1;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <GanttChart className="w-5 h-5 text-blue-600 mr-2" />
+          <h2 className="text-xl font-semibold">Phases</h2>
+        </div>
+        {timelineStart && timelineEnd && (
+          <span className="text-sm text-gray-500">
+            {format(timelineStart, 'MMM d')} - {format(timelineEnd, 'MMM d, yyyy')} · {totalDays} day{totalDays !== 1 ? 's' : ''}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {phases.map(phase => {
+          const phaseTasks = tasks.filter(task => task.phase_id === phase.id);
+          const completion = phaseTasks.length > 0
+            ? phaseTasks.reduce((sum, task) => sum + taskCompletion(task), 0) / phaseTasks.length * 100
+            : 0;
+          const dependencies = phases.filter(other => phase.depends_on.includes(other.id));
+          const hasDates = !!(phase.start_date && phase.end_date && timelineStart);
+          const left = hasDates ? offsetPercent(parseISO(phase.start_date!)) : 0;
+          const width = hasDates
+            ? ((differenceInCalendarDays(parseISO(phase.end_date!), parseISO(phase.start_date!)) + 1) / totalDays) * 100
+            : 0;
+
+          return (
+            <div key={phase.id} className="grid grid-cols-4 gap-4 items-center">
+              <div>
+                <p className="font-medium text-sm">{phase.name}</p>
+                <p className="text-xs text-gray-500">
+                  {phaseTasks.length} task{phaseTasks.length !== 1 ? 's' : ''} · {completion.toFixed(0)}% done
+                </p>
+                {dependencies.length > 0 && (
+                  <p className="text-xs text-gray-400">
+                    After {dependencies.map(dependency => dependency.name).join(', ')}
+                  </p>
+                )}
+              </div>
+              <div className="col-span-3 relative h-8 bg-gray-100 rounded">
+                {hasDates ? (
+                  <div
+                    className="absolute top-0 h-8 bg-blue-200 rounded overflow-hidden"
+                    style={{ left: `${left}%`, width: `${width}%` }}
+                    title={`${format(parseISO(phase.start_date!), 'MMM d')} - ${format(parseISO(phase.end_date!), 'MMM d')}`}
+                  >
+                    <div className="h-full bg-blue-600" style={{ width: `${completion}%` }}></div>
+                  </div>
+                ) : (
+                  <span className="absolute inset-0 flex items-center px-2 text-xs text-gray-400">No dates set</span>
+                )}
+                {todayOffset >= 0 && todayOffset <= 100 && (
+                  <div className="absolute top-0 h-8 w-px bg-red-500" style={{ left: `${todayOffset}%` }}></div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default EventPhases;
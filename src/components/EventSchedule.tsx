@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { CalendarClock, AlertCircle, Check } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../lib/store';
+import { fetchEventPhases } from '../lib/projectPhases';
+import {
+  ProposedSchedule,
+  ScheduleAssignment,
+  ScheduleConflict,
+  SchedulableTask,
+  applyEventSchedule,
+  fetchCompanyHolidays,
+  fetchEventCrew,
+  fetchEventSchedule,
+  findScheduleConflicts,
+  generateSchedule,
+  orderScheduleTasks,
+  saveEventCrew
+} from '../lib/eventSchedule';
+
+interface EventScheduleProps {
+  eventId: string;
+  startDate: string;
+  endDate: string;
+  tasks: SchedulableTask[];
+}
+
+interface Worker {
+  id: string;
+  full_name: string | null;
+}
+
+const EventSchedule: React.FC<EventScheduleProps> = ({ eventId, startDate, endDate, tasks }) => {
+  const queryClient = useQueryClient();
+  const { profile } = useAuthStore();
+  const canManageSchedule = profile?.role === 'Admin' || profile?.role === 'boss' || profile?.role === 'project_manager';
+  const [scheduleStart, setScheduleStart] = useState(startDate);
+  const [proposal, setProposal] = useState<{ schedule: ProposedSchedule; conflicts: ScheduleConflict[] } | null>(null);
+
+  const { data: workers = [] } = useQuery({
+    queryKey: ['workers', ''],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, role')
+        .order('full_name');
+
+      if (error) throw error;
+      return data as Worker[];
+    }
+  });
+
+  const { data: crew = [] } = useQuery({
+    queryKey: ['event_crew', eventId],
+    queryFn: () => fetchEventCrew(eventId)
+  });
+
+  const { data: savedSchedule = [] } = useQuery({
+    queryKey: ['event_schedule', eventId],
+    queryFn: () => fetchEventSchedule(eventId)
+  });
+
+  const { data: holidays = [] } = useQuery({
+    queryKey: ['company_holidays'],
+    queryFn: fetchCompanyHolidays
+  });
+
+  const { data: phases = [] } = useQuery({
+    queryKey: ['event_phases', eventId],
+    queryFn: () => fetchEventPhases(eventId)
+  });
+
+  const workerNames = workers.reduce((acc, worker) => {
+    acc[worker.id] = worker.full_name || 'Unnamed worker';
+    return acc;
+  }, {} as Record<string, string>);
+
+  const crewMutation = useMutation({
+    mutationFn: (userIds: string[]) => saveEventCrew(eventId, userIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event_crew', eventId] });
+      setProposal(null);
+    }
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const schedule = generateSchedule(
+        orderScheduleTasks(tasks, phases),
+        crew,
+        scheduleStart,
+        holidays.map(holiday => holiday.holiday_date)
+      );
+      const conflicts = await findScheduleConflicts(eventId, schedule, workerNames);
+      return { schedule, conflicts };
+    },
+    onSuccess: (result) => setProposal(result)
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (schedule: ProposedSchedule) => applyEventSchedule(eventId, schedule),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event_schedule', eventId] });
+      queryClient.invalidateQueries({ queryKey: ['event', eventId] });
+      setProposal(null);
+    }
+  });
+
+  const handleToggleWorker = (userId: string) => {
+    crewMutation.mutate(crew.includes(userId) ? crew.filter(id => id !== userId) : [...crew, userId]);
+  };
+
+  const taskLabel = (taskId: string) => {
+    const task = tasks.find(item => item.id === taskId);
+    if (!task) return 'Removed task';
+    return task.task_name ? `${task.task_name} (${task.name})` : task.name || 'Task';
+  };
+
+  const shownAssignments: ScheduleAssignment[] = proposal ? proposal.schedule.assignments : savedSchedule;
+  const days = Array.from(new Set(shownAssignments.map(assignment => assignment.work_date)));
+
+  if (!canManageSchedule && savedSchedule.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <CalendarClock className="w-5 h-5 text-blue-600 mr-2" />
+          <h2 className="text-xl font-semibold">Schedule</h2>
+        </div>
+        {days.length > 0 && (
+          <span className="text-sm text-gray-500">
+            {days.length} working day{days.length !== 1 ? 's' : ''} · ends {format(parseISO(days[days.length - 1]), 'MMM d, yyyy')}
+          </span>
+        )}
+      </div>
+
+      {canManageSchedule && (
+        <div className="space-y-4 mb-6">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Crew</p>
+            <div className="flex flex-wrap gap-3">
+              {workers.map(worker => (
+                <label key={worker.id} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={crew.includes(worker.id)}
+                    onChange={() => handleToggleWorker(worker.id)}
+                    disabled={crewMutation.isPending}
+                    className="mr-1"
+                  />
+                  {worker.full_name || 'Unnamed worker'}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Start Date</label>
+              <input
+                type="date"
+                value={scheduleStart}
+                onChange={(e) => {
+                  setScheduleStart(e.target.value);
+                  setProposal(null);
+                }}
+                className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              onClick={() => generateMutation.mutate()}
+              disabled={!scheduleStart || crew.length === 0 || generateMutation.isPending}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {generateMutation.isPending ? 'Generating...' : 'Generate Schedule'}
+            </button>
+          </div>
+
+          {generateMutation.isError && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              {generateMutation.error.message}
+            </div>
+          )}
+        </div>
+      )}
+
+      {proposal && (
+        <div className="space-y-3 mb-4">
+          <div className="p-3 bg-blue-50 text-blue-800 rounded-md text-sm">
+            Proposed end date {format(parseISO(proposal.schedule.endDate), 'MMM d, yyyy')}
+            {proposal.schedule.endDate !== endDate && (
+              <span> (currently {format(parseISO(endDate), 'MMM d, yyyy')})</span>
+            )}
+          </div>
+
+          {proposal.conflicts.length > 0 && (
+            <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+              <div className="flex items-center font-medium mb-1">
+                <AlertCircle className="w-4 h-4 mr-2" />
+                {proposal.conflicts.length} conflict{proposal.conflicts.length !== 1 ? 's' : ''} with other projects
+              </div>
+              <ul className="list-disc list-inside">
+                {proposal.conflicts.map(conflict => (
+                  <li key={`${conflict.type}-${conflict.name}-${conflict.eventId}`}>
+                    {conflict.name} is also needed on {conflict.eventTitle}: {conflict.dates.join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setProposal(null)}
+              className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={() => applyMutation.mutate(proposal.schedule)}
+              disabled={applyMutation.isPending}
+              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              <Check className="w-5 h-5 mr-2" />
+              Apply Schedule
+            </button>
+          </div>
+
+          {applyMutation.isError && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to save the schedule
+            </div>
+          )}
+        </div>
+      )}
+
+      {days.length === 0 ? (
+        <p className="text-gray-500">No schedule yet</p>
+      ) : (
+        <div className="border rounded overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Day</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Worker</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Task</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Hours</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {shownAssignments.map((assignment, index) => (
+                <tr key={index}>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {format(parseISO(assignment.work_date), 'EEE, MMM d')}
+                  </td>
+                  <td className="px-3 py-2 text-sm text-gray-900">{workerNames[assignment.user_id] || 'Unknown worker'}</td>
+                  <td className="px-3 py-2 text-sm text-gray-900">{taskLabel(assignment.task_id)}</td>
+                  <td className="px-3 py-2 text-sm text-right text-gray-900">{assignment.hours.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventSchedule;
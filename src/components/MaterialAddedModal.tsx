@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
+import { useUnits } from '../hooks/useUnits';
 import { Loader2, Search, X, Package, Trash2 } from 'lucide-react';
 
 interface MaterialAddedModalProps {
@@ -60,6 +61,11 @@ const DeleteConfirmation: React.FC<DeleteConfirmationProps> = ({
 
 const MaterialAddedModal: React.FC<MaterialAddedModalProps> = ({ onClose }) => {
   const { user } = useAuthStore();
+  const { unit, value } = useUnits();
+
+  // Delivered amounts are stored in the material's unit and shown in the user's unit system
+  const formatAmount = (amount: number, materialUnit: string) =>
+    `${Number(value(amount, materialUnit).toFixed(2))} ${unit(materialUnit)}`;
   const [searchTerm, setSearchTerm] = useState('');
   const [deleteConfirmation, setDeleteConfirmation] = useState<{
     isOpen: boolean;
@@ -220,7 +226,7 @@ const MaterialAddedModal: React.FC<MaterialAddedModalProps> = ({ onClose }) => {
                           Project: <span className="font-medium">{delivery.events?.title || 'Unknown Project'}</span>
                         </p>
                         <p className="text-gray-700 dark:text-gray-300 mb-1">
-                          Amount: <span className="font-medium">{delivery.amount} {delivery.materials_delivered?.unit || 'units'}</span>
+                          Amount: <span className="font-medium">{formatAmount(delivery.amount, delivery.materials_delivered?.unit || 'units')}</span>
                         </p>
                         <p className="text-gray-700 dark:text-gray-300 mb-1">
                           Date: <span className="font-medium">{new Date(delivery.delivery_date).toLocaleDateString()}</span>
@@ -4,6 +4,8 @@ import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { useAuthStore } from '../lib/store';
+import { useUnits } from '../hooks/useUnits';
+import UnitInput from './UnitInput';
 import { X } from 'lucide-react';
 
 type MaterialDelivered = Database['public']['Tables']['materials_delivered']['Row'];
@@ -16,6 +18,7 @@ interface MaterialProgressModalProps {
 const MaterialProgressModal: React.FC<MaterialProgressModalProps> = ({ material, onClose }) => {
   const queryClient = useQueryClient();
   const { user } = useAuthStore();
+  const { unit, value } = useUnits();
   const [deliveredAmount, setDeliveredAmount] = useState('');
   const [notes, setNotes] = useState('');
 
@@ -79,6 +82,10 @@ const MaterialProgressModal: React.FC<MaterialProgressModalProps> = ({ material,
 
   if (!material) return null;
 
+  // Amounts are stored in the material's unit and shown in the user's unit system
+  const formatAmount = (amount: number) =>
+    `${Number(value(amount, material.unit).toFixed(2))} ${unit(material.unit)}`;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-lg max-w-2xl w-full">
@@ -95,17 +102,16 @@ const MaterialProgressModal: React.FC<MaterialProgressModalProps> = ({ material,
         <div className="p-6 space-y-4">
           <div className="bg-gray-50 p-4 rounded-lg">
             <h3 className="text-lg font-semibold text-gray-900">{material.name || 'Material'}</h3>
-            <p className="text-sm text-gray-600">Unit: {material.unit}</p>
+            <p className="text-sm text-gray-600">Unit: {unit(material.unit)}</p>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700">Delivered Amount</label>
             <div className="mt-1 relative rounded-md shadow-sm">
-              <input
-                type="number"
+              <UnitInput
+                unit={material.unit}
                 value={deliveredAmount}
-                onChange={(e) => {
-                  const value = e.target.value;
+                onValueChange={(value) => {
                   if (value === '') {
                     setDeliveredAmount('');
                     return;
@@ -121,7 +127,7 @@ const MaterialProgressModal: React.FC<MaterialProgressModalProps> = ({ material,
                 placeholder="Enter amount delivered"
               />
               <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                <span className="text-gray-500 sm:text-sm">{material.unit}</span>
+                <span className="text-gray-500 sm:text-sm">{unit(material.unit)}</span>
               </div>
             </div>
           </div>
@@ -140,15 +146,15 @@ const MaterialProgressModal: React.FC<MaterialProgressModalProps> = ({ material,
           <div className="bg-blue-50 p-4 rounded-lg space-y-2">
             <div className="flex justify-between">
               <span className="text-sm text-blue-700">Total Required:</span>
-              <span className="text-sm font-medium text-blue-900">{material.total_amount} {material.unit}</span>
+              <span className="text-sm font-medium text-blue-900">{formatAmount(material.total_amount)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-blue-700">Currently Delivered:</span>
-              <span className="text-sm font-medium text-blue-900">{totalDelivered} {material.unit}</span>
+              <span className="text-sm font-medium text-blue-900">{formatAmount(totalDelivered)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-blue-700">Remaining:</span>
-              <span className="text-sm font-medium text-blue-900">{remaining} {material.unit}</span>
+              <span className="text-sm font-medium text-blue-900">{formatAmount(remaining)}</span>
             </div>
             <div className="mt-2">
               <div className="w-full bg-blue-200 rounded-full h-2">
@@ -167,7 +173,7 @@ const MaterialProgressModal: React.FC<MaterialProgressModalProps> = ({ material,
                 {deliveries.map((delivery, index) => (
                   <div key={index} className="text-sm text-gray-600 bg-gray-50 p-2 rounded">
                     <div className="flex justify-between">
-                      <span>{delivery.amount} {material.unit}</span>
+                      <span>{formatAmount(delivery.amount)}</span>
                       <span>{new Date(delivery.delivery_date).toLocaleDateString()}</span>
                     </div>
                     {delivery.notes && (
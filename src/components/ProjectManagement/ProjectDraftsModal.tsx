@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { X, AlertCircle, Trash2, FolderOpen } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { fetchProjectDrafts } from '../../lib/projectDrafts';
+
+interface ProjectDraftsModalProps {
+  onClose: () => void;
+}
+
+const ProjectDraftsModal: React.FC<ProjectDraftsModalProps> = ({ onClose }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const { data: drafts = [], isLoading, error } = useQuery({
+    queryKey: ['project_drafts'],
+    queryFn: fetchProjectDrafts
+  });
+
+  const deleteDraftMutation = useMutation({
+    mutationFn: async (draftId: string) => {
+      const { error } = await supabase
+        .from('project_drafts')
+        .delete()
+        .eq('id', draftId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project_drafts'] });
+      setConfirmDelete(null);
+    }
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b flex-none">
+          <h2 className="text-xl font-semibold">Project Drafts</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {isLoading ? (
+            <p className="text-center py-4">Loading drafts...</p>
+          ) : error ? (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to load drafts
+            </div>
+          ) : drafts.length === 0 ? (
+            <p className="text-center text-gray-500 py-4">No drafts saved</p>
+          ) : (
+            drafts.map(draft => (
+              <div key={draft.id} className="flex justify-between items-center p-4 border rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-900">{draft.title || 'Untitled project'}</p>
+                  <p className="text-sm text-gray-500">
+                    {draft.plan.mainTasks.length} main tasks · {draft.plan.minorTasks.length} minor tasks · {draft.plan.materials.length} materials
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    Last saved {format(new Date(draft.updated_at), 'MMM dd, yyyy HH:mm')}
+                  </p>
+                </div>
+                {confirmDelete === draft.id ? (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setConfirmDelete(null)}
+                      className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => deleteDraftMutation.mutate(draft.id)}
+                      disabled={deleteDraftMutation.isPending}
+                      className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => navigate(`/project-management/create?draft=${draft.id}`)}
+                      className="flex items-center px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700"
+                    >
+                      <FolderOpen className="w-4 h-4 mr-1" />
+                      Resume
+                    </button>
+                    <button
+                      onClick={() => setConfirmDelete(draft.id)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                      title="Delete draft"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+
+          {deleteDraftMutation.isError && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to delete draft
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectDraftsModal;
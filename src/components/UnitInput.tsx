@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { useAuthStore } from '../lib/store';
+import { UnitSystem, fromDisplayValue, toDisplayValue } from '../lib/units';
+
+interface UnitInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'type' | 'value' | 'onChange'> {
+  // The value in its metric unit, the way calculators and the database keep it
+  value: string;
+  onValueChange: (value: string) => void;
+  // The metric unit of the value, e.g. cm
+  unit: string;
+}
+
+/**
+ * Formats a metric value for the input
+ * @param value The metric value
+ * @param unit Its metric unit
+ * @param unitSystem The user's unit system
+ * @returns string The value unchanged in metric, converted and rounded otherwise
+ */
+const toText = (value: string, unit: string, unitSystem: UnitSystem): string => {
+  const parsed = parseFloat(value);
+  if (unitSystem === 'metric' || isNaN(parsed)) return value;
+  return String(Number(toDisplayValue(parsed, unit, unitSystem).toFixed(2)));
+};
+
+/**
+ * A number input that is typed in the user's unit system and hands back metric values
+ */
+const UnitInput: React.FC<UnitInputProps> = ({ value, onValueChange, unit, ...props }) => {
+  const unitSystem = useAuthStore(state => state.unitSystem);
+  const [typed, setTyped] = useState({ text: toText(value, unit, unitSystem), value, unitSystem });
+
+  // Show changes made elsewhere, e.g. an area measured from a sketch or a switch of unit system
+  if (typed.value !== value || typed.unitSystem !== unitSystem) {
+    setTyped({ text: toText(value, unit, unitSystem), value, unitSystem });
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const text = e.target.value;
+    const parsed = parseFloat(text);
+    const metric = unitSystem === 'metric' || isNaN(parsed)
+      ? text
+      : String(Number(fromDisplayValue(parsed, unit, unitSystem).toFixed(4)));
+    setTyped({ text, value: metric, unitSystem });
+    onValueChange(metric);
+  };
+
+  return <input type="number" {...props} value={typed.text} onChange={handleChange} />;
+};
+
+export default UnitInput;
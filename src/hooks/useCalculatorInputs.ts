@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+
+export type CalculatorInputs = Record<string, string | number | boolean | string[]>;
+
+export interface CalculatorInputProps {
+  initialInputs?: CalculatorInputs;
+  onInputsChange?: (inputs: CalculatorInputs) => void;
+}
+
+/**
+ * Reports a calculator's form inputs whenever they change, so a saved plan
+ * can reopen the calculator the way it was left.
+ */
+export function useCalculatorInputs(inputs: CalculatorInputs, onInputsChange?: (inputs: CalculatorInputs) => void) {
+  const serializedInputs = JSON.stringify(inputs);
+
+  useEffect(() => {
+    if (onInputsChange) {
+      onInputsChange(JSON.parse(serializedInputs));
+    }
+  }, [serializedInputs, onInputsChange]);
+}
@@ -0,0 +1,23 @@
+import { useCallback } from 'react';
+import { useAuthStore } from '../lib/store';
+import { CalculatedMaterial } from '../lib/calculations/common';
+import { displayUnit, formatQuantity, toDisplayMaterial, toDisplayValue, unitSymbol } from '../lib/units';
+
+/**
+ * The user's unit system, with helpers that show metric quantities in it.
+ * Values stay metric in inputs, calculations and the database; only what is shown changes.
+ */
+export function useUnits() {
+  const unitSystem = useAuthStore(state => state.unitSystem);
+
+  const unit = useCallback((metricUnit: string) => displayUnit(metricUnit, unitSystem), [unitSystem]);
+  const symbol = useCallback((metricUnit: string) => unitSymbol(metricUnit, unitSystem), [unitSystem]);
+  const value = useCallback((quantity: number, metricUnit: string) => toDisplayValue(quantity, metricUnit, unitSystem), [unitSystem]);
+  const format = useCallback((quantity: number, metricUnit: string) => formatQuantity(quantity, metricUnit, unitSystem), [unitSystem]);
+  const material = useCallback(
+    <T extends CalculatedMaterial & { price_per_unit?: number | null }>(item: T) => toDisplayMaterial(item, unitSystem),
+    [unitSystem]
+  );
+
+  return { unitSystem, unit, symbol, value, format, material };
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DENSITIES,
+  concreteMaterials,
+  densityOf,
+  estimateTask,
+  getMaterialProperties,
+  mergeMaterials,
+  mortarCementKg,
+  mortarMaterials,
+  packMaterials,
+  priceMaterials,
+  requirePositive,
+  round2,
+  sumHours
+} from './common';
+
+describe('requirePositive', () => {
+  it('accepts positive numbers', () => {
+    expect(() => requirePositive({ length: 1, width: 0.01 })).not.toThrow();
+  });
+
+  it('rejects zero unless it is allowed', () => {
+    expect(() => requirePositive({ length: 0 })).toThrow('Please enter a valid length');
+    expect(() => requirePositive({ length: 0 }, true)).not.toThrow();
+  });
+
+  it('rejects negative numbers and NaN from empty inputs', () => {
+    expect(() => requirePositive({ depth: -1 }, true)).toThrow('Please enter a valid depth');
+    expect(() => requirePositive({ area: parseFloat('') })).toThrow('Please enter a valid area');
+  });
+
+  it('names the first invalid input', () => {
+    expect(() => requirePositive({ length: 2, width: -1, height: -1 })).toThrow('Please enter a valid width');
+  });
+});
+
+describe('round2', () => {
+  it('rounds to two decimals', () => {
+    expect(round2(1.005 + 0.001)).toBe(1.01);
+    expect(round2(0.1 + 0.2)).toBe(0.3);
+    expect(round2(2)).toBe(2);
+  });
+});
+
+describe('estimateTask', () => {
+  it('multiplies the amount by the hours per unit of the bound task', () => {
+    expect(estimateTask({ id: 't1', name: 'Laying', estimated_hours: 0.5 }, 'Fallback', 10, 'square meters')).toEqual({
+      task: 'Laying',
+      hours: 5,
+      amount: 10,
+      unit: 'square meters',
+      event_task_id: 't1'
+    });
+  });
+
+  it('has no hours when nothing is bound', () => {
+    const item = estimateTask(undefined, 'Fallback', 10, 'square meters');
+    expect(item.task).toBe('Fallback');
+    expect(item.hours).toBe(0);
+    expect(item.event_task_id).toBeNull();
+  });
+
+  it('adds up the hours of a breakdown, zero when empty', () => {
+    expect(sumHours([])).toBe(0);
+    expect(sumHours([
+      estimateTask({ id: 'a', name: 'A', estimated_hours: 1 }, 'A', 2, 'pieces'),
+      estimateTask({ id: 'b', name: 'B', estimated_hours: 0.25 }, 'B', 4, 'pieces')
+    ])).toBe(3);
+  });
+});
+
+describe('material properties', () => {
+  it('falls back to the default density when Setup has none', () => {
+    expect(densityOf({}, 'Sand', 99)).toBe(DENSITIES.sand);
+    expect(densityOf({ Sand: { density: null, pack_size: null, pack_unit: null, wastage_percent: 0 } }, 'Sand', 99)).toBe(DENSITIES.sand);
+  });
+
+  it('uses the fallback for materials without a default', () => {
+    expect(densityOf({}, 'Gravel', DENSITIES.gravel)).toBe(DENSITIES.gravel);
+  });
+
+  it('prefers the density set in Setup', () => {
+    expect(densityOf({ Sand: { density: 1.8, pack_size: null, pack_unit: null, wastage_percent: 0 } }, 'Sand', 99)).toBe(1.8);
+  });
+
+  it('keeps the default pack of cement when Setup only sets wastage', () => {
+    expect(getMaterialProperties({ Cement: { density: null, pack_size: null, pack_unit: null, wastage_percent: 10 } }, 'Cement')).toEqual({
+      density: DENSITIES.cement,
+      pack_size: 25,
+      pack_unit: 'bags',
+      wastage_percent: 10
+    });
+  });
+});
+
+describe('mortar and concrete', () => {
+  it('weighs the cement in 1:4 mortar', () => {
+    expect(mortarCementKg(0.1, {})).toBe(30);
+    expect(mortarCementKg(0, {})).toBe(0);
+  });
+
+  it('splits 1:4 mortar into cement and sand', () => {
+    expect(mortarMaterials(0.1, {})).toEqual([
+      { name: 'Cement', quantity: 30, unit: 'kg' },
+      { name: 'Sand', quantity: 0.13, unit: 'tonnes' }
+    ]);
+  });
+
+  it('splits 1:2:4 concrete into its dry materials', () => {
+    expect(concreteMaterials(0.7, {})).toEqual([
+      { name: 'Cement', quantity: 225, unit: 'kg' },
+      { name: 'Sand', quantity: 0.48, unit: 'tonnes' },
+      { name: 'Gravel', quantity: 0.96, unit: 'tonnes' }
+    ]);
+  });
+});
+
+describe('mergeMaterials', () => {
+  it('adds up materials with the same name and unit, keeping the first order', () => {
+    expect(mergeMaterials([
+      { name: 'Cement', quantity: 10.004, unit: 'kg' },
+      { name: 'Sand', quantity: 1, unit: 'tonnes' },
+      { name: 'Cement', quantity: 5, unit: 'kg' },
+      { name: 'Cement', quantity: 2, unit: 'bags' }
+    ])).toEqual([
+      { name: 'Cement', quantity: 15, unit: 'kg' },
+      { name: 'Sand', quantity: 1, unit: 'tonnes' },
+      { name: 'Cement', quantity: 2, unit: 'bags' }
+    ]);
+  });
+
+  it('does not change the materials it is given', () => {
+    const materials = [{ name: 'Sand', quantity: 1, unit: 'tonnes' }, { name: 'Sand', quantity: 1, unit: 'tonnes' }];
+    mergeMaterials(materials);
+    expect(materials[0].quantity).toBe(1);
+  });
+});
+
+describe('packMaterials', () => {
+  it('rounds materials sold in packs up to whole packs', () => {
+    expect(packMaterials([{ name: 'Cement', quantity: 30, unit: 'kg' }], {})).toEqual([
+      { name: 'Cement', quantity: 2, unit: 'bags' }
+    ]);
+  });
+
+  it('adds wastage before rounding to packs', () => {
+    const properties = { Cement: { density: null, pack_size: 25, pack_unit: 'bags', wastage_percent: 10 } };
+    expect(packMaterials([{ name: 'Cement', quantity: 50, unit: 'kg' }], properties)[0].quantity).toBe(3);
+  });
+
+  it('leaves materials without packs or wastage as they are', () => {
+    expect(packMaterials([{ name: 'Sand', quantity: 0.333, unit: 'tonnes' }], {})).toEqual([
+      { name: 'Sand', quantity: 0.333, unit: 'tonnes' }
+    ]);
+  });
+
+  it('uses packs when no pack unit is set', () => {
+    const properties = { Screws: { density: null, pack_size: 200, pack_unit: null, wastage_percent: 0 } };
+    expect(packMaterials([{ name: 'Screws', quantity: 0, unit: 'screws' }], properties)).toEqual([
+      { name: 'Screws', quantity: 0, unit: 'packs' }
+    ]);
+  });
+});
+
+describe('priceMaterials', () => {
+  it('prices materials that are in the list', () => {
+    expect(priceMaterials([{ name: 'Sand', quantity: 2, unit: 'tonnes' }], { Sand: 40 })).toEqual([
+      { name: 'Sand', quantity: 2, unit: 'tonnes', price_per_unit: 40, total_price: 80 }
+    ]);
+  });
+
+  it('keeps a price of zero', () => {
+    expect(priceMaterials([{ name: 'Soil', quantity: 2, unit: 'tonnes' }], { Soil: 0 })[0]).toMatchObject({
+      price_per_unit: 0,
+      total_price: 0
+    });
+  });
+
+  it('leaves materials that are not in the list unpriced', () => {
+    expect(priceMaterials([{ name: 'Sand', quantity: 2, unit: 'tonnes' }], {})[0]).toMatchObject({
+      price_per_unit: null,
+      total_price: null
+    });
+  });
+});
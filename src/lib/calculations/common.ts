@@ -0,0 +1,272 @@
+// Bulk densities in tonnes per cubic meter, used when Setup has none for the material
+export const DENSITIES = {
+  soil: 1.5,
+  sand: 1.6,
+  type1: 2.1,
+  gravel: 1.6,
+  crushedStone: 2.4,
+  cement: 1.5
+};
+
+// Loose materials the aggregate calculators can weigh
+export const AGGREGATE_MATERIALS = [
+  { name: 'Type 1 Aggregate', density: DENSITIES.type1 },
+  { name: 'Grid Sand', density: DENSITIES.sand },
+  { name: 'Soil', density: DENSITIES.soil },
+  { name: 'Gravel', density: DENSITIES.gravel },
+  { name: 'Crushed Stone', density: DENSITIES.crushedStone }
+];
+
+// Mortar is mixed 1:4 cement to sand by volume
+export const MORTAR_CEMENT_RATIO = 0.2;
+export const MORTAR_SAND_RATIO = 0.8;
+
+// Concrete is mixed 1:2:4 cement, sand and gravel by volume
+export const CONCRETE_MIX = { cement: 1 / 7, sand: 2 / 7, gravel: 4 / 7 };
+// Dry materials shrink by about a third once mixed with water
+export const CONCRETE_DRY_VOLUME_FACTOR = 1.5;
+
+/**
+ * How a material is weighed and bought, set per material in Setup
+ */
+export interface MaterialProperties {
+  // Tonnes per cubic meter
+  density: number | null;
+  // Calculated units in one pack, e.g. 25 (kg) for a bag of cement
+  pack_size: number | null;
+  // What a pack is called, e.g. bags
+  pack_unit: string | null;
+  wastage_percent: number;
+}
+
+export type MaterialPropertyMap = Record<string, MaterialProperties>;
+
+const NO_PROPERTIES: MaterialProperties = { density: null, pack_size: null, pack_unit: null, wastage_percent: 0 };
+
+// What the calculators assumed before these were configurable
+export const DEFAULT_MATERIAL_PROPERTIES: MaterialPropertyMap = {
+  'Soil excavation': { ...NO_PROPERTIES, density: DENSITIES.soil },
+  Soil: { ...NO_PROPERTIES, density: DENSITIES.soil },
+  Sand: { ...NO_PROPERTIES, density: DENSITIES.sand },
+  tape1: { ...NO_PROPERTIES, density: DENSITIES.type1 },
+  Cement: { density: DENSITIES.cement, pack_size: 25, pack_unit: 'bags', wastage_percent: 0 }
+};
+
+/**
+ * The part of a task template the calculators need to estimate hours
+ */
+export interface TaskRate {
+  id: string;
+  name: string;
+  estimated_hours: number;
+}
+
+export interface CalculatedMaterial {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface PricedMaterial extends CalculatedMaterial {
+  price_per_unit: number | null;
+  total_price: number | null;
+}
+
+export interface TaskBreakdownItem {
+  task: string;
+  hours: number;
+  amount: number;
+  unit: string;
+  event_task_id: string | null;
+}
+
+/**
+ * What every calculator returns, and what ProjectCreating saves as a main task
+ */
+export interface CalculationResult {
+  name: string;
+  amount: number;
+  unit: string;
+  hours_worked: number;
+  materials: CalculatedMaterial[];
+  taskBreakdown: TaskBreakdownItem[];
+}
+
+/**
+ * Converts a loose volume to tonnes
+ * @param volume Volume in cubic meters
+ * @param density Tonnes per cubic meter
+ * @returns number
+ */
+export const toTonnes = (volume: number, density: number): number => volume * density;
+
+/**
+ * Rounds to two decimals, the precision materials are ordered in
+ * @param value The quantity
+ * @returns number
+ */
+export const round2 = (value: number): number => Number(value.toFixed(2));
+
+/**
+ * Adds up the hours of a task breakdown
+ * @param breakdown The calculator's tasks
+ * @returns number
+ */
+export const sumHours = (breakdown: TaskBreakdownItem[]): number =>
+  breakdown.reduce((sum, item) => sum + item.hours, 0);
+
+/**
+ * Builds a breakdown item from the task template's hours per unit
+ * @param task The template bound to the output, if any
+ * @param fallbackName Name used when nothing is bound
+ * @param amount Quantity of work
+ * @param unit Unit of the quantity
+ * @returns TaskBreakdownItem With no hours when nothing is bound
+ */
+export const estimateTask = (
+  task: TaskRate | undefined,
+  fallbackName: string,
+  amount: number,
+  unit: string
+): TaskBreakdownItem => ({
+  task: task?.name || fallbackName,
+  hours: task ? amount * task.estimated_hours : 0,
+  amount,
+  unit,
+  event_task_id: task?.id || null
+});
+
+/**
+ * Throws when any of the inputs is not a usable number
+ * @param values The parsed inputs by label
+ * @param allowZero Whether zero is acceptable
+ * @throws Error naming the first invalid input
+ */
+export const requirePositive = (values: Record<string, number>, allowZero = false): void => {
+  Object.entries(values).forEach(([label, value]) => {
+    if (isNaN(value) || value < 0 || (!allowZero && value === 0)) {
+      throw new Error(`Please enter a valid ${label}`);
+    }
+  });
+};
+
+/**
+ * Looks up a material's properties, falling back to the defaults for anything Setup leaves empty
+ * @param properties Properties from Setup by material name
+ * @param name The material
+ * @returns MaterialProperties
+ */
+export const getMaterialProperties = (properties: MaterialPropertyMap, name: string): MaterialProperties => {
+  const defaults = DEFAULT_MATERIAL_PROPERTIES[name] || NO_PROPERTIES;
+  const configured = properties[name];
+  if (!configured) return defaults;
+
+  return {
+    density: configured.density ?? defaults.density,
+    pack_size: configured.pack_size ?? defaults.pack_size,
+    pack_unit: configured.pack_unit || defaults.pack_unit,
+    wastage_percent: configured.wastage_percent || defaults.wastage_percent
+  };
+};
+
+/**
+ * A material's density
+ * @param properties Properties from Setup by material name
+ * @param name The material
+ * @param fallback Density to use when neither Setup nor the defaults have one
+ * @returns number Tonnes per cubic meter
+ */
+export const densityOf = (properties: MaterialPropertyMap, name: string, fallback: number): number =>
+  getMaterialProperties(properties, name).density ?? fallback;
+
+/**
+ * Cement in a volume of 1:4 mortar
+ * @param mortarVolume Mortar in cubic meters
+ * @param properties Properties from Setup by material name
+ * @returns number Kilograms of cement
+ */
+export const mortarCementKg = (mortarVolume: number, properties: MaterialPropertyMap): number =>
+  round2(mortarVolume * MORTAR_CEMENT_RATIO * densityOf(properties, 'Cement', DENSITIES.cement) * 1000);
+
+/**
+ * Cement and sand for a volume of 1:4 mortar
+ * @param mortarVolume Mortar in cubic meters
+ * @param properties Properties from Setup by material name
+ * @returns CalculatedMaterial[] Cement in kg and sand in tonnes
+ */
+export const mortarMaterials = (mortarVolume: number, properties: MaterialPropertyMap): CalculatedMaterial[] => [
+  { name: 'Cement', quantity: mortarCementKg(mortarVolume, properties), unit: 'kg' },
+  { name: 'Sand', quantity: round2(toTonnes(mortarVolume * MORTAR_SAND_RATIO, densityOf(properties, 'Sand', DENSITIES.sand))), unit: 'tonnes' }
+];
+
+/**
+ * Cement, sand and gravel for a volume of site-mixed concrete
+ * @param volume Concrete in cubic meters
+ * @param properties Properties from Setup by material name
+ * @param mix Share of cement, sand and gravel by volume, 1:2:4 unless given
+ * @returns CalculatedMaterial[] Cement in kg, sand and gravel in tonnes
+ */
+export const concreteMaterials = (
+  volume: number,
+  properties: MaterialPropertyMap,
+  mix = CONCRETE_MIX
+): CalculatedMaterial[] => {
+  const dryVolume = volume * CONCRETE_DRY_VOLUME_FACTOR;
+  return [
+    { name: 'Cement', quantity: round2(dryVolume * mix.cement * densityOf(properties, 'Cement', DENSITIES.cement) * 1000), unit: 'kg' },
+    { name: 'Sand', quantity: round2(toTonnes(dryVolume * mix.sand, densityOf(properties, 'Sand', DENSITIES.sand))), unit: 'tonnes' },
+    { name: 'Gravel', quantity: round2(toTonnes(dryVolume * mix.gravel, densityOf(properties, 'Gravel', DENSITIES.gravel))), unit: 'tonnes' }
+  ];
+};
+
+/**
+ * Adds up materials that are listed more than once, e.g. cement for both mortar and concrete
+ * @param materials The calculated materials
+ * @returns CalculatedMaterial[] One line per material and unit, in the order they first appear
+ */
+export const mergeMaterials = (materials: CalculatedMaterial[]): CalculatedMaterial[] =>
+  materials.reduce((merged, material) => {
+    const existing = merged.find(item => item.name === material.name && item.unit === material.unit);
+    if (existing) {
+      existing.quantity = round2(existing.quantity + material.quantity);
+    } else {
+      merged.push({ ...material });
+    }
+    return merged;
+  }, [] as CalculatedMaterial[]);
+
+/**
+ * Adds each material's wastage and rounds materials sold in packs up to whole packs
+ * @param materials The calculated materials
+ * @param properties Properties from Setup by material name
+ * @returns CalculatedMaterial[] In packs where the material has a pack size
+ */
+export const packMaterials = (
+  materials: CalculatedMaterial[],
+  properties: MaterialPropertyMap
+): CalculatedMaterial[] =>
+  materials.map(material => {
+    const { pack_size, pack_unit, wastage_percent } = getMaterialProperties(properties, material.name);
+    const quantity = material.quantity * (1 + wastage_percent / 100);
+
+    if (pack_size) {
+      return { ...material, quantity: Math.ceil(quantity / pack_size), unit: pack_unit || 'packs' };
+    }
+    return { ...material, quantity: wastage_percent ? round2(quantity) : quantity };
+  });
+
+/**
+ * Adds prices to the materials from a price list
+ * @param materials The calculated materials
+ * @param priceMap Price per unit by material name
+ * @returns PricedMaterial[] Without prices for materials that are not in the list
+ */
+export const priceMaterials = (
+  materials: CalculatedMaterial[],
+  priceMap: Record<string, number>
+): PricedMaterial[] =>
+  materials.map(material => ({
+    ...material,
+    price_per_unit: priceMap[material.name] ?? null,
+    total_price: priceMap[material.name] !== undefined ? priceMap[material.name] * material.quantity : null
+  }));
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ConcreteBaseInputs, calculateConcreteBase, getConcreteMix, meshSheets } from './concrete';
+import { materialQuantity, taskRate } from './testUtils';
+
+// A 5m x 3m base
+const base: ConcreteBaseInputs = {
+  area: 15,
+  perimeter: 16,
+  depth: 10,
+  subBaseDepth: 10,
+  supply: 'readymix',
+  mix: '1:2:4',
+  mesh: 'A142',
+  dpm: true
+};
+
+describe('calculateConcreteBase', () => {
+  it('lists the concrete, mesh, formwork, membrane and sub-base for a base', () => {
+    const result = calculateConcreteBase(base, {});
+
+    expect(result.name).toBe('Concrete Base');
+    expect(result.amount).toBe(15);
+    expect(materialQuantity(result, 'Ready-mix Concrete')).toBe(1.5);
+    expect(materialQuantity(result, 'A142 Mesh')).toBe(2);
+    expect(materialQuantity(result, 'Mesh Spacers')).toBe(30);
+    expect(materialQuantity(result, 'Formwork Boards')).toBe(4);
+    expect(materialQuantity(result, 'Formwork Pegs')).toBe(16);
+    expect(materialQuantity(result, 'Damp proof membrane')).toBe(18.26);
+    expect(materialQuantity(result, 'tape1')).toBe(3.15);
+    expect(materialQuantity(result, 'Soil excavation')).toBe(4.5);
+  });
+
+  it('orders ready-mix in quarter cubic meters', () => {
+    expect(materialQuantity(calculateConcreteBase({ ...base, depth: 11 }, {}), 'Ready-mix Concrete')).toBe(1.75);
+  });
+
+  it('stacks formwork boards for a deep base', () => {
+    expect(materialQuantity(calculateConcreteBase({ ...base, depth: 20 }, {}), 'Formwork Boards')).toBe(8);
+  });
+
+  it('mixes cement, sand and gravel on site', () => {
+    const result = calculateConcreteBase({ ...base, supply: 'site' }, {});
+
+    expect(materialQuantity(result, 'Ready-mix Concrete')).toBeUndefined();
+    expect(materialQuantity(result, 'Cement')).toBeGreaterThan(0);
+    expect(materialQuantity(result, 'Sand')).toBeGreaterThan(0);
+    expect(materialQuantity(result, 'Gravel')).toBeGreaterThan(0);
+  });
+
+  it('leaves out the mesh and sub-base when there are none', () => {
+    const result = calculateConcreteBase({ ...base, mesh: 'none', subBaseDepth: 0 }, {
+      mesh: taskRate('Mesh', 0.5),
+      subBase: taskRate('Sub-base', 0.2),
+      pour: taskRate('Pour', 2)
+    });
+
+    expect(materialQuantity(result, 'A142 Mesh')).toBeUndefined();
+    expect(materialQuantity(result, 'tape1')).toBeUndefined();
+    expect(result.taskBreakdown.map(item => item.task)).toEqual(['setting up formwork', 'Pour']);
+    expect(result.hours_worked).toBe(3);
+  });
+
+  it('rejects a base without an edge', () => {
+    expect(() => calculateConcreteBase({ ...base, perimeter: 0 }, {})).toThrow();
+  });
+});
+
+describe('meshSheets', () => {
+  it('covers less than a sheet by the lap', () => {
+    expect(meshSheets(11.52, 0)).toBe(1);
+    expect(meshSheets(11.52, 0.2)).toBe(2);
+  });
+});
+
+describe('getConcreteMix', () => {
+  it('falls back to 1:2:4', () => {
+    expect(getConcreteMix('1:1:1').value).toBe('1:2:4');
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  CalculatedMaterial,
+  CalculationResult,
+  DENSITIES,
+  MaterialPropertyMap,
+  TaskBreakdownItem,
+  TaskRate,
+  concreteMaterials,
+  densityOf,
+  estimateTask,
+  packMaterials,
+  requirePositive,
+  round2,
+  sumHours,
+  toTonnes
+} from './common';
+
+// Ready-mix is delivered by truck, site-mixed concrete is mixed from cement, sand and gravel
+export type ConcreteSupply = 'readymix' | 'site';
+export type ReinforcementMesh = 'none' | 'A142' | 'A193';
+
+export interface ConcreteMixOption {
+  value: string;
+  label: string;
+  // Parts of cement, sand and gravel by volume
+  parts: { cement: number; sand: number; gravel: number };
+}
+
+export const CONCRETE_MIXES: ConcreteMixOption[] = [
+  { value: '1:1.5:3', label: '1:1.5:3 (C25, bases for garden rooms)', parts: { cement: 1, sand: 1.5, gravel: 3 } },
+  { value: '1:2:4', label: '1:2:4 (C20, shed bases and paths)', parts: { cement: 1, sand: 2, gravel: 4 } },
+  { value: '1:3:6', label: '1:3:6 (C10, blinding)', parts: { cement: 1, sand: 3, gravel: 6 } }
+];
+
+export interface MeshOption {
+  value: ReinforcementMesh;
+  label: string;
+  // Overlap between sheets in meters
+  lap: number;
+}
+
+export const MESH_OPTIONS: MeshOption[] = [
+  { value: 'none', label: 'No mesh', lap: 0 },
+  { value: 'A142', label: 'A142 mesh', lap: 0.2 },
+  { value: 'A193', label: 'A193 mesh', lap: 0.3 }
+];
+
+export interface ConcreteBaseInputs {
+  // Area in square meters and the edge around it in meters, measured or from a sketch
+  area: number;
+  perimeter: number;
+  // Concrete and Type 1 depths in cm
+  depth: number;
+  subBaseDepth: number;
+  supply: ConcreteSupply;
+  mix: string;
+  mesh: ReinforcementMesh;
+  dpm: boolean;
+}
+
+export interface ConcreteBaseTasks {
+  formwork?: TaskRate;
+  subBase?: TaskRate;
+  mesh?: TaskRate;
+  pour?: TaskRate;
+}
+
+// Mesh comes in 4.8m x 2.4m sheets, held up on spacers about every 70cm
+const MESH_SHEET_LENGTH = 4.8;
+const MESH_SHEET_WIDTH = 2.4;
+const MESH_SPACERS_PER_M2 = 2;
+// Formwork is 150mm x 22mm board in 4.8m lengths, pegged every meter
+const FORMWORK_BOARD_LENGTH = 4.8;
+const FORMWORK_BOARD_HEIGHT_CM = 15;
+const FORMWORK_PEG_SPACING = 1;
+// Ready-mix is ordered in quarter cubic meters
+const READYMIX_STEP = 0.25;
+// Membrane is turned up the sides, with a tenth more for laps where sheets join
+const DPM_LAP = 0.1;
+
+/**
+ * The outputs a concrete base's hours are bound to in Setup
+ * @param supply Ready-mix or site-mixed
+ * @returns Output keys for formwork, sub-base, mesh and pouring
+ */
+export const concreteOutputKeys = (supply: ConcreteSupply) => ({
+  formwork: 'concrete.formwork',
+  subBase: 'concrete.sub_base',
+  mesh: 'concrete.mesh',
+  pour: `concrete.pour_${supply}`
+});
+
+/**
+ * Looks up a site mix
+ * @param value The mix's ratio
+ * @returns ConcreteMixOption 1:2:4 for anything unknown
+ */
+export const getConcreteMix = (value: string): ConcreteMixOption =>
+  CONCRETE_MIXES.find(mix => mix.value === value) || CONCRETE_MIXES[1];
+
+/**
+ * Mesh sheets for an area, each covering less than its size by the lap along both edges
+ * @param area Area in square meters
+ * @param lap Overlap between sheets in meters
+ * @returns number Sheets
+ */
+export const meshSheets = (area: number, lap: number): number =>
+  Math.ceil(area / ((MESH_SHEET_LENGTH - lap) * (MESH_SHEET_WIDTH - lap)));
+
+/**
+ * Calculates concrete, mesh, formwork, membrane, sub-base and excavation for a concrete base.
+ * The base is dug out to the depth of the concrete and the Type 1 under it, and shuttered all round.
+ * @param inputs Base size, depths, mix and reinforcement
+ * @param tasks Templates bound to the concrete outputs
+ * @param properties Material packs, densities and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number
+ */
+export const calculateConcreteBase = (
+  inputs: ConcreteBaseInputs,
+  tasks: ConcreteBaseTasks,
+  properties: MaterialPropertyMap = {}
+): CalculationResult => {
+  requirePositive({ area: inputs.area, perimeter: inputs.perimeter, depth: inputs.depth });
+  requirePositive({ 'sub-base depth': inputs.subBaseDepth }, true);
+
+  const depthM = inputs.depth / 100;
+  const subBaseM = inputs.subBaseDepth / 100;
+  const volume = inputs.area * depthM;
+
+  const materials: CalculatedMaterial[] = [];
+  if (inputs.supply === 'readymix') {
+    materials.push({ name: 'Ready-mix Concrete', quantity: Math.ceil(volume / READYMIX_STEP) * READYMIX_STEP, unit: 'cubic meters' });
+  } else {
+    const { parts } = getConcreteMix(inputs.mix);
+    const total = parts.cement + parts.sand + parts.gravel;
+    materials.push(...concreteMaterials(volume, properties, {
+      cement: parts.cement / total,
+      sand: parts.sand / total,
+      gravel: parts.gravel / total
+    }));
+  }
+
+  const mesh = MESH_OPTIONS.find(option => option.value === inputs.mesh);
+  const sheets = mesh && mesh.value !== 'none' ? meshSheets(inputs.area, mesh.lap) : 0;
+  if (sheets > 0) {
+    materials.push(
+      { name: `${inputs.mesh} Mesh`, quantity: sheets, unit: `sheets (${MESH_SHEET_LENGTH}m x ${MESH_SHEET_WIDTH}m)` },
+      { name: 'Mesh Spacers', quantity: Math.ceil(inputs.area * MESH_SPACERS_PER_M2), unit: 'spacers' }
+    );
+  }
+
+  const boardRows = Math.ceil(inputs.depth / FORMWORK_BOARD_HEIGHT_CM);
+  materials.push(
+    { name: 'Formwork Boards', quantity: Math.ceil(inputs.perimeter / FORMWORK_BOARD_LENGTH) * boardRows, unit: `lengths (${FORMWORK_BOARD_LENGTH}m)` },
+    { name: 'Formwork Pegs', quantity: Math.ceil(inputs.perimeter / FORMWORK_PEG_SPACING), unit: 'pegs' }
+  );
+
+  if (inputs.dpm) {
+    materials.push({
+      name: 'Damp proof membrane',
+      quantity: round2((inputs.area + inputs.perimeter * depthM) * (1 + DPM_LAP)),
+      unit: 'square meters'
+    });
+  }
+  if (subBaseM > 0) {
+    materials.push({ name: 'tape1', quantity: round2(toTonnes(inputs.area * subBaseM, densityOf(properties, 'tape1', DENSITIES.type1))), unit: 'tonnes' });
+  }
+  materials.push({
+    name: 'Soil excavation',
+    quantity: round2(toTonnes(inputs.area * (depthM + subBaseM), densityOf(properties, 'Soil excavation', DENSITIES.soil))),
+    unit: 'tonnes'
+  });
+
+  const breakdown: TaskBreakdownItem[] = [
+    estimateTask(tasks.formwork, 'setting up formwork', round2(inputs.perimeter), 'meters'),
+    estimateTask(tasks.subBase, 'laying and compacting sub-base', subBaseM > 0 ? round2(inputs.area) : 0, 'square meters'),
+    estimateTask(tasks.mesh, 'laying reinforcement mesh', sheets, 'sheets'),
+    estimateTask(tasks.pour, inputs.supply === 'readymix' ? 'pouring ready-mix concrete' : 'mixing and pouring concrete', round2(volume), 'cubic meters')
+  ].filter(item => item.amount > 0);
+
+  return {
+    name: 'Concrete Base',
+    amount: round2(inputs.area),
+    unit: 'square meters',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials(materials, properties),
+    taskBreakdown: breakdown
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { CutInputs, estimateCuts, getLayingPattern } from './cuts';
+
+const blocks: CutInputs = {
+  area: 16,
+  perimeter: 16,
+  unitLengthCm: 20,
+  unitWidthCm: 10,
+  pattern: 'stretcher'
+};
+
+describe('estimateCuts', () => {
+  it('cuts one unit per length and width along the edge in stretcher bond', () => {
+    expect(estimateCuts(blocks)).toEqual({ cuts: 120, wastePercent: 9.5, coverage: 17.52 });
+  });
+
+  it('cuts more and wastes more in herringbone at 45°', () => {
+    expect(estimateCuts({ ...blocks, pattern: 'herringbone_45' })).toEqual({ cuts: 240, wastePercent: 20, coverage: 19.2 });
+  });
+
+  it("takes the perimeter as a square's when it is not known", () => {
+    expect(estimateCuts({ ...blocks, perimeter: undefined })).toEqual(estimateCuts(blocks));
+  });
+
+  it('never cuts more units than are laid', () => {
+    expect(estimateCuts({ area: 1, perimeter: 100, unitLengthCm: 60, unitWidthCm: 60, pattern: 'stretcher' }).cuts).toBe(3);
+  });
+
+  it('uses the pack sizes for a random pattern', () => {
+    expect(() => estimateCuts({ ...blocks, unitLengthCm: 0, unitWidthCm: 0, pattern: 'random' })).not.toThrow();
+  });
+
+  it('rejects an empty area or unit', () => {
+    expect(() => estimateCuts({ ...blocks, area: 0 })).toThrow();
+    expect(() => estimateCuts({ ...blocks, unitWidthCm: 0 })).toThrow();
+  });
+});
+
+describe('getLayingPattern', () => {
+  it('falls back to stretcher bond', () => {
+    expect(getLayingPattern('diagonal').value).toBe('stretcher');
+  });
+});
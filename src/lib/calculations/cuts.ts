@@ -0,0 +1,102 @@
+import { requirePositive, round2 } from './common';
+
+export type LayingPattern = 'stretcher' | 'basketweave' | 'herringbone_90' | 'herringbone_45' | 'random';
+
+export interface LayingPatternOption {
+  value: LayingPattern;
+  label: string;
+  // How many more units an edge cuts through than in stretcher bond
+  cutFactor: number;
+  // Waste on top of the offcuts, e.g. from matching the pattern or the pack mix
+  wastePercent: number;
+}
+
+export const LAYING_PATTERNS: LayingPatternOption[] = [
+  { value: 'stretcher', label: 'Stretcher bond', cutFactor: 1, wastePercent: 2 },
+  { value: 'basketweave', label: 'Basketweave', cutFactor: 1.25, wastePercent: 2 },
+  { value: 'herringbone_90', label: 'Herringbone 90°', cutFactor: 1.5, wastePercent: 3 },
+  // Every edge unit is cut at an angle
+  { value: 'herringbone_45', label: 'Herringbone 45°', cutFactor: 2, wastePercent: 5 },
+  { value: 'random', label: 'Random (multi-size slab pack)', cutFactor: 1.25, wastePercent: 5 }
+];
+
+// Sizes in a typical random pack and how many of each come in it
+export const RANDOM_PACK_SIZES = [
+  { lengthCm: 90, widthCm: 60, count: 1 },
+  { lengthCm: 60, widthCm: 60, count: 1 },
+  { lengthCm: 60, widthCm: 29, count: 1 },
+  { lengthCm: 29, widthCm: 29, count: 1 }
+];
+
+// Each cut unit leaves about half of itself as an offcut
+const OFFCUT_SHARE = 0.5;
+
+export interface CutInputs {
+  area: number;
+  // Perimeter of the area in meters, taken as a square's when not known
+  perimeter?: number;
+  unitLengthCm: number;
+  unitWidthCm: number;
+  pattern: LayingPattern;
+}
+
+export interface CutEstimate {
+  cuts: number;
+  wastePercent: number;
+  // Square meters to order, waste included
+  coverage: number;
+}
+
+/**
+ * Average unit size of a random pack, weighted by how many of each size it holds
+ * @returns The length and width in cm
+ */
+const randomPackUnit = () => {
+  const count = RANDOM_PACK_SIZES.reduce((sum, size) => sum + size.count, 0);
+  return {
+    lengthCm: RANDOM_PACK_SIZES.reduce((sum, size) => sum + size.lengthCm * size.count, 0) / count,
+    widthCm: RANDOM_PACK_SIZES.reduce((sum, size) => sum + size.widthCm * size.count, 0) / count
+  };
+};
+
+/**
+ * Finds a laying pattern, falling back to stretcher bond for unknown values
+ * @param value The pattern as saved with the calculator inputs
+ * @returns LayingPatternOption
+ */
+export const getLayingPattern = (value: string): LayingPatternOption =>
+  LAYING_PATTERNS.find(pattern => pattern.value === value) || LAYING_PATTERNS[0];
+
+/**
+ * Estimates the cuts along the edge of an area and the waste they leave.
+ * Half of the edge is taken to run along the units and half across them, so an edge
+ * cuts one unit per unit length or width; the pattern scales that up.
+ * @param inputs Area in m², perimeter in meters, unit size in cm and the laying pattern
+ * @returns CutEstimate
+ * @throws Error when an input is not a valid number
+ */
+export const estimateCuts = (inputs: CutInputs): CutEstimate => {
+  requirePositive({ area: inputs.area });
+  const pattern = getLayingPattern(inputs.pattern);
+  const unit = pattern.value === 'random'
+    ? randomPackUnit()
+    : { lengthCm: inputs.unitLengthCm, widthCm: inputs.unitWidthCm };
+  requirePositive({ 'unit length': unit.lengthCm, 'unit width': unit.widthCm });
+
+  const lengthM = unit.lengthCm / 100;
+  const widthM = unit.widthCm / 100;
+  const perimeter = inputs.perimeter || 4 * Math.sqrt(inputs.area);
+  const units = Math.ceil(inputs.area / (lengthM * widthM));
+
+  const edgeCuts = (perimeter / 2) * (1 / lengthM + 1 / widthM) * pattern.cutFactor;
+  const cuts = Math.min(Math.ceil(edgeCuts), units);
+
+  const offcutArea = cuts * lengthM * widthM * OFFCUT_SHARE;
+  const wastePercent = round2(pattern.wastePercent + (offcutArea / inputs.area) * 100);
+
+  return {
+    cuts,
+    wastePercent,
+    coverage: round2(inputs.area * (1 + wastePercent / 100))
+  };
+};
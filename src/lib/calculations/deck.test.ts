@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DeckInputs, calculateDeck } from './deck';
+import { materialQuantity, taskRate } from './testUtils';
+
+const deck: DeckInputs = {
+  deckType: 'timber',
+  length: 4,
+  width: 3,
+  height: 0.5,
+  boardWidth: 145,
+  boardLength: 3.6,
+  joistSpacing: 40,
+  boardDirection: 'length',
+  postmixPerPost: 1
+};
+
+describe('calculateDeck', () => {
+  it('lays out boards, frame and posts for a timber deck', () => {
+    const result = calculateDeck(deck, {});
+
+    expect(result.name).toBe('Timber Deck');
+    expect(result.amount).toBe(12);
+    expect(materialQuantity(result, 'Timber Deck Boards')).toBe(25);
+    expect(materialQuantity(result, 'Deck Joists')).toBe(13);
+    expect(materialQuantity(result, 'Deck Bearers')).toBe(4);
+    expect(materialQuantity(result, 'Deck Posts')).toBe(12);
+    expect(materialQuantity(result, 'Deck Screws')).toBe(440);
+    expect(materialQuantity(result, 'Joist Hangers')).toBe(22);
+    expect(materialQuantity(result, 'Postmix')).toBe(12);
+  });
+
+  it('sizes the posts for the height plus the part in the ground', () => {
+    const posts = calculateDeck(deck, {}).materials.find(material => material.name === 'Deck Posts');
+    expect(posts?.unit).toBe('posts (1.1m)');
+  });
+
+  it('fixes composite boards with one clip per joist', () => {
+    const result = calculateDeck({ ...deck, deckType: 'composite' }, {});
+    expect(result.name).toBe('Composite Deck');
+    expect(materialQuantity(result, 'Hidden Deck Clips')).toBe(220);
+  });
+
+  it('turns the frame when the boards run across the width', () => {
+    const result = calculateDeck({ ...deck, boardDirection: 'width' }, {});
+    // 4m span of 150mm boards and gaps, nine joists every 40cm along 3m and two rim joists
+    expect(materialQuantity(result, 'Deck Joists')).toBe(11);
+    expect(materialQuantity(result, 'Timber Deck Boards')).toBe(Math.ceil((27 * 3 * 1.1) / 3.6));
+  });
+
+  it('estimates hours from the bound tasks', () => {
+    const result = calculateDeck(deck, {
+      posts: taskRate('Posts', 0.5),
+      boards: taskRate('Boards', 0.25)
+    });
+    expect(result.hours_worked).toBe(12 * 0.5 + 12 * 0.25);
+  });
+
+  it('allows a deck at ground level without postmix', () => {
+    expect(() => calculateDeck({ ...deck, height: 0, postmixPerPost: 0 }, {})).not.toThrow();
+  });
+
+  it('rejects missing or zero measurements', () => {
+    expect(() => calculateDeck({ ...deck, width: 0 }, {})).toThrow('Please enter a valid width');
+    expect(() => calculateDeck({ ...deck, joistSpacing: NaN }, {})).toThrow('Please enter a valid joist spacing');
+    expect(() => calculateDeck({ ...deck, height: -0.1 }, {})).toThrow('Please enter a valid height');
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  CalculationResult,
+  MaterialPropertyMap,
+  TaskBreakdownItem,
+  TaskRate,
+  estimateTask,
+  packMaterials,
+  requirePositive,
+  round2,
+  sumHours
+} from './common';
+
+export type DeckType = 'timber' | 'composite';
+
+export interface DeckInputs {
+  deckType: DeckType;
+  // Footprint and height above ground in meters
+  length: number;
+  width: number;
+  height: number;
+  // Board width in mm, board length in meters
+  boardWidth: number;
+  boardLength: number;
+  // Joist spacing in cm
+  joistSpacing: number;
+  boardDirection: 'length' | 'width';
+  postmixPerPost: number;
+}
+
+export interface DeckTasks {
+  posts?: TaskRate;
+  frame?: TaskRate;
+  boards?: TaskRate;
+}
+
+// Frame timber is bought in 4.8m lengths
+const FRAME_TIMBER_LENGTH = 4.8;
+// Bearers sit on posts at most 1.8m apart, in both directions
+const SUPPORT_SPACING = 1.8;
+// Posts go 60cm into the ground
+const POST_EMBED_DEPTH = 0.6;
+// Gap between boards for drainage and expansion
+const BOARD_GAP_MM = 5;
+// Offcuts and boards rejected for defects
+const BOARD_WASTE = 0.1;
+
+/**
+ * The outputs a deck's hours are bound to in Setup
+ * @param deckType Timber or composite
+ * @returns Output keys for posts, frame and boards
+ */
+export const deckOutputKeys = (deckType: DeckType) => ({
+  posts: 'deck.posts',
+  frame: 'deck.frame',
+  boards: `deck.boards_${deckType}`
+});
+
+/**
+ * Calculates boards, frame timber, posts and fixings for a raised deck.
+ * Boards run along one side, joists run across them and bearers run under the joists.
+ * @param inputs Deck size and board layout
+ * @param tasks Templates bound to the deck outputs
+ * @param properties Material packs and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number
+ */
+export const calculateDeck = (
+  inputs: DeckInputs,
+  tasks: DeckTasks,
+  properties: MaterialPropertyMap = {}
+): CalculationResult => {
+  requirePositive({
+    length: inputs.length,
+    width: inputs.width,
+    'board width': inputs.boardWidth,
+    'board length': inputs.boardLength,
+    'joist spacing': inputs.joistSpacing
+  });
+  requirePositive({ height: inputs.height, 'postmix per post': inputs.postmixPerPost }, true);
+
+  const isComposite = inputs.deckType === 'composite';
+  const area = inputs.length * inputs.width;
+  const boardRun = inputs.boardDirection === 'length' ? inputs.length : inputs.width;
+  const boardSpan = inputs.boardDirection === 'length' ? inputs.width : inputs.length;
+
+  const boardRows = Math.ceil((boardSpan * 1000) / (inputs.boardWidth + BOARD_GAP_MM));
+  const boards = Math.ceil((boardRows * boardRun * (1 + BOARD_WASTE)) / inputs.boardLength);
+
+  const joistCount = Math.ceil((boardRun * 100) / inputs.joistSpacing) + 1;
+  // Rim joists close the two open ends of the frame
+  const joistLengths = joistCount * Math.ceil(boardSpan / FRAME_TIMBER_LENGTH) + 2 * Math.ceil(boardRun / FRAME_TIMBER_LENGTH);
+
+  const bearerRows = Math.ceil(boardRun / SUPPORT_SPACING) + 1;
+  const bearerLengths = bearerRows * Math.ceil(boardSpan / FRAME_TIMBER_LENGTH);
+  const posts = bearerRows * (Math.ceil(boardSpan / SUPPORT_SPACING) + 1);
+
+  // Each board is fixed at every joist it crosses
+  const boardFixings = boardRows * joistCount * (isComposite ? 1 : 2);
+
+  const breakdown: TaskBreakdownItem[] = [
+    estimateTask(tasks.posts, 'Setting deck posts', posts, 'posts'),
+    estimateTask(tasks.frame, 'Building deck frame', round2(area), 'square meters'),
+    estimateTask(tasks.boards, `Laying ${inputs.deckType} deck boards`, round2(area), 'square meters')
+  ];
+
+  return {
+    name: `${isComposite ? 'Composite' : 'Timber'} Deck`,
+    amount: round2(area),
+    unit: 'square meters',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials([
+      { name: isComposite ? 'Composite Deck Boards' : 'Timber Deck Boards', quantity: boards, unit: `boards (${inputs.boardLength}m)` },
+      { name: 'Deck Joists', quantity: joistLengths, unit: `lengths (${FRAME_TIMBER_LENGTH}m)` },
+      { name: 'Deck Bearers', quantity: bearerLengths, unit: `lengths (${FRAME_TIMBER_LENGTH}m)` },
+      { name: 'Deck Posts', quantity: posts, unit: `posts (${(inputs.height + POST_EMBED_DEPTH).toFixed(1)}m)` },
+      { name: isComposite ? 'Hidden Deck Clips' : 'Deck Screws', quantity: boardFixings, unit: isComposite ? 'clips' : 'screws' },
+      { name: 'Joist Hangers', quantity: joistCount * 2, unit: 'hangers' },
+      { name: 'Coach Bolts', quantity: posts * 2, unit: 'bolts' },
+      { name: 'Postmix', quantity: posts * inputs.postmixPerPost, unit: 'bags' }
+    ], properties),
+    taskBreakdown: breakdown
+  };
+};
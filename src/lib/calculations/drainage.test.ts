@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DrainageInputs, calculateDrainage, getDrainageSoil, sizeSoakaway } from './drainage';
+import { materialQuantity, taskRate } from './testUtils';
+
+const drainage: DrainageInputs = {
+  drainedArea: 50,
+  soil: 'clay',
+  soakawayFill: 'crates',
+  soakawayDepth: 1,
+  channelLength: 12,
+  channelRuns: 2,
+  pipeLength: 6,
+  pipeDepth: 0.5,
+  pipeBends: 2
+};
+
+describe('sizeSoakaway', () => {
+  it('holds the whole storm in clay', () => {
+    expect(sizeSoakaway(50, 'clay', 'stone', 1).storage).toBeCloseTo(1);
+  });
+
+  it('holds less where the storm soaks away and builds more around stone', () => {
+    const soakaway = sizeSoakaway(50, 'sand', 'stone', 1);
+    expect(soakaway.storage).toBeCloseTo(0.5);
+    expect(soakaway.volume).toBeCloseTo(1.67);
+  });
+});
+
+describe('calculateDrainage', () => {
+  it('lists the soakaway, channel and pipe materials', () => {
+    const result = calculateDrainage(drainage, {});
+
+    expect(result.name).toBe('Surface Water Drainage');
+    expect(result.amount).toBe(50);
+    expect(materialQuantity(result, 'Soakaway Crates')).toBe(6);
+    expect(materialQuantity(result, 'Channel Drain')).toBe(12);
+    expect(materialQuantity(result, 'Channel Outlets')).toBe(2);
+    expect(materialQuantity(result, 'Channel End Caps')).toBe(4);
+    expect(materialQuantity(result, 'Drainage Pipe')).toBe(2);
+    expect(materialQuantity(result, 'Pipe Couplers')).toBe(1);
+    expect(materialQuantity(result, 'Pipe Bends')).toBe(2);
+  });
+
+  it('fills a stone soakaway by weight', () => {
+    expect(materialQuantity(calculateDrainage({ ...drainage, soil: 'sand', soakawayFill: 'stone' }, {}), 'Drainage Stone')).toBe(2.67);
+  });
+
+  it('adds the hours of the bound tasks', () => {
+    const result = calculateDrainage(drainage, {
+      soakaway: taskRate('Soakaway', 2),
+      channel: taskRate('Channel drain', 0.5),
+      pipe: taskRate('Drainage pipe', 0.25)
+    });
+
+    expect(result.hours_worked).toBeCloseTo(9.6);
+  });
+
+  it('only builds the soakaway without channel or pipe runs', () => {
+    const result = calculateDrainage({ ...drainage, channelLength: 0, pipeLength: 0, pipeBends: 0 }, {});
+
+    expect(result.taskBreakdown.map(item => item.task)).toEqual(['building soakaway']);
+    expect(materialQuantity(result, 'Channel Drain')).toBeUndefined();
+    expect(materialQuantity(result, 'Drainage Pipe')).toBeUndefined();
+  });
+
+  it('rejects channel without runs, a shallow pipe trench and no drained area', () => {
+    expect(() => calculateDrainage({ ...drainage, channelRuns: 0 }, {})).toThrow('channel runs');
+    expect(() => calculateDrainage({ ...drainage, pipeDepth: 0.2 }, {})).toThrow('31cm');
+    expect(() => calculateDrainage({ ...drainage, drainedArea: 0 }, {})).toThrow();
+  });
+});
+
+describe('getDrainageSoil', () => {
+  it('falls back to loam', () => {
+    expect(getDrainageSoil('peat').value).toBe('loam');
+  });
+});
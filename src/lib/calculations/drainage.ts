@@ -0,0 +1,206 @@
+import {
+  CalculatedMaterial,
+  CalculationResult,
+  DENSITIES,
+  MaterialPropertyMap,
+  TaskBreakdownItem,
+  TaskRate,
+  concreteMaterials,
+  densityOf,
+  estimateTask,
+  mergeMaterials,
+  packMaterials,
+  requirePositive,
+  round2,
+  sumHours,
+  toTonnes
+} from './common';
+
+export type DrainageSoil = 'sand' | 'loam' | 'clay';
+// Soakaways are filled with clean stone or built from plastic crates
+export type SoakawayFill = 'stone' | 'crates';
+
+export interface DrainageSoilType {
+  value: DrainageSoil;
+  label: string;
+  // Share of the storm that soaks into the ground while it falls
+  infiltration: number;
+}
+
+export const DRAINAGE_SOILS: DrainageSoilType[] = [
+  { value: 'sand', label: 'Sand or gravel', infiltration: 0.5 },
+  { value: 'loam', label: 'Loam', infiltration: 0.25 },
+  { value: 'clay', label: 'Clay', infiltration: 0 }
+];
+
+export interface DrainageInputs {
+  // Hard surface drained to the soakaway, in square meters
+  drainedArea: number;
+  soil: DrainageSoil;
+  soakawayFill: SoakawayFill;
+  // Depth of the soakaway below its cover, in meters
+  soakawayDepth: number;
+  // Channel drain in meters, and how many separate runs it is laid in
+  channelLength: number;
+  channelRuns: number;
+  // Pipe from the channels to the soakaway in meters, and how deep its trench is
+  pipeLength: number;
+  pipeDepth: number;
+  pipeBends: number;
+}
+
+export interface DrainageTasks {
+  channel?: TaskRate;
+  pipe?: TaskRate;
+  soakaway?: TaskRate;
+}
+
+// Storm the soakaway holds, 20mm of rain off the drained area
+const DESIGN_RAINFALL = 0.02;
+// Share of a soakaway's volume that holds water
+const VOID_RATIOS: Record<SoakawayFill, number> = { stone: 0.3, crates: 0.95 };
+// Soakaway crates are 1m x 0.5m x 0.4m
+const CRATE_VOLUME = 0.2;
+// Soil laid back over the soakaway
+const SOAKAWAY_COVER = 0.3;
+// Channel drains come in 1m lengths, with an outlet at least every 10m
+const CHANNEL_LENGTH = 1;
+const CHANNEL_PER_OUTLET = 10;
+// Channel trench, and the concrete bed and haunch per meter of channel
+const CHANNEL_TRENCH_WIDTH = 0.33;
+const CHANNEL_TRENCH_DEPTH = 0.25;
+const CHANNEL_CONCRETE_PER_METER = 0.053;
+// 110mm pipe comes in 3m lengths and is laid in a 30cm trench, surrounded by 10cm of gravel
+const PIPE_LENGTH = 3;
+const PIPE_RADIUS = 0.055;
+const PIPE_TRENCH_WIDTH = 0.3;
+const PIPE_SURROUND_DEPTH = 0.31;
+
+/**
+ * The outputs drainage hours are bound to in Setup
+ * @returns Output keys for channel drains, pipe runs and soakaways
+ */
+export const drainageOutputKeys = () => ({
+  channel: 'drainage.channel',
+  pipe: 'drainage.pipe',
+  soakaway: 'drainage.soakaway'
+});
+
+/**
+ * Looks up a soil type
+ * @param value The soil's value
+ * @returns DrainageSoilType Loam for anything unknown
+ */
+export const getDrainageSoil = (value: string): DrainageSoilType =>
+  DRAINAGE_SOILS.find(soil => soil.value === value) || DRAINAGE_SOILS[1];
+
+export interface SoakawaySize {
+  // Water held in cubic meters, and the volume built to hold it
+  storage: number;
+  volume: number;
+  // Length of each side of the square soakaway, and its depth, in meters
+  side: number;
+  depth: number;
+}
+
+/**
+ * Sizes a square soakaway to hold the design storm less what soaks away while it falls
+ * @param drainedArea Hard surface drained to it, in square meters
+ * @param soil What the ground is
+ * @param fill Stone or crates
+ * @param depth Depth below its cover, in meters
+ * @returns SoakawaySize
+ */
+export const sizeSoakaway = (drainedArea: number, soil: DrainageSoil, fill: SoakawayFill, depth: number): SoakawaySize => {
+  const storage = drainedArea * DESIGN_RAINFALL * (1 - getDrainageSoil(soil).infiltration);
+  const volume = storage / VOID_RATIOS[fill];
+  return { storage, volume, side: Math.sqrt(volume / depth), depth };
+};
+
+/**
+ * Sizes a soakaway for the drained area and calculates channel drains, pipe, fittings, gravel surround and excavation.
+ * @param inputs Drained area, soil and the channel and pipe runs
+ * @param tasks Templates bound to the drainage outputs, hours per meter of channel or pipe and per cubic meter of soakaway
+ * @param properties Material packs, densities and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number
+ */
+export const calculateDrainage = (
+  inputs: DrainageInputs,
+  tasks: DrainageTasks,
+  properties: MaterialPropertyMap = {}
+): CalculationResult => {
+  requirePositive({ 'drained area': inputs.drainedArea, 'soakaway depth': inputs.soakawayDepth });
+  requirePositive({
+    'channel length': inputs.channelLength,
+    'channel runs': inputs.channelRuns,
+    'pipe length': inputs.pipeLength,
+    'pipe depth': inputs.pipeDepth,
+    'pipe bends': inputs.pipeBends
+  }, true);
+  if (inputs.channelLength > 0 && inputs.channelRuns === 0) {
+    throw new Error('Please enter how many channel runs there are');
+  }
+  if (inputs.pipeLength > 0 && inputs.pipeDepth < PIPE_SURROUND_DEPTH) {
+    throw new Error(`The pipe trench must be at least ${PIPE_SURROUND_DEPTH * 100}cm deep`);
+  }
+
+  const { volume: soakawayVolume, side: soakawaySide } = sizeSoakaway(inputs.drainedArea, inputs.soil, inputs.soakawayFill, inputs.soakawayDepth);
+  // Membrane wraps the base, sides and top
+  const membrane = 2 * soakawaySide * soakawaySide + 4 * soakawaySide * inputs.soakawayDepth;
+
+  const channelLengths = Math.ceil(inputs.channelLength / CHANNEL_LENGTH);
+  const outlets = inputs.channelLength > 0 ? Math.max(inputs.channelRuns, Math.ceil(inputs.channelLength / CHANNEL_PER_OUTLET)) : 0;
+  const pipeLengths = Math.ceil(inputs.pipeLength / PIPE_LENGTH);
+  const surround = inputs.pipeLength * (PIPE_TRENCH_WIDTH * PIPE_SURROUND_DEPTH - Math.PI * PIPE_RADIUS * PIPE_RADIUS);
+
+  const excavation = soakawaySide * soakawaySide * (inputs.soakawayDepth + SOAKAWAY_COVER)
+    + inputs.channelLength * CHANNEL_TRENCH_WIDTH * CHANNEL_TRENCH_DEPTH
+    + inputs.pipeLength * PIPE_TRENCH_WIDTH * inputs.pipeDepth;
+
+  const materials: CalculatedMaterial[] = [
+    inputs.soakawayFill === 'crates'
+      ? { name: 'Soakaway Crates', quantity: Math.ceil(soakawayVolume / CRATE_VOLUME), unit: 'crates' }
+      : { name: 'Drainage Stone', quantity: round2(toTonnes(soakawayVolume, densityOf(properties, 'Drainage Stone', DENSITIES.gravel))), unit: 'tonnes' },
+    { name: 'Geotextile Membrane', quantity: round2(membrane), unit: 'square meters' }
+  ];
+
+  if (channelLengths > 0) {
+    materials.push(
+      { name: 'Channel Drain', quantity: channelLengths, unit: `lengths (${CHANNEL_LENGTH}m)` },
+      { name: 'Channel Outlets', quantity: outlets, unit: 'outlets' },
+      { name: 'Channel End Caps', quantity: inputs.channelRuns * 2, unit: 'caps' },
+      ...concreteMaterials(inputs.channelLength * CHANNEL_CONCRETE_PER_METER, properties)
+    );
+  }
+  if (pipeLengths > 0) {
+    materials.push(
+      { name: 'Drainage Pipe', quantity: pipeLengths, unit: `lengths (110mm x ${PIPE_LENGTH}m)` },
+      { name: 'Pipe Couplers', quantity: pipeLengths - 1, unit: 'couplers' },
+      { name: 'Gravel', quantity: round2(toTonnes(surround, densityOf(properties, 'Gravel', DENSITIES.gravel))), unit: 'tonnes' }
+    );
+  }
+  if (inputs.pipeBends > 0) {
+    materials.push({ name: 'Pipe Bends', quantity: inputs.pipeBends, unit: 'bends' });
+  }
+  materials.push({
+    name: 'Soil excavation',
+    quantity: round2(toTonnes(excavation, densityOf(properties, 'Soil excavation', DENSITIES.soil))),
+    unit: 'tonnes'
+  });
+
+  const breakdown: TaskBreakdownItem[] = [
+    estimateTask(tasks.soakaway, 'building soakaway', round2(soakawayVolume), 'cubic meters'),
+    estimateTask(tasks.channel, 'laying channel drains', round2(inputs.channelLength), 'meters'),
+    estimateTask(tasks.pipe, 'laying drainage pipe', round2(inputs.pipeLength), 'meters')
+  ].filter((item, index) => index === 0 || item.amount > 0);
+
+  return {
+    name: 'Surface Water Drainage',
+    amount: round2(inputs.drainedArea),
+    unit: 'square meters',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials(mergeMaterials(materials.filter(material => material.quantity > 0)), properties),
+    taskBreakdown: breakdown
+  };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { CalculationResult } from './common';
+import { EdgingInputs, calculateEdging, getEdgingOption, linkEdging } from './edging';
+import { materialQuantity, taskRate } from './testUtils';
+
+const kerbs: EdgingInputs = {
+  type: 'kerb',
+  length: 20,
+  internalCorners: 2,
+  externalCorners: 1
+};
+
+describe('calculateEdging', () => {
+  it('lays kerbs with angle kerbs at the corners, haunched in concrete', () => {
+    const result = calculateEdging(kerbs, {});
+
+    expect(result.name).toBe('Edging');
+    expect(result.amount).toBe(20);
+    expect(materialQuantity(result, 'Kerbs')).toBe(22);
+    expect(materialQuantity(result, 'Internal Angle Kerbs')).toBe(2);
+    expect(materialQuantity(result, 'External Angle Kerbs')).toBe(1);
+    expect(materialQuantity(result, 'Cement')).toBeGreaterThan(0);
+  });
+
+  it('counts setts as units', () => {
+    expect(calculateEdging({ ...kerbs, type: 'sett' }, {}).materials[0]).toEqual({ name: 'Setts', quantity: 200, unit: 'units' });
+  });
+
+  it('pegs timber boards and gives each corner a fixing of its own', () => {
+    const result = calculateEdging({ ...kerbs, type: 'timber', length: 10 }, {});
+
+    expect(materialQuantity(result, 'Timber Edging Boards')).toBe(3);
+    expect(materialQuantity(result, 'Timber Pegs')).toBe(13);
+    expect(materialQuantity(result, 'Cement')).toBeUndefined();
+  });
+
+  it('adds up steel corners of both kinds', () => {
+    const result = calculateEdging({ type: 'steel', length: 10, internalCorners: 3, externalCorners: 1 }, {});
+
+    expect(materialQuantity(result, 'Steel Edging Corners')).toBe(4);
+    expect(materialQuantity(result, 'Steel Edging Stakes')).toBe(24);
+  });
+
+  it('leaves out corner units on a straight run', () => {
+    const result = calculateEdging({ ...kerbs, internalCorners: 0, externalCorners: 0 }, {});
+
+    expect(materialQuantity(result, 'Internal Angle Kerbs')).toBeUndefined();
+    expect(materialQuantity(result, 'External Angle Kerbs')).toBeUndefined();
+  });
+
+  it('adds the hours for laying and corners', () => {
+    const result = calculateEdging(kerbs, {
+      laying: taskRate('Kerbing', 0.5),
+      corners: taskRate('Corners', 0.25)
+    });
+
+    expect(result.hours_worked).toBe(10.75);
+  });
+
+  it('rejects an edge without a length', () => {
+    expect(() => calculateEdging({ ...kerbs, length: 0 }, {})).toThrow();
+  });
+});
+
+describe('linkEdging', () => {
+  it('adds the edging to the surface it runs round', () => {
+    const surface: CalculationResult = {
+      name: 'Paving',
+      amount: 25,
+      unit: 'square meters',
+      hours_worked: 8,
+      materials: [{ name: 'Sand', quantity: 1.5, unit: 'tonnes' }],
+      taskBreakdown: [{ task: 'laying blocks', hours: 8, amount: 25, unit: 'square meters', event_task_id: null }]
+    };
+    const edging = calculateEdging(kerbs, { laying: taskRate('Kerbing', 0.5) });
+    const linked = linkEdging(surface, edging);
+
+    expect(linked.name).toBe('Paving');
+    expect(linked.amount).toBe(25);
+    expect(linked.hours_worked).toBe(18);
+    expect(materialQuantity(linked, 'Sand')).toBe(1.5 + (materialQuantity(edging, 'Sand') || 0));
+    expect(linked.taskBreakdown.map(item => item.task)).toEqual(['laying blocks', 'Kerbing', 'cutting and fitting corners', 'bedding and haunching in concrete']);
+  });
+});
+
+describe('getEdgingOption', () => {
+  it('falls back to kerbs', () => {
+    expect(getEdgingOption('brick').value).toBe('kerb');
+  });
+});
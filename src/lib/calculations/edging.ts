@@ -0,0 +1,170 @@
+import {
+  CalculatedMaterial,
+  CalculationResult,
+  MaterialPropertyMap,
+  TaskBreakdownItem,
+  TaskRate,
+  concreteMaterials,
+  estimateTask,
+  mergeMaterials,
+  packMaterials,
+  requirePositive,
+  round2,
+  sumHours
+} from './common';
+
+export type EdgingType = 'kerb' | 'sett' | 'timber' | 'steel' | 'composite';
+
+export interface EdgingOption {
+  value: EdgingType;
+  label: string;
+  // What the edging is bought as, and the length of one along the edge in meters
+  unitName: string;
+  unitLength: number;
+  // Concrete bedded under and haunched behind each meter, in cubic meters
+  haunching: number;
+  // Pegs or stakes holding the edging in, one every so many meters
+  fixing?: { name: string; spacing: number };
+  // Units made for corners, otherwise corners are cut from straight lengths
+  corners?: { internal: string; external: string };
+}
+
+export const EDGING_OPTIONS: EdgingOption[] = [
+  {
+    value: 'kerb',
+    label: 'Concrete kerbs (915mm)',
+    unitName: 'Kerbs',
+    unitLength: 0.915,
+    haunching: 0.04,
+    corners: { internal: 'Internal Angle Kerbs', external: 'External Angle Kerbs' }
+  },
+  { value: 'sett', label: 'Granite setts (100mm)', unitName: 'Setts', unitLength: 0.1, haunching: 0.025 },
+  {
+    value: 'timber',
+    label: 'Timber edging boards (3.6m)',
+    unitName: 'Timber Edging Boards',
+    unitLength: 3.6,
+    haunching: 0,
+    fixing: { name: 'Timber Pegs', spacing: 1 }
+  },
+  {
+    value: 'steel',
+    label: 'Steel edging (1m)',
+    unitName: 'Steel Edging',
+    unitLength: 1,
+    haunching: 0,
+    fixing: { name: 'Steel Edging Stakes', spacing: 0.5 },
+    corners: { internal: 'Steel Edging Corners', external: 'Steel Edging Corners' }
+  },
+  {
+    value: 'composite',
+    label: 'Composite edging (2.4m)',
+    unitName: 'Composite Edging',
+    unitLength: 2.4,
+    haunching: 0,
+    fixing: { name: 'Composite Edging Pegs', spacing: 0.6 }
+  }
+];
+
+export interface EdgingInputs {
+  type: EdgingType;
+  // Length along the edge in meters, e.g. the sketched perimeter
+  length: number;
+  internalCorners: number;
+  externalCorners: number;
+}
+
+export interface EdgingTasks {
+  laying?: TaskRate;
+  corners?: TaskRate;
+  haunching?: TaskRate;
+}
+
+// Kerbs and setts are bedded and haunched in a lean 1:3:6 mix
+const HAUNCHING_MIX = { cement: 1 / 10, sand: 3 / 10, gravel: 6 / 10 };
+
+/**
+ * The outputs an edging's hours are bound to in Setup
+ * @param type The edging
+ * @returns Output keys for laying the edging, its corners and haunching
+ */
+export const edgingOutputKeys = (type: EdgingType) => ({
+  laying: `edging.${type}`,
+  corners: 'edging.corner',
+  haunching: 'edging.haunching'
+});
+
+/**
+ * Looks up an edging
+ * @param type The edging's value
+ * @returns EdgingOption Kerbs for anything unknown
+ */
+export const getEdgingOption = (type: string): EdgingOption =>
+  EDGING_OPTIONS.find(option => option.value === type) || EDGING_OPTIONS[0];
+
+/**
+ * Calculates edging units, fixings, corner units and haunching concrete along an edge
+ * @param inputs The edging, its length and the corners along it
+ * @param tasks Templates bound to the edging outputs
+ * @param properties Material packs, densities and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number
+ */
+export const calculateEdging = (
+  inputs: EdgingInputs,
+  tasks: EdgingTasks,
+  properties: MaterialPropertyMap = {}
+): CalculationResult => {
+  requirePositive({ 'edging length': inputs.length });
+  requirePositive({ 'number of internal corners': inputs.internalCorners, 'number of external corners': inputs.externalCorners }, true);
+
+  const option = getEdgingOption(inputs.type);
+  const corners = inputs.internalCorners + inputs.externalCorners;
+
+  const materials: CalculatedMaterial[] = [
+    { name: option.unitName, quantity: Math.ceil(inputs.length / option.unitLength), unit: option.unitLength < 1 ? 'units' : `lengths (${option.unitLength}m)` }
+  ];
+  if (option.corners && corners > 0) {
+    materials.push(
+      { name: option.corners.internal, quantity: inputs.internalCorners, unit: 'units' },
+      { name: option.corners.external, quantity: inputs.externalCorners, unit: 'units' }
+    );
+  }
+  if (option.fixing) {
+    // Each corner takes a fixing of its own to hold both ends
+    materials.push({ name: option.fixing.name, quantity: Math.ceil(inputs.length / option.fixing.spacing) + corners, unit: 'units' });
+  }
+
+  const haunching = round2(inputs.length * option.haunching);
+  if (haunching > 0) {
+    materials.push(...concreteMaterials(haunching, properties, HAUNCHING_MIX));
+  }
+
+  const breakdown: TaskBreakdownItem[] = [
+    estimateTask(tasks.laying, `laying ${option.unitName.toLowerCase()}`, round2(inputs.length), 'meters'),
+    estimateTask(tasks.corners, 'cutting and fitting corners', corners, 'corners'),
+    estimateTask(tasks.haunching, 'bedding and haunching in concrete', haunching, 'cubic meters')
+  ].filter(item => item.amount > 0);
+
+  return {
+    name: 'Edging',
+    amount: round2(inputs.length),
+    unit: 'meters',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials(mergeMaterials(materials.filter(material => material.quantity > 0)), properties),
+    taskBreakdown: breakdown
+  };
+};
+
+/**
+ * Adds an edging calculation to the surface it runs round, so both are saved as one task
+ * @param surface The paving or grass calculation
+ * @param edging The edging along its edge
+ * @returns CalculationResult The surface with the edging's hours, tasks and materials added
+ */
+export const linkEdging = (surface: CalculationResult, edging: CalculationResult): CalculationResult => ({
+  ...surface,
+  hours_worked: surface.hours_worked + edging.hours_worked,
+  materials: mergeMaterials([...surface.materials, ...edging.materials]),
+  taskBreakdown: [...surface.taskBreakdown, ...edging.taskBreakdown]
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { FenceInputs, calculateFence } from './fence';
+import { materialQuantity } from './testUtils';
+
+const fence: FenceInputs = {
+  fenceType: 'vertical',
+  runs: [{ length: 10, rise: 0 }],
+  height: 1.8,
+  slatWidth: 10,
+  slatLength: 0,
+  postmixPerPost: 2,
+  postSpacing: 180,
+  postType: 'timber',
+  gravelBoards: false,
+  gates: 0,
+  gateWidth: 0,
+  slopeMethod: 'stepped'
+};
+
+describe('calculateFence', () => {
+  it('counts posts, slats and rails for a straight run', () => {
+    const result = calculateFence(fence, {});
+
+    expect(result.amount).toBe(10);
+    expect(materialQuantity(result, 'Fence Posts')).toBe(7);
+    expect(materialQuantity(result, 'Fence Slats')).toBe(84);
+    expect(materialQuantity(result, 'Fence Rails')).toBe(9);
+    expect(materialQuantity(result, 'Postmix')).toBe(14);
+  });
+
+  it('shares a post at each corner between runs', () => {
+    const result = calculateFence({ ...fence, runs: [{ length: 5, rise: 0 }, { length: 5, rise: 0 }] }, {});
+    expect(materialQuantity(result, 'Fence Posts')).toBe(7);
+  });
+
+  it('sets a gate between two gate posts', () => {
+    const result = calculateFence({ ...fence, gates: 1, gateWidth: 1 }, {});
+    expect(materialQuantity(result, 'Fence Posts')).toBe(6);
+    expect(materialQuantity(result, 'Gate Posts')).toBe(2);
+    expect(materialQuantity(result, 'Postmix')).toBe(16);
+    expect(result.taskBreakdown[0].amount).toBe(9);
+  });
+
+  it('runs raked rails along the slope', () => {
+    const level = calculateFence(fence, {});
+    const raked = calculateFence({ ...fence, runs: [{ length: 10, rise: 3 }], slopeMethod: 'raked' }, {});
+    expect(materialQuantity(raked, 'Fence Rails')).toBe(Math.ceil((Math.hypot(10, 3) * 100 * 3) / 360));
+    expect(materialQuantity(raked, 'Fence Slats')).toBe(materialQuantity(level, 'Fence Slats'));
+  });
+
+  it('fits gravel boards in every bay but the gates', () => {
+    const result = calculateFence({ ...fence, gravelBoards: true, gates: 1, gateWidth: 1, postType: 'concrete' }, {});
+    expect(materialQuantity(result, 'Concrete Gravel Boards')).toBe(5);
+  });
+
+  it('rejects a fence without runs, or with gates wider than the fence', () => {
+    expect(() => calculateFence({ ...fence, runs: [] }, {})).toThrow('Please add a fence run');
+    expect(() => calculateFence({ ...fence, gates: 2, gateWidth: 5 }, {})).toThrow('The gates are wider than the fence');
+  });
+
+  it('names the run with an invalid length', () => {
+    expect(() => calculateFence({ ...fence, runs: [{ length: 5, rise: 0 }, { length: 0, rise: 0 }] }, {}))
+      .toThrow('Please enter a valid length of run 2');
+  });
+
+  it('needs a slat length only for horizontal fences', () => {
+    expect(() => calculateFence({ ...fence, fenceType: 'horizontal' }, {})).toThrow('Please enter a valid slat length');
+    expect(() => calculateFence({ ...fence, fenceType: 'horizontal', slatLength: 180 }, {})).not.toThrow();
+  });
+});
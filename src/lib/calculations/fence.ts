@@ -0,0 +1,176 @@
+import {
+  CalculatedMaterial,
+  CalculationResult,
+  MaterialPropertyMap,
+  TaskBreakdownItem,
+  TaskRate,
+  estimateTask,
+  packMaterials,
+  requirePositive,
+  round2,
+  sumHours
+} from './common';
+
+export type FenceType = 'vertical' | 'horizontal';
+export type FencePostType = 'timber' | 'concrete';
+// Stepped fences keep each bay level, raked fences follow the slope
+export type FenceSlopeMethod = 'stepped' | 'raked';
+
+/**
+ * A straight run of fence. Runs meet at corners in the order they are entered.
+ */
+export interface FenceRun {
+  // Length along the ground and rise from one end to the other, in meters
+  length: number;
+  rise: number;
+}
+
+export interface FenceInputs {
+  fenceType: FenceType;
+  runs: FenceRun[];
+  // Fence height in meters
+  height: number;
+  // Slat size in cm
+  slatWidth: number;
+  slatLength: number;
+  postmixPerPost: number;
+  // Post spacing in cm
+  postSpacing: number;
+  postType: FencePostType;
+  gravelBoards: boolean;
+  gates: number;
+  // Gate width in meters
+  gateWidth: number;
+  slopeMethod: FenceSlopeMethod;
+}
+
+export interface FenceTasks {
+  fence?: TaskRate;
+  posts?: TaskRate;
+  gravelBoards?: TaskRate;
+  gates?: TaskRate;
+}
+
+// Vertical fences have three rows of 3.6m rails
+const RAIL_ROWS = 3;
+const RAIL_LENGTH_CM = 360;
+// Gap between slats
+const SLAT_GAP_CM = 2;
+// Gravel boards take up the bottom of the fence
+const GRAVEL_BOARD_HEIGHT_CM = 15;
+
+/**
+ * The outputs a fence's hours are bound to in Setup
+ * @param fenceType Vertical or horizontal slats
+ * @returns Output keys for the fence itself, posts, gravel boards and gates
+ */
+export const fenceOutputKeys = (fenceType: FenceType) => ({
+  fence: `fence.${fenceType}`,
+  posts: 'fence.posts',
+  gravelBoards: 'fence.gravel_boards',
+  gates: 'fence.gates'
+});
+
+/**
+ * Calculates posts, rails, slats, gravel boards, gates and postmix for one or more fence runs.
+ * Corners share a post, and each gate splits a run with a gate post on either side.
+ * @param inputs Fence runs, height, slat size and how the fence is built
+ * @param tasks Templates bound to the fence outputs, hours per meter of fence and per item
+ * @param properties Material packs and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number
+ */
+export const calculateFence = (
+  inputs: FenceInputs,
+  tasks: FenceTasks,
+  properties: MaterialPropertyMap = {}
+): CalculationResult => {
+  if (inputs.runs.length === 0) {
+    throw new Error('Please add a fence run');
+  }
+  inputs.runs.forEach((run, index) => {
+    requirePositive({ [`length of run ${index + 1}`]: run.length });
+    requirePositive({ [`rise of run ${index + 1}`]: run.rise }, true);
+  });
+  requirePositive({ height: inputs.height, 'slat width': inputs.slatWidth, 'post spacing': inputs.postSpacing });
+  if (inputs.fenceType === 'horizontal') {
+    requirePositive({ 'slat length': inputs.slatLength });
+  }
+  requirePositive({ 'postmix per post': inputs.postmixPerPost, gates: inputs.gates, 'gate width': inputs.gateWidth }, true);
+
+  const length = inputs.runs.reduce((sum, run) => sum + run.length, 0);
+  const gateLength = inputs.gates * inputs.gateWidth;
+  if (gateLength >= length) {
+    throw new Error('The gates are wider than the fence');
+  }
+  // Gates are taken out of the fence in proportion to each run
+  const fencedShare = (length - gateLength) / length;
+
+  let bays = 0;
+  let slats = 0;
+  let railLengthCm = 0;
+
+  inputs.runs.forEach(run => {
+    const runBays = Math.ceil((run.length * 100) / inputs.postSpacing);
+    const fencedCm = run.length * fencedShare * 100;
+    // Raked panels run along the slope, stepped panels are as tall as the fence plus one step
+    const slopedCm = Math.hypot(run.length, run.rise) * fencedShare * 100;
+    const alongCm = inputs.slopeMethod === 'raked' ? slopedCm : fencedCm;
+    const stepCm = inputs.slopeMethod === 'stepped' ? (run.rise * 100) / runBays : 0;
+    const slattedHeightCm = inputs.height * 100 + stepCm - (inputs.gravelBoards ? GRAVEL_BOARD_HEIGHT_CM : 0);
+
+    bays += runBays;
+    if (inputs.fenceType === 'vertical') {
+      slats += Math.ceil(fencedCm / (inputs.slatWidth + SLAT_GAP_CM));
+      railLengthCm += alongCm * RAIL_ROWS;
+    } else {
+      // Rows of slats up the fence, each row as many slats as fit along it
+      slats += Math.ceil(slattedHeightCm / (inputs.slatWidth + SLAT_GAP_CM)) * Math.ceil(alongCm / inputs.slatLength);
+    }
+  });
+
+  const corners = inputs.runs.length - 1;
+  const gatePosts = inputs.gates * 2;
+  const posts = bays + inputs.runs.length - corners + inputs.gates - gatePosts;
+  const gravelBoards = inputs.gravelBoards ? Math.max(bays - inputs.gates, 0) : 0;
+  const isConcrete = inputs.postType === 'concrete';
+
+  const materials: CalculatedMaterial[] = [
+    { name: isConcrete ? 'Concrete Fence Posts' : 'Fence Posts', quantity: posts, unit: 'posts' },
+    { name: 'Fence Slats', quantity: slats, unit: 'slats' },
+    { name: 'Postmix', quantity: (posts + gatePosts) * inputs.postmixPerPost, unit: 'bags' }
+  ];
+
+  if (inputs.fenceType === 'vertical') {
+    materials.push({ name: 'Fence Rails', quantity: Math.ceil(railLengthCm / RAIL_LENGTH_CM), unit: 'rails' });
+  }
+  if (gravelBoards > 0) {
+    materials.push({ name: isConcrete ? 'Concrete Gravel Boards' : 'Timber Gravel Boards', quantity: gravelBoards, unit: 'boards' });
+  }
+  if (inputs.gates > 0) {
+    materials.push(
+      { name: 'Fence Gates', quantity: inputs.gates, unit: `gates (${inputs.gateWidth}m)` },
+      { name: 'Gate Posts', quantity: gatePosts, unit: 'posts' },
+      { name: 'Gate Hinges', quantity: inputs.gates, unit: 'pairs' },
+      { name: 'Gate Latches', quantity: inputs.gates, unit: 'latches' }
+    );
+  }
+
+  const fencedLength = round2(length - gateLength);
+  const name = `${inputs.fenceType === 'vertical' ? 'Vertical' : 'Horizontal'} Fence Installation`;
+  const breakdown: TaskBreakdownItem[] = [
+    estimateTask(tasks.fence, name, fencedLength, 'meters'),
+    estimateTask(tasks.posts, 'setting fence posts', posts + gatePosts, 'posts'),
+    estimateTask(tasks.gravelBoards, 'fitting gravel boards', gravelBoards, 'boards'),
+    estimateTask(tasks.gates, 'hanging gates', inputs.gates, 'gates')
+  ].filter((item, index) => index === 0 || item.amount > 0);
+
+  return {
+    name,
+    amount: round2(length),
+    unit: 'meters',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials(materials, properties),
+    taskBreakdown: breakdown
+  };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CARRYING_RATES,
+  DIGGING_RATES,
+  calculateSoilExcavation,
+  calculateType1Preparation,
+  findMachineRate,
+  groundworksTonnes
+} from './groundworks';
+
+describe('findMachineRate', () => {
+  it('uses the largest class the machine fits in', () => {
+    expect(findMachineRate(DIGGING_RATES, DIGGING_RATES[2].sizeInTons + 0.1)).toBe(DIGGING_RATES[2].timePerTon);
+  });
+
+  it('uses the smallest class for machines below every class', () => {
+    expect(findMachineRate(CARRYING_RATES, 0)).toBe(CARRYING_RATES[0].timePerTon);
+  });
+});
+
+describe('groundworksTonnes', () => {
+  it('takes tonnes as given', () => {
+    expect(groundworksTonnes({ method: 'direct', tonnes: 4 }, 2)).toBe(4);
+  });
+
+  it('weighs a dug out volume or sketched area by density', () => {
+    expect(groundworksTonnes({ method: 'area', length: 2, width: 3, depth: 0.5 }, 1.5)).toBe(4.5);
+    expect(groundworksTonnes({ method: 'sketch', area: 6, depth: 0.5 }, 1.5)).toBe(4.5);
+  });
+
+  it('rejects empty and zero quantities', () => {
+    expect(() => groundworksTonnes({ method: 'direct', tonnes: 0 }, 1.5)).toThrow('Please enter a valid weight');
+    expect(() => groundworksTonnes({ method: 'area', length: 2, width: NaN, depth: 1 }, 1.5)).toThrow('Please enter a valid width');
+    expect(() => groundworksTonnes({ method: 'sketch', area: 6, depth: 0 }, 1.5)).toThrow('Please enter a valid depth');
+  });
+});
+
+describe('calculateSoilExcavation', () => {
+  it('weighs soil at the default density unless Setup has one', () => {
+    const quantity = { method: 'area' as const, length: 2, width: 2, depth: 1 };
+    expect(calculateSoilExcavation({ quantity, excavatorSize: 1, option: 'pile', carrierSize: null }).amount).toBe(6);
+
+    const properties = { Soil: { density: 2, pack_size: null, pack_unit: null, wastage_percent: 0 } };
+    expect(calculateSoilExcavation({ quantity, excavatorSize: 1, option: 'pile', carrierSize: null }, properties).amount).toBe(8);
+  });
+
+  it('only carries soil away when it is removed', () => {
+    const quantity = { method: 'direct' as const, tonnes: 10 };
+    const pile = calculateSoilExcavation({ quantity, excavatorSize: 1, option: 'pile', carrierSize: null });
+    const removal = calculateSoilExcavation({ quantity, excavatorSize: 1, option: 'removal', carrierSize: 1 });
+
+    expect(pile.transportHours).toBe(0);
+    expect(pile.taskBreakdown).toHaveLength(1);
+    expect(removal.transportHours).toBe(findMachineRate(CARRYING_RATES, 1) * 10);
+    expect(removal.hours_worked).toBe(removal.excavationHours + removal.transportHours);
+  });
+
+  it('needs a carrier to remove soil', () => {
+    expect(() => calculateSoilExcavation({ quantity: { method: 'direct', tonnes: 1 }, excavatorSize: 1, option: 'removal', carrierSize: null }))
+      .toThrow('Please select a carrier');
+  });
+});
+
+describe('calculateType1Preparation', () => {
+  it('weighs Type 1 at 2.1 tonnes per cubic meter and logs no breakdown', () => {
+    const result = calculateType1Preparation({ quantity: { method: 'area', length: 10, width: 1, depth: 0.1 }, excavatorSize: 1, carrierSize: 1 });
+    expect(result.amount).toBeCloseTo(2.1);
+    expect(result.taskBreakdown).toEqual([]);
+  });
+});
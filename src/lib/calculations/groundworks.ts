@@ -0,0 +1,182 @@
+import {
+  CalculationResult,
+  DENSITIES,
+  MaterialPropertyMap,
+  TaskBreakdownItem,
+  densityOf,
+  requirePositive,
+  sumHours,
+  toTonnes
+} from './common';
+
+export interface MachineRate {
+  name: string;
+  sizeInTons: number;
+  timePerTon: number;
+}
+
+export type GroundworksQuantity =
+  | { method: 'direct'; tonnes: number }
+  | { method: 'area'; length: number; width: number; depth: number }
+  // Area of a sketched shape in m²
+  | { method: 'sketch'; area: number; depth: number };
+
+export interface SoilExcavationInputs {
+  quantity: GroundworksQuantity;
+  excavatorSize: number;
+  // Soil piled up on site is not carried away
+  option: 'removal' | 'pile';
+  carrierSize: number | null;
+}
+
+export interface Type1PreparationInputs {
+  quantity: GroundworksQuantity;
+  excavatorSize: number;
+  carrierSize: number;
+}
+
+export interface GroundworksResult extends CalculationResult {
+  excavationHours: number;
+  transportHours: number;
+}
+
+// Hours per tonne to dig soil out, by digger size
+export const DIGGING_RATES: MachineRate[] = [
+  { name: 'Shovel (1 Person)', sizeInTons: 0.02, timePerTon: 0.5 },
+  { name: 'Digger 1T', sizeInTons: 1, timePerTon: 0.14 },
+  { name: 'Digger 2T', sizeInTons: 2, timePerTon: 0.06 },
+  { name: 'Digger 3-5T', sizeInTons: 3, timePerTon: 0.02 },
+  { name: 'Digger 6-10T', sizeInTons: 6, timePerTon: 0.01 },
+  { name: 'Digger 11-20T', sizeInTons: 11, timePerTon: 0.003 },
+  { name: 'Digger 21-30T', sizeInTons: 21, timePerTon: 0.0012 },
+  { name: 'Digger 31-40T', sizeInTons: 31, timePerTon: 0.0007 },
+  { name: 'Digger 41-50T', sizeInTons: 41, timePerTon: 0.0004 }
+];
+
+// Hours per tonne to load Type 1, by digger size
+export const LOADING_RATES: MachineRate[] = [
+  { name: 'Shovel (manual)', sizeInTons: 0.02, timePerTon: 0.5 },
+  { name: '0.5t mini digger', sizeInTons: 0.5, timePerTon: 0.23 },
+  { name: '1t mini digger', sizeInTons: 1, timePerTon: 0.18 },
+  { name: '1.5-2t digger', sizeInTons: 2, timePerTon: 0.15 },
+  { name: '3-5t digger', sizeInTons: 3, timePerTon: 0.12 },
+  { name: '6-10t digger', sizeInTons: 6, timePerTon: 0.08 },
+  { name: '11-20t digger', sizeInTons: 11, timePerTon: 0.05 },
+  { name: '21-30t digger', sizeInTons: 21, timePerTon: 0.03 },
+  { name: '31-40t digger', sizeInTons: 31, timePerTon: 0.02 },
+  { name: '40t+ digger', sizeInTons: 40, timePerTon: 0.01 }
+];
+
+// Hours per tonne to carry material, by barrow or dumper size
+export const CARRYING_RATES: MachineRate[] = [
+  { name: 'Wheelbarrow', sizeInTons: 0.1, timePerTon: 0.355 },
+  { name: 'Wheelbarrow', sizeInTons: 0.125, timePerTon: 0.296 },
+  { name: 'Wheelbarrow', sizeInTons: 0.15, timePerTon: 0.237 },
+  { name: 'Petrol Wheelbarrow', sizeInTons: 0.3, timePerTon: 0.0766 },
+  { name: 'Petrol Wheelbarrow', sizeInTons: 0.5, timePerTon: 0.03416 },
+  { name: 'Dumper', sizeInTons: 1, timePerTon: 0.00967 },
+  { name: 'Dumper', sizeInTons: 3, timePerTon: 0.00283 },
+  { name: 'Dumper', sizeInTons: 5, timePerTon: 0.00157 },
+  { name: 'Dumper', sizeInTons: 10, timePerTon: 0.00068 }
+];
+
+/**
+ * Finds the rate of the largest machine class the machine fits in
+ * @param rates Rates sorted by size, smallest first
+ * @param sizeInTons The machine's size
+ * @returns number Hours per tonne, the smallest machine's rate for machines below every class
+ */
+export const findMachineRate = (rates: MachineRate[], sizeInTons: number): number => {
+  const rate = [...rates].reverse().find(item => item.sizeInTons <= sizeInTons);
+  return (rate || rates[0]).timePerTon;
+};
+
+/**
+ * Works out the tonnes to move, given directly or from the dimensions of the hole
+ * @param quantity Tonnes, dimensions in meters or a sketched area and its depth
+ * @param density Tonnes per cubic meter of the material
+ * @returns number
+ * @throws Error when the quantity is not a positive number
+ */
+export const groundworksTonnes = (quantity: GroundworksQuantity, density: number): number => {
+  if (quantity.method === 'direct') {
+    requirePositive({ weight: quantity.tonnes });
+    return quantity.tonnes;
+  }
+
+  if (quantity.method === 'sketch') {
+    requirePositive({ area: quantity.area, depth: quantity.depth });
+    return toTonnes(quantity.area * quantity.depth, density);
+  }
+
+  requirePositive({ length: quantity.length, width: quantity.width, depth: quantity.depth });
+  return toTonnes(quantity.length * quantity.width * quantity.depth, density);
+};
+
+/**
+ * Calculates digging soil out and either carrying it away or piling it up on site
+ * @param inputs Quantity, digger size and carrier size in tonnes
+ * @param properties Material densities from Setup
+ * @returns GroundworksResult
+ * @throws Error when the quantity is invalid or removal has no carrier
+ */
+export const calculateSoilExcavation = (
+  inputs: SoilExcavationInputs,
+  properties: MaterialPropertyMap = {}
+): GroundworksResult => {
+  if (inputs.option === 'removal' && inputs.carrierSize === null) {
+    throw new Error('Please select a carrier');
+  }
+
+  const tonnes = groundworksTonnes(inputs.quantity, densityOf(properties, 'Soil', DENSITIES.soil));
+  const excavationHours = findMachineRate(DIGGING_RATES, inputs.excavatorSize) * tonnes;
+  const transportHours = inputs.option === 'removal' && inputs.carrierSize !== null
+    ? findMachineRate(CARRYING_RATES, inputs.carrierSize) * tonnes
+    : 0;
+
+  const breakdown: TaskBreakdownItem[] = [
+    { task: 'Excavation', hours: excavationHours, amount: tonnes, unit: 'tonnes', event_task_id: null }
+  ];
+  if (inputs.option === 'removal') {
+    breakdown.push({ task: 'Transport', hours: transportHours, amount: tonnes, unit: 'tonnes', event_task_id: null });
+  }
+
+  return {
+    name: inputs.option === 'removal' ? 'Soil Excavation and Removal' : 'Soil Excavation and Pile Up',
+    amount: tonnes,
+    unit: 'tonnes',
+    hours_worked: sumHours(breakdown),
+    materials: [{ name: 'Soil', quantity: tonnes, unit: 'tonnes' }],
+    taskBreakdown: breakdown,
+    excavationHours,
+    transportHours
+  };
+};
+
+/**
+ * Calculates loading and carrying Type 1 into place.
+ * The hours are logged against the main task itself, so there is no breakdown.
+ * @param inputs Quantity, digger size and carrier size in tonnes
+ * @param properties Material densities from Setup
+ * @returns GroundworksResult
+ * @throws Error when the quantity is invalid
+ */
+export const calculateType1Preparation = (
+  inputs: Type1PreparationInputs,
+  properties: MaterialPropertyMap = {}
+): GroundworksResult => {
+  const tonnes = groundworksTonnes(inputs.quantity, densityOf(properties, 'tape1', DENSITIES.type1));
+  const excavationHours = findMachineRate(LOADING_RATES, inputs.excavatorSize) * tonnes;
+  const transportHours = findMachineRate(CARRYING_RATES, inputs.carrierSize) * tonnes;
+
+  return {
+    name: 'Type 1 Aggregate Installation',
+    amount: tonnes,
+    unit: 'tonnes',
+    hours_worked: excavationHours + transportHours,
+    materials: [],
+    taskBreakdown: [],
+    excavationHours,
+    transportHours
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { SLAB_BEDDING_THICKNESS, calculateMortar } from './mortar';
+import { materialQuantity } from './testUtils';
+
+describe('calculateMortar', () => {
+  it('mixes 1:4 mortar for a slab bed', () => {
+    const result = calculateMortar({ area: 10, thickness: SLAB_BEDDING_THICKNESS });
+
+    expect(result.name).toBe('Mortar Mixing');
+    expect(result.amount).toBe(0.3);
+    // 90kg of cement in 25kg bags
+    expect(result.materials).toEqual([
+      { name: 'Cement', quantity: 4, unit: 'bags' },
+      { name: 'Sand', quantity: 0.38, unit: 'tonnes' }
+    ]);
+  });
+
+  it('packs the cement and weighs the sand as set in Setup', () => {
+    const result = calculateMortar({ area: 10, thickness: 3 }, {
+      Cement: { density: null, pack_size: 20, pack_unit: 'sacks', wastage_percent: 0 },
+      Sand: { density: 2, pack_size: null, pack_unit: null, wastage_percent: 0 }
+    });
+
+    expect(result.materials[0]).toEqual({ name: 'Cement', quantity: 5, unit: 'sacks' });
+    expect(materialQuantity(result, 'Sand')).toBe(0.48);
+  });
+
+  it('rejects a missing area or thickness', () => {
+    expect(() => calculateMortar({ area: 0, thickness: 3 })).toThrow('Please enter a valid area');
+    expect(() => calculateMortar({ area: 10, thickness: NaN })).toThrow('Please enter a valid thickness');
+  });
+});
@@ -0,0 +1,35 @@
+import { CalculationResult, MaterialPropertyMap, mortarMaterials, packMaterials, requirePositive } from './common';
+
+export type MortarUse = 'slab' | 'general';
+
+// Slabs are bedded on 3cm of mortar
+export const SLAB_BEDDING_THICKNESS = 3;
+
+export interface MortarInputs {
+  // Area covered in square meters and the thickness of the mortar in cm
+  area: number;
+  thickness: number;
+}
+
+/**
+ * Calculates the cement and sand to mix a volume of 1:4 mortar, the mix the wall, paving and stair
+ * calculators use for their joints and bedding
+ * @param inputs Area covered and the mortar's thickness
+ * @param properties Material packs, densities and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number
+ */
+export const calculateMortar = (inputs: MortarInputs, properties: MaterialPropertyMap = {}): CalculationResult => {
+  requirePositive({ area: inputs.area, thickness: inputs.thickness });
+
+  const volume = Number((inputs.area * (inputs.thickness / 100)).toFixed(3));
+
+  return {
+    name: 'Mortar Mixing',
+    amount: volume,
+    unit: 'cubic meters',
+    hours_worked: 0,
+    materials: packMaterials(mortarMaterials(volume, properties), properties),
+    taskBreakdown: []
+  };
+};
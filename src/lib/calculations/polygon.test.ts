@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { SketchVertex, countCorners, measureSavedSketch, measureSketch, parseSketch, traceEdges } from './polygon';
+
+const corner = (x: number, y: number, bulge = 0): SketchVertex => ({ x, y, bulge });
+
+const rectangle = [corner(0, 0), corner(4, 0), corner(4, 3), corner(0, 3)];
+const lShape = [corner(0, 0), corner(4, 0), corner(4, 2), corner(2, 2), corner(2, 4), corner(0, 4)];
+
+describe('measureSketch', () => {
+  it('measures a rectangle either way round', () => {
+    expect(measureSketch(rectangle)).toEqual({ area: 12, perimeter: 14 });
+    expect(measureSketch([...rectangle].reverse())).toEqual({ area: 12, perimeter: 14 });
+  });
+
+  it('measures an L shaped area', () => {
+    expect(measureSketch(lShape)).toEqual({ area: 12, perimeter: 16 });
+  });
+
+  it('adds a bulging arc and cuts out an inward one', () => {
+    const square = (bulge: number) => [corner(0, 0), corner(2, 0, bulge), corner(2, 2), corner(0, 2)];
+
+    // A semicircle of radius 1 on one side of a 2m square
+    expect(measureSketch(square(1))).toEqual({ area: 5.57, perimeter: 9.14 });
+    expect(measureSketch(square(-1))).toEqual({ area: 2.43, perimeter: 9.14 });
+  });
+
+  it('has nothing to measure until there are three corners', () => {
+    expect(measureSketch([corner(0, 0), corner(4, 0)])).toEqual({ area: 0, perimeter: 0 });
+  });
+});
+
+describe('countCorners', () => {
+  it('counts the external corners of a rectangle', () => {
+    expect(countCorners(rectangle)).toEqual({ internal: 0, external: 4 });
+    expect(countCorners([...rectangle].reverse())).toEqual({ internal: 0, external: 4 });
+  });
+
+  it('counts the internal corner of an L shape', () => {
+    expect(countCorners(lShape)).toEqual({ internal: 1, external: 5 });
+  });
+
+  it('does not count where an arc runs smoothly into a straight edge', () => {
+    expect(countCorners([corner(0, 0), corner(2, 0, 1), corner(2, 2), corner(0, 2)])).toEqual({ internal: 0, external: 2 });
+  });
+});
+
+describe('traceEdges', () => {
+  it('closes measured edges back to the start', () => {
+    const vertices = traceEdges([
+      { length: 4, turn: 0, bulge: 0 },
+      { length: 3, turn: 90, bulge: 0 },
+      { length: 4, turn: 90, bulge: 0 }
+    ]);
+
+    expect(vertices).toHaveLength(4);
+    expect(measureSketch(vertices)).toEqual({ area: 12, perimeter: 14 });
+  });
+});
+
+describe('parseSketch', () => {
+  it('ignores a typed area and anything that is not a sketch', () => {
+    expect(parseSketch('')).toBeNull();
+    expect(parseSketch('not json')).toBeNull();
+    expect(parseSketch('{"mode":"circle"}')).toBeNull();
+  });
+
+  it('measures a saved sketch', () => {
+    expect(measureSavedSketch(JSON.stringify({ mode: 'points', points: rectangle }))).toEqual({ area: 12, perimeter: 14 });
+  });
+});
@@ -0,0 +1,229 @@
+import { round2 } from './common';
+
+/**
+ * A corner of a sketched area, in meters. The edge from this corner to the next one
+ * is an arc when it has a bulge.
+ */
+export interface SketchVertex {
+  x: number;
+  y: number;
+  // Sagitta of the arc to the next corner in meters, outwards when positive
+  bulge: number;
+}
+
+/**
+ * An edge entered by measurement instead of clicked on the grid
+ */
+export interface SketchEdge {
+  length: number;
+  // Degrees turned left from the previous edge, the first edge runs along the x axis
+  turn: number;
+  bulge: number;
+}
+
+export type AreaSketch =
+  | { mode: 'points'; points: SketchVertex[] }
+  | { mode: 'edges'; edges: SketchEdge[] };
+
+export interface SketchMeasurement {
+  area: number;
+  perimeter: number;
+}
+
+/**
+ * Corners along the edge of a sketch. External corners point out of the shape, internal ones into it.
+ */
+export interface SketchCorners {
+  internal: number;
+  external: number;
+}
+
+// Corners closer than this are treated as the same point
+const CLOSE_TOLERANCE = 0.01;
+// Edging is bent round turns gentler than this, in degrees, rather than cut at a corner
+const CORNER_TOLERANCE = 10;
+
+/**
+ * Turns measured edges into corners, starting at the origin.
+ * The shape is closed with a straight edge when the last edge does not end at the start.
+ * @param edges Lengths and turns, in order around the shape
+ * @returns SketchVertex[]
+ */
+export const traceEdges = (edges: SketchEdge[]): SketchVertex[] => {
+  const vertices: SketchVertex[] = [];
+  let x = 0;
+  let y = 0;
+  let heading = 0;
+
+  edges.forEach((edge, index) => {
+    if (index > 0) heading += (edge.turn * Math.PI) / 180;
+    vertices.push({ x, y, bulge: edge.bulge });
+    x += edge.length * Math.cos(heading);
+    y += edge.length * Math.sin(heading);
+  });
+
+  if (vertices.length > 0 && Math.hypot(x, y) > CLOSE_TOLERANCE) {
+    vertices.push({ x, y, bulge: 0 });
+  }
+  return vertices;
+};
+
+/**
+ * The corners of a sketch, whichever way it was entered
+ * @param sketch The sketch
+ * @returns SketchVertex[]
+ */
+export const sketchVertices = (sketch: AreaSketch): SketchVertex[] =>
+  sketch.mode === 'points' ? sketch.points : traceEdges(sketch.edges);
+
+/**
+ * Radius and angle of an arc through the chord's ends with the given sagitta
+ * @param chord Straight distance between the ends
+ * @param sagitta Height of the arc above the chord, positive
+ * @returns The radius and the angle in radians
+ */
+const arcGeometry = (chord: number, sagitta: number) => {
+  const halfChord = chord / 2;
+  return {
+    radius: (halfChord * halfChord + sagitta * sagitta) / (2 * sagitta),
+    angle: 4 * Math.atan(sagitta / halfChord)
+  };
+};
+
+/**
+ * Shoelace area, positive when the corners run anticlockwise
+ * @param vertices The corners
+ * @returns number
+ */
+const signedArea = (vertices: SketchVertex[]): number =>
+  vertices.reduce((sum, vertex, index) => {
+    const next = vertices[(index + 1) % vertices.length];
+    return sum + (vertex.x * next.y - next.x * vertex.y) / 2;
+  }, 0);
+
+/**
+ * Point halfway along an edge's arc, or the middle of the chord for straight edges.
+ * Used to draw the arc and to keep bulges pointing out of the shape.
+ * @param from The corner the edge starts at
+ * @param to The corner the edge ends at
+ * @param clockwise Whether the corners run clockwise
+ * @returns The point in meters
+ */
+export const arcMidpoint = (from: SketchVertex, to: SketchVertex, clockwise: boolean) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  // Outwards is to the right of the direction of travel when the corners run anticlockwise
+  const side = clockwise ? -1 : 1;
+  return {
+    x: (from.x + to.x) / 2 + (dy / length) * from.bulge * side,
+    y: (from.y + to.y) / 2 - (dx / length) * from.bulge * side
+  };
+};
+
+/**
+ * Whether the corners run clockwise, which decides which side is outwards
+ * @param vertices The corners
+ * @returns boolean
+ */
+export const isClockwise = (vertices: SketchVertex[]): boolean => signedArea(vertices) < 0;
+
+/**
+ * Calculates the area and perimeter of a sketched shape with straight and curved edges
+ * @param vertices The corners, in order around the shape
+ * @returns SketchMeasurement Area in m² and perimeter in meters, zero until there are three corners
+ */
+export const measureSketch = (vertices: SketchVertex[]): SketchMeasurement => {
+  if (vertices.length < 3) return { area: 0, perimeter: 0 };
+
+  let area = Math.abs(signedArea(vertices));
+  let perimeter = 0;
+
+  vertices.forEach((vertex, index) => {
+    const next = vertices[(index + 1) % vertices.length];
+    const chord = Math.hypot(next.x - vertex.x, next.y - vertex.y);
+    if (vertex.bulge === 0 || chord === 0) {
+      perimeter += chord;
+      return;
+    }
+
+    // A bulge adds the circular segment between the chord and the arc, a negative one cuts it out
+    const { radius, angle } = arcGeometry(chord, Math.abs(vertex.bulge));
+    const segment = (radius * radius * (angle - Math.sin(angle))) / 2;
+    area += Math.sign(vertex.bulge) * segment;
+    perimeter += radius * angle;
+  });
+
+  return { area: round2(area), perimeter: round2(perimeter) };
+};
+
+/**
+ * Counts the corners of a sketched shape, where the edge turns by more than a gentle bend.
+ * Turns are measured between the directions the edges leave and arrive at each corner, so an arc
+ * that runs smoothly into a straight edge is not a corner.
+ * @param vertices The corners, in order around the shape
+ * @returns SketchCorners None until there are three corners
+ */
+export const countCorners = (vertices: SketchVertex[]): SketchCorners => {
+  const corners: SketchCorners = { internal: 0, external: 0 };
+  if (vertices.length < 3) return corners;
+
+  // Left turns point out of the shape when the corners run anticlockwise
+  const orientation = isClockwise(vertices) ? -1 : 1;
+  const tangents = vertices.map((vertex, index) => {
+    const next = vertices[(index + 1) % vertices.length];
+    const heading = Math.atan2(next.y - vertex.y, next.x - vertex.x);
+    const chord = Math.hypot(next.x - vertex.x, next.y - vertex.y);
+    // An arc leaves and arrives turned from its chord by half the angle it sweeps
+    const sweep = vertex.bulge === 0 || chord === 0 ? 0 : arcGeometry(chord, Math.abs(vertex.bulge)).angle / 2;
+    const bend = orientation * Math.sign(vertex.bulge) * sweep;
+    return { leaving: heading - bend, arriving: heading + bend };
+  });
+
+  tangents.forEach((tangent, index) => {
+    const previous = tangents[(index + tangents.length - 1) % tangents.length];
+    const turn = Math.atan2(Math.sin(tangent.leaving - previous.arriving), Math.cos(tangent.leaving - previous.arriving));
+    if (Math.abs(turn) * 180 / Math.PI <= CORNER_TOLERANCE) return;
+    if (turn * orientation > 0) {
+      corners.external += 1;
+    } else {
+      corners.internal += 1;
+    }
+  });
+  return corners;
+};
+
+/**
+ * Reads a sketch saved with a calculator's inputs
+ * @param value The sketch as JSON, empty when the area was typed in
+ * @returns AreaSketch | null
+ */
+export const parseSketch = (value: string): AreaSketch | null => {
+  if (!value) return null;
+  try {
+    const sketch = JSON.parse(value) as AreaSketch;
+    return sketch.mode === 'points' || sketch.mode === 'edges' ? sketch : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Measures a sketch saved with a calculator's inputs
+ * @param value The sketch as JSON, empty when the area was typed in
+ * @returns SketchMeasurement | null
+ */
+export const measureSavedSketch = (value: string): SketchMeasurement | null => {
+  const sketch = parseSketch(value);
+  return sketch ? measureSketch(sketchVertices(sketch)) : null;
+};
+
+/**
+ * Counts the corners of a sketch saved with a calculator's inputs
+ * @param value The sketch as JSON, empty when the area was typed in
+ * @returns SketchCorners | null
+ */
+export const countSavedCorners = (value: string): SketchCorners | null => {
+  const sketch = parseSketch(value);
+  return sketch ? countCorners(sketchVertices(sketch)) : null;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { SlabLayoutInputs, planSlabLayout } from './slabLayout';
+
+const patio: SlabLayoutInputs = {
+  lengthCm: 180,
+  widthCm: 120,
+  slabLengthCm: 60,
+  slabWidthCm: 60,
+  gapMm: 0,
+  staggered: false
+};
+
+describe('planSlabLayout', () => {
+  it('lays full slabs only when the patio fits the slabs', () => {
+    const layout = planSlabLayout(patio);
+
+    expect(layout.rows).toHaveLength(2);
+    expect(layout.fullSlabs).toBe(6);
+    expect(layout.slabsToOrder).toBe(6);
+    expect(layout.cuts).toBe(0);
+  });
+
+  it('finishes a staggered row with the offcut of the half slab it started with', () => {
+    const layout = planSlabLayout({ ...patio, staggered: true });
+
+    expect(layout.fullSlabs).toBe(5);
+    expect(layout.cutSlabs).toBe(1);
+    expect(layout.offcutsReused).toBe(1);
+    expect(layout.slabsToOrder).toBe(6);
+    expect(layout.cuts).toBe(1);
+    expect(layout.offcuts).toEqual([]);
+    expect(layout.rows[1].pieces.map(piece => piece.source)).toEqual(['cut', 'full', 'full', 'offcut']);
+  });
+
+  it('cuts a narrower last row from new slabs when the offcuts are too small', () => {
+    const layout = planSlabLayout({ ...patio, lengthCm: 120, widthCm: 100 });
+
+    expect(layout.rows[1].widthCm).toBe(40);
+    expect(layout.fullSlabs).toBe(2);
+    expect(layout.cutSlabs).toBe(2);
+    expect(layout.offcuts).toEqual([
+      { length: 60, width: 20, row: 2 },
+      { length: 60, width: 20, row: 2 }
+    ]);
+  });
+
+  it('leaves room for the joints', () => {
+    const layout = planSlabLayout({ ...patio, lengthCm: 122, widthCm: 60, gapMm: 20 });
+
+    expect(layout.rows).toHaveLength(1);
+    expect(layout.rows[0].pieces.map(piece => piece.x)).toEqual([0, 62]);
+    expect(layout.fullSlabs).toBe(2);
+  });
+
+  it('rejects an empty slab or a negative gap', () => {
+    expect(() => planSlabLayout({ ...patio, slabLengthCm: 0 })).toThrow();
+    expect(() => planSlabLayout({ ...patio, gapMm: -1 })).toThrow();
+  });
+});
@@ -0,0 +1,169 @@
+import { requirePositive } from './common';
+
+export interface SlabLayoutInputs {
+  // Patio size in cm, rows run along the length
+  lengthCm: number;
+  widthCm: number;
+  slabLengthCm: number;
+  slabWidthCm: number;
+  gapMm: number;
+  // Whether every other row starts with half a slab
+  staggered: boolean;
+}
+
+export type LaidSlabSource = 'full' | 'cut' | 'offcut';
+
+/**
+ * A slab or piece of slab in the layout, positioned in cm from the patio's corner
+ */
+export interface LaidSlab {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+  source: LaidSlabSource;
+}
+
+export interface SlabOffcut {
+  length: number;
+  width: number;
+  // Row the offcut was cut in
+  row: number;
+}
+
+export interface SlabLayoutRow {
+  row: number;
+  widthCm: number;
+  fullSlabs: number;
+  cutSlabs: number;
+  offcutsReused: number;
+  pieces: LaidSlab[];
+}
+
+export interface SlabLayout {
+  rows: SlabLayoutRow[];
+  fullSlabs: number;
+  cutSlabs: number;
+  offcutsReused: number;
+  // New slabs needed, full and cut
+  slabsToOrder: number;
+  cuts: number;
+  // Offcuts left over at the end
+  offcuts: SlabOffcut[];
+}
+
+// Smaller pieces are not worth keeping, and smaller gaps at a row's end are taken up by the joints
+const MIN_OFFCUT_CM = 5;
+const MIN_PIECE_CM = 1;
+
+/**
+ * Cuts a piece out of a slab or offcut
+ * @param stock The slab or offcut being cut
+ * @param length Length of the piece needed in cm
+ * @param width Width of the piece needed in cm
+ * @param row Row the cut is made in
+ * @returns The number of cuts made and the usable pieces left over
+ */
+const cutPiece = (stock: { length: number; width: number }, length: number, width: number, row: number) => {
+  const leftovers: SlabOffcut[] = [];
+  let cuts = 0;
+
+  if (stock.length - length >= MIN_PIECE_CM) {
+    cuts++;
+    leftovers.push({ length: stock.length - length, width: stock.width, row });
+  }
+  if (stock.width - width >= MIN_PIECE_CM) {
+    cuts++;
+    leftovers.push({ length, width: stock.width - width, row });
+  }
+
+  return { cuts, leftovers: leftovers.filter(piece => Math.min(piece.length, piece.width) >= MIN_OFFCUT_CM) };
+};
+
+/**
+ * Plans a rectangular patio row by row, cutting the pieces at the row ends and in the last row
+ * from offcuts where one is big enough and from new slabs otherwise
+ * @param inputs Patio and slab sizes in cm and the joint gap in mm
+ * @returns SlabLayout
+ * @throws Error when an input is not a valid number
+ */
+export const planSlabLayout = (inputs: SlabLayoutInputs): SlabLayout => {
+  requirePositive({
+    'patio length': inputs.lengthCm,
+    'patio width': inputs.widthCm,
+    'slab length': inputs.slabLengthCm,
+    'slab width': inputs.slabWidthCm
+  });
+  requirePositive({ gap: inputs.gapMm }, true);
+
+  const gapCm = inputs.gapMm / 10;
+  const offcuts: SlabOffcut[] = [];
+  const rows: SlabLayoutRow[] = [];
+  let cuts = 0;
+
+  for (let y = 0, row = 1; inputs.widthCm - y >= MIN_PIECE_CM; y += inputs.slabWidthCm + gapCm, row++) {
+    const rowWidth = Math.min(inputs.slabWidthCm, inputs.widthCm - y);
+    const layoutRow: SlabLayoutRow = { row, widthCm: rowWidth, fullSlabs: 0, cutSlabs: 0, offcutsReused: 0, pieces: [] };
+
+    const lay = (x: number, length: number) => {
+      if (length === inputs.slabLengthCm && rowWidth === inputs.slabWidthCm) {
+        layoutRow.fullSlabs++;
+        layoutRow.pieces.push({ x, y, length, width: rowWidth, source: 'full' });
+        return;
+      }
+
+      // Reuse the smallest offcut the piece fits in, turned if need be
+      const fits = (offcut: SlabOffcut) =>
+        (offcut.length >= length && offcut.width >= rowWidth) || (offcut.width >= length && offcut.length >= rowWidth);
+      const offcut = offcuts
+        .filter(fits)
+        .sort((a, b) => a.length * a.width - b.length * b.width)[0];
+
+      if (offcut) {
+        offcuts.splice(offcuts.indexOf(offcut), 1);
+        const stock = offcut.length >= length && offcut.width >= rowWidth
+          ? offcut
+          : { length: offcut.width, width: offcut.length };
+        const cut = cutPiece(stock, length, rowWidth, row);
+        cuts += cut.cuts;
+        offcuts.push(...cut.leftovers);
+        layoutRow.offcutsReused++;
+        layoutRow.pieces.push({ x, y, length, width: rowWidth, source: 'offcut' });
+        return;
+      }
+
+      const cut = cutPiece({ length: inputs.slabLengthCm, width: inputs.slabWidthCm }, length, rowWidth, row);
+      cuts += cut.cuts;
+      offcuts.push(...cut.leftovers);
+      layoutRow.cutSlabs++;
+      layoutRow.pieces.push({ x, y, length, width: rowWidth, source: 'cut' });
+    };
+
+    let x = 0;
+    if (inputs.staggered && row % 2 === 0) {
+      const half = Math.min(inputs.slabLengthCm / 2, inputs.lengthCm);
+      lay(0, half);
+      x = half + gapCm;
+    }
+    while (inputs.lengthCm - x >= MIN_PIECE_CM) {
+      const length = Math.min(inputs.slabLengthCm, inputs.lengthCm - x);
+      lay(x, length);
+      x += length + gapCm;
+    }
+
+    rows.push(layoutRow);
+  }
+
+  const fullSlabs = rows.reduce((sum, row) => sum + row.fullSlabs, 0);
+  const cutSlabs = rows.reduce((sum, row) => sum + row.cutSlabs, 0);
+
+  return {
+    rows,
+    fullSlabs,
+    cutSlabs,
+    offcutsReused: rows.reduce((sum, row) => sum + row.offcutsReused, 0),
+    slabsToOrder: fullSlabs + cutSlabs,
+    cuts,
+    offcuts
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { SoftLandscapingInputs, calculateSoftLandscaping, countPlants } from './softLandscaping';
+import { materialQuantity, taskRate } from './testUtils';
+
+const garden: SoftLandscapingInputs = {
+  turfArea: 40,
+  turfWastage: 5,
+  bedArea: 10,
+  planting: [
+    { name: 'Lavender', area: 4, spacing: 40 },
+    { name: 'Box', area: 2, spacing: 30 }
+  ],
+  topsoilDepth: 15,
+  topsoilSupply: 'loose',
+  membrane: true,
+  membraneOverlap: 10,
+  mulchDepth: 5
+};
+
+describe('calculateSoftLandscaping', () => {
+  it('lists turf, topsoil, plants, membrane and mulch for a lawn and beds', () => {
+    const result = calculateSoftLandscaping(garden, {});
+
+    expect(result.name).toBe('Soft Landscaping');
+    expect(result.amount).toBe(50);
+    expect(materialQuantity(result, 'Turf')).toBe(42);
+    expect(materialQuantity(result, 'Topsoil')).toBe(11.25);
+    expect(materialQuantity(result, 'Lavender')).toBe(25);
+    expect(materialQuantity(result, 'Box')).toBe(23);
+    expect(materialQuantity(result, 'Weed Membrane')).toBe(11.11);
+    expect(materialQuantity(result, 'Membrane Pins')).toBe(45);
+    expect(materialQuantity(result, 'Bark Mulch')).toBe(0.5);
+  });
+
+  it('orders topsoil in whole bulk bags', () => {
+    const topsoil = calculateSoftLandscaping({ ...garden, topsoilSupply: 'bulk_bags' }, {}).materials.find(material => material.name === 'Topsoil');
+    expect(topsoil).toEqual({ name: 'Topsoil', quantity: 14, unit: 'bulk bags' });
+  });
+
+  it('lays only turf without beds', () => {
+    const result = calculateSoftLandscaping({ ...garden, bedArea: 0, planting: [] }, {
+      turf: taskRate('Turfing', 0.1),
+      membrane: taskRate('Membrane', 0.1)
+    });
+
+    expect(materialQuantity(result, 'Weed Membrane')).toBeUndefined();
+    expect(materialQuantity(result, 'Bark Mulch')).toBeUndefined();
+    expect(result.taskBreakdown.map(item => item.task)).toEqual(['Turfing', 'spreading topsoil']);
+    expect(result.hours_worked).toBe(4);
+  });
+
+  it('rejects planting that does not fit the beds', () => {
+    expect(() => calculateSoftLandscaping({ ...garden, bedArea: 5 }, {})).toThrow('more than the 5 m² of beds');
+  });
+
+  it('rejects a membrane overlap as wide as the roll and an empty garden', () => {
+    expect(() => calculateSoftLandscaping({ ...garden, membraneOverlap: 100 }, {})).toThrow('roll width');
+    expect(() => calculateSoftLandscaping({ ...garden, turfArea: 0, bedArea: 0, planting: [] }, {})).toThrow('turf or bed area');
+  });
+});
+
+describe('countPlants', () => {
+  it('fills an area on a square grid', () => {
+    expect(countPlants(1, 50)).toBe(4);
+    expect(countPlants(2, 30)).toBe(23);
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  CalculatedMaterial,
+  CalculationResult,
+  DENSITIES,
+  MaterialPropertyMap,
+  TaskBreakdownItem,
+  TaskRate,
+  densityOf,
+  estimateTask,
+  packMaterials,
+  requirePositive,
+  round2,
+  sumHours,
+  toTonnes
+} from './common';
+
+// Topsoil is delivered loose by the tonne or in bulk bags
+export type TopsoilSupply = 'loose' | 'bulk_bags';
+
+/**
+ * A species planted in the beds, over part of their area
+ */
+export interface PlantingSpecies {
+  name: string;
+  // Area planted in square meters and the distance between plants in cm
+  area: number;
+  spacing: number;
+}
+
+export interface SoftLandscapingInputs {
+  // Turf in square meters and the extra ordered for cutting to shape
+  turfArea: number;
+  turfWastage: number;
+  // Planting beds in square meters
+  bedArea: number;
+  planting: PlantingSpecies[];
+  // Topsoil spread under the turf and in the beds, in cm
+  topsoilDepth: number;
+  topsoilSupply: TopsoilSupply;
+  // Weed membrane over the beds, and how far its strips overlap in cm
+  membrane: boolean;
+  membraneOverlap: number;
+  // Bark or mulch over the beds, in cm
+  mulchDepth: number;
+}
+
+export interface SoftLandscapingTasks {
+  turf?: TaskRate;
+  topsoil?: TaskRate;
+  planting?: TaskRate;
+  membrane?: TaskRate;
+  mulch?: TaskRate;
+}
+
+// A roll of turf covers one square meter
+const TURF_ROLL_AREA = 1;
+// Bulk bags hold about 850kg of topsoil
+const BULK_BAG_TONNES = 0.85;
+// Membrane comes in 1m wide rolls, pinned every half meter along each strip
+const MEMBRANE_WIDTH = 1;
+const MEMBRANE_PINS_PER_M2 = 4;
+
+/**
+ * The outputs soft landscaping hours are bound to in Setup
+ * @returns Output keys for turf, topsoil, planting, membrane and mulch
+ */
+export const softLandscapingOutputKeys = () => ({
+  turf: 'soft.turf',
+  topsoil: 'soft.topsoil',
+  planting: 'soft.planting',
+  membrane: 'soft.membrane',
+  mulch: 'soft.mulch'
+});
+
+/**
+ * Plants needed to fill an area at a spacing, laid out on a square grid
+ * @param area Area in square meters
+ * @param spacing Distance between plants in cm
+ * @returns number Plants
+ */
+export const countPlants = (area: number, spacing: number): number =>
+  Math.ceil(area / Math.pow(spacing / 100, 2));
+
+/**
+ * Calculates turf, topsoil, plants, weed membrane and mulch for lawns and planting beds
+ * @param inputs Turf and bed areas, planting, and the depths of topsoil and mulch
+ * @param tasks Templates bound to the soft landscaping outputs
+ * @param properties Material packs, densities and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number or the planting does not fit the beds
+ */
+export const calculateSoftLandscaping = (
+  inputs: SoftLandscapingInputs,
+  tasks: SoftLandscapingTasks,
+  properties: MaterialPropertyMap = {}
+): CalculationResult => {
+  requirePositive({
+    'turf area': inputs.turfArea,
+    'turf wastage': inputs.turfWastage,
+    'bed area': inputs.bedArea,
+    'topsoil depth': inputs.topsoilDepth,
+    'membrane overlap': inputs.membraneOverlap,
+    'mulch depth': inputs.mulchDepth
+  }, true);
+  if (inputs.turfArea + inputs.bedArea === 0) {
+    throw new Error('Please enter a turf or bed area');
+  }
+  inputs.planting.forEach(species => {
+    requirePositive({ [`area of ${species.name}`]: species.area, [`spacing of ${species.name}`]: species.spacing });
+  });
+  const plantedArea = inputs.planting.reduce((sum, species) => sum + species.area, 0);
+  if (plantedArea > inputs.bedArea) {
+    throw new Error(`The planting covers ${round2(plantedArea)} m², more than the ${round2(inputs.bedArea)} m² of beds`);
+  }
+  if (inputs.membrane && inputs.membraneOverlap / 100 >= MEMBRANE_WIDTH) {
+    throw new Error('The membrane overlap must be less than the roll width');
+  }
+
+  const materials: CalculatedMaterial[] = [];
+  const turfRolls = Math.ceil((inputs.turfArea * (1 + inputs.turfWastage / 100)) / TURF_ROLL_AREA);
+  if (turfRolls > 0) {
+    materials.push({ name: 'Turf', quantity: turfRolls, unit: 'rolls' });
+  }
+
+  const topsoil = round2(toTonnes(
+    (inputs.turfArea + inputs.bedArea) * (inputs.topsoilDepth / 100),
+    densityOf(properties, 'Topsoil', DENSITIES.soil)
+  ));
+  if (topsoil > 0) {
+    materials.push(inputs.topsoilSupply === 'bulk_bags'
+      ? { name: 'Topsoil', quantity: Math.ceil(topsoil / BULK_BAG_TONNES), unit: 'bulk bags' }
+      : { name: 'Topsoil', quantity: topsoil, unit: 'tonnes' });
+  }
+
+  const plants = inputs.planting.map(species => ({ name: species.name, quantity: countPlants(species.area, species.spacing) }));
+  plants.forEach(plant => materials.push({ name: plant.name, quantity: plant.quantity, unit: 'plants' }));
+
+  // Each strip covers its width less the overlap with the next
+  const membrane = inputs.membrane && inputs.bedArea > 0
+    ? round2((inputs.bedArea * MEMBRANE_WIDTH) / (MEMBRANE_WIDTH - inputs.membraneOverlap / 100))
+    : 0;
+  if (membrane > 0) {
+    materials.push(
+      { name: 'Weed Membrane', quantity: membrane, unit: 'square meters' },
+      { name: 'Membrane Pins', quantity: Math.ceil(membrane * MEMBRANE_PINS_PER_M2), unit: 'pins' }
+    );
+  }
+
+  const mulch = round2(inputs.bedArea * (inputs.mulchDepth / 100));
+  if (mulch > 0) {
+    materials.push({ name: 'Bark Mulch', quantity: mulch, unit: 'cubic meters' });
+  }
+
+  const breakdown: TaskBreakdownItem[] = [
+    estimateTask(tasks.turf, 'laying turf', round2(inputs.turfArea), 'square meters'),
+    estimateTask(tasks.topsoil, 'spreading topsoil', topsoil, 'tonnes'),
+    estimateTask(tasks.planting, 'planting', plants.reduce((sum, plant) => sum + plant.quantity, 0), 'plants'),
+    estimateTask(tasks.membrane, 'laying weed membrane', membrane, 'square meters'),
+    estimateTask(tasks.mulch, 'spreading mulch', mulch > 0 ? round2(inputs.bedArea) : 0, 'square meters')
+  ].filter(item => item.amount > 0);
+
+  return {
+    name: 'Soft Landscaping',
+    amount: round2(inputs.turfArea + inputs.bedArea),
+    unit: 'square meters',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials(materials, properties),
+    taskBreakdown: breakdown
+  };
+};
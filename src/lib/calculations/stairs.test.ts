@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { StairInputs, planStairs } from './stairs';
+
+const stairs: StairInputs = {
+  shape: 'straight',
+  stepsBeforeTurn: 0,
+  turn: 'left',
+  totalHeight: 60,
+  totalWidth: 100,
+  stepTread: 30,
+  stepHeight: 17,
+  slabThicknessTop: 3,
+  slabThicknessSide: 2,
+  slabThicknessFront: 2,
+  overhangFront: 2,
+  overhangSide: 2,
+  buildLeftSide: true,
+  buildRightSide: true,
+  buildBackSide: true,
+  brickOrientation: 'flat',
+  selectedMaterials: ['blocks4', 'blocks7', 'bricks']
+};
+
+describe('planStairs', () => {
+  it('makes the first step take up what is left of the height', () => {
+    const plan = planStairs(stairs);
+
+    expect(plan.totalSteps).toBe(3);
+    expect(plan.stepDimensions.map(step => step.height)).toEqual([23, 17, 17]);
+  });
+
+  it('shortens the treads by the front overhang, and the last one by the front slab', () => {
+    const plan = planStairs(stairs);
+
+    expect(plan.stepDimensions.map(step => step.tread)).toEqual([28, 28, 26]);
+    expect(plan.totalLength).toBe(82);
+  });
+
+  it('lays fewer blocks on each level as the steps rise', () => {
+    const bricks = planStairs(stairs).materials[0];
+
+    expect(bricks.courseDetails?.map(course => course.blocks)).toEqual([68, 48, 33]);
+    expect(bricks.amount).toBe(149);
+  });
+
+  it('mixes the mortar for the joints of every block from cement and sand', () => {
+    // 149 bricks with 1cm bed and head joints hold 0.036m³ of mortar
+    expect(planStairs(stairs).materials.slice(1)).toEqual([
+      { name: 'Cement', amount: 1, unit: 'bags' },
+      { name: 'Sand', amount: 0.05, unit: 'tonnes' }
+    ]);
+  });
+
+  it('packs the mortar as set in Setup', () => {
+    const plan = planStairs(stairs, { Cement: { density: null, pack_size: 5, pack_unit: 'bags', wastage_percent: 0 } });
+    expect(plan.materials.find(material => material.name === 'Cement')).toEqual({ name: 'Cement', amount: 3, unit: 'bags' });
+  });
+
+  it('turns on a landing as deep as the stairs are wide', () => {
+    const plan = planStairs({ ...stairs, shape: 'landing', totalHeight: 100, stepsBeforeTurn: 2 });
+
+    expect(plan.stepDimensions.map(step => step.kind)).toEqual(['step', 'step', 'landing', 'step', 'step', 'step']);
+    expect(plan.stepDimensions[2].tread).toBe(100);
+    expect(plan.stepDimensions.map(step => step.flight)).toEqual([1, 1, 1, 2, 2, 2]);
+    expect(plan.totalLength).toBe(238);
+  });
+
+  it('turns on three winders sharing the corner square', () => {
+    const plan = planStairs({ ...stairs, shape: 'winding', totalHeight: 120, stepsBeforeTurn: 2 });
+    const winders = plan.stepDimensions.filter(step => step.kind === 'winder');
+
+    expect(winders).toHaveLength(3);
+    expect(winders.reduce((sum, step) => sum + step.tread, 0)).toBeCloseTo(100);
+  });
+
+  it('rejects stairs too low for a single step', () => {
+    expect(() => planStairs({ ...stairs, totalHeight: 5 })).toThrow('Invalid step count');
+    expect(() => planStairs({ ...stairs, stepHeight: 0 })).toThrow('Invalid step count');
+  });
+
+  it('rejects stairs narrower than their side slabs and overhangs', () => {
+    expect(() => planStairs({ ...stairs, totalWidth: 8 })).toThrow('Invalid step width');
+  });
+
+  it('rejects a turn with no step after it', () => {
+    expect(() => planStairs({ ...stairs, shape: 'landing', stepsBeforeTurn: 2 }))
+      .toThrow('These stairs have 3 steps, too few to turn after 2 with a step left after the turn.');
+    expect(() => planStairs({ ...stairs, shape: 'landing', stepsBeforeTurn: -1 })).toThrow();
+  });
+});
@@ -0,0 +1,386 @@
+import { MaterialPropertyMap, mortarMaterials, packMaterials } from './common';
+
+// Straight stairs are one flight, L-shaped stairs turn 90° on a landing and winding stairs turn on winder steps
+export type StairShape = 'straight' | 'landing' | 'winding';
+export type StairTurn = 'left' | 'right';
+export type StairStepKind = 'step' | 'landing' | 'winder';
+
+/**
+ * A block or brick the stairs can be built from, sizes in cm
+ */
+export interface StairBlock {
+  id: string;
+  name: string;
+  height: number;
+  width: number;
+  length: number;
+  isInches: boolean;
+}
+
+export const STAIR_BLOCKS: StairBlock[] = [
+  { id: 'blocks4', name: '4-inch Blocks', height: 21, width: 10, length: 44, isInches: true },
+  { id: 'blocks7', name: '7-inch Blocks', height: 21, width: 14, length: 44, isInches: true },
+  { id: 'bricks', name: 'Standard Bricks (9x6x21)', height: 6, width: 9, length: 21, isInches: false }
+];
+
+// Acceptable mortar thickness under the courses of a step, in cm
+export const STAIR_MORTAR_RANGE = { min: 0.5, max: 3 };
+
+// Winding stairs turn on three winders of 30° each
+const WINDERS = 3;
+// Fronts are shortened by 20cm for each side wall they sit between
+const SIDE_BLOCK_ALLOWANCE = 20;
+// Mortar joints between blocks are 1cm
+const MORTAR_JOINT = 1;
+
+export interface StairInputs {
+  shape: StairShape;
+  // Steps below the landing or the winders
+  stepsBeforeTurn: number;
+  turn: StairTurn;
+  // Measurements in cm
+  totalHeight: number;
+  totalWidth: number;
+  stepTread: number;
+  stepHeight: number;
+  slabThicknessTop: number;
+  slabThicknessSide: number;
+  slabThicknessFront: number;
+  overhangFront: number;
+  overhangSide: number;
+  buildLeftSide: boolean;
+  buildRightSide: boolean;
+  buildBackSide: boolean;
+  brickOrientation: 'flat' | 'side';
+  selectedMaterials: string[];
+}
+
+export interface StairPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A step as built, before slabs. The outline is its tread seen from above, in cm,
+ * with the bottom step's front along y = 0 and the stairs climbing towards +y.
+ */
+export interface StairStep {
+  height: number;
+  // Depth along the walking line
+  tread: number;
+  isFirst: boolean;
+  kind: StairStepKind;
+  // 1 below the turn, 2 after it
+  flight: number;
+  frontLength: number;
+  outline: StairPoint[];
+}
+
+export interface StairCourse {
+  step: number;
+  blocks: number;
+  rows: number;
+  material: string;
+  mortarHeight: number;
+  needsCutting: boolean;
+}
+
+export interface StairMaterial {
+  name: string;
+  amount: number;
+  unit: string;
+  courseDetails?: StairCourse[];
+}
+
+export interface StairPlan {
+  totalSteps: number;
+  // Length of the walking line, both flights included
+  totalLength: number;
+  stepDimensions: StairStep[];
+  materials: StairMaterial[];
+}
+
+interface StepMaterialChoice {
+  materialId: string;
+  blocks: number;
+  mortarHeight: number;
+  needsCutting: boolean;
+}
+
+/**
+ * Height of a course when blocks are laid flat, or bricks flat or on their side
+ * @param block The block
+ * @param brickOrientation How bricks are laid
+ * @returns number Course height in cm
+ */
+const courseHeight = (block: StairBlock, brickOrientation: 'flat' | 'side'): number =>
+  block.id === 'bricks' ? (brickOrientation === 'flat' ? block.height : block.width) : block.width;
+
+/**
+ * Picks the block that builds a step's height with a mortar joint in range, cutting only when none does
+ * @param stepHeight Height of the step in cm
+ * @param selectedMaterials Blocks the stairs may be built from
+ * @param brickOrientation How bricks are laid
+ * @returns StepMaterialChoice
+ */
+const chooseStepMaterial = (
+  stepHeight: number,
+  selectedMaterials: string[],
+  brickOrientation: 'flat' | 'side'
+): StepMaterialChoice => {
+  const choice: StepMaterialChoice = { materialId: selectedMaterials[0], blocks: 0, mortarHeight: 0, needsCutting: true };
+
+  // First try to find options without cutting
+  for (const materialId of selectedMaterials) {
+    const block = STAIR_BLOCKS.find(option => option.id === materialId);
+    if (!block) continue;
+    const height = courseHeight(block, brickOrientation);
+
+    // A single flat brick matches the step exactly
+    if (block.id === 'bricks' && brickOrientation === 'flat' && Math.abs(stepHeight - height) < 0.1) {
+      return { materialId, blocks: 1, mortarHeight: 0, needsCutting: false };
+    }
+
+    // Start with the most courses that fit and work down
+    for (let blocks = Math.floor(stepHeight / height); blocks > 0; blocks--) {
+      const remainingHeight = stepHeight - blocks * height;
+      if (remainingHeight < STAIR_MORTAR_RANGE.min || remainingHeight > STAIR_MORTAR_RANGE.max) continue;
+
+      // Mortar closest to 1cm is best
+      if (!choice.needsCutting || choice.mortarHeight === 0 || Math.abs(remainingHeight - 1) < Math.abs(choice.mortarHeight - 1)) {
+        Object.assign(choice, { materialId, blocks, mortarHeight: remainingHeight, needsCutting: false });
+      }
+      if (Math.abs(remainingHeight - 1) < 0.3) {
+        return { materialId, blocks, mortarHeight: remainingHeight, needsCutting: false };
+      }
+    }
+
+    // Flat bricks close to a multiple of their height make up the difference in mortar
+    if (block.id === 'bricks' && brickOrientation === 'flat') {
+      const closestMultiple = Math.round(stepHeight / block.height);
+      const difference = Math.abs(stepHeight - closestMultiple * block.height);
+      if (difference <= STAIR_MORTAR_RANGE.max && closestMultiple > 0) {
+        Object.assign(choice, { materialId, blocks: closestMultiple, mortarHeight: difference, needsCutting: false });
+        if (difference <= 1.5) return choice;
+      }
+    }
+  }
+
+  if (!choice.needsCutting) return choice;
+
+  // Otherwise cut the block that wastes least
+  for (const materialId of selectedMaterials) {
+    const block = STAIR_BLOCKS.find(option => option.id === materialId);
+    if (!block) continue;
+    const height = courseHeight(block, brickOrientation);
+    const blocks = Math.ceil(stepHeight / height);
+    const mortarHeight = blocks * height - stepHeight;
+
+    if (choice.blocks === 0 || mortarHeight < choice.mortarHeight) {
+      Object.assign(choice, { materialId, blocks, mortarHeight });
+    }
+  }
+  return choice;
+};
+
+/**
+ * Lays the steps out in plan, turning the second flight left or right after the landing or winders
+ * @param treads Depth of each step along the walking line
+ * @param kinds What each step is
+ * @param width Width of the stairs
+ * @param turn Which way the stairs turn
+ * @returns The outline and front length of each step
+ */
+const layOutSteps = (treads: number[], kinds: StairStepKind[], width: number, turn: StairTurn) => {
+  const mirror = (points: StairPoint[]) => (turn === 'left' ? points.map(point => ({ x: width - point.x, y: point.y })) : points);
+  const rect = (x1: number, y1: number, x2: number, y2: number) => [
+    { x: x1, y: y1 }, { x: x2, y: y1 }, { x: x2, y: y2 }, { x: x1, y: y2 }
+  ];
+
+  const steps: { outline: StairPoint[]; frontLength: number; flight: number }[] = [];
+  let y = 0;
+  let x = width;
+  let flight = 1;
+  let winder = 0;
+
+  treads.forEach((tread, index) => {
+    if (kinds[index] === 'winder') {
+      // Winders fan out from the inner corner of the turn, 30° apart
+      const angle = (from: number) => Math.PI - (from * Math.PI) / 2 / WINDERS;
+      const toEdge = (theta: number) => {
+        const dx = Math.cos(theta);
+        const dy = Math.sin(theta);
+        const t = Math.min(dx < 0 ? width / -dx : Infinity, dy > 0 ? width / dy : Infinity);
+        return { x: width + dx * t, y: y + dy * t, length: t };
+      };
+      const start = toEdge(angle(winder));
+      const end = toEdge(angle(winder + 1));
+      // The middle winder wraps round the outer corner of the turn
+      const onLeft = (point: StairPoint) => point.x < 0.001;
+      const corner = onLeft(start) && !onLeft(end) && start.y < y + width - 0.001 ? [{ x: 0, y: y + width }] : [];
+      steps.push({
+        outline: mirror([{ x: width, y }, { x: start.x, y: start.y }, ...corner, { x: end.x, y: end.y }]),
+        frontLength: start.length,
+        flight
+      });
+      winder++;
+      if (winder === WINDERS) {
+        flight = 2;
+        x = width;
+      }
+      return;
+    }
+
+    if (flight === 1) {
+      steps.push({ outline: mirror(rect(0, y, width, y + tread)), frontLength: width, flight });
+      if (kinds[index] === 'landing') {
+        flight = 2;
+        x = width;
+        return;
+      }
+      y += tread;
+      return;
+    }
+
+    // After the turn the steps run across, along +x before mirroring
+    steps.push({ outline: mirror(rect(x, y, x + tread, y + width)), frontLength: width, flight });
+    x += tread;
+  });
+
+  return steps;
+};
+
+/**
+ * Mortar in the bed and head joints of one block
+ * @param block The block
+ * @returns number Cubic meters
+ */
+const mortarPerBlock = (block: StairBlock): number =>
+  (MORTAR_JOINT * block.width * (block.length + block.height)) / 1000000;
+
+/**
+ * Plans the steps of a set of built stairs and the blocks and mortar for each level.
+ * Each step's front wall runs down to the ground, so a level has the fronts of every step at or above it,
+ * side walls along what is left of each flight and, above the first level, a back wall per flight.
+ * @param inputs Measurements in cm and how the stairs are built
+ * @param properties Material packs, densities and wastage from Setup
+ * @returns StairPlan
+ * @throws Error when the measurements do not give a buildable stair
+ */
+export const planStairs = (inputs: StairInputs, properties: MaterialPropertyMap = {}): StairPlan => {
+  // Accounting for slab thickness on top of each step
+  const adjustedTotalHeight = inputs.totalHeight - inputs.slabThicknessTop;
+  const stepCount = Math.round(adjustedTotalHeight / inputs.stepHeight);
+  if (!(stepCount > 0) || !isFinite(stepCount)) {
+    throw new Error('Invalid step count. Please check your measurements.');
+  }
+
+  const actualStepWidth = inputs.totalWidth
+    - (inputs.buildLeftSide ? inputs.overhangSide + inputs.slabThicknessSide : 0)
+    - (inputs.buildRightSide ? inputs.overhangSide + inputs.slabThicknessSide : 0);
+  if (actualStepWidth <= 0) {
+    throw new Error('Invalid step width. Please check your measurements.');
+  }
+
+  // Steps that make the turn, after the steps below it
+  const turnSteps = inputs.shape === 'landing' ? 1 : inputs.shape === 'winding' ? WINDERS : 0;
+  if (turnSteps > 0 && (inputs.stepsBeforeTurn < 0 || inputs.stepsBeforeTurn + turnSteps >= stepCount)) {
+    throw new Error(`These stairs have ${stepCount} steps, too few to turn after ${inputs.stepsBeforeTurn} with a step left after the turn.`);
+  }
+
+  // First step is shorter, rest are the same height
+  const firstStepHeight = adjustedTotalHeight - inputs.stepHeight * (stepCount - 1);
+  const adjustedStepTread = inputs.stepTread - inputs.overhangFront;
+
+  const kinds: StairStepKind[] = Array.from({ length: stepCount }, (_, i) =>
+    turnSteps > 0 && i >= inputs.stepsBeforeTurn && i < inputs.stepsBeforeTurn + turnSteps
+      ? (inputs.shape === 'landing' ? 'landing' : 'winder')
+      : 'step'
+  );
+  const treads = kinds.map((kind, i) => {
+    // A landing is as deep as the stairs are wide, winders share the corner square
+    if (kind === 'landing') return inputs.totalWidth;
+    if (kind === 'winder') return inputs.totalWidth / WINDERS;
+    // The last step is shorter by the front slab either way
+    return i === stepCount - 1 ? adjustedStepTread - inputs.slabThicknessFront : adjustedStepTread;
+  });
+  const layout = layOutSteps(treads, kinds, inputs.totalWidth, inputs.turn);
+
+  const stepDimensions: StairStep[] = kinds.map((kind, i) => ({
+    height: i === 0 ? firstStepHeight : inputs.stepHeight,
+    tread: treads[i],
+    isFirst: i === 0,
+    kind,
+    ...layout[i]
+  }));
+
+  const choices = stepDimensions.map(step => chooseStepMaterial(step.height, inputs.selectedMaterials, inputs.brickOrientation));
+  const courses: Record<string, StairCourse[]> = {};
+
+  stepDimensions.forEach((_, level) => {
+    const choice = choices[level];
+    const block = STAIR_BLOCKS.find(option => option.id === choice.materialId);
+    if (!block) return;
+
+    // Blocks are laid flat, so their height becomes their width
+    const blockWidth = block.id === 'bricks' && inputs.brickOrientation === 'flat' ? block.width : block.height;
+    const effectiveBlockLength = block.length + MORTAR_JOINT;
+    const sideAllowance = (inputs.buildLeftSide ? SIDE_BLOCK_ALLOWANCE : 0) + (inputs.buildRightSide ? SIDE_BLOCK_ALLOWANCE : 0);
+
+    const standing = stepDimensions.filter((_, i) => i >= level);
+    const frontBlocks = standing.reduce(
+      (sum, step) => sum + Math.ceil(Math.max(0, step.frontLength - sideAllowance) / effectiveBlockLength),
+      0
+    ) * choice.blocks;
+
+    // The second flight stands on the ground in full until the level of its first step
+    const flights = [...new Set(stepDimensions.map(step => step.flight))];
+    let sideBlocks = 0;
+    let backBlocks = 0;
+    flights.forEach(flight => {
+      const flightSteps = stepDimensions.filter(step => step.flight === flight);
+      const remaining = flightSteps.filter(step => stepDimensions.indexOf(step) >= level);
+      if (remaining.length === 0) return;
+
+      const remainingLength = remaining.reduce((sum, step) => sum + step.tread, 0);
+      const blocksPerSide = Math.max(1, Math.ceil(remainingLength / effectiveBlockLength));
+      sideBlocks += ((inputs.buildLeftSide ? 1 : 0) + (inputs.buildRightSide ? 1 : 0)) * blocksPerSide * choice.blocks;
+
+      if (inputs.buildBackSide && level > 0) {
+        const backWidth = inputs.totalWidth - (inputs.buildLeftSide ? blockWidth : 0) - (inputs.buildRightSide ? blockWidth : 0);
+        backBlocks += Math.ceil(backWidth / effectiveBlockLength) * choice.blocks;
+      }
+    });
+
+    courses[block.id] = [...(courses[block.id] || []), {
+      step: level + 1,
+      blocks: frontBlocks + sideBlocks + backBlocks,
+      rows: standing.length,
+      material: block.name,
+      mortarHeight: choice.mortarHeight,
+      needsCutting: choice.needsCutting
+    }];
+  });
+
+  const materials: StairMaterial[] = inputs.selectedMaterials
+    .filter(materialId => courses[materialId])
+    .map(materialId => ({
+      name: STAIR_BLOCKS.find(option => option.id === materialId)?.name || materialId,
+      amount: courses[materialId].reduce((sum, course) => sum + course.blocks, 0),
+      unit: 'pieces',
+      courseDetails: courses[materialId]
+    }));
+
+  // Each block is bedded on a joint and butted to the next one with another, both 1cm thick
+  const mortarVolume = STAIR_BLOCKS.reduce((sum, block) =>
+    sum + (courses[block.id] || []).reduce((total, course) => total + course.blocks, 0) * mortarPerBlock(block), 0);
+  packMaterials(mortarMaterials(mortarVolume, properties), properties)
+    .forEach(material => materials.push({ name: material.name, amount: material.quantity, unit: material.unit }));
+
+  return {
+    totalSteps: stepCount,
+    totalLength: treads.reduce((sum, tread) => sum + tread, 0),
+    stepDimensions,
+    materials
+  };
+};
@@ -0,0 +1,284 @@
+import {
+  CalculatedMaterial,
+  CalculationResult,
+  DENSITIES,
+  MaterialPropertyMap,
+  TaskBreakdownItem,
+  TaskRate,
+  densityOf,
+  estimateTask,
+  mortarMaterials,
+  packMaterials,
+  requirePositive,
+  round2,
+  sumHours,
+  toTonnes
+} from './common';
+import { LayingPattern, estimateCuts } from './cuts';
+
+/**
+ * How the blocks or slabs of a surface are laid, used to estimate the cuts and waste
+ */
+export interface SurfaceLayout {
+  pattern: LayingPattern;
+  unitLengthCm: number;
+  unitWidthCm: number;
+  // Perimeter in meters, e.g. of the sketched area
+  perimeter?: number;
+}
+
+export interface PavingInputs extends SurfaceLayout {
+  area: number;
+  sandThicknessCm: number;
+  type1ThicknessCm: number;
+  blockHeightCm: number;
+  // Blocks counted on site, estimated from the layout when left out
+  cutBlocks?: number;
+  // Edging or kerbs along the edge in meters, e.g. the sketched perimeter
+  edgingLength?: number;
+}
+
+export interface PavingTasks {
+  laying?: TaskRate;
+  cutting?: TaskRate;
+}
+
+export interface SlabInputs extends SurfaceLayout {
+  area: number;
+  type1ThicknessCm: number;
+  mortarThicknessCm: number;
+  // Slabs counted on site, estimated from the layout when left out
+  cutSlabs?: number;
+  // The laying task of the chosen slab type
+  slab: TaskRate;
+  edgingLength?: number;
+}
+
+export interface SlabTasks {
+  cuttingPorcelain?: TaskRate;
+  cuttingSandstone?: TaskRate;
+}
+
+export interface ArtificialGrassInputs {
+  area: number;
+  type1ThicknessCm: number;
+  sandThicknessCm: number;
+  edgingLength?: number;
+}
+
+export interface ArtificialGrassTasks {
+  laying?: TaskRate;
+}
+
+// Minutes per cut block when no cutting task is bound
+const PAVING_CUT_MINUTES = 2;
+// Minutes per cut when no cutting task is bound
+const SLAB_CUT_MINUTES = { porcelain: 6, sandstone: 4 };
+// Slabs sit 2cm above the mortar bed
+const SLAB_EXTRA_DEPTH = 0.02;
+
+/**
+ * Soil dug out for a surface and the sand and Type 1 laid back in
+ * @param area Area in m²
+ * @param excavationDepthM Depth dug out in meters
+ * @param sandThicknessM Sand layer in meters
+ * @param type1ThicknessM Type 1 layer in meters
+ * @param properties Material densities from Setup
+ * @returns CalculatedMaterial[] In tonnes
+ */
+const surfaceMaterials = (
+  area: number,
+  excavationDepthM: number,
+  sandThicknessM: number,
+  type1ThicknessM: number,
+  properties: MaterialPropertyMap
+): CalculatedMaterial[] => [
+  { name: 'Soil excavation', quantity: round2(toTonnes(area * excavationDepthM, densityOf(properties, 'Soil excavation', DENSITIES.soil))), unit: 'tonnes' },
+  { name: 'Sand', quantity: round2(toTonnes(area * sandThicknessM, densityOf(properties, 'Sand', DENSITIES.sand))), unit: 'tonnes' },
+  { name: 'tape1', quantity: round2(toTonnes(area * type1ThicknessM, densityOf(properties, 'tape1', DENSITIES.type1))), unit: 'tonnes' }
+];
+
+/**
+ * Edging laid along the edge of a surface
+ * @param length Edging length in meters
+ * @returns CalculatedMaterial[] Empty when there is no edging
+ */
+const edgingMaterials = (length = 0): CalculatedMaterial[] =>
+  length > 0 ? [{ name: 'Edging', quantity: round2(length), unit: 'meters' }] : [];
+
+/**
+ * Cuts and coverage of a laid surface, using the counted cuts when there are any
+ * @param area Area in m²
+ * @param layout The laying pattern and unit size
+ * @param countedCuts Cuts counted on site
+ * @returns The cuts and the square meters to order
+ */
+const surfaceCuts = (area: number, layout: SurfaceLayout, countedCuts = 0) => {
+  const estimate = estimateCuts({ area, ...layout });
+  return { ...estimate, cuts: countedCuts > 0 ? countedCuts : estimate.cuts };
+};
+
+/**
+ * Tells porcelain slab tasks from sandstone ones by name
+ * @param name The slab task's name
+ * @returns boolean
+ */
+export const isPorcelainSlab = (name: string): boolean =>
+  name.toLowerCase().includes('slab') && !name.toLowerCase().includes('sandstone');
+
+/**
+ * Calculates monoblock paving on a sand screed over Type 1
+ * @param inputs Area in m², layer thicknesses in cm and the block layout
+ * @param tasks Templates bound to the paving outputs
+ * @param properties Material densities, packs and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number
+ */
+export const calculatePaving = (
+  inputs: PavingInputs,
+  tasks: PavingTasks,
+  properties: MaterialPropertyMap = {}
+): CalculationResult => {
+  requirePositive({ area: inputs.area });
+  requirePositive({
+    'sand thickness': inputs.sandThicknessCm,
+    'Type 1 thickness': inputs.type1ThicknessCm,
+    'block height': inputs.blockHeightCm,
+    'number of cuts': inputs.cutBlocks ?? 0,
+    'edging length': inputs.edgingLength ?? 0
+  }, true);
+
+  const sandThicknessM = inputs.sandThicknessCm / 100;
+  const type1ThicknessM = inputs.type1ThicknessCm / 100;
+  const totalDepthM = sandThicknessM + type1ThicknessM + inputs.blockHeightCm / 100;
+
+  const { cuts, coverage } = surfaceCuts(inputs.area, inputs, inputs.cutBlocks);
+
+  const breakdown: TaskBreakdownItem[] = [
+    estimateTask(tasks.laying, 'laying monoblocks with screed', inputs.area, 'square meters')
+  ];
+
+  if (cuts > 0) {
+    breakdown.push({
+      task: 'cutting blocks',
+      hours: tasks.cutting ? cuts * tasks.cutting.estimated_hours : (cuts * PAVING_CUT_MINUTES) / 60,
+      amount: cuts,
+      unit: 'blocks',
+      event_task_id: tasks.cutting?.id || null
+    });
+  }
+
+  return {
+    name: 'Paving Installation',
+    amount: inputs.area,
+    unit: 'square meters',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials([
+      { name: 'Monoblocks', quantity: coverage, unit: 'square meters' },
+      ...surfaceMaterials(inputs.area, totalDepthM, sandThicknessM, type1ThicknessM, properties),
+      ...edgingMaterials(inputs.edgingLength)
+    ], properties),
+    taskBreakdown: breakdown
+  };
+};
+
+/**
+ * Calculates slabs laid on a mortar bed over Type 1
+ * @param inputs Area in m², layer thicknesses in cm, the slab layout and the chosen slab type
+ * @param tasks Templates bound to the slab cutting outputs
+ * @param properties Material densities, packs and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number
+ */
+export const calculateSlab = (
+  inputs: SlabInputs,
+  tasks: SlabTasks,
+  properties: MaterialPropertyMap = {}
+): CalculationResult => {
+  requirePositive({ area: inputs.area });
+  requirePositive({
+    'Type 1 thickness': inputs.type1ThicknessCm,
+    'mortar thickness': inputs.mortarThicknessCm,
+    'number of cuts': inputs.cutSlabs ?? 0,
+    'edging length': inputs.edgingLength ?? 0
+  }, true);
+
+  const type1ThicknessM = inputs.type1ThicknessCm / 100;
+  const mortarVolume = inputs.area * (inputs.mortarThicknessCm / 100);
+  const totalDepthM = type1ThicknessM + inputs.mortarThicknessCm / 100 + SLAB_EXTRA_DEPTH;
+
+  const { cuts, coverage } = surfaceCuts(inputs.area, inputs, inputs.cutSlabs);
+
+  const isPorcelain = isPorcelainSlab(inputs.slab.name);
+  const cuttingTask = isPorcelain ? tasks.cuttingPorcelain : tasks.cuttingSandstone;
+  const cuttingHours = cuttingTask
+    ? cuts * cuttingTask.estimated_hours
+    : (cuts * SLAB_CUT_MINUTES[isPorcelain ? 'porcelain' : 'sandstone']) / 60;
+
+  // Only tasks that take time are listed
+  const breakdown: TaskBreakdownItem[] = [
+    estimateTask(inputs.slab, inputs.slab.name, inputs.area, 'square meters'),
+    {
+      task: isPorcelain ? 'cutting porcelain' : 'cutting sandstones',
+      hours: cuttingHours,
+      amount: cuts,
+      unit: 'slabs',
+      event_task_id: cuttingTask?.id || null
+    }
+  ].filter(item => item.hours > 0);
+
+  return {
+    name: inputs.slab.name || 'Slab Installation',
+    amount: inputs.area,
+    unit: 'square meters',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials([
+      { name: 'Slabs', quantity: coverage, unit: 'square meters' },
+      { name: 'Soil excavation', quantity: round2(toTonnes(inputs.area * totalDepthM, densityOf(properties, 'Soil excavation', DENSITIES.soil))), unit: 'tonnes' },
+      { name: 'tape1', quantity: round2(toTonnes(inputs.area * type1ThicknessM, densityOf(properties, 'tape1', DENSITIES.type1))), unit: 'tonnes' },
+      ...mortarMaterials(mortarVolume, properties),
+      ...edgingMaterials(inputs.edgingLength)
+    ], properties),
+    taskBreakdown: breakdown
+  };
+};
+
+/**
+ * Calculates artificial grass laid on sand over Type 1
+ * @param inputs Area in m² and layer thicknesses in cm
+ * @param tasks Template bound to laying artificial grass
+ * @param properties Material densities, packs and wastage from Setup
+ * @returns CalculationResult
+ * @throws Error when an input is not a valid number
+ */
+export const calculateArtificialGrass = (
+  inputs: ArtificialGrassInputs,
+  tasks: ArtificialGrassTasks,
+  properties: MaterialPropertyMap = {}
+): CalculationResult => {
+  requirePositive({ area: inputs.area });
+  requirePositive({
+    'Type 1 thickness': inputs.type1ThicknessCm,
+    'sand thickness': inputs.sandThicknessCm,
+    'edging length': inputs.edgingLength ?? 0
+  }, true);
+
+  const type1ThicknessM = inputs.type1ThicknessCm / 100;
+  const sandThicknessM = inputs.sandThicknessCm / 100;
+
+  const breakdown = [
+    estimateTask(tasks.laying, 'Laying Artificial Grass', inputs.area, 'square meters')
+  ];
+
+  return {
+    name: 'Artificial Grass Installation',
+    amount: inputs.area,
+    unit: 'square meters',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials([
+      ...surfaceMaterials(inputs.area, type1ThicknessM + sandThicknessM, sandThicknessM, type1ThicknessM, properties),
+      ...edgingMaterials(inputs.edgingLength)
+    ], properties),
+    taskBreakdown: breakdown
+  };
+};
@@ -0,0 +1,22 @@
+import { CalculationResult, TaskRate } from './common';
+
+/**
+ * Quantity of a material in a calculation, for tests
+ * @param result The calculation
+ * @param name The material's name
+ * @returns number | undefined Undefined when the material is not listed
+ */
+export const materialQuantity = (result: Pick<CalculationResult, 'materials'>, name: string) =>
+  result.materials.find(material => material.name === name)?.quantity;
+
+/**
+ * A task template bound to a calculator output, for tests
+ * @param name The template's name, also used as its ID
+ * @param estimatedHours Hours per unit of work
+ * @returns TaskRate
+ */
+export const taskRate = (name: string, estimatedHours: number): TaskRate => ({
+  id: name,
+  name,
+  estimated_hours: estimatedHours
+});
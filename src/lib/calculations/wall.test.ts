@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { WallInputs, calculateWall, wallOutputKey } from './wall';
+import { materialQuantity, taskRate } from './testUtils';
+
+const wall: WallInputs = {
+  type: 'brick',
+  length: 5,
+  height: 1,
+  openings: 0,
+  layingMethod: 'standing'
+};
+
+describe('calculateWall', () => {
+  it('counts bricks, mortar and rows for a single skin wall', () => {
+    const result = calculateWall(wall, {});
+
+    expect(result.units).toBe(300);
+    expect(result.rows).toBe(14.29);
+    expect(result.roundedDownHeight).toBe(0.98);
+    expect(result.roundedUpHeight).toBe(1.05);
+    // 0.1m³ of mortar is 30kg of cement, two 25kg bags
+    expect(result.materials).toEqual([
+      { name: 'Cement', quantity: 2, unit: 'bags' },
+      { name: 'Sand', quantity: 0.13, unit: 'tonnes' },
+      { name: 'Bricks', quantity: 300, unit: 'pieces' }
+    ]);
+  });
+
+  it('takes the openings off the wall area', () => {
+    expect(calculateWall({ ...wall, openings: 1 }, {}).units).toBe(240);
+  });
+
+  it('builds blocks laid flat in more, shorter rows', () => {
+    const standing = calculateWall({ ...wall, type: 'block7' }, {});
+    const flat = calculateWall({ ...wall, type: 'block7', layingMethod: 'flat' }, {});
+    expect(standing.rows).toBe(4.35);
+    expect(flat.rows).toBe(6.67);
+    expect(flat.units).toBeGreaterThan(standing.units);
+  });
+
+  it('doubles the units and adds ties for a double skin wall', () => {
+    const result = calculateWall({ ...wall, construction: 'double' }, {});
+    expect(result.units).toBe(600);
+    expect(materialQuantity(result, 'Wall ties')).toBe(13);
+  });
+
+  it('adds a pier at each end and at every spacing along the wall', () => {
+    // Three piers, two bricks on each of 15 rows
+    expect(materialQuantity(calculateWall({ ...wall, pierSpacing: 2 }, {}), 'Bricks')).toBe(300 + 90);
+  });
+
+  it('adds copings, cladding and a footing only when asked for', () => {
+    const result = calculateWall({ ...wall, coping: true, finish: 'cladding', finishFaces: 2, footingWidth: 0.4, footingDepth: 0.25 }, {});
+    expect(materialQuantity(result, 'Coping stones')).toBe(9);
+    expect(materialQuantity(result, 'Cladding')).toBe(10);
+    expect(materialQuantity(result, 'Soil excavation')).toBe(0.75);
+
+    const plain = calculateWall({ ...wall, footingWidth: 0.4, footingDepth: 0 }, {});
+    expect(materialQuantity(plain, 'Soil excavation')).toBeUndefined();
+  });
+
+  it('lists only the parts that are built', () => {
+    const result = calculateWall(wall, { wall: taskRate('Bricklaying', 0.02) });
+    expect(result.taskBreakdown.map(item => item.task)).toEqual(['Bricklaying']);
+    expect(result.hours_worked).toBe(6);
+  });
+
+  it('keeps built parts without a bound template, with no hours', () => {
+    const result = calculateWall({ ...wall, pierSpacing: 2, coping: true }, { wall: taskRate('Bricklaying', 0.02) });
+
+    expect(result.taskBreakdown.map(item => [item.task, item.hours])).toEqual([
+      ['Bricklaying', 6],
+      ['building piers', 0],
+      ['laying coping stones', 0]
+    ]);
+  });
+
+  it('rejects missing and negative measurements', () => {
+    expect(() => calculateWall({ ...wall, height: 0 }, {})).toThrow('Please enter a valid height');
+    expect(() => calculateWall({ ...wall, openings: -1 }, {})).toThrow('Please enter a valid openings area');
+    expect(() => calculateWall({ ...wall, pierSpacing: NaN }, {})).toThrow('Please enter a valid pier spacing');
+  });
+});
+
+describe('wallOutputKey', () => {
+  it('binds bricks to one output and blocks to one per laying method', () => {
+    expect(wallOutputKey('brick', 'flat')).toBe('wall.brick');
+    expect(wallOutputKey('block4', 'flat')).toBe('wall.block4_flat');
+  });
+});
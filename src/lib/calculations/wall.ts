@@ -0,0 +1,238 @@
+import {
+  CalculatedMaterial,
+  CalculationResult,
+  DENSITIES,
+  MaterialPropertyMap,
+  TaskBreakdownItem,
+  TaskRate,
+  concreteMaterials,
+  densityOf,
+  estimateTask,
+  mergeMaterials,
+  mortarMaterials,
+  packMaterials,
+  requirePositive,
+  round2,
+  sumHours,
+  toTonnes
+} from './common';
+
+export type WallType = 'brick' | 'block4' | 'block7';
+// Retaining walls are double skin with a concrete filled cavity and drainage behind
+export type WallConstruction = 'single' | 'double' | 'retaining';
+export type WallFinish = 'none' | 'render' | 'cladding';
+
+export interface WallInputs {
+  type: WallType;
+  length: number;
+  height: number;
+  // Area of windows, doors and other gaps in m²
+  openings: number;
+  // Blocks can be laid standing or flat, bricks are always standing
+  layingMethod: 'flat' | 'standing';
+  construction?: WallConstruction;
+  // Meters between piers, no piers when 0
+  pierSpacing?: number;
+  coping?: boolean;
+  finish?: WallFinish;
+  // Rendered or clad on one face or both
+  finishFaces?: number;
+  // Concrete footing under the wall in meters, no footing when 0
+  footingWidth?: number;
+  footingDepth?: number;
+}
+
+export interface WallTasks {
+  wall?: TaskRate;
+  piers?: TaskRate;
+  coping?: TaskRate;
+  finish?: TaskRate;
+  footing?: TaskRate;
+  drainage?: TaskRate;
+}
+
+export interface WallCalculation extends CalculationResult {
+  units: number;
+  rows: number;
+  roundedDownHeight: number;
+  roundedUpHeight: number;
+}
+
+// Mortar joints are 1cm thick
+const MORTAR_JOINT = 0.01;
+const BRICK_HEIGHT = 0.06;
+const BRICKS_PER_M2 = 60;
+const BLOCK_HEIGHT = 0.22;
+const BLOCK_LENGTH = 0.44;
+const BLOCK_WIDTHS: Record<Exclude<WallType, 'brick'>, number> = { block4: 0.10, block7: 0.14 };
+// Cubic meters of mortar per m² of wall
+const MORTAR_PER_M2: Record<'brick' | 'block', number> = { brick: 0.02, block: 0.015 };
+// Bricks or blocks a pier adds to each row of the wall
+const PIER_UNITS_PER_ROW: Record<'brick' | 'block', number> = { brick: 2, block: 1 };
+// Ties joining the two skins of a wall
+const WALL_TIES_PER_M2 = 2.5;
+const CAVITY_WIDTH = 0.1;
+// Gravel backfill behind a retaining wall
+const DRAINAGE_WIDTH = 0.3;
+const COPING_LENGTH = 0.6;
+// Mortar bed under the copings, in cubic meters per meter of wall
+const COPING_MORTAR_PER_M = 0.006;
+const RENDER_THICKNESS = 0.015;
+// Kilograms of cladding adhesive per m²
+const CLADDING_ADHESIVE_PER_M2 = 5;
+
+const WALL_NAMES: Record<WallType, string> = {
+  brick: 'Brick Wall',
+  block4: '4-inch Block Wall',
+  block7: '7-inch Block Wall'
+};
+
+const UNIT_NAMES: Record<WallType, string> = {
+  brick: 'Bricks',
+  block4: '4-inch blocks',
+  block7: '7-inch blocks'
+};
+
+const CONSTRUCTION_NAMES: Record<WallConstruction, string> = {
+  single: '',
+  double: 'Double Skin ',
+  retaining: 'Retaining '
+};
+
+/**
+ * The output a wall's hours are bound to in Setup
+ * @param type The wall type
+ * @param layingMethod How blocks are laid
+ * @returns string
+ */
+export const wallOutputKey = (type: WallType, layingMethod: 'flat' | 'standing'): string =>
+  type === 'brick' ? 'wall.brick' : `wall.${type}_${layingMethod}`;
+
+/**
+ * The outputs a wall's hours are bound to in Setup, including its piers, copings, finish and footing
+ * @param type The wall type
+ * @param layingMethod How blocks are laid
+ * @param finish The finish, which has its own output when there is one
+ * @returns Output keys by part of the wall
+ */
+export const wallOutputKeys = (type: WallType, layingMethod: 'flat' | 'standing', finish: WallFinish = 'none') => ({
+  wall: wallOutputKey(type, layingMethod),
+  piers: 'wall.piers',
+  coping: 'wall.coping',
+  finish: finish === 'none' ? null : `wall.${finish}`,
+  footing: 'wall.footing',
+  drainage: 'wall.retaining_drainage'
+});
+
+/**
+ * Calculates bricks or blocks, mortar and the rows a wall is built in,
+ * with the piers, copings, finish and footing that go with it
+ * @param inputs Wall size in meters and how it is built
+ * @param tasks Templates bound to the wall's outputs, hours per brick or block for the wall and piers
+ * @param properties Material densities, packs and wastage from Setup
+ * @returns WallCalculation
+ * @throws Error when an input is not a valid number
+ */
+export const calculateWall = (
+  inputs: WallInputs,
+  tasks: WallTasks,
+  properties: MaterialPropertyMap = {}
+): WallCalculation => {
+  requirePositive({ length: inputs.length, height: inputs.height });
+  requirePositive({
+    'openings area': inputs.openings,
+    'pier spacing': inputs.pierSpacing ?? 0,
+    'footing width': inputs.footingWidth ?? 0,
+    'footing depth': inputs.footingDepth ?? 0
+  }, true);
+
+  const construction = inputs.construction || 'single';
+  const finish = inputs.finish || 'none';
+  const area = inputs.length * inputs.height - inputs.openings;
+  const isBrick = inputs.type === 'brick';
+  const skins = construction === 'single' ? 1 : 2;
+
+  // Blocks laid flat are as tall as they are wide
+  const unitHeight = isBrick
+    ? BRICK_HEIGHT
+    : inputs.layingMethod === 'flat' ? BLOCK_WIDTHS[inputs.type as Exclude<WallType, 'brick'>] : BLOCK_HEIGHT;
+  const rowHeight = unitHeight + MORTAR_JOINT;
+
+  const unitsPerSkin = isBrick
+    ? Math.ceil(area * BRICKS_PER_M2)
+    : Math.ceil(area / (rowHeight * (BLOCK_LENGTH + MORTAR_JOINT)));
+  const units = unitsPerSkin * skins;
+  const mortarPerUnit = (area * MORTAR_PER_M2[isBrick ? 'brick' : 'block']) / unitsPerSkin;
+
+  const rows = inputs.height / rowHeight;
+
+  const piers = inputs.pierSpacing ? Math.floor(inputs.length / inputs.pierSpacing) + 1 : 0;
+  const pierUnits = piers * Math.ceil(rows) * PIER_UNITS_PER_ROW[isBrick ? 'brick' : 'block'];
+
+  const copingStones = inputs.coping ? Math.ceil(inputs.length / COPING_LENGTH) : 0;
+  const finishArea = finish === 'none' ? 0 : round2(area * (inputs.finishFaces || 1));
+
+  const footingVolume = inputs.footingWidth && inputs.footingDepth
+    ? round2(inputs.length * inputs.footingWidth * inputs.footingDepth)
+    : 0;
+  const cavityVolume = construction === 'retaining' ? round2(area * CAVITY_WIDTH) : 0;
+
+  // Wall, pier, coping bed and render mortar are all mixed 1:4
+  const mortarVolume = (units + pierUnits) * mortarPerUnit
+    + (inputs.coping ? inputs.length * COPING_MORTAR_PER_M : 0)
+    + (finish === 'render' ? finishArea * RENDER_THICKNESS : 0);
+
+  const materials: CalculatedMaterial[] = [
+    ...mortarMaterials(mortarVolume, properties),
+    { name: UNIT_NAMES[inputs.type], quantity: units + pierUnits, unit: 'pieces' }
+  ];
+  if (skins > 1) {
+    materials.push({ name: 'Wall ties', quantity: Math.ceil(area * WALL_TIES_PER_M2), unit: 'pieces' });
+  }
+  if (construction === 'retaining') {
+    materials.push(
+      ...concreteMaterials(cavityVolume, properties),
+      { name: 'Gravel', quantity: round2(toTonnes(inputs.length * inputs.height * DRAINAGE_WIDTH, densityOf(properties, 'Gravel', DENSITIES.gravel))), unit: 'tonnes' },
+      { name: 'Drainage pipe', quantity: round2(inputs.length), unit: 'meters' },
+      { name: 'Damp proof membrane', quantity: round2(inputs.length * inputs.height), unit: 'square meters' }
+    );
+  }
+  if (copingStones > 0) {
+    materials.push({ name: 'Coping stones', quantity: copingStones, unit: 'pieces' });
+  }
+  if (finish === 'cladding') {
+    materials.push(
+      { name: 'Cladding', quantity: finishArea, unit: 'square meters' },
+      { name: 'Cladding adhesive', quantity: round2(finishArea * CLADDING_ADHESIVE_PER_M2), unit: 'kg' }
+    );
+  }
+  if (footingVolume > 0) {
+    materials.push(
+      ...concreteMaterials(footingVolume, properties),
+      { name: 'Soil excavation', quantity: round2(toTonnes(footingVolume, densityOf(properties, 'Soil excavation', DENSITIES.soil))), unit: 'tonnes' }
+    );
+  }
+
+  // Parts of the wall that are built are listed, with no hours until a template is bound
+  const breakdown: TaskBreakdownItem[] = [
+    estimateTask(tasks.wall, WALL_NAMES[inputs.type], units, 'pieces'),
+    estimateTask(tasks.piers, 'building piers', pierUnits, 'pieces'),
+    estimateTask(tasks.coping, 'laying coping stones', copingStones ? round2(inputs.length) : 0, 'meters'),
+    estimateTask(tasks.finish, finish === 'render' ? 'rendering' : 'fixing cladding', finishArea, 'square meters'),
+    estimateTask(tasks.footing, 'pouring wall footing', footingVolume, 'cubic meters'),
+    estimateTask(tasks.drainage, 'retaining wall drainage', construction === 'retaining' ? round2(inputs.length) : 0, 'meters')
+  ].filter(item => item.amount > 0);
+
+  return {
+    name: `${CONSTRUCTION_NAMES[construction]}${WALL_NAMES[inputs.type]}`,
+    amount: units,
+    unit: 'pieces',
+    hours_worked: sumHours(breakdown),
+    materials: packMaterials(mergeMaterials(materials), properties),
+    taskBreakdown: breakdown,
+    units,
+    rows: round2(rows),
+    roundedDownHeight: round2(Math.floor(rows) * rowHeight),
+    roundedUpHeight: round2(Math.ceil(rows) * rowHeight)
+  };
+};
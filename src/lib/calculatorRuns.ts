@@ -0,0 +1,140 @@
+import { supabase } from './supabase';
+import { CalculatorRunResults, Database } from './database.types';
+import { PlannedMaterial, PlannedTask } from './projectPlan';
+import { calculatorPhaseName } from './projectPhases';
+
+export type CalculatorRun = Database['public']['Tables']['calculator_runs']['Row'];
+type CalculatorRunInsert = Database['public']['Tables']['calculator_runs']['Insert'];
+type Event = Database['public']['Tables']['events']['Row'];
+
+export type ActiveEvent = Pick<Event, 'id' | 'title' | 'start_date' | 'status'>;
+
+// Runs listed in the calculator history
+export const CALCULATOR_RUN_HISTORY_LIMIT = 20;
+
+/**
+ * Fetches the user's latest calculator runs
+ * @param userId The user
+ * @returns Promise<CalculatorRun[]> Most recent first
+ */
+export const fetchCalculatorRuns = async (userId: string): Promise<CalculatorRun[]> => {
+  const { data, error } = await supabase
+    .from('calculator_runs')
+    .select('*')
+    .eq('created_by', userId)
+    .order('created_at', { ascending: false })
+    .limit(CALCULATOR_RUN_HISTORY_LIMIT);
+
+  if (error) throw error;
+  return data as CalculatorRun[];
+};
+
+/**
+ * Saves a calculator run to the history
+ * @param run Calculator, inputs and results of the run
+ * @returns Promise<CalculatorRun> The saved run
+ */
+export const saveCalculatorRun = async (run: CalculatorRunInsert): Promise<CalculatorRun> => {
+  const { data, error } = await supabase
+    .from('calculator_runs')
+    .insert([run])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as CalculatorRun;
+};
+
+/**
+ * Fetches the projects a calculator run can be added to
+ * @returns Promise<ActiveEvent[]> Unfinished events, soonest first
+ */
+export const fetchActiveEvents = async (): Promise<ActiveEvent[]> => {
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, title, start_date, status')
+    .neq('status', 'finished')
+    .order('start_date', { ascending: true });
+
+  if (error) throw error;
+  return data as ActiveEvent[];
+};
+
+/**
+ * Turns a calculator's results into the rows the project builder writes for a main task
+ * @param results The calculator's results
+ * @param phaseId The event phase the work belongs to, if any
+ * @returns The tasks_done and materials_delivered rows, without the event
+ */
+export const buildCalculationRows = (
+  results: CalculatorRunResults,
+  phaseId: string | null
+): { tasks: PlannedTask[]; materials: PlannedMaterial[] } => {
+  const tasks: PlannedTask[] = results.taskBreakdown.length > 0
+    ? results.taskBreakdown.map(item => ({
+        name: item.task.toLowerCase(),
+        task_name: results.name,
+        description: results.name,
+        unit: item.unit || '',
+        amount: `${item.amount || 0} ${item.unit || ''}`.trim(),
+        hours_worked: item.hours || 0,
+        event_task_id: item.event_task_id || null,
+        phase_id: phaseId
+      }))
+    : [{
+        name: results.name,
+        task_name: results.name,
+        description: results.name,
+        unit: results.unit || '',
+        amount: `${results.amount || 0} ${results.unit || ''}`.trim(),
+        hours_worked: results.hours_worked || 0,
+        event_task_id: null,
+        phase_id: phaseId
+      }];
+
+  const materials: PlannedMaterial[] = results.materials
+    .filter(material => material.quantity > 0)
+    .map(material => ({
+      name: material.name,
+      task_name: results.name,
+      unit: material.unit,
+      total_amount: material.quantity
+    }));
+
+  return { tasks, materials };
+};
+
+/**
+ * Adds a calculator run's tasks and materials to an existing project, in the phase
+ * the builder would have put them in when the project has one, all or nothing
+ * @param run The saved run
+ * @param eventId The project to add it to
+ * @param userId The user adding it
+ */
+export const addCalculatorRunToEvent = async (
+  run: CalculatorRun,
+  eventId: string,
+  userId: string | undefined
+): Promise<void> => {
+  const { data: phases, error: phaseError } = await supabase
+    .from('event_phases')
+    .select('id, name')
+    .eq('event_id', eventId);
+
+  if (phaseError) throw phaseError;
+
+  const phaseName = calculatorPhaseName(run.calculator_type, run.calculator_sub_type);
+  const phase = (phases || []).find(candidate => candidate.name === phaseName);
+  const { tasks, materials } = buildCalculationRows(run.results, phase?.id || null);
+
+  // Tasks, materials and the run's project are saved in one transaction
+  const { error } = await supabase.rpc('add_calculator_run_to_event', {
+    p_run_id: run.id,
+    p_event_id: eventId,
+    p_user_id: userId,
+    p_tasks: tasks,
+    p_materials: materials
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,183 @@
+import { supabase } from './supabase';
+import { Database } from './database.types';
+
+export type CalculatorTaskMapping = Database['public']['Tables']['calculator_task_mappings']['Row'];
+
+export interface CalculatorOutput {
+  key: string;
+  calculator: string;
+  label: string;
+}
+
+export interface MappedTaskTemplate {
+  id: string;
+  name: string;
+  unit: string;
+  estimated_hours: number;
+}
+
+interface GroundworksEquipment {
+  id: string;
+  name: string;
+  type: string;
+  "size (in tones)": number | null;
+}
+
+export type GroundworksTask = 'soil_excavation' | 'tape1_preparation';
+
+// Breakdown items the calculators produce, each logged against the task template bound to its key
+export const CALCULATOR_OUTPUTS: CalculatorOutput[] = [
+  { key: 'paving.laying', calculator: 'Paving', label: 'Laying monoblocks' },
+  { key: 'paving.cutting', calculator: 'Paving', label: 'Cutting blocks' },
+  { key: 'slab.cutting_porcelain', calculator: 'Slabs', label: 'Cutting porcelain' },
+  { key: 'slab.cutting_sandstone', calculator: 'Slabs', label: 'Cutting sandstones' },
+  { key: 'fence.vertical', calculator: 'Fence', label: 'Vertical fence installation' },
+  { key: 'fence.horizontal', calculator: 'Fence', label: 'Horizontal fence installation' },
+  { key: 'fence.posts', calculator: 'Fence', label: 'Setting fence posts' },
+  { key: 'fence.gravel_boards', calculator: 'Fence', label: 'Fitting gravel boards' },
+  { key: 'fence.gates', calculator: 'Fence', label: 'Hanging gates' },
+  { key: 'grass.laying', calculator: 'Artificial Grass', label: 'Laying artificial grass' },
+  { key: 'wall.brick', calculator: 'Wall', label: 'Bricklaying' },
+  { key: 'wall.block4_standing', calculator: 'Wall', label: '4-inch blocks, standing' },
+  { key: 'wall.block4_flat', calculator: 'Wall', label: '4-inch blocks, flat' },
+  { key: 'wall.block7_standing', calculator: 'Wall', label: '7-inch blocks, standing' },
+  { key: 'wall.block7_flat', calculator: 'Wall', label: '7-inch blocks, flat' },
+  { key: 'wall.piers', calculator: 'Wall', label: 'Building piers' },
+  { key: 'wall.coping', calculator: 'Wall', label: 'Laying coping stones' },
+  { key: 'wall.render', calculator: 'Wall', label: 'Rendering' },
+  { key: 'wall.cladding', calculator: 'Wall', label: 'Fixing cladding' },
+  { key: 'wall.footing', calculator: 'Wall', label: 'Pouring wall footings' },
+  { key: 'wall.retaining_drainage', calculator: 'Wall', label: 'Retaining wall drainage' },
+  { key: 'deck.posts', calculator: 'Deck', label: 'Setting deck posts' },
+  { key: 'deck.frame', calculator: 'Deck', label: 'Building the deck frame' },
+  { key: 'deck.boards_timber', calculator: 'Deck', label: 'Laying timber boards' },
+  { key: 'deck.boards_composite', calculator: 'Deck', label: 'Laying composite boards' },
+  { key: 'drainage.channel', calculator: 'Drainage', label: 'Laying channel drains' },
+  { key: 'drainage.pipe', calculator: 'Drainage', label: 'Laying drainage pipe' },
+  { key: 'drainage.soakaway', calculator: 'Drainage', label: 'Building soakaways' },
+  { key: 'concrete.formwork', calculator: 'Concrete', label: 'Setting up formwork' },
+  { key: 'concrete.sub_base', calculator: 'Concrete', label: 'Laying and compacting sub-base' },
+  { key: 'concrete.mesh', calculator: 'Concrete', label: 'Laying reinforcement mesh' },
+  { key: 'concrete.pour_readymix', calculator: 'Concrete', label: 'Pouring ready-mix concrete' },
+  { key: 'concrete.pour_site', calculator: 'Concrete', label: 'Mixing and pouring concrete on site' },
+  { key: 'soft.turf', calculator: 'Soft Landscaping', label: 'Laying turf' },
+  { key: 'soft.topsoil', calculator: 'Soft Landscaping', label: 'Spreading topsoil' },
+  { key: 'soft.planting', calculator: 'Soft Landscaping', label: 'Planting' },
+  { key: 'soft.membrane', calculator: 'Soft Landscaping', label: 'Laying weed membrane' },
+  { key: 'soft.mulch', calculator: 'Soft Landscaping', label: 'Spreading bark or mulch' },
+  { key: 'edging.kerb', calculator: 'Edging', label: 'Laying concrete kerbs' },
+  { key: 'edging.sett', calculator: 'Edging', label: 'Laying granite setts' },
+  { key: 'edging.timber', calculator: 'Edging', label: 'Laying timber edging' },
+  { key: 'edging.steel', calculator: 'Edging', label: 'Laying steel edging' },
+  { key: 'edging.composite', calculator: 'Edging', label: 'Laying composite edging' },
+  { key: 'edging.corner', calculator: 'Edging', label: 'Cutting and fitting edging corners' },
+  { key: 'edging.haunching', calculator: 'Edging', label: 'Bedding and haunching in concrete' }
+];
+
+const GROUNDWORKS_LABELS: Record<GroundworksTask, string> = {
+  soil_excavation: 'Soil excavation',
+  tape1_preparation: 'Tape 1 preparation'
+};
+
+/**
+ * Key of the groundworks task the project builder adds for a machine combination
+ * @param task The groundworks task
+ * @param excavatorId The excavator used
+ * @param carrierId The barrow/dumper used, or null when the soil is left on a pile
+ */
+export const groundworksOutputKey = (task: GroundworksTask, excavatorId: string, carrierId: string | null) =>
+  `groundworks.${task}:${excavatorId}:${carrierId || 'none'}`;
+
+/**
+ * Lists the groundworks outputs for every excavator, with each carrier and without one
+ * @param excavators digging equipment of type excavator
+ * @param carriers digging equipment of type barrows_dumpers
+ * @returns CalculatorOutput[]
+ */
+export const listGroundworksOutputs = (
+  excavators: GroundworksEquipment[],
+  carriers: GroundworksEquipment[]
+): CalculatorOutput[] =>
+  (Object.keys(GROUNDWORKS_LABELS) as GroundworksTask[]).flatMap(task =>
+    excavators.flatMap(excavator => [null, ...carriers].map(carrier => ({
+      key: groundworksOutputKey(task, excavator.id, carrier?.id || null),
+      calculator: 'Groundworks',
+      label: carrier
+        ? `${GROUNDWORKS_LABELS[task]} (${excavator.name} ${excavator["size (in tones)"]}t and ${carrier.name} ${carrier["size (in tones)"]}t)`
+        : `${GROUNDWORKS_LABELS[task]} (${excavator.name} ${excavator["size (in tones)"]}t, no carrier)`
+    })))
+  );
+
+/**
+ * Fetches every calculator output binding
+ * @returns Promise<CalculatorTaskMapping[]>
+ */
+export const fetchCalculatorTaskMappings = async (): Promise<CalculatorTaskMapping[]> => {
+  const { data, error } = await supabase
+    .from('calculator_task_mappings')
+    .select('*')
+    .order('output_key');
+
+  if (error) throw error;
+  return data as CalculatorTaskMapping[];
+};
+
+/**
+ * Fetches the task templates bound to the given outputs. Unbound outputs are left out.
+ * @param outputKeys The calculator output keys
+ * @returns Promise<Record<string, MappedTaskTemplate>> Templates by output key
+ */
+export const fetchMappedTaskTemplates = async (outputKeys: string[]): Promise<Record<string, MappedTaskTemplate>> => {
+  const { data: mappings, error: mappingsError } = await supabase
+    .from('calculator_task_mappings')
+    .select('output_key, event_task_id')
+    .in('output_key', outputKeys);
+
+  if (mappingsError) throw mappingsError;
+  if (!mappings?.length) return {};
+
+  const { data: templates, error: templatesError } = await supabase
+    .from('event_tasks_with_dynamic_estimates')
+    .select('id, name, unit, estimated_hours')
+    .in('id', mappings.map(mapping => mapping.event_task_id));
+
+  if (templatesError) throw templatesError;
+
+  return mappings.reduce((acc, mapping) => {
+    const template = templates?.find(item => item.id === mapping.event_task_id);
+    if (template) {
+      acc[mapping.output_key] = template as MappedTaskTemplate;
+    }
+    return acc;
+  }, {} as Record<string, MappedTaskTemplate>);
+};
+
+/**
+ * Binds a calculator output to a task template, or removes the binding
+ * @param outputKey The calculator output key
+ * @param eventTaskId The task template, or null to unbind
+ */
+export const saveCalculatorTaskMapping = async (outputKey: string, eventTaskId: string | null): Promise<void> => {
+  const { error } = eventTaskId
+    ? await supabase
+        .from('calculator_task_mappings')
+        .upsert(
+          [{ output_key: outputKey, event_task_id: eventTaskId, updated_at: new Date().toISOString() }],
+          { onConflict: 'output_key' }
+        )
+    : await supabase
+        .from('calculator_task_mappings')
+        .delete()
+        .eq('output_key', outputKey);
+
+  if (error) throw error;
+};
+
+/**
+ * Lists the outputs that have no task template bound, so their tasks would not be linked to a template
+ * @param outputs The calculator outputs to check
+ * @param mappings The saved bindings
+ * @returns CalculatorOutput[]
+ */
+export const findUnboundOutputs = (outputs: CalculatorOutput[], mappings: CalculatorTaskMapping[]): CalculatorOutput[] =>
+  outputs.filter(output => !mappings.some(mapping => mapping.output_key === output.key));
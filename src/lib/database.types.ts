@@ -1,3 +1,49 @@
+export interface QuoteSection {
+  name: string;
+  scope: string;
+  price: number;
+}
+
+// Builder state of an unfinished project, as restored by ProjectCreating
+export interface ProjectDraftPlan {
+  formData: Record<string, string | boolean>;
+  mainTasks: unknown[];
+  minorTasks: unknown[];
+  materials: unknown[];
+  extraSoilExcavation: { area: string; weight: string };
+  excavationMeasureType: 'area' | 'weight';
+  excavationOption: 'removal' | 'pile';
+  excavatorId: string | null;
+  carrierId: string | null;
+  quoteNumber: number | null;
+  phases?: unknown[];
+}
+
+// Reusable plan for a recurring job type, without the site-specific dimensions
+export interface ProjectTemplatePlan {
+  mainTasks: {
+    name: string;
+    calculatorType: string;
+    calculatorSubType: string;
+    inputs: Record<string, string | number | boolean | string[]> | null;
+  }[];
+  minorTasks: unknown[];
+  materials: unknown[];
+}
+
+// Form values of a standalone calculator run
+export type CalculatorRunInputs = Record<string, string | number | boolean | string[]>;
+
+// What a standalone calculator reported, as later added to a project
+export interface CalculatorRunResults {
+  name: string;
+  amount: number;
+  unit?: string;
+  hours_worked: number;
+  materials: { name: string; quantity: number; unit: string }[];
+  taskBreakdown: { task: string; hours: number; amount?: number; unit?: string; event_task_id?: string | null }[];
+}
+
 export interface Database {
   public: {
     Tables: {
@@ -109,6 +155,9 @@ export interface Database {
           unit: string | null;
           name: string | null;
           description: string | null;
+          task_name: string | null;
+          event_task_id: string | null;
+          phase_id: string | null;
         };
         Insert: {
           id?: string;
@@ -121,6 +170,9 @@ export interface Database {
           unit?: string | null;
           name?: string | null;
           description?: string | null;
+          task_name?: string | null;
+          event_task_id?: string | null;
+          phase_id?: string | null;
         };
         Update: {
           id?: string;
@@ -133,6 +185,9 @@ export interface Database {
           unit?: string | null;
           name?: string | null;
           description?: string | null;
+          task_name?: string | null;
+          event_task_id?: string | null;
+          phase_id?: string | null;
         };
       };
       materials_delivered: {
@@ -140,21 +195,33 @@ export interface Database {
           id: string;
           event_id: string;
           amount: number;
+          total_amount: number;
           unit: string;
+          name: string | null;
+          status: 'pending' | 'in_progress' | 'delivered';
+          task_name: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           event_id: string;
           amount: number;
+          total_amount?: number;
           unit: string;
+          name?: string | null;
+          status?: 'pending' | 'in_progress' | 'delivered';
+          task_name?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           event_id?: string;
           amount?: number;
+          total_amount?: number;
           unit?: string;
+          name?: string | null;
+          status?: 'pending' | 'in_progress' | 'delivered';
+          task_name?: string | null;
           created_at?: string;
         };
       };
@@ -219,6 +286,463 @@ export interface Database {
           calculated_estimated_hours?: number;
         };
       };
+      materials: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          unit: string;
+          price: number | null;
+          density: number | null;
+          pack_size: number | null;
+          pack_unit: string | null;
+          wastage_percent: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          unit: string;
+          price?: number | null;
+          density?: number | null;
+          pack_size?: number | null;
+          pack_unit?: string | null;
+          wastage_percent?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          unit?: string;
+          price?: number | null;
+          density?: number | null;
+          pack_size?: number | null;
+          pack_unit?: string | null;
+          wastage_percent?: number;
+          created_at?: string;
+        };
+      };
+      pricing_settings: {
+        Row: {
+          id: string;
+          material_markup_percent: number;
+          overhead_percent: number;
+          profit_margin_percent: number;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          material_markup_percent?: number;
+          overhead_percent?: number;
+          profit_margin_percent?: number;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          material_markup_percent?: number;
+          overhead_percent?: number;
+          profit_margin_percent?: number;
+          updated_at?: string;
+        };
+      };
+      labour_rates: {
+        Row: {
+          id: string;
+          role: 'user' | 'project_manager' | 'Team_Leader' | 'Admin';
+          hourly_rate: number;
+          crew_share: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          role: 'user' | 'project_manager' | 'Team_Leader' | 'Admin';
+          hourly_rate?: number;
+          crew_share?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          role?: 'user' | 'project_manager' | 'Team_Leader' | 'Admin';
+          hourly_rate?: number;
+          crew_share?: number;
+          created_at?: string;
+        };
+      };
+      invoices: {
+        Row: {
+          id: string;
+          invoice_number: number;
+          event_id: string;
+          invoice_type: 'final' | 'stage' | 'deposit';
+          status: 'draft' | 'sent' | 'paid' | 'overdue';
+          bill_to: string | null;
+          issue_date: string;
+          due_date: string | null;
+          vat_rate: number;
+          subtotal: number;
+          vat_amount: number;
+          total: number;
+          notes: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          invoice_number?: number;
+          event_id: string;
+          invoice_type?: 'final' | 'stage' | 'deposit';
+          status?: 'draft' | 'sent' | 'paid' | 'overdue';
+          bill_to?: string | null;
+          issue_date?: string;
+          due_date?: string | null;
+          vat_rate?: number;
+          subtotal?: number;
+          vat_amount?: number;
+          total?: number;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          invoice_number?: number;
+          event_id?: string;
+          invoice_type?: 'final' | 'stage' | 'deposit';
+          status?: 'draft' | 'sent' | 'paid' | 'overdue';
+          bill_to?: string | null;
+          issue_date?: string;
+          due_date?: string | null;
+          vat_rate?: number;
+          subtotal?: number;
+          vat_amount?: number;
+          total?: number;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      invoice_items: {
+        Row: {
+          id: string;
+          invoice_id: string;
+          item_type: 'task' | 'material' | 'deposit' | 'adjustment';
+          source_id: string | null;
+          description: string;
+          quantity: number;
+          unit: string | null;
+          unit_price: number;
+          line_total: number;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          invoice_id: string;
+          item_type: 'task' | 'material' | 'deposit' | 'adjustment';
+          source_id?: string | null;
+          description: string;
+          quantity?: number;
+          unit?: string | null;
+          unit_price?: number;
+          line_total?: number;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          invoice_id?: string;
+          item_type?: 'task' | 'material' | 'deposit' | 'adjustment';
+          source_id?: string | null;
+          description?: string;
+          quantity?: number;
+          unit?: string | null;
+          unit_price?: number;
+          line_total?: number;
+          sort_order?: number;
+          created_at?: string;
+        };
+      };
+      quotes: {
+        Row: {
+          id: string;
+          quote_number: number;
+          version: number;
+          title: string;
+          description: string | null;
+          client: string | null;
+          status: 'draft' | 'sent' | 'accepted' | 'rejected';
+          issue_date: string;
+          valid_until: string | null;
+          vat_rate: number;
+          sections: QuoteSection[];
+          subtotal: number;
+          vat_amount: number;
+          total: number;
+          notes: string | null;
+          event_id: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          quote_number?: number;
+          version?: number;
+          title: string;
+          description?: string | null;
+          client?: string | null;
+          status?: 'draft' | 'sent' | 'accepted' | 'rejected';
+          issue_date?: string;
+          valid_until?: string | null;
+          vat_rate?: number;
+          sections?: QuoteSection[];
+          subtotal?: number;
+          vat_amount?: number;
+          total?: number;
+          notes?: string | null;
+          event_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          quote_number?: number;
+          version?: number;
+          title?: string;
+          description?: string | null;
+          client?: string | null;
+          status?: 'draft' | 'sent' | 'accepted' | 'rejected';
+          issue_date?: string;
+          valid_until?: string | null;
+          vat_rate?: number;
+          sections?: QuoteSection[];
+          subtotal?: number;
+          vat_amount?: number;
+          total?: number;
+          notes?: string | null;
+          event_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      project_drafts: {
+        Row: {
+          id: string;
+          title: string;
+          plan: ProjectDraftPlan;
+          event_id: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title?: string;
+          plan: ProjectDraftPlan;
+          event_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          plan?: ProjectDraftPlan;
+          event_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      project_templates: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          plan: ProjectTemplatePlan;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          plan: ProjectTemplatePlan;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          plan?: ProjectTemplatePlan;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      event_phases: {
+        Row: {
+          id: string;
+          event_id: string;
+          name: string;
+          position: number;
+          start_date: string | null;
+          end_date: string | null;
+          depends_on: string[];
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          name: string;
+          position?: number;
+          start_date?: string | null;
+          end_date?: string | null;
+          depends_on?: string[];
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          name?: string;
+          position?: number;
+          start_date?: string | null;
+          end_date?: string | null;
+          depends_on?: string[];
+          created_at?: string;
+        };
+      };
+      company_holidays: {
+        Row: {
+          id: string;
+          holiday_date: string;
+          name: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          holiday_date: string;
+          name: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          holiday_date?: string;
+          name?: string;
+          created_at?: string;
+        };
+      };
+      event_crew: {
+        Row: {
+          id: string;
+          event_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+      };
+      event_schedule: {
+        Row: {
+          id: string;
+          event_id: string;
+          task_id: string;
+          user_id: string;
+          work_date: string;
+          hours: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          task_id: string;
+          user_id: string;
+          work_date: string;
+          hours?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          task_id?: string;
+          user_id?: string;
+          work_date?: string;
+          hours?: number;
+          created_at?: string;
+        };
+      };
+      calculator_task_mappings: {
+        Row: {
+          id: string;
+          output_key: string;
+          event_task_id: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          output_key: string;
+          event_task_id: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          output_key?: string;
+          event_task_id?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      calculator_runs: {
+        Row: {
+          id: string;
+          calculator_type: string;
+          calculator_sub_type: string;
+          inputs: CalculatorRunInputs | null;
+          results: CalculatorRunResults;
+          event_id: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          calculator_type: string;
+          calculator_sub_type: string;
+          inputs?: CalculatorRunInputs | null;
+          results: CalculatorRunResults;
+          event_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          calculator_type?: string;
+          calculator_sub_type?: string;
+          inputs?: CalculatorRunInputs | null;
+          results?: CalculatorRunResults;
+          event_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
     };
   };
 }
@@ -0,0 +1,36 @@
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Opens an HTML document in a new window and starts the browser print dialog, which also saves as PDF
+ * @param html Complete HTML document
+ */
+export const printHtmlDocument = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Could not open the print window. Please allow pop-ups for this site.');
+  }
+
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+/**
+ * Downloads an HTML document as a file
+ * @param html Complete HTML document
+ * @param fileName Name of the downloaded file
+ */
+export const downloadHtmlDocument = (html: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SchedulableTask, generateSchedule } from './eventSchedule';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const task = (id: string, hours: number, changes: Partial<SchedulableTask> = {}): SchedulableTask => ({
+  id,
+  name: id,
+  task_name: null,
+  hours_worked: hours,
+  hours_spent: 0,
+  is_finished: false,
+  phase_id: null,
+  created_at: '2025-01-01T00:00:00Z',
+  ...changes
+});
+
+describe('generateSchedule', () => {
+  it('fills each worker day with the next task in order', () => {
+    // 3 March 2025 is a Monday
+    const schedule = generateSchedule([task('a', 10), task('b', 4)], ['w1'], '2025-03-03', [], 8);
+
+    expect(schedule.assignments).toEqual([
+      { task_id: 'a', user_id: 'w1', work_date: '2025-03-03', hours: 8 },
+      { task_id: 'a', user_id: 'w1', work_date: '2025-03-04', hours: 2 },
+      { task_id: 'b', user_id: 'w1', work_date: '2025-03-04', hours: 4 }
+    ]);
+    expect(schedule.workingDays).toBe(2);
+    expect(schedule.endDate).toBe('2025-03-04');
+  });
+
+  it('skips weekends and holidays', () => {
+    const schedule = generateSchedule([task('a', 16)], ['w1'], '2025-03-07', ['2025-03-10'], 8);
+
+    expect(schedule.assignments.map(assignment => assignment.work_date)).toEqual(['2025-03-07', '2025-03-11']);
+  });
+
+  it('leaves out finished tasks and hours already spent', () => {
+    const schedule = generateSchedule(
+      [task('a', 8, { is_finished: true }), task('b', 8, { hours_spent: 6 })],
+      ['w1'],
+      '2025-03-03',
+      [],
+      8
+    );
+
+    expect(schedule.assignments).toEqual([{ task_id: 'b', user_id: 'w1', work_date: '2025-03-03', hours: 2 }]);
+  });
+
+  it('has no working days when nothing is left to do', () => {
+    expect(generateSchedule([], ['w1'], '2025-03-03').workingDays).toBe(0);
+  });
+
+  it('rejects an empty crew', () => {
+    expect(() => generateSchedule([task('a', 8)], [], '2025-03-03')).toThrow('Assign at least one worker to the crew');
+  });
+
+  it('rejects days without working hours instead of looping forever', () => {
+    expect(() => generateSchedule([task('a', 8)], ['w1'], '2025-03-03', [], 0)).toThrow('Working hours per day must be more than zero');
+    expect(() => generateSchedule([task('a', 8)], ['w1'], '2025-03-03', [], NaN)).toThrow('Working hours per day must be more than zero');
+  });
+
+  it('rejects a blank or invalid start date', () => {
+    expect(() => generateSchedule([task('a', 8)], ['w1'], '')).toThrow('Choose a start date for the schedule');
+    expect(() => generateSchedule([task('a', 8)], ['w1'], 'not a date')).toThrow('Choose a start date for the schedule');
+  });
+});
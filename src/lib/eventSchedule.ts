@@ -0,0 +1,331 @@
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { Database } from './database.types';
+import { EventPhase, HOURS_PER_DAY, orderPhases } from './projectPhases';
+import { nextWorkingDay } from './workingDays';
+
+export type EventScheduleEntry = Database['public']['Tables']['event_schedule']['Row'];
+export type CompanyHoliday = Database['public']['Tables']['company_holidays']['Row'];
+
+export interface SchedulableTask {
+  id: string;
+  name: string | null;
+  task_name: string | null;
+  hours_worked: number;
+  hours_spent: number;
+  is_finished: boolean;
+  phase_id: string | null;
+  created_at: string;
+}
+
+export interface ScheduleAssignment {
+  task_id: string;
+  user_id: string;
+  work_date: string;
+  hours: number;
+}
+
+export interface ProposedSchedule {
+  assignments: ScheduleAssignment[];
+  startDate: string;
+  endDate: string;
+  workingDays: number;
+}
+
+export interface ScheduleConflict {
+  type: 'worker' | 'equipment';
+  name: string;
+  eventId: string;
+  eventTitle: string;
+  dates: string[];
+}
+
+interface WorkerBooking {
+  user_id: string;
+  work_date: string;
+  hours: number;
+  event_id: string;
+  events: { title: string } | null;
+}
+
+interface EquipmentBooking {
+  equipment_id: string;
+  event_id: string;
+  start_date: string;
+  end_date: string;
+  quantity: number | null;
+  equipment: { name: string; quantity: number | null } | null;
+  events: { title: string } | null;
+}
+
+// Hours below this are rounding left-overs, not work
+const MIN_HOURS = 0.01;
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+/**
+ * Orders tasks the way the crew works through them: by phase, then in the order they were planned
+ * @param tasks The event's tasks
+ * @param phases The event's phases
+ * @returns The tasks in working order
+ */
+export const orderScheduleTasks = <T extends Pick<SchedulableTask, 'phase_id' | 'created_at'>>(
+  tasks: T[],
+  phases: EventPhase[]
+): T[] => {
+  const phaseOrder = orderPhases(phases).map(phase => phase.id);
+  const position = (task: T) => {
+    const index = task.phase_id ? phaseOrder.indexOf(task.phase_id) : -1;
+    return index === -1 ? phaseOrder.length : index;
+  };
+
+  return [...tasks].sort((a, b) =>
+    position(a) - position(b) || a.created_at.localeCompare(b.created_at)
+  );
+};
+
+/**
+ * Splits the remaining hours of each task into working days for the crew.
+ * Every worker fills their day with the next task in order, so tasks are shared when the crew is larger.
+ * @param tasks The tasks in working order
+ * @param crew The workers' profile ids
+ * @param startDate The first day of work (yyyy-MM-dd)
+ * @param holidays Company holidays to skip along with weekends (yyyy-MM-dd)
+ * @param hoursPerDay Working hours per worker per day
+ * @returns ProposedSchedule
+ * @throws Error when there is no crew, no working hours or no valid start date
+ */
+export const generateSchedule = (
+  tasks: SchedulableTask[],
+  crew: string[],
+  startDate: string,
+  holidays: string[] = [],
+  hoursPerDay: number = HOURS_PER_DAY
+): ProposedSchedule => {
+  if (crew.length === 0) {
+    throw new Error('Assign at least one worker to the crew');
+  }
+  // Days without working hours would never get through the tasks
+  if (!(hoursPerDay >= MIN_HOURS)) {
+    throw new Error('Working hours per day must be more than zero');
+  }
+  const start = parseISO(startDate);
+  if (!isValid(start)) {
+    throw new Error('Choose a start date for the schedule');
+  }
+
+  const queue = tasks
+    .filter(task => !task.is_finished)
+    .map(task => ({ id: task.id, remaining: Math.max(task.hours_worked - task.hours_spent, 0) }))
+    .filter(task => task.remaining >= MIN_HOURS);
+
+  const assignments: ScheduleAssignment[] = [];
+  let day = nextWorkingDay(start, holidays);
+  const firstDay = format(day, 'yyyy-MM-dd');
+  let workingDays = queue.length > 0 ? 1 : 0;
+  let current = 0;
+
+  while (current < queue.length) {
+    const workDate = format(day, 'yyyy-MM-dd');
+
+    for (const userId of crew) {
+      let capacity = hoursPerDay;
+      while (capacity >= MIN_HOURS && current < queue.length) {
+        const task = queue[current];
+        const hours = Math.min(capacity, task.remaining);
+        assignments.push({ task_id: task.id, user_id: userId, work_date: workDate, hours: round(hours) });
+
+        task.remaining -= hours;
+        capacity -= hours;
+        if (task.remaining < MIN_HOURS) current++;
+      }
+    }
+
+    if (current < queue.length) {
+      day = nextWorkingDay(addDays(day, 1), holidays);
+      workingDays++;
+    }
+  }
+
+  return { assignments, startDate: firstDay, endDate: format(day, 'yyyy-MM-dd'), workingDays };
+};
+
+/**
+ * Fetches the company holidays
+ * @returns Promise<CompanyHoliday[]>
+ */
+export const fetchCompanyHolidays = async (): Promise<CompanyHoliday[]> => {
+  const { data, error } = await supabase
+    .from('company_holidays')
+    .select('*')
+    .order('holiday_date');
+
+  if (error) throw error;
+  return data as CompanyHoliday[];
+};
+
+/**
+ * Fetches the workers assigned to an event
+ * @param eventId The event/project
+ * @returns Promise<string[]> Profile ids of the crew
+ */
+export const fetchEventCrew = async (eventId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('event_crew')
+    .select('user_id')
+    .eq('event_id', eventId);
+
+  if (error) throw error;
+  return (data || []).map(member => member.user_id);
+};
+
+/**
+ * Replaces the workers assigned to an event
+ * @param eventId The event/project
+ * @param userIds Profile ids of the crew
+ */
+export const saveEventCrew = async (eventId: string, userIds: string[]): Promise<void> => {
+  const { error: deleteError } = userIds.length > 0
+    ? await supabase
+        .from('event_crew')
+        .delete()
+        .eq('event_id', eventId)
+        .not('user_id', 'in', `(${userIds.join(',')})`)
+    : await supabase
+        .from('event_crew')
+        .delete()
+        .eq('event_id', eventId);
+
+  if (deleteError) throw deleteError;
+  if (userIds.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('event_crew')
+    .upsert(
+      userIds.map(userId => ({ event_id: eventId, user_id: userId })),
+      { onConflict: 'event_id,user_id', ignoreDuplicates: true }
+    );
+
+  if (insertError) throw insertError;
+};
+
+/**
+ * Fetches the saved day-by-day schedule of an event
+ * @param eventId The event/project
+ * @returns Promise<EventScheduleEntry[]>
+ */
+export const fetchEventSchedule = async (eventId: string): Promise<EventScheduleEntry[]> => {
+  const { data, error } = await supabase
+    .from('event_schedule')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('work_date');
+
+  if (error) throw error;
+  return data as EventScheduleEntry[];
+};
+
+/**
+ * Finds other events that need the same workers or equipment while the proposed schedule runs.
+ * A worker conflicts when their hours on a day add up to more than a working day.
+ * @param eventId The event being scheduled
+ * @param schedule The proposed schedule
+ * @param workerNames Names of the crew by profile id
+ * @param hoursPerDay Working hours per worker per day
+ * @returns Promise<ScheduleConflict[]>
+ */
+export const findScheduleConflicts = async (
+  eventId: string,
+  schedule: ProposedSchedule,
+  workerNames: Record<string, string>,
+  hoursPerDay: number = HOURS_PER_DAY
+): Promise<ScheduleConflict[]> => {
+  if (schedule.assignments.length === 0) return [];
+
+  const userIds = Array.from(new Set(schedule.assignments.map(assignment => assignment.user_id)));
+
+  const [bookingsResult, usageResult] = await Promise.all([
+    supabase
+      .from('event_schedule')
+      .select('user_id, work_date, hours, event_id, events(title)')
+      .in('user_id', userIds)
+      .gte('work_date', schedule.startDate)
+      .lte('work_date', schedule.endDate)
+      .neq('event_id', eventId),
+    supabase
+      .from('equipment_usage')
+      .select('equipment_id, event_id, start_date, end_date, quantity, equipment:equipment_id(name, quantity), events(title)')
+      .eq('is_returned', false)
+  ]);
+
+  if (bookingsResult.error) throw bookingsResult.error;
+  if (usageResult.error) throw usageResult.error;
+
+  const conflicts: ScheduleConflict[] = [];
+  const addConflict = (conflict: Omit<ScheduleConflict, 'dates'>, date: string) => {
+    const existing = conflicts.find(item =>
+      item.type === conflict.type && item.name === conflict.name && item.eventId === conflict.eventId
+    );
+    if (!existing) {
+      conflicts.push({ ...conflict, dates: [date] });
+    } else if (!existing.dates.includes(date)) {
+      existing.dates.push(date);
+    }
+  };
+
+  // Workers booked on other events the same day
+  ((bookingsResult.data || []) as unknown as WorkerBooking[]).forEach(booking => {
+    const hours = schedule.assignments
+      .filter(assignment => assignment.user_id === booking.user_id && assignment.work_date === booking.work_date)
+      .reduce((sum, assignment) => sum + assignment.hours, 0);
+
+    if (hours > 0 && hours + booking.hours > hoursPerDay) {
+      addConflict({
+        type: 'worker',
+        name: workerNames[booking.user_id] || 'Unknown worker',
+        eventId: booking.event_id,
+        eventTitle: booking.events?.title || 'Another project'
+      }, booking.work_date);
+    }
+  });
+
+  // Equipment this event uses that other events need over the same dates
+  const usage = (usageResult.data || []) as unknown as EquipmentBooking[];
+  usage
+    .filter(own => own.event_id === eventId)
+    .forEach(own => {
+      usage
+        .filter(other =>
+          other.event_id !== eventId &&
+          other.equipment_id === own.equipment_id &&
+          other.start_date <= schedule.endDate &&
+          other.end_date >= schedule.startDate &&
+          (own.quantity || 1) + (other.quantity || 1) > (own.equipment?.quantity || 1)
+        )
+        .forEach(other => {
+          addConflict({
+            type: 'equipment',
+            name: own.equipment?.name || 'Equipment',
+            eventId: other.event_id,
+            eventTitle: other.events?.title || 'Another project'
+          }, `${other.start_date} - ${other.end_date}`);
+        });
+    });
+
+  return conflicts;
+};
+
+/**
+ * Saves a schedule over the event's previous one and moves the event's end date to its last day
+ * @param eventId The event/project
+ * @param schedule The accepted schedule
+ */
+export const applyEventSchedule = async (eventId: string, schedule: ProposedSchedule): Promise<void> => {
+  const { error } = await supabase.rpc('apply_event_schedule', {
+    p_event_id: eventId,
+    p_end_date: schedule.endDate,
+    p_assignments: schedule.assignments
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MaterialWithActuals, ProjectFinancials, TaskWithActuals, buildProjectFinancials } from './financialOverview';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const event: ProjectFinancials['event'] = { id: 'e1', title: 'Garden', status: 'in_progress', start_date: '2025-03-01', end_date: '2025-03-31' };
+
+const task = (id: string, amount: string, hours: number, completed: number, hoursSpent: number, isFinished = false): TaskWithActuals => ({
+  id,
+  event_id: 'e1',
+  name: `Task ${id}`,
+  task_name: 'Paving',
+  amount,
+  hours_worked: hours,
+  event_task_id: null,
+  is_finished: isFinished,
+  completed,
+  hours_spent: hoursSpent
+});
+
+const material = (id: string, name: string, planned: number, delivered: number): MaterialWithActuals => ({
+  id,
+  event_id: 'e1',
+  name,
+  task_name: 'Paving',
+  total_amount: planned,
+  unit: 'tonnes',
+  delivered
+});
+
+describe('buildProjectFinancials', () => {
+  // £20 an hour labour, Sand at £25 and Gravel at £10 a tonne
+  const financials = buildProjectFinancials(
+    event,
+    [task('t1', '10 square meters', 10, 5, 8), task('t2', '5 meters', 5, 2, 6, true)],
+    [material('m1', 'Sand', 4, 5), material('m2', 'Gravel', 10, 2)],
+    { Sand: 25, Gravel: 10 },
+    20,
+    1000
+  );
+
+  it('earns labour by the share of the quantity done and counts finished tasks as done', () => {
+    expect(financials.lines.slice(0, 2).map(({ quotedCost, actualCost, earnedCost, costToComplete }) => ({ quotedCost, actualCost, earnedCost, costToComplete }))).toEqual([
+      { quotedCost: 200, actualCost: 160, earnedCost: 100, costToComplete: 100 },
+      { quotedCost: 100, actualCost: 120, earnedCost: 100, costToComplete: 0 }
+    ]);
+  });
+
+  it('earns materials up to the planned quantity and costs the rest still to deliver', () => {
+    expect(financials.lines.slice(2).map(({ quotedCost, actualCost, earnedCost, costToComplete }) => ({ quotedCost, actualCost, earnedCost, costToComplete }))).toEqual([
+      { quotedCost: 100, actualCost: 125, earnedCost: 100, costToComplete: 0 },
+      { quotedCost: 100, actualCost: 20, earnedCost: 20, costToComplete: 80 }
+    ]);
+  });
+
+  it('reports the overrun, cost to complete, forecast and margin', () => {
+    expect(financials).toMatchObject({
+      quotedCost: 500,
+      actualCost: 425,
+      earnedCost: 320,
+      overrun: 105,
+      costToComplete: 180,
+      forecastCost: 605,
+      margin: 395,
+      marginPercent: 39.5,
+      percentComplete: 64
+    });
+  });
+
+  it('reports a negative overrun when the work so far came in under quote', () => {
+    const under = buildProjectFinancials(event, [task('t1', '10 square meters', 10, 10, 6)], [], {}, 20, 0);
+
+    expect(under.overrun).toBe(-80);
+    expect(under.marginPercent).toBe(0);
+    expect(under.percentComplete).toBe(100);
+  });
+});
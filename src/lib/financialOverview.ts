@@ -0,0 +1,219 @@
+import { supabase } from './supabase';
+import { fetchAllRows } from './paging';
+import { Database } from './database.types';
+import {
+  DEFAULT_PRICING_SETTINGS,
+  PricingSettings,
+  TaskTemplateEstimate,
+  buildWorkPricing,
+  calculateBlendedRate,
+  fetchLabourRates,
+  fetchMaterialPriceMap,
+  fetchPricingSettings,
+  getTaskHours
+} from './pricing';
+
+type Event = Database['public']['Tables']['events']['Row'];
+type TaskDone = Database['public']['Tables']['tasks_done']['Row'];
+type MaterialDelivered = Database['public']['Tables']['materials_delivered']['Row'];
+
+export type TaskWithActuals = Pick<TaskDone, 'id' | 'event_id' | 'name' | 'task_name' | 'amount' | 'hours_worked' | 'event_task_id' | 'is_finished'> & {
+  completed: number;
+  hours_spent: number;
+};
+
+export type MaterialWithActuals = Pick<MaterialDelivered, 'id' | 'event_id' | 'name' | 'task_name' | 'total_amount' | 'unit'> & {
+  delivered: number;
+};
+
+export interface CostComparisonLine {
+  id: string;
+  kind: 'labour' | 'material';
+  name: string;
+  unit: string;
+  planned: number;
+  actual: number;
+  estimatedHours: number;
+  actualHours: number;
+  quotedCost: number;
+  actualCost: number;
+  earnedCost: number;
+  costToComplete: number;
+}
+
+export interface ProjectFinancials {
+  event: Pick<Event, 'id' | 'title' | 'status' | 'start_date' | 'end_date'>;
+  lines: CostComparisonLine[];
+  // Selling price of the plan including markups, overhead and profit
+  quotedPrice: number;
+  // Direct cost of the plan: estimated hours and planned quantities
+  quotedCost: number;
+  // Direct cost so far: hours spent and quantities delivered
+  actualCost: number;
+  // Quoted cost of the work done so far
+  earnedCost: number;
+  // Actual cost above the quoted cost of the work done, negative when under
+  overrun: number;
+  costToComplete: number;
+  forecastCost: number;
+  // Quoted price less forecast cost
+  margin: number;
+  marginPercent: number;
+  percentComplete: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const parseAmount = (amount: string) => {
+  const [value, ...unit] = (amount || '').split(' ');
+  return { value: parseFloat(value) || 0, unit: unit.join(' ') };
+};
+
+/**
+ * Compares the plan created for an event with the hours and materials actually logged against it.
+ * @param event The event/project
+ * @param tasks tasks_done rows with summed progress entries
+ * @param materials materials_delivered rows with summed deliveries
+ * @param priceMap material name to price per unit
+ * @param blendedHourlyRate labour cost per hour
+ * @param quotedPrice selling price of the plan, as priced by the Work Pricing engine
+ * @param templates task templates used to estimate hours for tasks without stored hours
+ */
+export const buildProjectFinancials = (
+  event: ProjectFinancials['event'],
+  tasks: TaskWithActuals[],
+  materials: MaterialWithActuals[],
+  priceMap: Record<string, number>,
+  blendedHourlyRate: number,
+  quotedPrice: number,
+  templates: TaskTemplateEstimate[] = []
+): ProjectFinancials => {
+  const lines: CostComparisonLine[] = [];
+
+  tasks.forEach(task => {
+    const { value: planned, unit } = parseAmount(task.amount);
+    const estimatedHours = getTaskHours(task, templates);
+    // Share of the task done, by quantity where one was planned
+    const done = task.is_finished
+      ? 1
+      : planned > 0 ? Math.min(task.completed / planned, 1) : 0;
+
+    lines.push({
+      id: task.id,
+      kind: 'labour',
+      name: task.name || 'Unnamed Task',
+      unit,
+      planned,
+      actual: task.completed,
+      estimatedHours,
+      actualHours: task.hours_spent,
+      quotedCost: round2(estimatedHours * blendedHourlyRate),
+      actualCost: round2(task.hours_spent * blendedHourlyRate),
+      earnedCost: round2(estimatedHours * done * blendedHourlyRate),
+      costToComplete: round2(estimatedHours * (1 - done) * blendedHourlyRate)
+    });
+  });
+
+  materials.forEach(material => {
+    const unitPrice = priceMap[material.name || ''] || 0;
+    const planned = material.total_amount || 0;
+
+    lines.push({
+      id: material.id,
+      kind: 'material',
+      name: material.name || 'Unnamed Material',
+      unit: material.unit,
+      planned,
+      actual: material.delivered,
+      estimatedHours: 0,
+      actualHours: 0,
+      quotedCost: round2(planned * unitPrice),
+      actualCost: round2(material.delivered * unitPrice),
+      earnedCost: round2(Math.min(material.delivered, planned) * unitPrice),
+      costToComplete: round2(Math.max(planned - material.delivered, 0) * unitPrice)
+    });
+  });
+
+  const sum = (key: keyof Pick<CostComparisonLine, 'quotedCost' | 'actualCost' | 'earnedCost' | 'costToComplete'>) =>
+    round2(lines.reduce((total, line) => total + line[key], 0));
+
+  const quotedCost = sum('quotedCost');
+  const actualCost = sum('actualCost');
+  const earnedCost = sum('earnedCost');
+  const costToComplete = sum('costToComplete');
+  const forecastCost = round2(actualCost + costToComplete);
+  const margin = round2(quotedPrice - forecastCost);
+
+  return {
+    event,
+    lines,
+    quotedPrice,
+    quotedCost,
+    actualCost,
+    earnedCost,
+    overrun: round2(actualCost - earnedCost),
+    costToComplete,
+    forecastCost,
+    margin,
+    marginPercent: quotedPrice > 0 ? round2((margin / quotedPrice) * 100) : 0,
+    percentComplete: quotedCost > 0 ? round2((earnedCost / quotedCost) * 100) : 0
+  };
+};
+
+/**
+ * Fetches quoted vs actual figures for every event in one pass
+ * @returns Promise<ProjectFinancials[]> One entry per event, most recent first
+ */
+export const fetchFinancialOverview = async (): Promise<ProjectFinancials[]> => {
+  // Every company row is needed, so each query is read page by page past the PostgREST row limit
+  const [events, tasksDone, materialsDelivered, templates, settings, labourRates] = await Promise.all([
+    fetchAllRows((from, to) => supabase
+      .from('events')
+      .select('id, title, status, start_date, end_date')
+      .order('start_date', { ascending: false })
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('tasks_done')
+      .select('id, event_id, name, task_name, amount, hours_worked, event_task_id, is_finished, task_progress_entries(amount_completed, hours_spent)')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('materials_delivered')
+      .select('id, event_id, name, task_name, total_amount, unit, material_deliveries(amount)')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('event_tasks_with_dynamic_estimates')
+      .select('id, estimated_hours')
+      .order('id')
+      .range(from, to)),
+    fetchPricingSettings(),
+    fetchLabourRates()
+  ]);
+
+  const tasks: TaskWithActuals[] = tasksDone.map(({ task_progress_entries, ...task }) => ({
+    ...task,
+    completed: (task_progress_entries || []).reduce((sum: number, entry: { amount_completed: number }) => sum + entry.amount_completed, 0),
+    hours_spent: (task_progress_entries || []).reduce((sum: number, entry: { hours_spent: number }) => sum + entry.hours_spent, 0)
+  }));
+
+  const materials: MaterialWithActuals[] = materialsDelivered.map(({ material_deliveries, ...material }) => ({
+    ...material,
+    delivered: (material_deliveries || []).reduce((sum: number, delivery: { amount: number }) => sum + (delivery.amount || 0), 0)
+  }));
+
+  const priceMap = await fetchMaterialPriceMap(
+    Array.from(new Set(materials.map(m => m.name || '').filter(Boolean)))
+  );
+  const pricingSettings: Omit<PricingSettings, 'id' | 'updated_at'> = settings || DEFAULT_PRICING_SETTINGS;
+  const blendedHourlyRate = calculateBlendedRate(labourRates);
+
+  return events.map(event => {
+    const eventTasks = tasks.filter(task => task.event_id === event.id);
+    const eventMaterials = materials.filter(material => material.event_id === event.id);
+    const quotedPrice = buildWorkPricing(eventTasks, eventMaterials, priceMap, labourRates, pricingSettings, templates).totals.total;
+
+    return buildProjectFinancials(event, eventTasks, eventMaterials, priceMap, blendedHourlyRate, quotedPrice, templates);
+  });
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Invoice, InvoiceSource, buildDepositDeductions, buildInvoiceLines, calculateInvoiceTotals, formatInvoiceNumber } from './invoices';
+import { buildWorkPricing } from './pricing';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+// One role at £20 an hour and no markups, so prices equal costs
+const pricing = buildWorkPricing(
+  [{ id: 't1', name: 'Lay slabs', task_name: 'Paving', amount: '10 square meters', hours_worked: 5, event_task_id: null }],
+  [{ id: 'm1', name: 'Sand', task_name: 'Paving', total_amount: 4, unit: 'tonnes' }],
+  { Sand: 25 },
+  [{ role: 'user', hourly_rate: 20, crew_share: 1 }],
+  { material_markup_percent: 0, overhead_percent: 0, profit_margin_percent: 0 }
+);
+
+const deposit = (id: string, status: Invoice['status'], subtotal: number) =>
+  ({ id, invoice_number: 7, invoice_type: 'deposit', status, subtotal } as Invoice);
+
+const source = (overrides: Partial<InvoiceSource> = {}): InvoiceSource => ({
+  tasks: [{ id: 't1', name: 'Lay slabs', task_name: 'Paving', amount: '10 square meters', unit: null, completed: 6 }],
+  materials: [{ id: 'm1', name: 'Sand', unit: 'tonnes', total_amount: 4, delivered: 3 }],
+  pricing,
+  invoicedQuantities: {},
+  deposits: [],
+  ...overrides
+});
+
+describe('calculateInvoiceTotals', () => {
+  it('rounds the subtotal, VAT and total to pennies', () => {
+    expect(calculateInvoiceTotals([{ line_total: 0.1 }, { line_total: 0.2 }], 20)).toEqual({ subtotal: 0.3, vat_amount: 0.06, total: 0.36 });
+    expect(calculateInvoiceTotals([{ line_total: 12.34 }], 20)).toEqual({ subtotal: 12.34, vat_amount: 2.47, total: 14.81 });
+    expect(calculateInvoiceTotals([{ line_total: 12.34 }], 0)).toEqual({ subtotal: 12.34, vat_amount: 0, total: 12.34 });
+  });
+});
+
+describe('buildInvoiceLines', () => {
+  it('bills the progress since the last invoice at the priced unit rate', () => {
+    const lines = buildInvoiceLines('stage', source({ invoicedQuantities: { t1: 2, m1: 3 } }), 0);
+
+    expect(lines).toEqual([{
+      item_type: 'task',
+      source_id: 't1',
+      description: 'Paving: Lay slabs',
+      quantity: 4,
+      unit: 'square meters',
+      unit_price: 10,
+      line_total: 40
+    }]);
+  });
+
+  it('asks for a percentage of the priced total on a deposit invoice', () => {
+    const lines = buildInvoiceLines('deposit', source(), 25);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ item_type: 'deposit', description: 'Deposit (25% of £200.00 quoted)', quantity: 1, line_total: 50 });
+  });
+
+  it('deducts issued deposits on a final invoice but not on a stage invoice', () => {
+    const withDeposit = source({ deposits: [deposit('d1', 'paid', 50)] });
+
+    expect(buildInvoiceLines('stage', withDeposit, 0).map(line => line.line_total)).toEqual([60, 75]);
+    expect(buildInvoiceLines('final', withDeposit, 0).map(line => line.line_total)).toEqual([60, 75, -50]);
+    expect(calculateInvoiceTotals(buildInvoiceLines('final', withDeposit, 0), 20)).toEqual({ subtotal: 85, vat_amount: 17, total: 102 });
+  });
+});
+
+describe('buildDepositDeductions', () => {
+  it('skips draft deposits and deposits another invoice already deducted', () => {
+    const lines = buildDepositDeductions(source({
+      deposits: [deposit('d1', 'draft', 10), deposit('d2', 'sent', 20), deposit('d3', 'paid', 30)],
+      invoicedQuantities: { d3: 1 }
+    }));
+
+    expect(lines).toEqual([{
+      item_type: 'deposit',
+      source_id: 'd2',
+      description: 'Less deposit INV-00007',
+      quantity: 1,
+      unit: null,
+      unit_price: -20,
+      line_total: -20
+    }]);
+  });
+});
+
+describe('formatInvoiceNumber', () => {
+  it('pads the number to five digits', () => {
+    expect(formatInvoiceNumber(42)).toBe('INV-00042');
+  });
+});
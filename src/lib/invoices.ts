@@ -0,0 +1,325 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { Database } from './database.types';
+import { WorkPricing, fetchWorkPricing } from './pricing';
+import { escapeHtml } from './documentExport';
+
+export type Invoice = Database['public']['Tables']['invoices']['Row'];
+export type InvoiceItem = Database['public']['Tables']['invoice_items']['Row'];
+export type InvoiceType = Invoice['invoice_type'];
+export type InvoiceStatus = Invoice['status'];
+export type InvoiceLine = Pick<InvoiceItem, 'item_type' | 'source_id' | 'description' | 'quantity' | 'unit' | 'unit_price' | 'line_total'>;
+
+export const DEFAULT_VAT_RATE = 20;
+export const DEFAULT_PAYMENT_DAYS = 30;
+
+export const INVOICE_TYPE_LABELS: Record<InvoiceType, string> = {
+  final: 'Final',
+  stage: 'Stage',
+  deposit: 'Deposit'
+};
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  paid: 'Paid',
+  overdue: 'Overdue'
+};
+
+export const INVOICE_STATUS_COLORS: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  overdue: 'bg-red-100 text-red-800'
+};
+
+export interface InvoiceTaskProgress {
+  id: string;
+  name: string | null;
+  task_name: string | null;
+  amount: string;
+  unit: string | null;
+  completed: number;
+}
+
+export interface InvoiceMaterialDelivery {
+  id: string;
+  name: string | null;
+  unit: string;
+  total_amount: number;
+  delivered: number;
+}
+
+export interface InvoiceSource {
+  tasks: InvoiceTaskProgress[];
+  materials: InvoiceMaterialDelivery[];
+  pricing: WorkPricing;
+  // Quantity already billed per tasks_done, materials_delivered or deposit invoice id
+  invoicedQuantities: Record<string, number>;
+  deposits: Invoice[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatMoney = (value: number) => `£${value.toFixed(2)}`;
+
+export const formatInvoiceNumber = (invoiceNumber: number) => `INV-${String(invoiceNumber).padStart(5, '0')}`;
+
+/**
+ * Status to display for an invoice. Sent invoices past their due date are shown as overdue
+ * even before anyone marks them so.
+ */
+export const getInvoiceStatus = (invoice: Pick<Invoice, 'status' | 'due_date'>): InvoiceStatus => {
+  if (invoice.status === 'sent' && invoice.due_date && invoice.due_date < format(new Date(), 'yyyy-MM-dd')) {
+    return 'overdue';
+  }
+  return invoice.status;
+};
+
+export const calculateInvoiceTotals = (lines: Pick<InvoiceLine, 'line_total'>[], vatRate: number) => {
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.line_total, 0));
+  const vat_amount = round2(subtotal * (vatRate / 100));
+
+  return {
+    subtotal,
+    vat_amount,
+    total: round2(subtotal + vat_amount)
+  };
+};
+
+const createLine = (
+  item_type: InvoiceLine['item_type'],
+  source_id: string | null,
+  description: string,
+  quantity: number,
+  unit: string | null,
+  unitPrice: number
+): InvoiceLine => {
+  const unit_price = round2(unitPrice);
+  return {
+    item_type,
+    source_id,
+    description,
+    quantity: round2(quantity),
+    unit,
+    unit_price,
+    line_total: round2(quantity * unit_price)
+  };
+};
+
+/**
+ * Builds line items for the work completed and materials delivered since the last invoice.
+ * Unit prices are the priced selling price of each row divided by its planned quantity.
+ */
+export const buildProgressLines = (source: InvoiceSource): InvoiceLine[] => {
+  const taskPrices = new Map<string, number>();
+  const materialPrices = new Map<string, number>();
+
+  source.pricing.mainTasks.forEach(group => {
+    group.tasks.forEach(task => taskPrices.set(task.id, task.price));
+    group.materials.forEach(material => materialPrices.set(material.id, material.price));
+  });
+
+  const lines: InvoiceLine[] = [];
+
+  source.tasks.forEach(task => {
+    const remaining = task.completed - (source.invoicedQuantities[task.id] || 0);
+    if (remaining <= 0) return;
+
+    const [plannedAmount, ...unitParts] = (task.amount || '').split(' ');
+    const planned = parseFloat(plannedAmount) || 0;
+    const price = taskPrices.get(task.id) || 0;
+    const name = task.name || 'Unnamed Task';
+
+    lines.push(createLine(
+      'task',
+      task.id,
+      task.task_name ? `${task.task_name}: ${name}` : name,
+      remaining,
+      task.unit || unitParts.join(' ') || null,
+      planned > 0 ? price / planned : price
+    ));
+  });
+
+  source.materials.forEach(material => {
+    const remaining = material.delivered - (source.invoicedQuantities[material.id] || 0);
+    if (remaining <= 0) return;
+
+    const price = materialPrices.get(material.id) || 0;
+
+    lines.push(createLine(
+      'material',
+      material.id,
+      material.name || 'Unnamed Material',
+      remaining,
+      material.unit,
+      material.total_amount > 0 ? price / material.total_amount : 0
+    ));
+  });
+
+  return lines;
+};
+
+/**
+ * Single line requesting a percentage of the priced project total up front
+ */
+export const buildDepositLine = (pricing: WorkPricing, percent: number): InvoiceLine =>
+  createLine(
+    'deposit',
+    null,
+    `Deposit (${percent}% of ${formatMoney(pricing.totals.total)} quoted)`,
+    1,
+    null,
+    pricing.totals.total * (percent / 100)
+  );
+
+/**
+ * Negative lines deducting issued deposit invoices that no later invoice has deducted yet
+ */
+export const buildDepositDeductions = (source: InvoiceSource): InvoiceLine[] =>
+  source.deposits
+    .filter(deposit => deposit.status !== 'draft' && !source.invoicedQuantities[deposit.id])
+    .map(deposit => createLine(
+      'deposit',
+      deposit.id,
+      `Less deposit ${formatInvoiceNumber(deposit.invoice_number)}`,
+      1,
+      null,
+      -deposit.subtotal
+    ));
+
+/**
+ * Builds the line items of a new invoice
+ * @param type Kind of invoice to raise
+ * @param source Progress, pricing and previous invoices of the event
+ * @param depositPercent Percentage of the priced total requested by a deposit invoice
+ */
+export const buildInvoiceLines = (type: InvoiceType, source: InvoiceSource, depositPercent: number): InvoiceLine[] => {
+  if (type === 'deposit') return [buildDepositLine(source.pricing, depositPercent)];
+  if (type === 'stage') return buildProgressLines(source);
+  return [...buildProgressLines(source), ...buildDepositDeductions(source)];
+};
+
+/**
+ * Fetches everything needed to invoice an event: completed task progress, delivered materials,
+ * the priced breakdown and the quantities already billed by earlier invoices
+ * @param eventId The ID of the event/project to invoice
+ * @returns Promise<InvoiceSource>
+ */
+export const fetchInvoiceSource = async (eventId: string): Promise<InvoiceSource> => {
+  const [tasksResult, materialsResult, invoicesResult, pricing] = await Promise.all([
+    supabase
+      .from('tasks_done')
+      .select('id, name, task_name, amount, unit, task_progress_entries(amount_completed)')
+      .eq('event_id', eventId),
+    supabase
+      .from('materials_delivered')
+      .select('id, name, unit, total_amount, material_deliveries(amount)')
+      .eq('event_id', eventId),
+    supabase
+      .from('invoices')
+      .select('*, invoice_items(source_id, quantity)')
+      .eq('event_id', eventId),
+    fetchWorkPricing(eventId)
+  ]);
+
+  if (tasksResult.error) throw tasksResult.error;
+  if (materialsResult.error) throw materialsResult.error;
+  if (invoicesResult.error) throw invoicesResult.error;
+
+  const invoicedQuantities: Record<string, number> = {};
+  (invoicesResult.data || []).forEach(invoice => {
+    (invoice.invoice_items || []).forEach((item: Pick<InvoiceItem, 'source_id' | 'quantity'>) => {
+      if (!item.source_id) return;
+      invoicedQuantities[item.source_id] = (invoicedQuantities[item.source_id] || 0) + item.quantity;
+    });
+  });
+
+  return {
+    tasks: (tasksResult.data || []).map(({ task_progress_entries, ...task }) => ({
+      ...task,
+      completed: (task_progress_entries || []).reduce((sum: number, entry: { amount_completed: number }) => sum + entry.amount_completed, 0)
+    })),
+    materials: (materialsResult.data || []).map(({ material_deliveries, ...material }) => ({
+      ...material,
+      delivered: (material_deliveries || []).reduce((sum: number, delivery: { amount: number }) => sum + (delivery.amount || 0), 0)
+    })),
+    pricing,
+    invoicedQuantities,
+    deposits: (invoicesResult.data || []).filter(invoice => invoice.invoice_type === 'deposit') as Invoice[]
+  };
+};
+
+/**
+ * Renders a standalone, printable HTML document for an invoice
+ * @param invoice The invoice to render
+ * @param items Line items of the invoice
+ * @param projectTitle Title of the invoiced event
+ * @returns string Complete HTML document
+ */
+export const renderInvoiceHtml = (invoice: Invoice, items: InvoiceLine[], projectTitle: string): string => {
+  const number = formatInvoiceNumber(invoice.invoice_number);
+  const rows = items.map(item => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td class="num">${item.quantity}${item.unit ? ` ${escapeHtml(item.unit)}` : ''}</td>
+          <td class="num">${formatMoney(item.unit_price)}</td>
+          <td class="num">${formatMoney(item.line_total)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${number}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; color: #111827; margin: 40px; font-size: 14px; }
+    h1 { font-size: 28px; margin: 0 0 4px; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+    .muted { color: #6b7280; }
+    .bill-to { white-space: pre-line; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; border-bottom: 2px solid #111827; padding: 8px 4px; }
+    td { border-bottom: 1px solid #e5e7eb; padding: 8px 4px; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals { margin-top: 16px; margin-left: auto; width: 280px; }
+    .totals td { border: none; }
+    .totals .grand td { border-top: 2px solid #111827; font-weight: bold; }
+    .notes { margin-top: 32px; white-space: pre-line; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${invoice.invoice_type === 'deposit' ? 'Deposit Invoice' : 'Invoice'}</h1>
+      <div class="muted">${number}</div>
+    </div>
+    <div class="num">
+      <div>Issued: ${format(parseISO(invoice.issue_date), 'dd MMM yyyy')}</div>
+      ${invoice.due_date ? `<div>Due: ${format(parseISO(invoice.due_date), 'dd MMM yyyy')}</div>` : ''}
+      <div class="muted">Project: ${escapeHtml(projectTitle)}</div>
+    </div>
+  </div>
+  ${invoice.bill_to ? `<div class="bill-to"><strong>Bill to</strong><br />${escapeHtml(invoice.bill_to)}</div>` : ''}
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="num">Quantity</th>
+        <th class="num">Unit Price</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">${formatMoney(invoice.subtotal)}</td></tr>
+    <tr><td>VAT (${invoice.vat_rate}%)</td><td class="num">${formatMoney(invoice.vat_amount)}</td></tr>
+    <tr class="grand"><td>Total</td><td class="num">${formatMoney(invoice.total)}</td></tr>
+  </table>
+  ${invoice.notes ? `<div class="notes">${escapeHtml(invoice.notes)}</div>` : ''}
+</body>
+</html>`;
+};
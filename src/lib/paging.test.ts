@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PAGE_SIZE, chunk, fetchAllRows } from './paging';
+
+const rows = (count: number) => Array.from({ length: count }, (_, i) => ({ id: i }));
+
+describe('fetchAllRows', () => {
+  it('keeps fetching until a page comes back short', async () => {
+    const all = rows(PAGE_SIZE * 2 + 5);
+    const fetchPage = vi.fn(async (from: number, to: number) => ({ data: all.slice(from, to + 1), error: null }));
+
+    await expect(fetchAllRows(fetchPage)).resolves.toHaveLength(all.length);
+    expect(fetchPage.mock.calls).toEqual([[0, PAGE_SIZE - 1], [PAGE_SIZE, PAGE_SIZE * 2 - 1], [PAGE_SIZE * 2, PAGE_SIZE * 3 - 1]]);
+  });
+
+  it('asks for one more page when the last one is exactly full', async () => {
+    const all = rows(PAGE_SIZE);
+    const fetchPage = vi.fn(async (from: number, to: number) => ({ data: all.slice(from, to + 1), error: null }));
+
+    await expect(fetchAllRows(fetchPage)).resolves.toHaveLength(PAGE_SIZE);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns nothing for an empty table', async () => {
+    await expect(fetchAllRows(async () => ({ data: null, error: null }))).resolves.toEqual([]);
+  });
+
+  it('throws the error of a failed page', async () => {
+    const error = { message: 'timeout', details: '', hint: '', code: '57014', name: 'PostgrestError' };
+    await expect(fetchAllRows(async () => ({ data: null, error }))).rejects.toBe(error);
+  });
+});
+
+describe('chunk', () => {
+  it('splits a list into chunks of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import { PostgrestError } from '@supabase/supabase-js';
+
+// PostgREST returns at most this many rows per request
+export const PAGE_SIZE = 1000;
+
+// Names per `in` filter, keeping the request URL short
+export const FILTER_CHUNK_SIZE = 100;
+
+type PageResult<T> = { data: T[] | null; error: PostgrestError | null };
+
+/**
+ * Fetches every row of a query page by page, until a page comes back short
+ * @param fetchPage Runs the query for the rows from and to, inclusive, in a stable order
+ * @returns Promise<T[]> All the rows
+ * @throws PostgrestError when a page fails
+ */
+export const fetchAllRows = async <T>(fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+/**
+ * Splits a list into chunks, e.g. to look up many names with several short requests
+ * @param items The list
+ * @param size Items per chunk
+ * @returns T[][] Empty for an empty list
+ */
+export const chunk = <T>(items: T[], size = FILTER_CHUNK_SIZE): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
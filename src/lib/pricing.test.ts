@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LabourRate, UNASSIGNED_GROUP, buildWorkPricing, calculateBlendedRate, getTaskHours, priceLabourByRole } from './pricing';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const rates: Pick<LabourRate, 'role' | 'hourly_rate' | 'crew_share'>[] = [
+  { role: 'user', hourly_rate: 20, crew_share: 2 },
+  { role: 'Team_Leader', hourly_rate: 35, crew_share: 1 },
+  { role: 'project_manager', hourly_rate: 50, crew_share: 0 }
+];
+
+const settings = { material_markup_percent: 10, overhead_percent: 20, profit_margin_percent: 10 };
+
+const task = (id: string, taskName: string | null, hours: number) => ({
+  id,
+  name: `Task ${id}`,
+  task_name: taskName,
+  amount: '10 square meters',
+  hours_worked: hours,
+  event_task_id: null
+});
+
+const material = (id: string, taskName: string | null, name: string, quantity: number) => ({
+  id,
+  name,
+  task_name: taskName,
+  total_amount: quantity,
+  unit: 'tonnes'
+});
+
+describe('priceLabourByRole', () => {
+  it('splits the hours by crew share and prices each role at its own rate', () => {
+    expect(priceLabourByRole(3, rates)).toEqual([
+      { role: 'user', hours: 2, hourlyRate: 20, cost: 40 },
+      { role: 'Team_Leader', hours: 1, hourlyRate: 35, cost: 35 }
+    ]);
+  });
+
+  it('splits evenly when no shares are set', () => {
+    const unshared = rates.map(rate => ({ ...rate, crew_share: 0 }));
+    expect(priceLabourByRole(3, unshared).map(line => line.hours)).toEqual([1, 1, 1]);
+  });
+});
+
+describe('buildWorkPricing', () => {
+  it('adds markup on materials, overhead on direct cost and profit on everything before it', () => {
+    const pricing = buildWorkPricing([task('t1', 'Paving', 3)], [material('m1', 'Paving', 'Sand', 2)], { Sand: 30 }, rates, settings);
+    const [paving] = pricing.mainTasks;
+
+    expect(paving.labourCost).toBe(75);
+    expect(paving.materialCost).toBe(60);
+    expect(paving.materialMarkup).toBe(6);
+    expect(paving.overhead).toBe(27);
+    expect(paving.profit).toBe(16.8);
+    expect(paving.total).toBe(184.8);
+    // The lines' selling prices add up to the main task's total
+    expect(paving.tasks[0].price + paving.materials[0].price).toBeCloseTo(paving.total);
+  });
+
+  it('lists the labour of each main task per role', () => {
+    const pricing = buildWorkPricing([task('t1', 'Paving', 3), task('t2', 'Paving', 6)], [], {}, rates, settings);
+
+    expect(pricing.mainTasks[0].labour).toEqual([
+      { role: 'user', hours: 6, hourlyRate: 20, cost: 120 },
+      { role: 'Team_Leader', hours: 3, hourlyRate: 35, cost: 105 }
+    ]);
+    expect(pricing.totals.labourCost).toBe(225);
+  });
+
+  it('charges a role at its own rate', () => {
+    const dearer = rates.map(rate => (rate.role === 'Team_Leader' ? { ...rate, hourly_rate: 65 } : rate));
+    expect(buildWorkPricing([task('t1', 'Paving', 3)], [], {}, dearer, settings).totals.labourCost).toBe(105);
+  });
+
+  it('keeps materials priced at zero and reports those without a price', () => {
+    const pricing = buildWorkPricing([], [material('m1', 'Paving', 'Sand', 2), material('m2', 'Paving', 'Gravel', 1)], { Sand: 0 }, rates, settings);
+
+    expect(pricing.mainTasks[0].materials.map(line => line.unitPrice)).toEqual([0, null]);
+    expect(pricing.missingPrices).toEqual(['Gravel']);
+    expect(pricing.totals.total).toBe(0);
+  });
+
+  it('sorts main tasks by name with unassigned work last', () => {
+    const pricing = buildWorkPricing([task('t1', null, 1), task('t2', 'Walls', 1), task('t3', 'Paving', 1)], [], {}, rates, settings);
+    expect(pricing.mainTasks.map(group => group.name)).toEqual(['Paving', 'Walls', UNASSIGNED_GROUP]);
+  });
+});
+
+describe('getTaskHours', () => {
+  it('uses the stored hours, or the template rate times the amount', () => {
+    const templates = [{ id: 'tpl', estimated_hours: 0.5 }];
+
+    expect(getTaskHours({ amount: '10 square meters', hours_worked: 4, event_task_id: 'tpl' }, templates)).toBe(4);
+    expect(getTaskHours({ amount: '10 square meters', hours_worked: 0, event_task_id: 'tpl' }, templates)).toBe(5);
+    expect(getTaskHours({ amount: '10 square meters', hours_worked: 0, event_task_id: null }, templates)).toBe(0);
+  });
+});
+
+describe('calculateBlendedRate', () => {
+  it('weights the rates by crew share', () => {
+    expect(calculateBlendedRate(rates)).toBe(25);
+    expect(calculateBlendedRate([])).toBe(0);
+  });
+});
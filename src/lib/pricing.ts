@@ -0,0 +1,388 @@
+import { supabase } from './supabase';
+import { chunk } from './paging';
+import { Database } from './database.types';
+import { CalculatedMaterial, MaterialPropertyMap, PricedMaterial, priceMaterials } from './calculations/common';
+
+type TaskDone = Database['public']['Tables']['tasks_done']['Row'];
+type MaterialDelivered = Database['public']['Tables']['materials_delivered']['Row'];
+export type PricingSettings = Database['public']['Tables']['pricing_settings']['Row'];
+export type LabourRate = Database['public']['Tables']['labour_rates']['Row'];
+
+// Tasks and materials that were not created from a main task (minor tasks,
+// direct materials, additional items) are priced under this group
+export const UNASSIGNED_GROUP = 'Minor Tasks & Materials';
+
+export const DEFAULT_PRICING_SETTINGS: Omit<PricingSettings, 'id' | 'updated_at'> = {
+  material_markup_percent: 0,
+  overhead_percent: 0,
+  profit_margin_percent: 0
+};
+
+// A role's part of a task's labour, at the role's own rate
+export interface PricedRoleLine {
+  role: LabourRate['role'];
+  hours: number;
+  hourlyRate: number;
+  cost: number;
+}
+
+export interface PricedTaskLine {
+  id: string;
+  name: string;
+  amount: string;
+  hours: number;
+  labour: PricedRoleLine[];
+  labourCost: number;
+  // Selling price including the line's share of overhead and profit
+  price: number;
+}
+
+export interface PricedMaterialLine {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number | null;
+  cost: number;
+  markup: number;
+  // Selling price including markup and the line's share of overhead and profit
+  price: number;
+}
+
+export interface PricedMainTask {
+  name: string;
+  tasks: PricedTaskLine[];
+  materials: PricedMaterialLine[];
+  // Labour of the main task's tasks added up per role
+  labour: PricedRoleLine[];
+  hours: number;
+  labourCost: number;
+  materialCost: number;
+  materialMarkup: number;
+  overhead: number;
+  profit: number;
+  total: number;
+}
+
+export interface WorkPricing {
+  mainTasks: PricedMainTask[];
+  missingPrices: string[];
+  totals: Omit<PricedMainTask, 'name' | 'tasks' | 'materials' | 'labour'>;
+}
+
+export interface TaskTemplateEstimate {
+  id: string;
+  estimated_hours: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Weighted average hourly rate of a typical crew, using each role's crew_share as weight.
+ * Falls back to a plain average when no shares are configured.
+ */
+export const calculateBlendedRate = (rates: Pick<LabourRate, 'hourly_rate' | 'crew_share'>[]): number => {
+  if (rates.length === 0) return 0;
+
+  const totalShare = rates.reduce((sum, rate) => sum + (rate.crew_share || 0), 0);
+  if (totalShare > 0) {
+    return rates.reduce((sum, rate) => sum + rate.hourly_rate * (rate.crew_share || 0), 0) / totalShare;
+  }
+
+  return rates.reduce((sum, rate) => sum + rate.hourly_rate, 0) / rates.length;
+};
+
+/**
+ * Splits a task's hours between the roles of a typical crew by their crew_share and prices
+ * each role's hours at its own rate. Splits evenly when no shares are configured.
+ */
+export const priceLabourByRole = (
+  hours: number,
+  rates: Pick<LabourRate, 'role' | 'hourly_rate' | 'crew_share'>[]
+): PricedRoleLine[] => {
+  const totalShare = rates.reduce((sum, rate) => sum + (rate.crew_share || 0), 0);
+
+  return rates
+    .map(rate => {
+      const share = totalShare > 0 ? (rate.crew_share || 0) / totalShare : 1 / rates.length;
+      return { role: rate.role, hours: hours * share, hourlyRate: rate.hourly_rate, cost: hours * share * rate.hourly_rate };
+    })
+    .filter(line => line.hours > 0);
+};
+
+/**
+ * Adds up role lines per role, e.g. the labour of every task in a main task
+ */
+const sumLabourByRole = (lines: PricedRoleLine[]): PricedRoleLine[] =>
+  lines.reduce((sum, line) => {
+    const existing = sum.find(item => item.role === line.role);
+    if (existing) {
+      existing.hours += line.hours;
+      existing.cost += line.cost;
+    } else {
+      sum.push({ ...line });
+    }
+    return sum;
+  }, [] as PricedRoleLine[]);
+
+/**
+ * Estimated hours of a tasks_done row. Uses the hours stored when the project was created,
+ * or the template's estimated hours per unit times the amount when none were stored.
+ */
+export const getTaskHours = (task: Pick<TaskDone, 'amount' | 'hours_worked' | 'event_task_id'>, templates: TaskTemplateEstimate[]): number => {
+  if (task.hours_worked) return task.hours_worked;
+
+  const template = templates.find(t => t.id === task.event_task_id);
+  if (!template) return 0;
+
+  const [amount] = (task.amount || '').split(' ');
+  return (parseFloat(amount) || 0) * template.estimated_hours;
+};
+
+/**
+ * Builds a priced breakdown per main task from an event's tasks and materials.
+ * @param tasks tasks_done rows of the event
+ * @param materials materials_delivered rows of the event
+ * @param priceMap material name to price per unit, as stored on materials.price
+ * @param labourRates configured hourly rates per role, each task's hours are priced per role
+ * @param settings markups and overheads
+ * @param templates task templates used to estimate hours for tasks without stored hours
+ */
+export const buildWorkPricing = (
+  tasks: Pick<TaskDone, 'id' | 'name' | 'task_name' | 'amount' | 'hours_worked' | 'event_task_id'>[],
+  materials: Pick<MaterialDelivered, 'id' | 'name' | 'task_name' | 'total_amount' | 'unit'>[],
+  priceMap: Record<string, number>,
+  labourRates: Pick<LabourRate, 'role' | 'hourly_rate' | 'crew_share'>[],
+  settings: Omit<PricingSettings, 'id' | 'updated_at'>,
+  templates: TaskTemplateEstimate[] = []
+): WorkPricing => {
+  const groups = new Map<string, PricedMainTask>();
+  const missingPrices = new Set<string>();
+
+  const getGroup = (name: string | null) => {
+    const key = name || UNASSIGNED_GROUP;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        name: key,
+        tasks: [],
+        materials: [],
+        labour: [],
+        hours: 0,
+        labourCost: 0,
+        materialCost: 0,
+        materialMarkup: 0,
+        overhead: 0,
+        profit: 0,
+        total: 0
+      });
+    }
+    return groups.get(key)!;
+  };
+
+  const overheadRate = settings.overhead_percent / 100;
+  const profitRate = settings.profit_margin_percent / 100;
+
+  tasks.forEach(task => {
+    const hours = getTaskHours(task, templates);
+    const labour = priceLabourByRole(hours, labourRates);
+    const labourCost = labour.reduce((sum, line) => sum + line.cost, 0);
+    getGroup(task.task_name).tasks.push({
+      id: task.id,
+      name: task.name || 'Unnamed Task',
+      amount: task.amount,
+      hours,
+      labour,
+      labourCost,
+      price: round2(labourCost * (1 + overheadRate) * (1 + profitRate))
+    });
+  });
+
+  materials.forEach(material => {
+    const name = material.name || '';
+    const unitPrice = priceMap[name] ?? null;
+    const quantity = material.total_amount || 0;
+    const cost = unitPrice !== null ? unitPrice * quantity : 0;
+
+    const markup = cost * (settings.material_markup_percent / 100);
+
+    if (unitPrice === null) missingPrices.add(name);
+
+    getGroup(material.task_name).materials.push({
+      id: material.id,
+      name,
+      quantity,
+      unit: material.unit,
+      unitPrice,
+      cost,
+      markup,
+      price: round2((cost + markup + cost * overheadRate) * (1 + profitRate))
+    });
+  });
+
+  const mainTasks = Array.from(groups.values()).map(group => {
+    const hours = group.tasks.reduce((sum, task) => sum + task.hours, 0);
+    const labourCost = group.tasks.reduce((sum, task) => sum + task.labourCost, 0);
+    const materialCost = group.materials.reduce((sum, material) => sum + material.cost, 0);
+    const materialMarkup = group.materials.reduce((sum, material) => sum + material.markup, 0);
+    // Overhead is charged on direct cost, profit on everything before it
+    const overhead = (labourCost + materialCost) * overheadRate;
+    const profit = (labourCost + materialCost + materialMarkup + overhead) * profitRate;
+
+    return {
+      ...group,
+      labour: sumLabourByRole(group.tasks.flatMap(task => task.labour))
+        .map(line => ({ ...line, hours: round2(line.hours), cost: round2(line.cost) })),
+      hours: round2(hours),
+      labourCost: round2(labourCost),
+      materialCost: round2(materialCost),
+      materialMarkup: round2(materialMarkup),
+      overhead: round2(overhead),
+      profit: round2(profit),
+      total: round2(labourCost + materialCost + materialMarkup + overhead + profit)
+    };
+  });
+
+  // Keep main tasks first and the unassigned group last
+  mainTasks.sort((a, b) => {
+    if (a.name === UNASSIGNED_GROUP) return 1;
+    if (b.name === UNASSIGNED_GROUP) return -1;
+    return a.name.localeCompare(b.name);
+  });
+
+  const totals = mainTasks.reduce((sum, group) => ({
+    hours: round2(sum.hours + group.hours),
+    labourCost: round2(sum.labourCost + group.labourCost),
+    materialCost: round2(sum.materialCost + group.materialCost),
+    materialMarkup: round2(sum.materialMarkup + group.materialMarkup),
+    overhead: round2(sum.overhead + group.overhead),
+    profit: round2(sum.profit + group.profit),
+    total: round2(sum.total + group.total)
+  }), { hours: 0, labourCost: 0, materialCost: 0, materialMarkup: 0, overhead: 0, profit: 0, total: 0 });
+
+  return {
+    mainTasks,
+    missingPrices: Array.from(missingPrices).filter(Boolean),
+    totals
+  };
+};
+
+/**
+ * Fetches material prices by name, the same lookup the calculators use for their price columns
+ * @param names Material names to look up
+ * @returns Promise<Record<string, number>> Map of material name to price per unit
+ */
+export const fetchMaterialPriceMap = async (names: string[]): Promise<Record<string, number>> => {
+  if (names.length === 0) return {};
+
+  // Looked up in chunks so a long list of names does not overflow the request URL
+  const results = await Promise.all(chunk(names).map(namesChunk => supabase
+    .from('materials')
+    .select('name, price')
+    .in('name', namesChunk)));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) throw failed.error;
+
+  return results.flatMap(result => result.data || []).reduce((acc, item) => {
+    if (item.price !== null) acc[item.name] = item.price;
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+/**
+ * Fetches how each material is weighed and bought, as set in Setup
+ * @returns Promise<MaterialPropertyMap> Map of material name to density, pack and wastage
+ */
+export const fetchMaterialProperties = async (): Promise<MaterialPropertyMap> => {
+  const { data, error } = await supabase
+    .from('materials')
+    .select('name, density, pack_size, pack_unit, wastage_percent');
+
+  if (error) throw error;
+
+  return (data || []).reduce((acc, item) => {
+    acc[item.name] = {
+      density: item.density,
+      pack_size: item.pack_size,
+      pack_unit: item.pack_unit,
+      wastage_percent: item.wastage_percent || 0
+    };
+    return acc;
+  }, {} as MaterialPropertyMap);
+};
+
+/**
+ * Prices a calculator's materials for its price columns
+ * @param materials The calculated materials
+ * @returns Promise<PricedMaterial[]> Without prices when the lookup fails
+ */
+export const fetchMaterialPrices = async (materials: CalculatedMaterial[]): Promise<PricedMaterial[]> => {
+  try {
+    return priceMaterials(materials, await fetchMaterialPriceMap(materials.map(material => material.name)));
+  } catch (err) {
+    console.error('Error fetching material prices:', err);
+    return priceMaterials(materials, {});
+  }
+};
+
+export const fetchPricingSettings = async (): Promise<PricingSettings | null> => {
+  const { data, error } = await supabase
+    .from('pricing_settings')
+    .select('*')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as PricingSettings | null;
+};
+
+export const fetchLabourRates = async (): Promise<LabourRate[]> => {
+  const { data, error } = await supabase
+    .from('labour_rates')
+    .select('*')
+    .order('role');
+
+  if (error) throw error;
+  return data as LabourRate[];
+};
+
+/**
+ * Prices an event from its tasks_done and materials_delivered rows
+ * @param eventId The ID of the event/project to price
+ * @returns Promise<WorkPricing> Priced breakdown per main task
+ */
+export const fetchWorkPricing = async (eventId: string): Promise<WorkPricing> => {
+  const [tasksResult, materialsResult, templatesResult, settings, labourRates] = await Promise.all([
+    supabase
+      .from('tasks_done')
+      .select('id, name, task_name, amount, hours_worked, event_task_id')
+      .eq('event_id', eventId),
+    supabase
+      .from('materials_delivered')
+      .select('id, name, task_name, total_amount, unit')
+      .eq('event_id', eventId),
+    supabase
+      .from('event_tasks_with_dynamic_estimates')
+      .select('id, estimated_hours'),
+    fetchPricingSettings(),
+    fetchLabourRates()
+  ]);
+
+  if (tasksResult.error) throw tasksResult.error;
+  if (materialsResult.error) throw materialsResult.error;
+  if (templatesResult.error) throw templatesResult.error;
+
+  const materials = materialsResult.data || [];
+  const priceMap = await fetchMaterialPriceMap(
+    Array.from(new Set(materials.map(m => m.name).filter(Boolean)))
+  );
+
+  return buildWorkPricing(
+    tasksResult.data || [],
+    materials,
+    priceMap,
+    labourRates,
+    settings || DEFAULT_PRICING_SETTINGS,
+    templatesResult.data || []
+  );
+};
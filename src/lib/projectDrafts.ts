@@ -0,0 +1,69 @@
+import { supabase } from './supabase';
+import { Database, ProjectDraftPlan } from './database.types';
+
+export type ProjectDraft = Database['public']['Tables']['project_drafts']['Row'];
+
+// Delay between the last change in the builder and the autosave
+export const DRAFT_AUTOSAVE_DELAY = 2000;
+
+/**
+ * Fetches drafts that have not been converted into an event yet
+ * @returns Promise<ProjectDraft[]> Most recently edited first
+ */
+export const fetchProjectDrafts = async (): Promise<ProjectDraft[]> => {
+  const { data, error } = await supabase
+    .from('project_drafts')
+    .select('*')
+    .is('event_id', null)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data as ProjectDraft[];
+};
+
+/**
+ * Fetches a single draft to reopen it in the project builder
+ * @param id The draft id
+ * @returns Promise<ProjectDraft>
+ */
+export const fetchProjectDraft = async (id: string): Promise<ProjectDraft> => {
+  const { data, error } = await supabase
+    .from('project_drafts')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data as ProjectDraft;
+};
+
+/**
+ * Creates the draft on the first save and updates it afterwards
+ * @param id The draft id, or null when the plan has not been saved yet
+ * @param title The project title
+ * @param plan The builder state
+ * @param userId The user saving the draft
+ * @param eventId The event the plan belongs to, when saving the plan of an existing project
+ * @returns Promise<ProjectDraft> The saved draft
+ */
+export const saveProjectDraft = async (
+  id: string | null,
+  title: string,
+  plan: ProjectDraftPlan,
+  userId: string | undefined,
+  eventId: string | null = null
+): Promise<ProjectDraft> => {
+  const query = id
+    ? supabase
+        .from('project_drafts')
+        .update({ title, plan, updated_at: new Date().toISOString(), ...(eventId && { event_id: eventId }) })
+        .eq('id', id)
+    : supabase
+        .from('project_drafts')
+        .insert([{ title, plan, created_by: userId, event_id: eventId }]);
+
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return data as ProjectDraft;
+};
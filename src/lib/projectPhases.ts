@@ -0,0 +1,212 @@
+import { addDays, differenceInCalendarDays, format, max, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { Database } from './database.types';
+import { lastWorkingDay, nextWorkingDay } from './workingDays';
+
+export type EventPhase = Database['public']['Tables']['event_phases']['Row'];
+
+// Phase of the project builder, saved as an event_phases row
+export interface PlanPhase {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  // Phases that have to finish before this one starts
+  depends_on: string[];
+  // Plan items run in this phase, see the *_ITEM keys
+  items: string[];
+}
+
+export interface PlanItem {
+  key: string;
+  label: string;
+  hours: number;
+  calculatorType?: string;
+  calculatorSubType?: string;
+}
+
+export const SOIL_EXCAVATION_ITEM = 'soil_excavation';
+export const TAPE1_PREPARATION_ITEM = 'tape1_preparation';
+export const MINOR_TASKS_ITEM = 'minor_tasks';
+export const mainTaskItem = (mainTaskId: string) => `main:${mainTaskId}`;
+
+// Working hours of the crew per day, used to turn estimated hours into phase durations
+export const HOURS_PER_DAY = 8;
+
+// Phases in the order a job usually runs
+const DEFAULT_PHASE_NAMES = ['Excavation', 'Sub-base', 'Hard landscaping', 'Finishing'];
+
+const CALCULATOR_PHASES: Record<string, string> = {
+  aggregate: 'Sub-base',
+  drainage: 'Sub-base',
+  paving: 'Hard landscaping',
+  slab: 'Hard landscaping',
+  wall: 'Hard landscaping',
+  steps: 'Hard landscaping',
+  deck: 'Hard landscaping',
+  concrete: 'Hard landscaping',
+  edging: 'Hard landscaping',
+  fence: 'Finishing',
+  grass: 'Finishing',
+  soft: 'Finishing'
+};
+
+/**
+ * The usual phase of a calculator's work
+ * @param calculatorType The calculator
+ * @param calculatorSubType The calculator's variant
+ * @returns string One of the default phase names
+ */
+export const calculatorPhaseName = (calculatorType?: string, calculatorSubType?: string): string => {
+  if (calculatorSubType === 'soil_excavation') return 'Excavation';
+  return CALCULATOR_PHASES[calculatorType || ''] || 'Finishing';
+};
+
+const defaultPhaseName = (item: PlanItem) => {
+  if (item.key === SOIL_EXCAVATION_ITEM) return 'Excavation';
+  if (item.key === TAPE1_PREPARATION_ITEM) return 'Sub-base';
+  return calculatorPhaseName(item.calculatorType, item.calculatorSubType);
+};
+
+/**
+ * Groups the plan items into the usual phases, each starting after the previous one
+ * @param items main tasks, groundworks and minor tasks of the plan
+ * @returns PlanPhase[] Only the phases that have items, without dates
+ */
+export const buildDefaultPhases = (items: PlanItem[]): PlanPhase[] => {
+  const phases: PlanPhase[] = [];
+
+  DEFAULT_PHASE_NAMES.forEach(name => {
+    const phaseItems = items.filter(item => defaultPhaseName(item) === name);
+    if (phaseItems.length === 0) return;
+
+    const previous = phases[phases.length - 1];
+    phases.push({
+      id: crypto.randomUUID(),
+      name,
+      start_date: '',
+      end_date: '',
+      depends_on: previous ? [previous.id] : [],
+      items: phaseItems.map(item => item.key)
+    });
+  });
+
+  return phases;
+};
+
+/**
+ * Orders phases so every phase comes after the phases it depends on
+ * @param phases The phases to order
+ * @returns The phases in dependency order
+ * @throws Error when the dependencies form a loop
+ */
+export const orderPhases = <T extends Pick<PlanPhase, 'id' | 'name' | 'depends_on'>>(phases: T[]): T[] => {
+  const ordered: T[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (phase: T) => {
+    if (ordered.includes(phase)) return;
+    if (visiting.has(phase.id)) {
+      throw new Error(`Phase "${phase.name}" depends on itself through other phases`);
+    }
+
+    visiting.add(phase.id);
+    phase.depends_on.forEach(id => {
+      const dependency = phases.find(item => item.id === id);
+      if (dependency) visit(dependency);
+    });
+    visiting.delete(phase.id);
+    ordered.push(phase);
+  };
+
+  phases.forEach(visit);
+  return ordered;
+};
+
+/**
+ * Gives each phase dates from its estimated hours, starting the working day after its dependencies end
+ * @param phases The phases to schedule
+ * @param items The plan items with their hours
+ * @param startDate The project start date (yyyy-MM-dd)
+ * @param holidays Company holidays to skip along with weekends (yyyy-MM-dd)
+ * @param hoursPerDay Working hours per day
+ * @returns PlanPhase[] The phases with start and end dates, in their original order
+ */
+export const schedulePhases = (
+  phases: PlanPhase[],
+  items: PlanItem[],
+  startDate: string,
+  holidays: string[] = [],
+  hoursPerDay: number = HOURS_PER_DAY
+): PlanPhase[] => {
+  const ends = new Map<string, Date>();
+  const scheduled = new Map<string, PlanPhase>();
+
+  orderPhases(phases).forEach(phase => {
+    const hours = items
+      .filter(item => phase.items.includes(item.key))
+      .reduce((sum, item) => sum + item.hours, 0);
+    const days = Math.max(Math.ceil(hours / hoursPerDay), 1);
+
+    const dependencyEnds = phase.depends_on
+      .map(id => ends.get(id))
+      .filter((end): end is Date => !!end)
+      .map(end => addDays(end, 1));
+    const start = nextWorkingDay(max([parseISO(startDate), ...dependencyEnds]), holidays);
+    const end = lastWorkingDay(start, days, holidays);
+
+    ends.set(phase.id, end);
+    scheduled.set(phase.id, {
+      ...phase,
+      start_date: format(start, 'yyyy-MM-dd'),
+      end_date: format(end, 'yyyy-MM-dd')
+    });
+  });
+
+  return phases.map(phase => scheduled.get(phase.id)!);
+};
+
+/**
+ * Finds phases that start before a phase they depend on has ended
+ * @param phases The phases to check
+ * @returns Names of the phases with a conflicting start date
+ */
+export const findPhaseConflicts = (phases: Pick<PlanPhase, 'id' | 'name' | 'start_date' | 'end_date' | 'depends_on'>[]): string[] =>
+  phases
+    .filter(phase => phase.start_date && phase.depends_on.some(id => {
+      const dependency = phases.find(item => item.id === id);
+      return dependency?.end_date && differenceInCalendarDays(parseISO(phase.start_date), parseISO(dependency.end_date)) <= 0;
+    }))
+    .map(phase => phase.name);
+
+/**
+ * Fetches the phases of an event in their planned order
+ * @param eventId The event/project
+ * @returns Promise<EventPhase[]>
+ */
+export const fetchEventPhases = async (eventId: string): Promise<EventPhase[]> => {
+  const { data, error } = await supabase
+    .from('event_phases')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('position');
+
+  if (error) throw error;
+  return data as EventPhase[];
+};
+
+/**
+ * Converts builder phases into event_phases rows
+ * @param phases The builder phases
+ * @param eventId The event they belong to
+ */
+export const toEventPhaseRows = (phases: PlanPhase[], eventId: string) =>
+  phases.map((phase, index) => ({
+    id: phase.id,
+    event_id: eventId,
+    name: phase.name,
+    position: index,
+    start_date: phase.start_date || null,
+    end_date: phase.end_date || null,
+    depends_on: phase.depends_on
+  }));
@@ -0,0 +1,326 @@
+import { supabase } from './supabase';
+import { Database, ProjectDraftPlan } from './database.types';
+import { ProjectDraft } from './projectDrafts';
+import {
+  EventPhase,
+  MINOR_TASKS_ITEM,
+  PlanPhase,
+  SOIL_EXCAVATION_ITEM,
+  TAPE1_PREPARATION_ITEM,
+  mainTaskItem,
+  toEventPhaseRows
+} from './projectPhases';
+
+type Event = Database['public']['Tables']['events']['Row'];
+type TaskDone = Database['public']['Tables']['tasks_done']['Row'];
+type TaskDoneInsert = Database['public']['Tables']['tasks_done']['Insert'];
+type MaterialDelivered = Database['public']['Tables']['materials_delivered']['Row'];
+type MaterialDeliveredInsert = Database['public']['Tables']['materials_delivered']['Insert'];
+
+// Rows the project builder writes for a plan
+export type PlannedTask = Pick<TaskDoneInsert, 'name' | 'task_name' | 'description' | 'unit' | 'amount' | 'hours_worked' | 'event_task_id' | 'phase_id'>;
+export type PlannedMaterial = Pick<MaterialDeliveredInsert, 'name' | 'task_name' | 'unit' | 'total_amount'>;
+
+export type ExistingTask = TaskDone & { progress_entries: number };
+export type ExistingMaterial = MaterialDelivered & { deliveries: number };
+
+export interface RowDiff<Existing, Planned> {
+  inserts: Planned[];
+  updates: { before: Existing; after: Planned }[];
+  deletes: Existing[];
+  // Rows dropped from the plan that already have logged progress, left in place
+  kept: Existing[];
+  unchanged: number;
+}
+
+export interface EventPlanDiff {
+  tasks: RowDiff<ExistingTask, PlannedTask>;
+  materials: RowDiff<ExistingMaterial, PlannedMaterial>;
+}
+
+export interface EventPlan {
+  event: Event;
+  tasks: ExistingTask[];
+  materials: ExistingMaterial[];
+  phases: EventPhase[];
+  // Builder state saved when the plan was created or last edited
+  draft: ProjectDraft | null;
+}
+
+interface PlanEquipment {
+  id: string;
+  "size (in tones)": number;
+}
+
+const TASK_FIELDS: (keyof PlannedTask)[] = ['name', 'task_name', 'description', 'unit', 'amount', 'hours_worked', 'event_task_id', 'phase_id'];
+const MATERIAL_FIELDS: (keyof PlannedMaterial)[] = ['name', 'task_name', 'unit', 'total_amount'];
+
+// Groundworks tasks are named after the machines used, so they match on the prefix only
+const GROUNDWORKS_TASKS = ['soil excavation', 'tape 1 preparation'];
+
+const parseAmount = (amount: string) => {
+  const [value, ...unit] = (amount || '').split(' ');
+  return { value: parseFloat(value) || 0, unit: unit.join(' ') };
+};
+
+const isSameValue = (a: unknown, b: unknown) => String(a ?? '') === String(b ?? '');
+
+const groundworksPrefix = (name?: string | null) =>
+  GROUNDWORKS_TASKS.find(prefix => (name || '').toLowerCase().startsWith(prefix));
+
+const taskKey = (task: Pick<PlannedTask, 'name' | 'task_name'>) =>
+  `${task.task_name || ''}|${groundworksPrefix(task.name) || (task.name || '').toLowerCase()}`;
+
+const materialKey = (material: Pick<PlannedMaterial, 'name' | 'task_name'>) =>
+  `${material.task_name || ''}|${(material.name || '').toLowerCase()}`;
+
+const diffRows = <Existing extends Planned, Planned>(
+  existing: Existing[],
+  planned: Planned[],
+  keyOf: (row: Planned) => string,
+  fields: (keyof Planned)[],
+  hasProgress: (row: Existing) => boolean
+): RowDiff<Existing, Planned> => {
+  const diff: RowDiff<Existing, Planned> = { inserts: [], updates: [], deletes: [], kept: [], unchanged: 0 };
+  const unmatched = [...existing];
+
+  planned.forEach(row => {
+    const index = unmatched.findIndex(candidate => keyOf(candidate) === keyOf(row));
+    if (index === -1) {
+      diff.inserts.push(row);
+      return;
+    }
+
+    const [match] = unmatched.splice(index, 1);
+    if (fields.some(field => !isSameValue(match[field], row[field]))) {
+      diff.updates.push({ before: match, after: row });
+    } else {
+      diff.unchanged++;
+    }
+  });
+
+  unmatched.forEach(row => (hasProgress(row) ? diff.kept : diff.deletes).push(row));
+  return diff;
+};
+
+/**
+ * Compares the rows the builder would create with the rows already on the event.
+ * Matched rows are updated in place so their progress entries and deliveries stay attached.
+ * @param tasks existing tasks_done rows with their progress entry counts
+ * @param materials existing materials_delivered rows with their delivery counts
+ * @param plannedTasks tasks built from the edited plan
+ * @param plannedMaterials materials built from the edited plan
+ */
+export const buildEventPlanDiff = (
+  tasks: ExistingTask[],
+  materials: ExistingMaterial[],
+  plannedTasks: PlannedTask[],
+  plannedMaterials: PlannedMaterial[]
+): EventPlanDiff => ({
+  tasks: diffRows(tasks, plannedTasks, taskKey, TASK_FIELDS, task => task.progress_entries > 0),
+  materials: diffRows(materials, plannedMaterials, materialKey, MATERIAL_FIELDS, material => material.deliveries > 0)
+});
+
+export const countPlanChanges = (diff: EventPlanDiff) =>
+  diff.tasks.inserts.length + diff.tasks.updates.length + diff.tasks.deletes.length +
+  diff.materials.inserts.length + diff.materials.updates.length + diff.materials.deletes.length;
+
+/**
+ * Fetches an event with its planned rows, how much progress is logged against them,
+ * and the builder state saved for it
+ * @param eventId The event/project
+ * @returns Promise<EventPlan>
+ */
+export const fetchEventPlan = async (eventId: string): Promise<EventPlan> => {
+  const [eventResult, tasksResult, materialsResult, phasesResult, draftResult] = await Promise.all([
+    supabase
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .single(),
+    supabase
+      .from('tasks_done')
+      .select('*, task_progress_entries(id)')
+      .eq('event_id', eventId)
+      .order('created_at'),
+    supabase
+      .from('materials_delivered')
+      .select('*, material_deliveries(id)')
+      .eq('event_id', eventId)
+      .order('created_at'),
+    supabase
+      .from('event_phases')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('position'),
+    supabase
+      .from('project_drafts')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+  ]);
+
+  if (eventResult.error) throw eventResult.error;
+  if (tasksResult.error) throw tasksResult.error;
+  if (materialsResult.error) throw materialsResult.error;
+  if (phasesResult.error) throw phasesResult.error;
+  if (draftResult.error) throw draftResult.error;
+
+  return {
+    event: eventResult.data as Event,
+    tasks: (tasksResult.data || []).map(({ task_progress_entries, ...task }) => ({
+      ...task,
+      progress_entries: (task_progress_entries || []).length
+    })),
+    materials: (materialsResult.data || []).map(({ material_deliveries, ...material }) => ({
+      ...material,
+      deliveries: (material_deliveries || []).length
+    })),
+    phases: (phasesResult.data || []) as EventPhase[],
+    draft: (draftResult.data?.[0] as ProjectDraft) || null
+  };
+};
+
+/**
+ * Rebuilds the builder state from an event's rows, for projects created before plans were saved.
+ * Calculator inputs are not known, so main tasks keep their results only.
+ * @param plan The event and its rows
+ * @param excavators digging equipment to pick the excavator from
+ * @param carriers barrows/dumpers to pick the carrier from
+ * @param materialTemplates materials to link direct materials to
+ */
+export const reconstructEventPlan = (
+  { event, tasks, materials, phases }: Pick<EventPlan, 'event' | 'tasks' | 'materials' | 'phases'>,
+  excavators: PlanEquipment[],
+  carriers: PlanEquipment[],
+  materialTemplates: { id: string; name: string }[]
+): ProjectDraftPlan => {
+  const mainTaskNames = Array.from(new Set(tasks.map(task => task.task_name).filter((name): name is string => !!name)));
+  const mainTasks = mainTaskNames.map(name => {
+    const rows = tasks.filter(task => task.task_name === name);
+    return {
+      id: crypto.randomUUID(),
+      name,
+      calculatorType: '',
+      calculatorSubType: '',
+      results: {
+        name: rows[0].description || name,
+        taskBreakdown: rows.map(row => {
+          const { value, unit } = parseAmount(row.amount);
+          return { name: row.name || '', task: row.name || '', hours: row.hours_worked, amount: value, unit, event_task_id: row.event_task_id };
+        }),
+        materials: materials
+          .filter(material => material.task_name === name)
+          .map(material => ({ name: material.name || '', quantity: material.total_amount, unit: material.unit }))
+      },
+      inputs: null
+    };
+  });
+
+  const groundworks = tasks.filter(task => !task.task_name && groundworksPrefix(task.name));
+  const minorTasks = tasks
+    .filter(task => !task.task_name && task.event_task_id && !groundworks.includes(task))
+    .map(task => {
+      const { value, unit } = parseAmount(task.amount);
+      return {
+        template_id: task.event_task_id,
+        name: task.name || '',
+        quantity: value,
+        unit,
+        estimated_hours: task.hours_worked
+      };
+    });
+
+  const directMaterials = materials
+    .filter(material => !material.task_name)
+    .map(material => ({
+      template_id: materialTemplates.find(template => template.name.toLowerCase() === (material.name || '').toLowerCase())?.id || '',
+      name: material.name || '',
+      quantity: material.total_amount,
+      unit: material.unit,
+      confirmed: true
+    }));
+
+  // Machines are recorded in the groundworks task name, e.g. "(3t digger and 1t barrow)"
+  const soilTask = groundworks.find(task => groundworksPrefix(task.name) === 'soil excavation');
+  const tape1Task = groundworks.find(task => groundworksPrefix(task.name) === 'tape 1 preparation');
+  const machines = groundworks[0]?.name?.match(/\(([\d.]+)t digger(?: and ([\d.]+)t \w+)?\)/);
+  const excavator = machines ? excavators.find(item => item["size (in tones)"] === parseFloat(machines[1])) : undefined;
+  const carrier = machines?.[2] ? carriers.find(item => item["size (in tones)"] === parseFloat(machines[2])) : undefined;
+
+  // Soil from the main tasks is added by the builder, anything above it was extra excavation
+  const plannedSoil = mainTasks.reduce((total, task) => total + task.results.materials
+    .filter(material => material.name.toLowerCase().includes('soil'))
+    .reduce((sum, material) => sum + material.quantity, 0), 0);
+  const extraSoil = soilTask ? Math.max(parseAmount(soilTask.amount).value - plannedSoil, 0) : 0;
+
+  // Phase items are taken from the phase each row was planned in
+  const planPhases: PlanPhase[] = phases.map(phase => ({
+    id: phase.id,
+    name: phase.name,
+    start_date: phase.start_date || '',
+    end_date: phase.end_date || '',
+    depends_on: phase.depends_on || [],
+    items: [
+      ...mainTasks
+        .filter(task => tasks.some(row => row.task_name === task.name && row.phase_id === phase.id))
+        .map(task => mainTaskItem(task.id)),
+      ...(soilTask?.phase_id === phase.id ? [SOIL_EXCAVATION_ITEM] : []),
+      ...(tape1Task?.phase_id === phase.id ? [TAPE1_PREPARATION_ITEM] : []),
+      ...(tasks.some(row => !row.task_name && row.event_task_id && !groundworks.includes(row) && row.phase_id === phase.id) ? [MINOR_TASKS_ITEM] : [])
+    ]
+  }));
+
+  return {
+    formData: {
+      title: event.title,
+      description: event.description || '',
+      start_date: event.start_date,
+      end_date: event.end_date,
+      status: event.status,
+      has_equipment: event.has_equipment,
+      has_materials: event.has_materials
+    },
+    mainTasks,
+    minorTasks,
+    materials: directMaterials,
+    extraSoilExcavation: { area: '', weight: extraSoil > 0 ? extraSoil.toFixed(2) : '' },
+    excavationMeasureType: 'weight',
+    excavationOption: carrier ? 'removal' : 'pile',
+    excavatorId: excavator?.id || null,
+    carrierId: carrier?.id || null,
+    quoteNumber: null,
+    phases: planPhases
+  };
+};
+
+/**
+ * Applies a plan diff, the edited phases and event details in a single transaction
+ * @param eventId The event/project
+ * @param eventData The edited event details
+ * @param phases The phases of the edited plan, phases left out are removed
+ * @param diff The changes to apply
+ * @param userId The user recorded on new tasks
+ */
+export const applyEventPlan = async (
+  eventId: string,
+  eventData: Pick<Event, 'title' | 'description' | 'start_date' | 'end_date' | 'status' | 'has_equipment' | 'has_materials'>,
+  phases: PlanPhase[],
+  diff: EventPlanDiff,
+  userId: string | undefined
+): Promise<void> => {
+  const { error } = await supabase.rpc('apply_event_plan', {
+    p_event_id: eventId,
+    p_event: eventData,
+    p_phases: toEventPhaseRows(phases, eventId),
+    p_task_inserts: diff.tasks.inserts.map(task => ({ ...task, user_id: userId })),
+    p_task_updates: diff.tasks.updates.map(({ before, after }) => ({ ...after, id: before.id })),
+    p_task_deletes: diff.tasks.deletes.map(task => task.id),
+    p_material_inserts: diff.materials.inserts,
+    p_material_updates: diff.materials.updates.map(({ before, after }) => ({ ...after, id: before.id })),
+    p_material_deletes: diff.materials.deletes.map(material => material.id)
+  });
+
+  if (error) throw error;
+};
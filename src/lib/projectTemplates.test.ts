@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { toTemplateInputs } from './projectTemplates';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+describe('toTemplateInputs', () => {
+  it('drops the deck size and keeps how it is built', () => {
+    expect(toTemplateInputs('deck', {
+      length: '4',
+      width: '3',
+      height: '0.5',
+      boardWidth: '145',
+      joistSpacing: '40',
+      boardDirection: 'length'
+    })).toEqual({ boardWidth: '145', joistSpacing: '40', boardDirection: 'length' });
+  });
+
+  it('only drops the site measurements of the calculator the inputs belong to', () => {
+    expect(toTemplateInputs('paving', { area: '20', height: '1', sandThicknessCm: '5' })).toEqual({ height: '1', sandThicknessCm: '5' });
+  });
+
+  it('drops the drainage runs and keeps the soakaway build', () => {
+    expect(toTemplateInputs('drainage', {
+      area: '30',
+      channelLength: '6',
+      channelRuns: '2',
+      pipeLength: '12',
+      pipeBends: '3',
+      pipeDepth: '0.6',
+      soil: 'clay'
+    })).toEqual({ pipeDepth: '0.6', soil: 'clay' });
+  });
+
+  it('drops the concrete slab size and keeps the mix', () => {
+    expect(toTemplateInputs('concrete', {
+      length: '5',
+      width: '3',
+      depth: '0.1',
+      mix: 'C25',
+      mesh: 'true'
+    })).toEqual({ depth: '0.1', mix: 'C25', mesh: 'true' });
+  });
+
+  it('drops the beds and planting and keeps the topsoil and mulch', () => {
+    expect(toTemplateInputs('soft', {
+      area: '40',
+      bedArea: '12',
+      planting: '[{"size":"2L","quantity":"10"}]',
+      topsoilDepth: '0.15',
+      mulchDepth: '0.05'
+    })).toEqual({ topsoilDepth: '0.15', mulchDepth: '0.05' });
+  });
+
+  it('drops the edging corners and keeps the edging type', () => {
+    expect(toTemplateInputs('edging', {
+      edgingLength: '18',
+      edgingType: 'kerb',
+      internalCorners: '2',
+      externalCorners: '1'
+    })).toEqual({ edgingType: 'kerb' });
+  });
+
+  it('keeps every input of a calculator without site measurements', () => {
+    expect(toTemplateInputs('time', { hours: '8' })).toEqual({ hours: '8' });
+  });
+
+  it('has nothing to keep without inputs', () => {
+    expect(toTemplateInputs('deck', undefined)).toBeNull();
+    expect(toTemplateInputs('deck', null)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { supabase } from './supabase';
+import { Database, ProjectTemplatePlan } from './database.types';
+
+export type ProjectTemplate = Database['public']['Tables']['project_templates']['Row'];
+
+type TemplateInputs = ProjectTemplatePlan['mainTasks'][number]['inputs'];
+
+// Calculator inputs that measure the site, by calculator, entered again for every project started from a template
+export const CALCULATOR_SITE_INPUTS: Record<string, string[]> = {
+  aggregate: ['tons', 'length', 'width', 'areaSketch'],
+  paving: ['area', 'areaSketch', 'edgingLength', 'internalCorners', 'externalCorners', 'cutBlocks'],
+  slab: ['area', 'areaSketch', 'edgingLength', 'layoutLength', 'layoutWidth', 'cutSlabs'],
+  grass: ['area', 'areaSketch', 'edgingLength', 'internalCorners', 'externalCorners'],
+  wall: ['length', 'height', 'openings'],
+  fence: ['runs', 'gates', 'height'],
+  steps: ['totalHeight', 'totalWidth'],
+  deck: ['length', 'width', 'height'],
+  drainage: ['area', 'areaSketch', 'channelLength', 'channelRuns', 'pipeLength', 'pipeBends'],
+  concrete: ['length', 'width', 'area', 'areaSketch'],
+  soft: ['area', 'areaSketch', 'bedArea', 'planting'],
+  edging: ['edgingLength', 'internalCorners', 'externalCorners']
+};
+
+/**
+ * Keeps the calculator inputs that describe the job type, e.g. layer thicknesses and slab type
+ * @param calculatorType The calculator the inputs belong to
+ * @param inputs The calculator inputs of a main task
+ * @returns The inputs without the calculator's site measurements
+ */
+export const toTemplateInputs = (calculatorType: string, inputs: TemplateInputs | undefined): TemplateInputs => {
+  if (!inputs) return null;
+  const siteInputs = CALCULATOR_SITE_INPUTS[calculatorType] || [];
+  return Object.fromEntries(Object.entries(inputs).filter(([key]) => !siteInputs.includes(key)));
+};
+
+/**
+ * Fetches every project template
+ * @returns Promise<ProjectTemplate[]> Sorted by name
+ */
+export const fetchProjectTemplates = async (): Promise<ProjectTemplate[]> => {
+  const { data, error } = await supabase
+    .from('project_templates')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data as ProjectTemplate[];
+};
+
+/**
+ * Fetches a single template to start a project from
+ * @param id The template id
+ * @returns Promise<ProjectTemplate>
+ */
+export const fetchProjectTemplate = async (id: string): Promise<ProjectTemplate> => {
+  const { data, error } = await supabase
+    .from('project_templates')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data as ProjectTemplate;
+};
+
+/**
+ * Saves a plan from the project builder as a new template
+ * @param name The template name
+ * @param description What the job type includes
+ * @param plan The main tasks, minor tasks and materials to reuse
+ * @param userId The user saving the template
+ * @returns Promise<ProjectTemplate> The saved template
+ */
+export const saveProjectTemplate = async (
+  name: string,
+  description: string,
+  plan: ProjectTemplatePlan,
+  userId: string | undefined
+): Promise<ProjectTemplate> => {
+  const { data, error } = await supabase
+    .from('project_templates')
+    .insert([{ name, description: description || null, plan, created_by: userId }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ProjectTemplate;
+};
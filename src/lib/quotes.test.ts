@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { QuotePlanSection, calculateQuoteTotals, describeScope, formatQuoteNumber, priceQuotePlan } from './quotes';
+import { LabourRate } from './pricing';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const rates: Pick<LabourRate, 'role' | 'hourly_rate' | 'crew_share'>[] = [{ role: 'user', hourly_rate: 20, crew_share: 1 }];
+const settings = { material_markup_percent: 10, overhead_percent: 20, profit_margin_percent: 10 };
+
+const paving: QuotePlanSection = {
+  name: 'Paving',
+  tasks: [{ name: 'Lay slabs', hours: 5, amount: 10, unit: 'square meters' }],
+  materials: [{ name: 'Sand', quantity: 2, unit: 'tonnes' }]
+};
+
+describe('priceQuotePlan', () => {
+  it('prices each section with markups, overhead and profit and drops empty ones', () => {
+    const { sections, missingPrices } = priceQuotePlan(
+      [
+        paving,
+        { name: 'Nothing yet', tasks: [], materials: [] },
+        { name: 'Paving', tasks: [{ name: 'Edging', hours: 1, amount: 0, unit: '' }], materials: [{ name: 'Gravel', quantity: 1, unit: 'tonnes' }] }
+      ],
+      { Sand: 30 },
+      rates,
+      settings
+    );
+
+    expect(sections.map(section => section.name)).toEqual(['Paving', 'Paving']);
+    // (100 labour + 60 materials + 6 markup + 32 overhead) plus 10% profit
+    expect(sections[0].price).toBeCloseTo(217.8);
+    // Sections sharing a name are priced apart
+    expect(sections[1].price).toBeCloseTo(26.4);
+    expect(missingPrices).toEqual(['Gravel']);
+  });
+});
+
+describe('describeScope', () => {
+  it('lists the work with its quantities and the supplied materials', () => {
+    const section = { ...paving, tasks: [...paving.tasks, { name: 'Edging', hours: 1, amount: 0, unit: '' }] };
+
+    expect(describeScope(section)).toBe('Works: Lay slabs (10 square meters), Edging. Supply of 2 tonnes Sand.');
+    expect(describeScope({ ...paving, materials: [] })).toBe('Works: Lay slabs (10 square meters).');
+  });
+});
+
+describe('calculateQuoteTotals', () => {
+  it('rounds the subtotal, VAT and total to pennies', () => {
+    expect(calculateQuoteTotals([{ price: 33.333 }, { price: 33.333 }, { price: 33.334 }], 20)).toEqual({ subtotal: 100, vat_amount: 20, total: 120 });
+    expect(calculateQuoteTotals([{ price: 12.34 }], 20)).toEqual({ subtotal: 12.34, vat_amount: 2.47, total: 14.81 });
+  });
+});
+
+describe('formatQuoteNumber', () => {
+  it('pads the number and adds the version', () => {
+    expect(formatQuoteNumber(42, 3)).toBe('Q-00042 v3');
+  });
+});
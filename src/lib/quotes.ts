@@ -0,0 +1,212 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { Database, QuoteSection } from './database.types';
+import { LabourRate, PricingSettings, buildWorkPricing } from './pricing';
+import { escapeHtml } from './documentExport';
+
+export type Quote = Database['public']['Tables']['quotes']['Row'];
+export type QuoteStatus = Quote['status'];
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  rejected: 'Rejected'
+};
+
+export interface QuotePlanTask {
+  name: string;
+  hours: number;
+  amount: number;
+  unit: string;
+}
+
+export interface QuotePlanMaterial {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+// One priced section of the plan being quoted, usually a main task
+export interface QuotePlanSection {
+  name: string;
+  tasks: QuotePlanTask[];
+  materials: QuotePlanMaterial[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatMoney = (value: number) => `£${value.toFixed(2)}`;
+
+export const formatQuoteNumber = (quoteNumber: number, version: number) =>
+  `Q-${String(quoteNumber).padStart(5, '0')} v${version}`;
+
+/**
+ * Default client-facing scope text of a section, listing the work and the supplied materials
+ */
+export const describeScope = (section: QuotePlanSection): string => {
+  const work = section.tasks
+    .map(task => (task.amount > 0 ? `${task.name} (${round2(task.amount)} ${task.unit})`.trim() : task.name))
+    .join(', ');
+  const supply = section.materials
+    .map(material => `${round2(material.quantity)} ${material.unit} ${material.name}`)
+    .join(', ');
+
+  return [
+    work && `Works: ${work}.`,
+    supply && `Supply of ${supply}.`
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * Prices an unsaved project plan with the Work Pricing engine
+ * @param sections the plan grouped by main task
+ * @param priceMap material name to price per unit
+ * @param labourRates configured hourly rates per role
+ * @param settings markups and overheads
+ * @returns priced sections in plan order, and materials that have no price
+ */
+export const priceQuotePlan = (
+  sections: QuotePlanSection[],
+  priceMap: Record<string, number>,
+  labourRates: Pick<LabourRate, 'role' | 'hourly_rate' | 'crew_share'>[],
+  settings: Omit<PricingSettings, 'id' | 'updated_at'>
+): { sections: QuoteSection[]; missingPrices: string[] } => {
+  // Sections are grouped by position so main tasks sharing a name are priced separately
+  const tasks = sections.flatMap((section, sectionIndex) =>
+    section.tasks.map((task, index) => ({
+      id: `${sectionIndex}-task-${index}`,
+      name: task.name,
+      task_name: String(sectionIndex),
+      amount: `${task.amount} ${task.unit}`.trim(),
+      hours_worked: task.hours,
+      event_task_id: null
+    }))
+  );
+  const materials = sections.flatMap((section, sectionIndex) =>
+    section.materials.map((material, index) => ({
+      id: `${sectionIndex}-material-${index}`,
+      name: material.name,
+      task_name: String(sectionIndex),
+      total_amount: material.quantity,
+      unit: material.unit
+    }))
+  );
+
+  const pricing = buildWorkPricing(tasks, materials, priceMap, labourRates, settings);
+
+  return {
+    sections: sections
+      .map((section, sectionIndex) => ({ section, key: String(sectionIndex) }))
+      .filter(({ section }) => section.tasks.length > 0 || section.materials.length > 0)
+      .map(({ section, key }) => ({
+        name: section.name,
+        scope: describeScope(section),
+        price: pricing.mainTasks.find(group => group.name === key)?.total || 0
+      })),
+    missingPrices: pricing.missingPrices
+  };
+};
+
+export const calculateQuoteTotals = (sections: Pick<QuoteSection, 'price'>[], vatRate: number) => {
+  const subtotal = round2(sections.reduce((sum, section) => sum + section.price, 0));
+  const vat_amount = round2(subtotal * (vatRate / 100));
+
+  return {
+    subtotal,
+    vat_amount,
+    total: round2(subtotal + vat_amount)
+  };
+};
+
+/**
+ * Fetches every version of a quote, newest first
+ * @param quoteNumber The quote number shared by the versions
+ * @returns Promise<Quote[]>
+ */
+export const fetchQuoteVersions = async (quoteNumber: number): Promise<Quote[]> => {
+  const { data, error } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('quote_number', quoteNumber)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data as Quote[];
+};
+
+/**
+ * Renders a standalone, printable HTML document for a quote
+ * @param quote The quote version to render
+ * @returns string Complete HTML document
+ */
+export const renderQuoteHtml = (quote: Quote): string => {
+  const number = formatQuoteNumber(quote.quote_number, quote.version);
+  const sections = quote.sections.map(section => `
+      <tr>
+        <td>
+          <strong>${escapeHtml(section.name)}</strong>
+          ${section.scope ? `<div class="scope">${escapeHtml(section.scope)}</div>` : ''}
+        </td>
+        <td class="num">${formatMoney(section.price)}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${number}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; color: #111827; margin: 40px; font-size: 14px; }
+    h1 { font-size: 28px; margin: 0 0 4px; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+    .muted { color: #6b7280; }
+    .client { white-space: pre-line; margin-bottom: 24px; }
+    .description { white-space: pre-line; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; border-bottom: 2px solid #111827; padding: 8px 4px; }
+    td { border-bottom: 1px solid #e5e7eb; padding: 8px 4px; vertical-align: top; }
+    .scope { color: #4b5563; margin-top: 4px; white-space: pre-line; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals { margin-top: 16px; margin-left: auto; width: 280px; }
+    .totals td { border: none; }
+    .totals .grand td { border-top: 2px solid #111827; font-weight: bold; }
+    .notes { margin-top: 32px; white-space: pre-line; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Quotation</h1>
+      <div class="muted">${number}</div>
+    </div>
+    <div class="num">
+      <div>Date: ${format(parseISO(quote.issue_date), 'dd MMM yyyy')}</div>
+      ${quote.valid_until ? `<div>Valid until: ${format(parseISO(quote.valid_until), 'dd MMM yyyy')}</div>` : ''}
+    </div>
+  </div>
+  ${quote.client ? `<div class="client"><strong>Prepared for</strong><br />${escapeHtml(quote.client)}</div>` : ''}
+  <h2>${escapeHtml(quote.title)}</h2>
+  ${quote.description ? `<div class="description">${escapeHtml(quote.description)}</div>` : ''}
+  <table>
+    <thead>
+      <tr>
+        <th>Scope of Work</th>
+        <th class="num">Price</th>
+      </tr>
+    </thead>
+    <tbody>${sections}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">${formatMoney(quote.subtotal)}</td></tr>
+    <tr><td>VAT (${quote.vat_rate}%)</td><td class="num">${formatMoney(quote.vat_amount)}</td></tr>
+    <tr class="grand"><td>Total</td><td class="num">${formatMoney(quote.total)}</td></tr>
+  </table>
+  ${quote.notes ? `<div class="notes">${escapeHtml(quote.notes)}</div>` : ''}
+</body>
+</html>`;
+};
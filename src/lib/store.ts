@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { User } from '@supabase/supabase-js';
 import { persist } from 'zustand/middleware';
+import { UnitSystem } from './units';
 
 interface AuthState {
   user: User | null;
@@ -10,10 +11,13 @@ interface AuthState {
     email: string;
   } | null;
   theme: 'light' | 'dark';
+  // Measurements are stored in metric and shown in this system
+  unitSystem: UnitSystem;
   setUser: (user: User | null) => void;
   setProfile: (profile: AuthState['profile']) => void;
   setTheme: (theme: 'light' | 'dark') => void;
   toggleTheme: () => void;
+  setUnitSystem: (unitSystem: UnitSystem) => void;
 }
 
 export const useAuthStore = create<AuthState>()(
@@ -22,10 +26,12 @@ export const useAuthStore = create<AuthState>()(
       user: null,
       profile: null,
       theme: 'light',
+      unitSystem: 'metric',
       setUser: (user) => set({ user }),
       setProfile: (profile) => set({ profile }),
       setTheme: (theme) => set({ theme }),
       toggleTheme: () => set((state) => ({ theme: state.theme === 'light' ? 'dark' : 'light' })),
+      setUnitSystem: (unitSystem) => set({ unitSystem }),
     }),
     {
       name: 'auth-storage',
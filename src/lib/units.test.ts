@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { MetricUnit, displayUnit, formatQuantity, fromDisplayValue, toDisplayMaterial, toDisplayValue, toMetricUnit, unitSymbol } from './units';
+
+const METRIC_UNITS: MetricUnit[] = ['mm', 'cm', 'meters', 'square meters', 'cubic meters', 'tonnes', 'kg'];
+
+describe('toMetricUnit', () => {
+  it('recognises a metric unit however it is spelled', () => {
+    expect(toMetricUnit(' Metres ')).toBe('meters');
+    expect(toMetricUnit('m²')).toBe('square meters');
+    expect(toMetricUnit('t')).toBe('tonnes');
+  });
+
+  it('leaves units that are the same in both systems alone', () => {
+    expect(toMetricUnit('bags')).toBeNull();
+  });
+});
+
+describe('displayUnit and unitSymbol', () => {
+  it('shows metric units in imperial', () => {
+    expect(displayUnit('m2', 'imperial')).toBe('square feet');
+    expect(unitSymbol('square meters', 'imperial')).toBe('ft²');
+    expect(unitSymbol('tonnes', 'imperial')).toBe('tons');
+  });
+
+  it('keeps the unit in metric, with a short symbol', () => {
+    expect(displayUnit('m2', 'metric')).toBe('m2');
+    expect(unitSymbol('square meters', 'metric')).toBe('m²');
+  });
+
+  it('keeps units that do not convert', () => {
+    expect(displayUnit('bags', 'imperial')).toBe('bags');
+    expect(unitSymbol('bags', 'imperial')).toBe('bags');
+  });
+});
+
+describe('toDisplayValue and fromDisplayValue', () => {
+  it('converts metric quantities to imperial', () => {
+    expect(toDisplayValue(1, 'meters', 'imperial')).toBeCloseTo(3.2808, 4);
+    expect(toDisplayValue(25.4, 'mm', 'imperial')).toBeCloseTo(1);
+    expect(toDisplayValue(1, 'tonnes', 'imperial')).toBeCloseTo(0.9842, 4);
+  });
+
+  it('leaves metric and unconverted quantities unchanged', () => {
+    expect(toDisplayValue(3, 'meters', 'metric')).toBe(3);
+    expect(toDisplayValue(3, 'bags', 'imperial')).toBe(3);
+  });
+
+  it('converts an entered quantity back to the metric it is stored in', () => {
+    METRIC_UNITS.forEach(unit => {
+      expect(fromDisplayValue(toDisplayValue(12.5, unit, 'imperial'), unit, 'imperial')).toBeCloseTo(12.5);
+    });
+  });
+});
+
+describe('formatQuantity', () => {
+  it('formats a quantity with its symbol in either system', () => {
+    expect(formatQuantity(10, 'square meters', 'imperial')).toBe('107.64 ft²');
+    expect(formatQuantity(10, 'square meters', 'metric')).toBe('10 m²');
+  });
+});
+
+describe('toDisplayMaterial', () => {
+  it('converts the price per unit so the cost stays the same', () => {
+    const material = toDisplayMaterial({ name: 'Gravel', quantity: 2, unit: 'tonnes', price_per_unit: 100 }, 'imperial');
+
+    expect(material.unit).toBe('tons');
+    expect(material.quantity).toBeCloseTo(1.9684, 4);
+    expect(material.quantity * (material.price_per_unit || 0)).toBeCloseTo(200);
+  });
+
+  it('keeps materials sold by the unit and missing prices as they are', () => {
+    expect(toDisplayMaterial({ name: 'Cement', quantity: 8, unit: 'bags', price_per_unit: null }, 'imperial'))
+      .toEqual({ name: 'Cement', quantity: 8, unit: 'bags', price_per_unit: null });
+  });
+});
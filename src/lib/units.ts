@@ -0,0 +1,148 @@
+import { CalculatedMaterial, round2 } from './calculations/common';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+// The units calculations and stored quantities are kept in, whichever system is shown
+export type MetricUnit = 'mm' | 'cm' | 'meters' | 'square meters' | 'cubic meters' | 'tonnes' | 'kg';
+
+interface ImperialUnit {
+  unit: string;
+  symbol: string;
+  // Imperial units in one metric unit
+  factor: number;
+}
+
+const IMPERIAL_UNITS: Record<MetricUnit, ImperialUnit> = {
+  mm: { unit: 'inches', symbol: 'in', factor: 1 / 25.4 },
+  cm: { unit: 'inches', symbol: 'in', factor: 1 / 2.54 },
+  meters: { unit: 'feet', symbol: 'ft', factor: 1 / 0.3048 },
+  'square meters': { unit: 'square feet', symbol: 'ft²', factor: 1 / (0.3048 * 0.3048) },
+  'cubic meters': { unit: 'cubic yards', symbol: 'yd³', factor: 1 / (0.9144 * 0.9144 * 0.9144) },
+  // Long tons, as sold in the UK
+  tonnes: { unit: 'tons', symbol: 'tons', factor: 1 / 1.0160469 },
+  kg: { unit: 'lb', symbol: 'lb', factor: 1 / 0.45359237 }
+};
+
+const METRIC_SYMBOLS: Record<MetricUnit, string> = {
+  mm: 'mm',
+  cm: 'cm',
+  meters: 'm',
+  'square meters': 'm²',
+  'cubic meters': 'm³',
+  tonnes: 't',
+  kg: 'kg'
+};
+
+// Other spellings of the metric units, e.g. typed in as a material's unit
+const UNIT_ALIASES: Record<string, MetricUnit> = {
+  mm: 'mm',
+  millimeters: 'mm',
+  millimetres: 'mm',
+  cm: 'cm',
+  centimeters: 'cm',
+  centimetres: 'cm',
+  m: 'meters',
+  meter: 'meters',
+  meters: 'meters',
+  metre: 'meters',
+  metres: 'meters',
+  m2: 'square meters',
+  'm²': 'square meters',
+  'square meter': 'square meters',
+  'square meters': 'square meters',
+  'square metres': 'square meters',
+  m3: 'cubic meters',
+  'm³': 'cubic meters',
+  'cubic meter': 'cubic meters',
+  'cubic meters': 'cubic meters',
+  'cubic metres': 'cubic meters',
+  t: 'tonnes',
+  tonne: 'tonnes',
+  tonnes: 'tonnes',
+  kg: 'kg',
+  kilograms: 'kg'
+};
+
+/**
+ * Recognises a metric unit however it is spelled
+ * @param unit The unit, e.g. of a material
+ * @returns MetricUnit | null Null for units that are the same in both systems, e.g. bags
+ */
+export const toMetricUnit = (unit: string): MetricUnit | null =>
+  UNIT_ALIASES[unit.trim().toLowerCase()] || null;
+
+/**
+ * The unit a metric unit is shown in
+ * @param unit The metric unit
+ * @param system The user's unit system
+ * @returns string The unit unchanged when shown in metric or not convertible
+ */
+export const displayUnit = (unit: string, system: UnitSystem): string => {
+  const metric = toMetricUnit(unit);
+  return system === 'imperial' && metric ? IMPERIAL_UNITS[metric].unit : unit;
+};
+
+/**
+ * The short symbol of the unit a metric unit is shown in, for tight spaces such as drawings
+ * @param unit The metric unit
+ * @param system The user's unit system
+ * @returns string e.g. m or ft, the unit unchanged when not convertible
+ */
+export const unitSymbol = (unit: string, system: UnitSystem): string => {
+  const metric = toMetricUnit(unit);
+  if (!metric) return unit;
+  return system === 'imperial' ? IMPERIAL_UNITS[metric].symbol : METRIC_SYMBOLS[metric];
+};
+
+/**
+ * Converts a metric quantity to the unit it is shown in
+ * @param quantity The quantity in its metric unit
+ * @param unit The metric unit
+ * @param system The user's unit system
+ * @returns number The quantity unchanged when shown in metric or not convertible
+ */
+export const toDisplayValue = (quantity: number, unit: string, system: UnitSystem): number => {
+  const metric = toMetricUnit(unit);
+  return system === 'imperial' && metric ? quantity * IMPERIAL_UNITS[metric].factor : quantity;
+};
+
+/**
+ * Converts a quantity entered in the shown unit back to the metric unit it is stored in
+ * @param quantity The quantity as entered
+ * @param unit The metric unit it is stored in
+ * @param system The user's unit system
+ * @returns number The quantity unchanged when entered in metric or not convertible
+ */
+export const fromDisplayValue = (quantity: number, unit: string, system: UnitSystem): number => {
+  const metric = toMetricUnit(unit);
+  return system === 'imperial' && metric ? quantity / IMPERIAL_UNITS[metric].factor : quantity;
+};
+
+/**
+ * Formats a metric quantity with its unit's symbol in the user's system
+ * @param quantity The quantity in its metric unit
+ * @param unit The metric unit
+ * @param system The user's unit system
+ * @returns string e.g. 12.5 ft²
+ */
+export const formatQuantity = (quantity: number, unit: string, system: UnitSystem): string =>
+  `${round2(toDisplayValue(quantity, unit, system))} ${unitSymbol(unit, system)}`;
+
+/**
+ * Shows a material in the user's system, with its price per unit converted to match
+ * @param material The material in metric units
+ * @param system The user's unit system
+ * @returns The material with its quantity, unit and price per unit as shown
+ */
+export const toDisplayMaterial = <T extends CalculatedMaterial & { price_per_unit?: number | null }>(
+  material: T,
+  system: UnitSystem
+): T => {
+  const factor = toDisplayValue(1, material.unit, system);
+  return {
+    ...material,
+    quantity: material.quantity * factor,
+    unit: displayUnit(material.unit, system),
+    ...(material.price_per_unit ? { price_per_unit: material.price_per_unit / factor } : {})
+  };
+};
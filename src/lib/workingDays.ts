@@ -0,0 +1,36 @@
+import { addDays, format, isWeekend } from 'date-fns';
+
+/**
+ * Whether the crew works on a day, weekends and company holidays are off
+ * @param date The day to check
+ * @param holidays Company holidays (yyyy-MM-dd)
+ */
+export const isWorkingDay = (date: Date, holidays: string[]) =>
+  !isWeekend(date) && !holidays.includes(format(date, 'yyyy-MM-dd'));
+
+/**
+ * The first working day on or after a date
+ * @param date The earliest day
+ * @param holidays Company holidays (yyyy-MM-dd)
+ */
+export const nextWorkingDay = (date: Date, holidays: string[]): Date => {
+  let day = date;
+  while (!isWorkingDay(day, holidays)) {
+    day = addDays(day, 1);
+  }
+  return day;
+};
+
+/**
+ * The last day of a job taking a number of working days
+ * @param start The first working day of the job
+ * @param days Working days the job takes
+ * @param holidays Company holidays (yyyy-MM-dd)
+ */
+export const lastWorkingDay = (start: Date, days: number, holidays: string[]): Date => {
+  let day = start;
+  for (let counted = 1; counted < days; counted++) {
+    day = nextWorkingDay(addDays(day, 1), holidays);
+  }
+  return day;
+};
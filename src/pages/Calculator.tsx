@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { Calculator as CalculatorIcon, Layers, BrickWall, Clock, Fence, Stars as Stairs, Trees as Grass, Rows4, Grid, Square } from 'lucide-react';
+import React, { useState, useCallback, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Calculator as CalculatorIcon, Layers, BrickWall, Clock, Fence, Stars as Stairs, Trees as Grass, Rows4, Grid, Square, Droplets, Box, Flower, RectangleHorizontal } from 'lucide-react';
 import WallCalculator from '../components/Calculator/WallCalculator';
 import MortarCalculator from '../components/Calculator/MortarCalculator';
 import TimeEstimator from '../components/Calculator/TimeEstimator';
@@ -13,8 +14,19 @@ import SoilExcavationCalculator from '../components/Calculator/SoilExcavationCal
 import AggregateCalculator from '../components/Calculator/AggregateCalculator';
 import PavingCalculator from '../components/Calculator/PavingCalculator';
 import ArtificialGrassCalculator from '../components/Calculator/ArtificialGrassCalculator';
+import DeckCalculator from '../components/Calculator/DeckCalculator';
+import DrainageCalculator from '../components/Calculator/DrainageCalculator';
+import ConcreteCalculator from '../components/Calculator/ConcreteCalculator';
+import SoftLandscapingCalculator from '../components/Calculator/SoftLandscapingCalculator';
+import EdgingCalculator from '../components/Calculator/EdgingCalculator';
+import AddToProjectPanel from '../components/Calculator/AddToProjectPanel';
+import CalculatorRunHistory from '../components/Calculator/CalculatorRunHistory';
+import { CalculatorInputs } from '../hooks/useCalculatorInputs';
+import { useAuthStore } from '../lib/store';
+import { CalculatorRunResults } from '../lib/database.types';
+import { CalculatorRun, fetchCalculatorRuns, saveCalculatorRun } from '../lib/calculatorRuns';
 
-type CalculatorType = 'aggregate' | 'wall' | 'mortar' | 'time' | 'fence' | 'steps' | 'deck' | 'grass' | 'slab' | 'paving';
+type CalculatorType = 'aggregate' | 'wall' | 'mortar' | 'time' | 'fence' | 'steps' | 'deck' | 'grass' | 'slab' | 'paving' | 'drainage' | 'concrete' | 'soft' | 'edging';
 type SubCalculatorType = {
   aggregate: 'type1' | 'aggregate' | 'soil_excavation';
   wall: 'brick' | 'block4' | 'block7';
@@ -22,15 +34,72 @@ type SubCalculatorType = {
   time: 'task';
   fence: 'vertical' | 'horizontal';
   steps: 'standard';
-  deck: 'coming_soon';
+  deck: 'timber' | 'composite';
   grass: 'coming_soon';
   slab: 'default';
   paving: 'default';
+  drainage: 'default';
+  concrete: 'base';
+  soft: 'default';
+  edging: 'default';
 };
 
 const CalculatorPage: React.FC = () => {
   const [activeCalculator, setActiveCalculator] = useState<CalculatorType | null>(null);
   const [activeSubType, setActiveSubType] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  // Inputs of a reopened run, and a key to remount the calculator with them
+  const [initialInputs, setInitialInputs] = useState<CalculatorInputs | undefined>(undefined);
+  const [calculatorKey, setCalculatorKey] = useState(0);
+  const [currentRun, setCurrentRun] = useState<CalculatorRun | null>(null);
+  const inputsRef = useRef<CalculatorInputs | null>(null);
+
+  const { data: runs = [], isLoading: isLoadingRuns } = useQuery({
+    queryKey: ['calculator_runs', user?.id],
+    queryFn: () => fetchCalculatorRuns(user!.id),
+    enabled: !!user
+  });
+
+  const { mutate: saveRun } = useMutation({
+    mutationFn: saveCalculatorRun,
+    onSuccess: (run) => {
+      setCurrentRun(run);
+      queryClient.invalidateQueries({ queryKey: ['calculator_runs'] });
+    },
+    onError: (error) => {
+      console.error('Error saving calculator run:', error);
+    }
+  });
+
+  // Every calculation is kept in the history with the inputs it was made from
+  const handleResultsChange = useCallback((results: CalculatorRunResults) => {
+    if (!activeCalculator || !activeSubType) return;
+    saveRun({
+      calculator_type: activeCalculator,
+      calculator_sub_type: activeSubType,
+      inputs: inputsRef.current,
+      results,
+      created_by: user?.id
+    });
+  }, [activeCalculator, activeSubType, saveRun, user?.id]);
+
+  const handleInputsChange = useCallback((inputs: CalculatorInputs) => {
+    inputsRef.current = inputs;
+  }, []);
+
+  const resetRun = (inputs?: CalculatorInputs) => {
+    inputsRef.current = null;
+    setInitialInputs(inputs);
+    setCalculatorKey(key => key + 1);
+  };
+
+  const handleOpenRun = (run: CalculatorRun) => {
+    setActiveCalculator(run.calculator_type as CalculatorType);
+    setActiveSubType(run.calculator_sub_type);
+    resetRun(run.inputs || undefined);
+    setCurrentRun(run);
+  };
 
   const calculatorButtons = [
     {
@@ -51,6 +120,38 @@ const CalculatorPage: React.FC = () => {
         { type: 'default', label: 'Monoblock Paving' }
       ]
     },
+    {
+      type: 'drainage' as CalculatorType,
+      icon: Droplets,
+      label: 'Drainage Calculator',
+      subTypes: [
+        { type: 'default', label: 'Surface Water Drainage' }
+      ]
+    },
+    {
+      type: 'concrete' as CalculatorType,
+      icon: Box,
+      label: 'Concrete Calculator',
+      subTypes: [
+        { type: 'base', label: 'Shed & Garden Room Base' }
+      ]
+    },
+    {
+      type: 'soft' as CalculatorType,
+      icon: Flower,
+      label: 'Soft Landscaping Calculator',
+      subTypes: [
+        { type: 'default', label: 'Turf, Topsoil & Planting' }
+      ]
+    },
+    {
+      type: 'edging' as CalculatorType,
+      icon: RectangleHorizontal,
+      label: 'Edging Calculator',
+      subTypes: [
+        { type: 'default', label: 'Kerbs, Setts & Edging' }
+      ]
+    },
     {
       type: 'wall' as CalculatorType,
       icon: BrickWall,
@@ -108,7 +209,8 @@ const CalculatorPage: React.FC = () => {
       icon: Rows4,
       label: 'Deck Calculator',
       subTypes: [
-        { type: 'coming_soon', label: 'Coming Soon' }
+        { type: 'timber', label: 'Timber Deck' },
+        { type: 'composite', label: 'Composite Deck' }
       ]
     },
     {
@@ -125,6 +227,13 @@ const CalculatorPage: React.FC = () => {
     console.log(`Calculator.tsx: Setting calculator type to ${calculatorType} and subType to ${subType}`);
     setActiveCalculator(calculatorType);
     setActiveSubType(subType);
+    resetRun();
+    setCurrentRun(null);
+  };
+
+  const runLabel = (run: CalculatorRun) => {
+    const button = calculatorButtons.find(b => b.type === run.calculator_type);
+    return button?.subTypes.find(s => s.type === run.calculator_sub_type)?.label || button?.label || run.calculator_type;
   };
 
   const renderCalculator = () => {
@@ -132,36 +241,51 @@ const CalculatorPage: React.FC = () => {
 
     console.log(`Calculator.tsx: Rendering calculator for ${activeCalculator} with subType ${activeSubType}`);
 
+    const inputProps = {
+      onResultsChange: handleResultsChange,
+      initialInputs,
+      onInputsChange: handleInputsChange
+    };
+
     switch (activeCalculator) {
       case 'aggregate':
         switch (activeSubType) {
           case 'type1':
-            return <Type1AggregateCalculator />;
+            return <Type1AggregateCalculator {...inputProps} />;
           case 'aggregate':
-            return <AggregateCalculator />;
+            return <AggregateCalculator {...inputProps} />;
           case 'soil_excavation':
-            return <SoilExcavationCalculator />;
+            return <SoilExcavationCalculator {...inputProps} />;
           default:
             return null;
         }
       case 'paving':
-        return <PavingCalculator />;
+        return <PavingCalculator {...inputProps} />;
       case 'wall':
-        return <WallCalculator type={activeSubType as SubCalculatorType['wall']} />;
+        return <WallCalculator type={activeSubType as SubCalculatorType['wall']} {...inputProps} />;
       case 'mortar':
-        return <MortarCalculator type={activeSubType as SubCalculatorType['mortar']} />;
+        return <MortarCalculator type={activeSubType as SubCalculatorType['mortar']} {...inputProps} />;
       case 'time':
         return <TimeEstimator />;
       case 'fence':
         console.log(`Calculator.tsx: Rendering FenceCalculator with fenceType=${activeSubType}`);
-        return <FenceCalculator fenceType={activeSubType as 'vertical' | 'horizontal'} />;
+        return <FenceCalculator fenceType={activeSubType as 'vertical' | 'horizontal'} {...inputProps} />;
       case 'slab':
-        return <SlabCalculator />;
+        return <SlabCalculator {...inputProps} />;
       case 'steps':
-        return <StairCalculator />;
+        return <StairCalculator {...inputProps} />;
       case 'deck':
+        return <DeckCalculator deckType={activeSubType as SubCalculatorType['deck']} {...inputProps} />;
       case 'grass':
-        return <ArtificialGrassCalculator />;
+        return <ArtificialGrassCalculator {...inputProps} />;
+      case 'drainage':
+        return <DrainageCalculator {...inputProps} />;
+      case 'concrete':
+        return <ConcreteCalculator {...inputProps} />;
+      case 'soft':
+        return <SoftLandscapingCalculator {...inputProps} />;
+      case 'edging':
+        return <EdgingCalculator {...inputProps} />;
       default:
         return null;
     }
@@ -183,6 +307,7 @@ const CalculatorPage: React.FC = () => {
                 onClick={() => {
                   setActiveCalculator(button.type);
                   setActiveSubType(null);
+                  setCurrentRun(null);
                 }}
                 className={`w-full flex items-center p-4 rounded-lg shadow transition-colors ${
                   activeCalculator === button.type
@@ -214,6 +339,13 @@ const CalculatorPage: React.FC = () => {
               )}
             </div>
           ))}
+
+          <CalculatorRunHistory
+            runs={runs}
+            isLoading={isLoadingRuns}
+            labelOf={runLabel}
+            onOpen={handleOpenRun}
+          />
         </div>
 
         <div className="flex-1">
@@ -224,7 +356,11 @@ const CalculatorPage: React.FC = () => {
                   .find((b) => b.type === activeCalculator)
                   ?.subTypes.find((s) => s.type === activeSubType)?.label}
               </h2>
-              {renderCalculator()}
+              {/* Remounted when the calculator changes or a run is reopened */}
+              <div key={`${activeCalculator}-${activeSubType}-${calculatorKey}`}>
+                {renderCalculator()}
+              </div>
+              {currentRun && <AddToProjectPanel key={currentRun.id} run={currentRun} />}
             </div>
           ) : (
             <div className="bg-white rounded-lg shadow-lg p-6 text-center text-gray-600 flex items-center justify-center min-h-[400px] w-full">
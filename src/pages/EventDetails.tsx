@@ -1,15 +1,20 @@
 import React, { useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { format, parseISO } from 'date-fns';
-import { CheckCircle2, Clock, Package, AlertCircle, Tool } from 'lucide-react';
+import { CheckCircle2, Clock, Package, AlertCircle, Tool, Pencil } from 'lucide-react';
 import BackButton from '../components/BackButton';
 import TaskProgressModal from '../components/TaskProgressModal';
 import MaterialProgressModal from '../components/MaterialProgressModal';
 import HoursWorkedModal from '../components/HoursWorkedModal';
 import AdditionalFeatures from '../components/AdditionalFeatures';
+import EventInvoices from '../components/EventInvoices';
+import EventPhases from '../components/EventPhases';
+import EventSchedule from '../components/EventSchedule';
+import { useAuthStore } from '../lib/store';
+import { useUnits } from '../hooks/useUnits';
 
 type Event = Database['public']['Tables']['events']['Row'];
 type TaskDone = Database['public']['Tables']['tasks_done']['Row'];
@@ -33,6 +38,9 @@ type EquipmentUsage = {
 
 const EventDetails = () => {
   const { id } = useParams();
+  const navigate = useNavigate();
+  const { profile } = useAuthStore();
+  const { unit, value } = useUnits();
   const queryClient = useQueryClient();
   const [showTaskProgressModal, setShowTaskProgressModal] = useState(false);
   const [selectedTask, setSelectedTask] = useState<TaskDone | null>(null);
@@ -400,7 +408,18 @@ const EventDetails = () => {
       <div className="grid grid-cols-2 gap-6">
         {/* Project Info */}
         <div className="bg-white p-6 rounded-lg shadow">
-          <h1 className="text-2xl font-bold mb-2">{event.title}</h1>
+          <div className="flex justify-between items-start">
+            <h1 className="text-2xl font-bold mb-2">{event.title}</h1>
+            {(profile?.role === 'Admin' || profile?.role === 'boss') && (
+              <button
+                onClick={() => navigate(`/project-management/${event.id}/edit`)}
+                className="flex items-center px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+              >
+                <Pencil className="w-4 h-4 mr-1" />
+                Edit Plan
+              </button>
+            )}
+          </div>
           <p className="text-gray-600">
             {format(new Date(event.start_date), 'MMM dd, yyyy')} - {format(new Date(event.end_date), 'MMM dd, yyyy')}
           </p>
@@ -479,6 +498,12 @@ const EventDetails = () => {
         </div>
       </div>
 
+      {/* Phases Section */}
+      <EventPhases eventId={id!} tasks={tasks} />
+
+      {/* Schedule Section */}
+      <EventSchedule eventId={id!} startDate={event.start_date} endDate={event.end_date} tasks={tasks} />
+
       {/* Tasks Section */}
       <div className="bg-white p-6 rounded-lg shadow">
         <h2 className="text-xl font-semibold mb-6">Tasks</h2>
@@ -576,7 +601,7 @@ const EventDetails = () => {
                   <div>
                     <h3 className="font-medium">{material.name}</h3>
                     <p className="text-sm text-gray-600 mt-1">
-                      Delivered: {totalDelivered.toFixed(2)} / {material.total_amount.toFixed(2)} {material.unit}
+                      Delivered: {value(totalDelivered, material.unit).toFixed(2)} / {value(material.total_amount, material.unit).toFixed(2)} {unit(material.unit)}
                       <span className="ml-2 font-medium text-green-600">
                         ({percentDelivered.toFixed(1)}%)
                       </span>
@@ -586,7 +611,7 @@ const EventDetails = () => {
                         <p className="text-xs text-gray-500">Recent deliveries:</p>
                         {material.material_deliveries.slice(0, 3).map((delivery, idx) => (
                           <p key={idx} className="text-xs text-gray-500">
-                            {new Date(delivery.delivery_date).toLocaleDateString()}: {delivery.amount} {material.unit}
+                            {new Date(delivery.delivery_date).toLocaleDateString()}: {Number(value(delivery.amount, material.unit).toFixed(2))} {unit(material.unit)}
                           </p>
                         ))}
                       </div>
@@ -696,6 +721,9 @@ const EventDetails = () => {
       {/* Additional Features Section */}
       <AdditionalFeatures eventId={id!} />
 
+      {/* Invoices Section */}
+      <EventInvoices eventId={id!} />
+
       {/* Modals */}
       {showTaskProgressModal && selectedTask && (
         <TaskProgressModal
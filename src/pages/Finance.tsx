@@ -1,10 +1,11 @@
 import React from 'react';
 import { useAuthStore } from '../lib/store';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useNavigate } from 'react-router-dom';
 import { DollarSign, FileText, Calculator } from 'lucide-react';
 import BackButton from '../components/BackButton';
 
 const Finance = () => {
+  const navigate = useNavigate();
   const { profile } = useAuthStore();
 
   // Redirect if not Admin/boss
@@ -12,24 +13,33 @@ const Finance = () => {
     return <Navigate to="/" replace />;
   }
 
-  const sections = [
+  const sections: {
+    title: string;
+    description: string;
+    icon: typeof Calculator;
+    status: string;
+    href?: string;
+  }[] = [
     {
       title: 'Work Pricing',
       description: 'Calculate and manage pricing for construction work',
       icon: Calculator,
-      status: 'Coming Soon'
+      status: 'Available',
+      href: '/finance/pricing'
     },
     {
       title: 'Invoice Maker',
       description: 'Create and manage professional invoices',
       icon: FileText,
-      status: 'Coming Soon'
+      status: 'Available',
+      href: '/finance/invoices'
     },
     {
       title: 'Financial Overview',
       description: 'Track financial performance and metrics',
       icon: DollarSign,
-      status: 'Coming Soon'
+      status: 'Available',
+      href: '/finance/overview'
     }
   ];
 
@@ -46,9 +56,18 @@ const Finance = () => {
               <h2 className="text-xl font-semibold">{section.title}</h2>
             </div>
             <p className="text-gray-600 mb-4">{section.description}</p>
-            <span className="inline-block px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
-              {section.status}
-            </span>
+            {section.href ? (
+              <button
+                onClick={() => navigate(section.href!)}
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Open {section.title}
+              </button>
+            ) : (
+              <span className="inline-block px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
+                {section.status}
+              </span>
+            )}
           </div>
         ))}
       </div>
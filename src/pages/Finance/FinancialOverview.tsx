@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useAuthStore } from '../../lib/store';
+import { DollarSign, AlertCircle, ChevronDown, ChevronUp, TrendingUp, TrendingDown } from 'lucide-react';
+import BackButton from '../../components/BackButton';
+import { ProjectFinancials, fetchFinancialOverview } from '../../lib/financialOverview';
+
+type StatusFilter = ProjectFinancials['event']['status'] | 'active' | 'all';
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}£${Math.abs(value).toFixed(2)}`;
+
+const FinancialOverview = () => {
+  const { profile } = useAuthStore();
+  const navigate = useNavigate();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [expandedEvent, setExpandedEvent] = useState<string | null>(null);
+
+  const { data: projects = [], isLoading, error } = useQuery({
+    queryKey: ['financial_overview'],
+    queryFn: fetchFinancialOverview
+  });
+
+  // Redirect if not Admin/boss
+  if (profile?.role !== 'Admin' && profile?.role !== 'boss') {
+    return <Navigate to="/" replace />;
+  }
+
+  const filteredProjects = projects.filter(project => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'active') return project.event.status === 'in_progress' || project.event.status === 'finished';
+    return project.event.status === statusFilter;
+  });
+
+  const summary = filteredProjects.reduce((sum, project) => ({
+    quotedPrice: sum.quotedPrice + project.quotedPrice,
+    actualCost: sum.actualCost + project.actualCost,
+    forecastCost: sum.forecastCost + project.forecastCost,
+    overrun: sum.overrun + project.overrun,
+    margin: sum.margin + project.margin
+  }), { quotedPrice: 0, actualCost: 0, forecastCost: 0, overrun: 0, margin: 0 });
+
+  const summaryCards = [
+    { label: 'Quoted Value', value: summary.quotedPrice, className: 'text-gray-900' },
+    { label: 'Cost to Date', value: summary.actualCost, className: 'text-gray-900' },
+    { label: 'Forecast Cost', value: summary.forecastCost, className: 'text-gray-900' },
+    { label: 'Overrun', value: summary.overrun, className: summary.overrun > 0 ? 'text-red-600' : 'text-green-600' },
+    { label: 'Forecast Margin', value: summary.margin, className: summary.margin < 0 ? 'text-red-600' : 'text-green-600' }
+  ];
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <BackButton />
+      <div className="flex justify-between items-center">
+        <div className="flex items-center">
+          <DollarSign className="w-8 h-8 text-blue-600 mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">Financial Overview</h1>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        >
+          <option value="active">In progress & finished</option>
+          <option value="in_progress">In progress</option>
+          <option value="finished">Finished</option>
+          <option value="scheduled">Scheduled</option>
+          <option value="planned">Planned</option>
+          <option value="all">All projects</option>
+        </select>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {summaryCards.map(card => (
+          <div key={card.label} className="bg-white p-4 rounded-lg shadow-lg">
+            <p className="text-sm text-gray-500">{card.label}</p>
+            <p className={`text-2xl font-bold ${card.className}`}>{formatMoney(card.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-lg">
+        <p className="text-sm text-gray-600 mb-4">
+          Costs use the labour rates and material prices from Work Pricing. Overrun is the cost to date above the quoted cost of
+          the work completed so far; forecast margin is the quoted value less cost to date and cost to complete.
+        </p>
+
+        {isLoading ? (
+          <p className="text-center py-4">Loading projects...</p>
+        ) : error ? (
+          <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+            <AlertCircle className="w-5 h-5 mr-2" />
+            Failed to load financial overview
+          </div>
+        ) : filteredProjects.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No projects found</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Complete</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quoted</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quoted Cost</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost to Date</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Overrun</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost to Complete</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Margin</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredProjects.map(project => (
+                  <React.Fragment key={project.event.id}>
+                    <tr
+                      onClick={() => setExpandedEvent(expandedEvent === project.event.id ? null : project.event.id)}
+                      className="cursor-pointer hover:bg-gray-50 text-sm text-gray-700"
+                    >
+                      <td className="px-3 py-2 font-medium text-gray-900">
+                        <div className="flex items-center">
+                          {expandedEvent === project.event.id
+                            ? <ChevronUp className="w-4 h-4 mr-1" />
+                            : <ChevronDown className="w-4 h-4 mr-1" />}
+                          {project.event.title}
+                        </div>
+                        <span className="ml-5 text-xs text-gray-500">{project.event.status.replace('_', ' ')}</span>
+                      </td>
+                      <td className="px-3 py-2 text-right">{project.percentComplete.toFixed(0)}%</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(project.quotedPrice)}</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(project.quotedCost)}</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(project.actualCost)}</td>
+                      <td className={`px-3 py-2 text-right ${project.overrun > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        <span className="inline-flex items-center">
+                          {project.overrun > 0
+                            ? <TrendingUp className="w-4 h-4 mr-1" />
+                            : <TrendingDown className="w-4 h-4 mr-1" />}
+                          {formatMoney(project.overrun)}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-right">{formatMoney(project.costToComplete)}</td>
+                      <td className={`px-3 py-2 text-right font-semibold ${project.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatMoney(project.margin)}
+                        <span className="block text-xs font-normal text-gray-500">{project.marginPercent.toFixed(1)}%</span>
+                      </td>
+                    </tr>
+                    {expandedEvent === project.event.id && (
+                      <tr>
+                        <td colSpan={8} className="px-6 py-3 bg-gray-50">
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-xs text-gray-500 uppercase">
+                                <th className="py-1 text-left">Item</th>
+                                <th className="py-1 text-right">Planned</th>
+                                <th className="py-1 text-right">Actual</th>
+                                <th className="py-1 text-right">Est. Hours</th>
+                                <th className="py-1 text-right">Hours Spent</th>
+                                <th className="py-1 text-right">Quoted Cost</th>
+                                <th className="py-1 text-right">Cost to Date</th>
+                                <th className="py-1 text-right">Cost to Complete</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {project.lines.map(line => (
+                                <tr key={line.id} className="text-gray-600">
+                                  <td className="py-1">
+                                    {line.name}
+                                    <span className="ml-2 text-xs text-gray-400">{line.kind}</span>
+                                  </td>
+                                  <td className="py-1 text-right">{line.planned.toFixed(2)} {line.unit}</td>
+                                  <td className="py-1 text-right">{line.actual.toFixed(2)} {line.unit}</td>
+                                  <td className="py-1 text-right">{line.kind === 'labour' ? line.estimatedHours.toFixed(2) : '-'}</td>
+                                  <td className={`py-1 text-right ${line.actualHours > line.estimatedHours && line.kind === 'labour' ? 'text-red-600' : ''}`}>
+                                    {line.kind === 'labour' ? line.actualHours.toFixed(2) : '-'}
+                                  </td>
+                                  <td className="py-1 text-right">{formatMoney(line.quotedCost)}</td>
+                                  <td className="py-1 text-right">{formatMoney(line.actualCost)}</td>
+                                  <td className="py-1 text-right">{formatMoney(line.costToComplete)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {project.lines.length === 0 && (
+                            <p className="text-gray-500 py-2">This project has no tasks or materials</p>
+                          )}
+                          <div className="flex justify-end mt-3">
+                            <button
+                              onClick={() => navigate(`/events/${project.event.id}`)}
+                              className="text-blue-600 hover:underline"
+                            >
+                              Open project
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FinancialOverview;
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../lib/store';
+import { FileText, Printer, Download, Trash2, AlertCircle } from 'lucide-react';
+import BackButton from '../../components/BackButton';
+import {
+  INVOICE_STATUS_COLORS,
+  INVOICE_STATUS_LABELS,
+  INVOICE_TYPE_LABELS,
+  Invoice,
+  InvoiceItem,
+  InvoiceStatus,
+  formatInvoiceNumber,
+  getInvoiceStatus,
+  renderInvoiceHtml
+} from '../../lib/invoices';
+import { downloadHtmlDocument, printHtmlDocument } from '../../lib/documentExport';
+
+const formatMoney = (value: number) => `£${value.toFixed(2)}`;
+
+const InvoiceDetails = () => {
+  const { id } = useParams();
+  const { profile } = useAuthStore();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const { data: invoice, isLoading } = useQuery({
+    queryKey: ['invoice', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, events (id, title), invoice_items (*)')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      const items = [...(data.invoice_items || [])].sort((a: InvoiceItem, b: InvoiceItem) => a.sort_order - b.sort_order);
+      return { ...data, invoice_items: items } as Invoice & {
+        events: { id: string; title: string } | null;
+        invoice_items: InvoiceItem[];
+      };
+    },
+    enabled: !!id
+  });
+
+  const invalidateInvoice = () => {
+    queryClient.invalidateQueries({ queryKey: ['invoice', id] });
+    queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['event_invoices', invoice?.event_id] });
+    queryClient.invalidateQueries({ queryKey: ['invoice_source', invoice?.event_id] });
+  };
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async (status: InvoiceStatus) => {
+      const { error } = await supabase
+        .from('invoices')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidateInvoice
+  });
+
+  const deleteInvoiceMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('invoices')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateInvoice();
+      navigate('/finance/invoices');
+    }
+  });
+
+  // Redirect if not Admin/boss
+  if (profile?.role !== 'Admin' && profile?.role !== 'boss') {
+    return <Navigate to="/" replace />;
+  }
+
+  if (isLoading) {
+    return <div className="p-6 text-center">Loading invoice...</div>;
+  }
+
+  if (!invoice) {
+    return <div className="p-6 text-center">Invoice not found</div>;
+  }
+
+  const status = getInvoiceStatus(invoice);
+  const number = formatInvoiceNumber(invoice.invoice_number);
+  const projectTitle = invoice.events?.title || 'Unknown project';
+
+  const handlePrint = () => {
+    setExportError(null);
+    try {
+      printHtmlDocument(renderInvoiceHtml(invoice, invoice.invoice_items, projectTitle));
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to open the invoice for printing');
+    }
+  };
+
+  const handleDownload = () => {
+    downloadHtmlDocument(renderInvoiceHtml(invoice, invoice.invoice_items, projectTitle), `${number}.html`);
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <BackButton />
+      <div className="flex justify-between items-center">
+        <div className="flex items-center">
+          <FileText className="w-8 h-8 text-blue-600 mr-3" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{number}</h1>
+            <p className="text-gray-600">
+              {INVOICE_TYPE_LABELS[invoice.invoice_type]} invoice for{' '}
+              {invoice.events ? (
+                <button
+                  onClick={() => navigate(`/events/${invoice.events!.id}`)}
+                  className="text-blue-600 hover:underline"
+                >
+                  {projectTitle}
+                </button>
+              ) : projectTitle}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handlePrint}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print / PDF
+          </button>
+          <button
+            onClick={handleDownload}
+            className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            HTML
+          </button>
+        </div>
+      </div>
+
+      {exportError && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {exportError}
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-lg space-y-6">
+        <div className="grid md:grid-cols-3 gap-6 text-sm">
+          <div>
+            <h3 className="font-medium text-gray-700 mb-1">Bill to</h3>
+            <p className="text-gray-600 whitespace-pre-line">{invoice.bill_to || '-'}</p>
+          </div>
+          <div>
+            <h3 className="font-medium text-gray-700 mb-1">Dates</h3>
+            <p className="text-gray-600">Issued: {format(parseISO(invoice.issue_date), 'MMM dd, yyyy')}</p>
+            <p className="text-gray-600">
+              Due: {invoice.due_date ? format(parseISO(invoice.due_date), 'MMM dd, yyyy') : '-'}
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium text-gray-700 mb-1">Status</h3>
+            <select
+              value={status}
+              onChange={(e) => updateStatusMutation.mutate(e.target.value as InvoiceStatus)}
+              disabled={updateStatusMutation.isPending}
+              className={`px-3 py-1 rounded-full text-sm font-medium border ${INVOICE_STATUS_COLORS[status]}`}
+            >
+              {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map(option => (
+                <option key={option} value={option}>{INVOICE_STATUS_LABELS[option]}</option>
+              ))}
+            </select>
+            {updateStatusMutation.isError && (
+              <p className="text-sm text-red-600 mt-1">Failed to update status</p>
+            )}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Price</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invoice.invoice_items.map(item => (
+                <tr key={item.id} className="text-sm text-gray-700">
+                  <td className="px-3 py-2">{item.description}</td>
+                  <td className="px-3 py-2 text-right">{item.quantity} {item.unit}</td>
+                  <td className="px-3 py-2 text-right">{formatMoney(item.unit_price)}</td>
+                  <td className="px-3 py-2 text-right">{formatMoney(item.line_total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50 text-sm">
+              <tr>
+                <td colSpan={3} className="px-3 py-2 text-right">Subtotal</td>
+                <td className="px-3 py-2 text-right">{formatMoney(invoice.subtotal)}</td>
+              </tr>
+              <tr>
+                <td colSpan={3} className="px-3 py-2 text-right">VAT ({invoice.vat_rate}%)</td>
+                <td className="px-3 py-2 text-right">{formatMoney(invoice.vat_amount)}</td>
+              </tr>
+              <tr className="font-semibold text-gray-900">
+                <td colSpan={3} className="px-3 py-2 text-right">Total</td>
+                <td className="px-3 py-2 text-right">{formatMoney(invoice.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        {invoice.notes && (
+          <div className="text-sm">
+            <h3 className="font-medium text-gray-700 mb-1">Notes</h3>
+            <p className="text-gray-600 whitespace-pre-line">{invoice.notes}</p>
+          </div>
+        )}
+
+        {/* Only drafts can be deleted, issued invoices keep their number */}
+        {invoice.status === 'draft' && (
+          <div className="flex justify-end">
+            <button
+              onClick={() => {
+                if (window.confirm(`Delete draft ${number}?`)) {
+                  deleteInvoiceMutation.mutate();
+                }
+              }}
+              disabled={deleteInvoiceMutation.isPending}
+              className="flex items-center px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Draft
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceDetails;
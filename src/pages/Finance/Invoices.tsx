@@ -0,0 +1,392 @@
+import { useState, useMemo } from 'react';
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, addDays, parseISO } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../lib/store';
+import { FileText, Plus, AlertCircle, X } from 'lucide-react';
+import BackButton from '../../components/BackButton';
+import {
+  DEFAULT_PAYMENT_DAYS,
+  DEFAULT_VAT_RATE,
+  INVOICE_STATUS_COLORS,
+  INVOICE_STATUS_LABELS,
+  INVOICE_TYPE_LABELS,
+  Invoice,
+  InvoiceStatus,
+  InvoiceType,
+  buildInvoiceLines,
+  calculateInvoiceTotals,
+  fetchInvoiceSource,
+  formatInvoiceNumber,
+  getInvoiceStatus
+} from '../../lib/invoices';
+
+const formatMoney = (value: number) => `£${value.toFixed(2)}`;
+
+const Invoices = () => {
+  const { profile, user } = useAuthStore();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'all'>('all');
+  const [showCreate, setShowCreate] = useState(!!searchParams.get('event'));
+  const [form, setForm] = useState({
+    eventId: searchParams.get('event') || '',
+    invoiceType: 'final' as InvoiceType,
+    vatRate: DEFAULT_VAT_RATE,
+    paymentDays: DEFAULT_PAYMENT_DAYS,
+    depositPercent: 25,
+    billTo: '',
+    notes: ''
+  });
+
+  // Fetch events that can be invoiced
+  const { data: events = [] } = useQuery({
+    queryKey: ['invoice_events'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, title, status, start_date')
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: invoices = [], isLoading } = useQuery({
+    queryKey: ['invoices'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, events (title)')
+        .order('invoice_number', { ascending: false });
+
+      if (error) throw error;
+      return data as (Invoice & { events: { title: string } | null })[];
+    }
+  });
+
+  const { data: source, isLoading: isSourceLoading, error: sourceError } = useQuery({
+    queryKey: ['invoice_source', form.eventId],
+    queryFn: () => fetchInvoiceSource(form.eventId),
+    enabled: showCreate && !!form.eventId
+  });
+
+  const selectedEvent = events.find(event => event.id === form.eventId);
+  const isFinalBlocked = form.invoiceType === 'final' && !!selectedEvent && selectedEvent.status !== 'finished';
+
+  const lines = useMemo(
+    () => (source ? buildInvoiceLines(form.invoiceType, source, form.depositPercent) : []),
+    [source, form.invoiceType, form.depositPercent]
+  );
+  const totals = calculateInvoiceTotals(lines, form.vatRate);
+
+  const createInvoiceMutation = useMutation({
+    mutationFn: async () => {
+      const issueDate = new Date();
+      // The number, the invoice and its lines are saved in one transaction
+      const { data: invoice, error } = await supabase.rpc('create_invoice', {
+        p_invoice: {
+          event_id: form.eventId,
+          invoice_type: form.invoiceType,
+          bill_to: form.billTo || null,
+          issue_date: format(issueDate, 'yyyy-MM-dd'),
+          due_date: format(addDays(issueDate, form.paymentDays), 'yyyy-MM-dd'),
+          vat_rate: form.vatRate,
+          notes: form.notes || null,
+          created_by: user?.id,
+          ...totals
+        },
+        p_items: lines.map((line, index) => ({ ...line, sort_order: index }))
+      });
+
+      if (error) throw error;
+
+      return invoice as Invoice;
+    },
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['event_invoices', invoice.event_id] });
+      queryClient.invalidateQueries({ queryKey: ['invoice_source', invoice.event_id] });
+      navigate(`/finance/invoices/${invoice.id}`);
+    }
+  });
+
+  // Redirect if not Admin/boss
+  if (profile?.role !== 'Admin' && profile?.role !== 'boss') {
+    return <Navigate to="/" replace />;
+  }
+
+  const filteredInvoices = invoices.filter(invoice =>
+    statusFilter === 'all' || getInvoiceStatus(invoice) === statusFilter
+  );
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <BackButton />
+      <div className="flex justify-between items-center">
+        <div className="flex items-center">
+          <FileText className="w-8 h-8 text-blue-600 mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">Invoices</h1>
+        </div>
+        {!showCreate && (
+          <button
+            onClick={() => setShowCreate(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Invoice
+          </button>
+        )}
+      </div>
+
+      {/* New Invoice */}
+      {showCreate && (
+        <div className="bg-white p-6 rounded-lg shadow-lg space-y-6">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold">New Invoice</h2>
+            <button onClick={() => setShowCreate(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Project</label>
+              <select
+                value={form.eventId}
+                onChange={(e) => setForm(prev => ({ ...prev, eventId: e.target.value }))}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="">Select a project to invoice</option>
+                {events.map(event => (
+                  <option key={event.id} value={event.id}>
+                    {event.title} ({event.status.replace('_', ' ')})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Invoice type</label>
+              <select
+                value={form.invoiceType}
+                onChange={(e) => setForm(prev => ({ ...prev, invoiceType: e.target.value as InvoiceType }))}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="final">Final - remaining completed work, less deposits</option>
+                <option value="stage">Stage - work completed since the last invoice</option>
+                <option value="deposit">Deposit - percentage of the priced total</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-3 gap-4 md:col-span-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">VAT (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={form.vatRate}
+                  onChange={(e) => setForm(prev => ({ ...prev, vatRate: parseFloat(e.target.value) || 0 }))}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Payment terms (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.paymentDays}
+                  onChange={(e) => setForm(prev => ({ ...prev, paymentDays: parseInt(e.target.value) || 0 }))}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              {form.invoiceType === 'deposit' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Deposit (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={form.depositPercent}
+                    onChange={(e) => setForm(prev => ({ ...prev, depositPercent: parseFloat(e.target.value) || 0 }))}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Bill to</label>
+              <textarea
+                value={form.billTo}
+                onChange={(e) => setForm(prev => ({ ...prev, billTo: e.target.value }))}
+                rows={3}
+                placeholder="Client name and address"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <textarea
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={3}
+                placeholder="Payment details, terms..."
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          {isFinalBlocked && (
+            <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+              A final invoice can only be raised once the project is finished. Use a stage invoice for work completed so far.
+            </div>
+          )}
+
+          {form.eventId && (
+            isSourceLoading ? (
+              <p className="text-center py-4">Loading completed work...</p>
+            ) : sourceError ? (
+              <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+                <AlertCircle className="w-5 h-5 mr-2" />
+                Failed to load project progress
+              </div>
+            ) : source && (
+              <div className="space-y-4">
+                {source.pricing.missingPrices.length > 0 && (
+                  <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+                    No price set for: {source.pricing.missingPrices.join(', ')}. Add prices in Setup &gt; Materials.
+                  </div>
+                )}
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Price</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {lines.map((line, index) => (
+                        <tr key={`${line.source_id}-${index}`} className="text-sm text-gray-700">
+                          <td className="px-3 py-2">{line.description}</td>
+                          <td className="px-3 py-2 text-right">{line.quantity} {line.unit}</td>
+                          <td className="px-3 py-2 text-right">{formatMoney(line.unit_price)}</td>
+                          <td className="px-3 py-2 text-right">{formatMoney(line.line_total)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50 text-sm">
+                      <tr>
+                        <td colSpan={3} className="px-3 py-2 text-right">Subtotal</td>
+                        <td className="px-3 py-2 text-right">{formatMoney(totals.subtotal)}</td>
+                      </tr>
+                      <tr>
+                        <td colSpan={3} className="px-3 py-2 text-right">VAT ({form.vatRate}%)</td>
+                        <td className="px-3 py-2 text-right">{formatMoney(totals.vat_amount)}</td>
+                      </tr>
+                      <tr className="font-semibold text-gray-900">
+                        <td colSpan={3} className="px-3 py-2 text-right">Total</td>
+                        <td className="px-3 py-2 text-right">{formatMoney(totals.total)}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+                {lines.length === 0 && (
+                  <p className="text-center text-gray-500 py-4">Nothing left to invoice for this project</p>
+                )}
+              </div>
+            )
+          )}
+
+          {createInvoiceMutation.isError && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to create invoice
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => createInvoiceMutation.mutate()}
+              disabled={!form.eventId || lines.length === 0 || isFinalBlocked || createInvoiceMutation.isPending}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              {createInvoiceMutation.isPending ? 'Creating...' : 'Create Draft Invoice'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Invoice List */}
+      <div className="bg-white p-6 rounded-lg shadow-lg">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">All Invoices</h2>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as InvoiceStatus | 'all')}
+            className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map(status => (
+              <option key={status} value={status}>{INVOICE_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center py-4">Loading invoices...</p>
+        ) : filteredInvoices.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No invoices found</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Number</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredInvoices.map(invoice => {
+                  const status = getInvoiceStatus(invoice);
+                  return (
+                    <tr
+                      key={invoice.id}
+                      onClick={() => navigate(`/finance/invoices/${invoice.id}`)}
+                      className="cursor-pointer hover:bg-gray-50 text-sm text-gray-700"
+                    >
+                      <td className="px-3 py-2 font-medium text-gray-900">{formatInvoiceNumber(invoice.invoice_number)}</td>
+                      <td className="px-3 py-2">{invoice.events?.title || 'Unknown project'}</td>
+                      <td className="px-3 py-2">{INVOICE_TYPE_LABELS[invoice.invoice_type]}</td>
+                      <td className="px-3 py-2">{format(parseISO(invoice.issue_date), 'MMM dd, yyyy')}</td>
+                      <td className="px-3 py-2">{invoice.due_date ? format(parseISO(invoice.due_date), 'MMM dd, yyyy') : '-'}</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(invoice.total)}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${INVOICE_STATUS_COLORS[status]}`}>
+                          {INVOICE_STATUS_LABELS[status]}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Invoices;
@@ -0,0 +1,384 @@
+import React, { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../lib/store';
+import { Calculator, Settings, Save, AlertCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import BackButton from '../../components/BackButton';
+import {
+  DEFAULT_PRICING_SETTINGS,
+  LabourRate,
+  fetchLabourRates,
+  fetchPricingSettings,
+  fetchWorkPricing
+} from '../../lib/pricing';
+
+const ROLE_LABELS: Record<LabourRate['role'], string> = {
+  user: 'User',
+  Team_Leader: 'Team Leader',
+  project_manager: 'Project Manager',
+  Admin: 'Admin'
+};
+
+const formatMoney = (value: number) => `£${value.toFixed(2)}`;
+
+const WorkPricing = () => {
+  const { profile } = useAuthStore();
+  const queryClient = useQueryClient();
+  const [selectedEventId, setSelectedEventId] = useState<string>('');
+  const [showSettings, setShowSettings] = useState(false);
+  const [expandedTask, setExpandedTask] = useState<string | null>(null);
+  const [settingsForm, setSettingsForm] = useState(DEFAULT_PRICING_SETTINGS);
+  const [ratesForm, setRatesForm] = useState<Pick<LabourRate, 'role' | 'hourly_rate' | 'crew_share'>[]>([]);
+
+  // Fetch events to price
+  const { data: events = [] } = useQuery({
+    queryKey: ['pricing_events'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, title, status, start_date')
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['pricing_settings'],
+    queryFn: fetchPricingSettings
+  });
+
+  const { data: labourRates } = useQuery({
+    queryKey: ['labour_rates'],
+    queryFn: fetchLabourRates
+  });
+
+  const { data: pricing, isLoading: isPricingLoading, error: pricingError } = useQuery({
+    queryKey: ['work_pricing', selectedEventId],
+    queryFn: () => fetchWorkPricing(selectedEventId),
+    enabled: !!selectedEventId
+  });
+
+  // Keep the settings form in sync with the stored configuration
+  useEffect(() => {
+    if (settings) {
+      setSettingsForm({
+        material_markup_percent: settings.material_markup_percent,
+        overhead_percent: settings.overhead_percent,
+        profit_margin_percent: settings.profit_margin_percent
+      });
+    }
+  }, [settings]);
+
+  useEffect(() => {
+    if (!labourRates) return;
+    setRatesForm(labourRates.map(rate => ({
+      role: rate.role,
+      hourly_rate: rate.hourly_rate,
+      crew_share: rate.crew_share
+    })));
+  }, [labourRates]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      if (settings?.id) {
+        const { error } = await supabase
+          .from('pricing_settings')
+          .update({ ...settingsForm, updated_at: new Date().toISOString() })
+          .eq('id', settings.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('pricing_settings')
+          .insert([settingsForm]);
+        if (error) throw error;
+      }
+
+      if (ratesForm.length > 0) {
+        const { error: ratesError } = await supabase
+          .from('labour_rates')
+          .upsert(ratesForm, { onConflict: 'role' });
+        if (ratesError) throw ratesError;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pricing_settings'] });
+      queryClient.invalidateQueries({ queryKey: ['labour_rates'] });
+      queryClient.invalidateQueries({ queryKey: ['work_pricing'] });
+      setShowSettings(false);
+    }
+  });
+
+  // Redirect if not Admin/boss
+  if (profile?.role !== 'Admin' && profile?.role !== 'boss') {
+    return <Navigate to="/" replace />;
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <BackButton />
+      <div className="flex items-center">
+        <Calculator className="w-8 h-8 text-blue-600 mr-3" />
+        <h1 className="text-3xl font-bold text-gray-900">Work Pricing</h1>
+      </div>
+
+      {/* Project Selection */}
+      <div className="bg-white p-6 rounded-lg shadow-lg">
+        <div className="flex justify-between items-end gap-4">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700">Project</label>
+            <select
+              value={selectedEventId}
+              onChange={(e) => setSelectedEventId(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">Select a project to price</option>
+              {events.map(event => (
+                <option key={event.id} value={event.id}>
+                  {event.title} ({event.status.replace('_', ' ')})
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <Settings className="w-4 h-4 mr-2" />
+            Rates & Markups
+          </button>
+        </div>
+      </div>
+
+      {/* Pricing Settings */}
+      {showSettings && (
+        <div className="bg-white p-6 rounded-lg shadow-lg space-y-6">
+          <div>
+            <h2 className="text-xl font-semibold mb-4">Labour Rates</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Hourly rate per role. Crew share is the weight of the role in a typical crew: each task's hours are split between the roles by it and priced at each role's rate.
+            </p>
+            <div className="space-y-3">
+              {ratesForm.map((rate, index) => (
+                <div key={rate.role} className="grid grid-cols-3 gap-4 items-center">
+                  <span className="text-sm font-medium text-gray-700">{ROLE_LABELS[rate.role] || rate.role}</span>
+                  <div>
+                    <label className="block text-xs text-gray-500">Hourly rate (£)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={rate.hourly_rate}
+                      onChange={(e) => {
+                        const newRates = [...ratesForm];
+                        newRates[index] = { ...newRates[index], hourly_rate: parseFloat(e.target.value) || 0 };
+                        setRatesForm(newRates);
+                      }}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500">Crew share</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={rate.crew_share}
+                      onChange={(e) => {
+                        const newRates = [...ratesForm];
+                        newRates[index] = { ...newRates[index], crew_share: parseFloat(e.target.value) || 0 };
+                        setRatesForm(newRates);
+                      }}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              ))}
+              {ratesForm.length === 0 && (
+                <p className="text-sm text-gray-500">No labour rates configured</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-xl font-semibold mb-4">Markups & Overheads</h2>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Material markup (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={settingsForm.material_markup_percent}
+                  onChange={(e) => setSettingsForm(prev => ({ ...prev, material_markup_percent: parseFloat(e.target.value) || 0 }))}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Overhead (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={settingsForm.overhead_percent}
+                  onChange={(e) => setSettingsForm(prev => ({ ...prev, overhead_percent: parseFloat(e.target.value) || 0 }))}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Profit margin (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={settingsForm.profit_margin_percent}
+                  onChange={(e) => setSettingsForm(prev => ({ ...prev, profit_margin_percent: parseFloat(e.target.value) || 0 }))}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          </div>
+
+          {saveSettingsMutation.isError && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to save pricing settings
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => saveSettingsMutation.mutate()}
+              disabled={saveSettingsMutation.isPending}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saveSettingsMutation.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Priced Breakdown */}
+      {selectedEventId && (
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          {isPricingLoading ? (
+            <p className="text-center py-4">Pricing project...</p>
+          ) : pricingError ? (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to price this project
+            </div>
+          ) : pricing && (
+            <div className="space-y-6">
+              <h2 className="text-xl font-semibold">Priced Breakdown</h2>
+
+              {pricing.missingPrices.length > 0 && (
+                <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+                  No price set for: {pricing.missingPrices.join(', ')}. Add prices in Setup &gt; Materials.
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Main Task</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Hours</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Labour</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Materials</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Markup</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Overhead</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Profit</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {pricing.mainTasks.map(mainTask => (
+                      <React.Fragment key={mainTask.name}>
+                        <tr
+                          onClick={() => setExpandedTask(expandedTask === mainTask.name ? null : mainTask.name)}
+                          className="cursor-pointer hover:bg-gray-50 text-sm text-gray-700"
+                        >
+                          <td className="px-3 py-2 font-medium text-gray-900 flex items-center">
+                            {expandedTask === mainTask.name
+                              ? <ChevronUp className="w-4 h-4 mr-1" />
+                              : <ChevronDown className="w-4 h-4 mr-1" />}
+                            {mainTask.name}
+                          </td>
+                          <td className="px-3 py-2 text-right">{mainTask.hours.toFixed(2)}</td>
+                          <td className="px-3 py-2 text-right">{formatMoney(mainTask.labourCost)}</td>
+                          <td className="px-3 py-2 text-right">{formatMoney(mainTask.materialCost)}</td>
+                          <td className="px-3 py-2 text-right">{formatMoney(mainTask.materialMarkup)}</td>
+                          <td className="px-3 py-2 text-right">{formatMoney(mainTask.overhead)}</td>
+                          <td className="px-3 py-2 text-right">{formatMoney(mainTask.profit)}</td>
+                          <td className="px-3 py-2 text-right font-semibold">{formatMoney(mainTask.total)}</td>
+                        </tr>
+                        {expandedTask === mainTask.name && (
+                          <tr>
+                            <td colSpan={8} className="px-6 py-3 bg-gray-50">
+                              <div className="grid md:grid-cols-2 gap-6 text-sm">
+                                <div>
+                                  <h4 className="font-medium text-gray-700 mb-2">Labour</h4>
+                                  {mainTask.tasks.length === 0 && <p className="text-gray-500">No tasks</p>}
+                                  {mainTask.labour.map(line => (
+                                    <div key={line.role} className="flex justify-between text-gray-700 font-medium">
+                                      <span>{ROLE_LABELS[line.role] || line.role} <span className="text-gray-400 font-normal">({formatMoney(line.hourlyRate)}/hour)</span></span>
+                                      <span>{line.hours.toFixed(2)} h · {formatMoney(line.cost)}</span>
+                                    </div>
+                                  ))}
+                                  {mainTask.tasks.map(task => (
+                                    <div key={task.id} className="flex justify-between text-gray-600">
+                                      <span>{task.name} <span className="text-gray-400">({task.amount})</span></span>
+                                      <span>{task.hours.toFixed(2)} h · {formatMoney(task.labourCost)}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                                <div>
+                                  <h4 className="font-medium text-gray-700 mb-2">Materials</h4>
+                                  {mainTask.materials.length === 0 && <p className="text-gray-500">No materials</p>}
+                                  {mainTask.materials.map(material => (
+                                    <div key={material.id} className="flex justify-between text-gray-600">
+                                      <span>{material.name} <span className="text-gray-400">({material.quantity.toFixed(2)} {material.unit})</span></span>
+                                      <span>
+                                        {material.unitPrice !== null ? `${formatMoney(material.unitPrice)} · ${formatMoney(material.cost)}` : 'N/A'}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-gray-50">
+                    <tr className="text-sm font-semibold text-gray-900">
+                      <td className="px-3 py-2">Total</td>
+                      <td className="px-3 py-2 text-right">{pricing.totals.hours.toFixed(2)}</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(pricing.totals.labourCost)}</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(pricing.totals.materialCost)}</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(pricing.totals.materialMarkup)}</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(pricing.totals.overhead)}</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(pricing.totals.profit)}</td>
+                      <td className="px-3 py-2 text-right">{formatMoney(pricing.totals.total)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+
+              {pricing.mainTasks.length === 0 && (
+                <p className="text-center text-gray-500 py-4">This project has no tasks or materials to price</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkPricing;
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import { Navigate, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../lib/store';
-import { Clock, BarChart2, Users, UserMinus, Settings, Trash2, FolderPlus } from 'lucide-react';
+import { Clock, BarChart2, Users, UserMinus, Settings, Trash2, FolderPlus, FolderOpen } from 'lucide-react';
 import BackButton from '../components/BackButton';
 import WeeklyWorkerHoursModal from '../components/ProjectManagement/WeeklyWorkerHoursModal';
 import UserAuthorizationModal from '../components/ProjectManagement/UserAuthorizationModal';
 import DeleteUserModal from '../components/ProjectManagement/DeleteUserModal';
 import RemovingRecords from './ProjectManagement/RemovingRecords';
+import ProjectDraftsModal from '../components/ProjectManagement/ProjectDraftsModal';
 
 const ProjectManagement = () => {
   const navigate = useNavigate();
@@ -15,6 +16,7 @@ const ProjectManagement = () => {
   const [showUserAuthorization, setShowUserAuthorization] = React.useState(false);
   const [showDeleteUser, setShowDeleteUser] = React.useState(false);
   const [showRemovingRecords, setShowRemovingRecords] = useState(false);
+  const [showProjectDrafts, setShowProjectDrafts] = useState(false);
 
   // Redirect if not Admin/boss
   if (profile?.role !== 'Admin' && profile?.role !== 'boss') {
@@ -44,6 +46,23 @@ const ProjectManagement = () => {
           </button>
         </div>
 
+        {/* Project Drafts */}
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <div className="flex items-center mb-4">
+            <FolderOpen className="w-6 h-6 text-indigo-600 mr-3" />
+            <h2 className="text-xl font-semibold">Project Drafts</h2>
+          </div>
+          <p className="text-gray-600 mb-4">
+            Resume unfinished project plans saved while creating a project.
+          </p>
+          <button
+            onClick={() => setShowProjectDrafts(true)}
+            className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors"
+          >
+            View Drafts
+          </button>
+        </div>
+
         {/* Weekly Worker Hours */}
         <div className="bg-white p-6 rounded-lg shadow-lg">
           <div className="flex items-center mb-4">
@@ -160,6 +179,9 @@ const ProjectManagement = () => {
       {showRemovingRecords && (
         <RemovingRecords onClose={() => setShowRemovingRecords(false)} />
       )}
+      {showProjectDrafts && (
+        <ProjectDraftsModal onClose={() => setShowProjectDrafts(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../../../lib/supabase';
+import { Link2, X, Info, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  CALCULATOR_OUTPUTS,
+  fetchCalculatorTaskMappings,
+  findUnboundOutputs,
+  listGroundworksOutputs,
+  saveCalculatorTaskMapping
+} from '../../../lib/calculatorTaskMappings';
+
+interface Task {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+interface DiggingEquipment {
+  id: string;
+  name: string;
+  type: 'excavator' | 'barrows_dumpers';
+  "size (in tones)": number | null;
+}
+
+interface SetupCalculatorMappingsProps {
+  onClose: () => void;
+}
+
+const SetupCalculatorMappings: React.FC<SetupCalculatorMappingsProps> = ({ onClose }) => {
+  const queryClient = useQueryClient();
+  const [showInfo, setShowInfo] = useState(false);
+  const [showUnboundOnly, setShowUnboundOnly] = useState(false);
+
+  // Fetch tasks
+  const { data: tasks = [] } = useQuery({
+    queryKey: ['event_tasks'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('event_tasks')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data as Task[];
+    }
+  });
+
+  // Fetch digging equipment, groundworks outputs exist per machine combination
+  const { data: diggingEquipment = [] } = useQuery({
+    queryKey: ['setup_digging'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('setup_digging')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data as DiggingEquipment[];
+    }
+  });
+
+  const { data: mappings = [], isLoading } = useQuery({
+    queryKey: ['calculator_task_mappings'],
+    queryFn: fetchCalculatorTaskMappings
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: ({ outputKey, eventTaskId }: { outputKey: string; eventTaskId: string | null }) =>
+      saveCalculatorTaskMapping(outputKey, eventTaskId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calculator_task_mappings'] });
+      queryClient.invalidateQueries({ queryKey: ['mapped_task_templates'] });
+    }
+  });
+
+  const outputs = [
+    ...CALCULATOR_OUTPUTS,
+    ...listGroundworksOutputs(
+      diggingEquipment.filter(item => item.type === 'excavator'),
+      diggingEquipment.filter(item => item.type === 'barrows_dumpers')
+    )
+  ];
+  const unboundOutputs = findUnboundOutputs(outputs, mappings);
+  const visibleOutputs = showUnboundOnly ? unboundOutputs : outputs;
+
+  const boundTaskId = (outputKey: string) =>
+    mappings.find(mapping => mapping.output_key === outputKey)?.event_task_id || '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b flex justify-between items-center">
+          <div className="flex items-center">
+            <Link2 className="w-5 h-5 text-gray-700 mr-2" />
+            <h2 className="text-lg font-semibold">Calculator Tasks</h2>
+          </div>
+          <div className="flex items-center">
+            <button
+              onClick={() => setShowInfo(!showInfo)}
+              className="text-gray-500 hover:text-gray-700 mr-4"
+            >
+              <Info className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-full hover:bg-gray-200 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto space-y-4">
+          {showInfo && (
+            <div className="bg-gray-100 p-3 rounded-lg text-sm">
+              <p className="text-gray-700">
+                Each calculator result is logged against the task chosen here, which also sets its time estimate. Outputs without a task are added to projects without a task template, so workers' progress on them won't improve your estimates.
+              </p>
+            </div>
+          )}
+
+          {/* Validation report */}
+          {!isLoading && (unboundOutputs.length > 0 ? (
+            <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+              <div className="flex items-center font-medium mb-1">
+                <AlertCircle className="w-4 h-4 mr-2" />
+                {unboundOutputs.length} calculator output{unboundOutputs.length !== 1 ? 's have' : ' has'} no task bound
+              </div>
+              <ul className="list-disc list-inside">
+                {unboundOutputs.map(output => (
+                  <li key={output.key}>{output.calculator}: {output.label}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div className="p-3 bg-green-50 text-green-800 rounded-md text-sm flex items-center">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              All calculator outputs are bound to a task
+            </div>
+          ))}
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showUnboundOnly}
+              onChange={(e) => setShowUnboundOnly(e.target.checked)}
+              className="mr-2"
+            />
+            Show unbound outputs only
+          </label>
+
+          <div className="border rounded">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Calculator</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Output</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Task</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleOutputs.map(output => (
+                  <tr key={output.key}>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{output.calculator}</td>
+                    <td className="px-3 py-2 text-sm font-medium text-gray-900">{output.label}</td>
+                    <td className="px-3 py-2 text-sm">
+                      <select
+                        value={boundTaskId(output.key)}
+                        onChange={(e) => saveMappingMutation.mutate({ outputKey: output.key, eventTaskId: e.target.value || null })}
+                        disabled={saveMappingMutation.isPending}
+                        className={`w-full p-1 border rounded text-sm ${boundTaskId(output.key) ? '' : 'border-yellow-400'}`}
+                      >
+                        <option value="">Not bound</option>
+                        {tasks.map(task => (
+                          <option key={task.id} value={task.id}>
+                            {task.name}{task.unit ? ` (${task.unit})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleOutputs.length === 0 && (
+              <p className="text-center text-gray-500 py-4 text-sm">No outputs to show</p>
+            )}
+          </div>
+
+          {saveMappingMutation.isError && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to save the task binding
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetupCalculatorMappings;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { CalendarOff, X, Info, Trash2, Plus, AlertCircle } from 'lucide-react';
+import { fetchCompanyHolidays } from '../../../lib/eventSchedule';
+
+interface SetupHolidaysProps {
+  onClose: () => void;
+}
+
+const SetupHolidays: React.FC<SetupHolidaysProps> = ({ onClose }) => {
+  const queryClient = useQueryClient();
+  const [showInfo, setShowInfo] = useState(false);
+  const [newHoliday, setNewHoliday] = useState({ holiday_date: '', name: '' });
+
+  const { data: holidays = [], isLoading } = useQuery({
+    queryKey: ['company_holidays'],
+    queryFn: fetchCompanyHolidays
+  });
+
+  // Add holiday mutation
+  const addHolidayMutation = useMutation({
+    mutationFn: async (holiday: { holiday_date: string; name: string }) => {
+      const { error } = await supabase
+        .from('company_holidays')
+        .insert([holiday]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company_holidays'] });
+      setNewHoliday({ holiday_date: '', name: '' });
+    }
+  });
+
+  // Delete holiday mutation
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('company_holidays')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company_holidays'] });
+    }
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b flex justify-between items-center">
+          <div className="flex items-center">
+            <CalendarOff className="w-5 h-5 text-gray-700 mr-2" />
+            <h2 className="text-lg font-semibold">Company Holidays</h2>
+          </div>
+          <div className="flex items-center">
+            <button
+              onClick={() => setShowInfo(!showInfo)}
+              className="text-gray-500 hover:text-gray-700 mr-4"
+            >
+              <Info className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-full hover:bg-gray-200 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto space-y-4">
+          {showInfo && (
+            <div className="bg-gray-100 p-3 rounded-lg text-sm">
+              <p className="text-gray-700">
+                Nobody is scheduled to work on these days. Weekends are always skipped, add bank holidays and the days the company is closed here.
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Date</label>
+              <input
+                type="date"
+                value={newHoliday.holiday_date}
+                onChange={(e) => setNewHoliday({ ...newHoliday, holiday_date: e.target.value })}
+                className="mt-1 p-1 border rounded text-sm"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                value={newHoliday.name}
+                onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                placeholder="e.g. Christmas Day"
+                className="mt-1 w-full p-1 border rounded text-sm"
+              />
+            </div>
+            <button
+              onClick={() => addHolidayMutation.mutate(newHoliday)}
+              disabled={!newHoliday.holiday_date || !newHoliday.name || addHolidayMutation.isPending}
+              className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </button>
+          </div>
+
+          {isLoading ? (
+            <p className="text-center py-4">Loading holidays...</p>
+          ) : holidays.length === 0 ? (
+            <p className="text-center text-gray-500 py-4 text-sm">No holidays added</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 border rounded">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {holidays.map(holiday => (
+                  <tr key={holiday.id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {format(parseISO(holiday.holiday_date), 'EEE, MMM d, yyyy')}
+                    </td>
+                    <td className="px-3 py-2 text-sm font-medium text-gray-900">{holiday.name}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                        disabled={deleteHolidayMutation.isPending}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {(addHolidayMutation.isError || deleteHolidayMutation.isError) && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to save holidays
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetupHolidays;
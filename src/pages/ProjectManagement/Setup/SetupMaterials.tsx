@@ -9,9 +9,38 @@ interface Material {
   description: string | null;
   unit: string;
   price: number | null;
+  density: number | null;
+  pack_size: number | null;
+  pack_unit: string | null;
+  wastage_percent: number;
   created_at?: string;
 }
 
+// Numeric inputs are kept as strings while editing
+type MaterialForm = {
+  name: string;
+  description: string;
+  unit: string;
+  price: string;
+  density: string;
+  pack_size: string;
+  pack_unit: string;
+  wastage_percent: string;
+};
+
+const EMPTY_MATERIAL_FORM: MaterialForm = {
+  name: '',
+  description: '',
+  unit: '',
+  price: '',
+  density: '',
+  pack_size: '',
+  pack_unit: '',
+  wastage_percent: ''
+};
+
+const toNumberOrNull = (value: string) => value !== '' ? parseFloat(value) : null;
+
 interface SetupMaterialsProps {
   onClose: () => void;
 }
@@ -20,14 +49,9 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
   const queryClient = useQueryClient();
   const [materialSearch, setMaterialSearch] = useState('');
   const [showMaterialInfo, setShowMaterialInfo] = useState(false);
-  const [newMaterial, setNewMaterial] = useState({ 
-    name: '', 
-    description: '', 
-    unit: '', 
-    price: '' // Using string for input, will convert to number or null when submitting
-  });
+  const [newMaterial, setNewMaterial] = useState<MaterialForm>(EMPTY_MATERIAL_FORM);
   const [editingMaterialId, setEditingMaterialId] = useState<string | null>(null);
-  const [editMaterial, setEditMaterial] = useState<Material | null>(null);
+  const [editMaterial, setEditMaterial] = useState<MaterialForm | null>(null);
 
   // Fetch materials
   const { data: materials = [] } = useQuery({
@@ -45,17 +69,18 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
 
   // Add material mutation
   const addMaterialMutation = useMutation({
-    mutationFn: async (material: Omit<Material, 'id' | 'created_at'>) => {
-      // Convert price to number or null
-      const price = material.price !== '' ? parseFloat(material.price as string) : null;
-      
+    mutationFn: async (material: MaterialForm) => {
       const { data, error } = await supabase
         .from('materials')
         .insert([{
           name: material.name,
           description: material.description || null,
           unit: material.unit,
-          price: price
+          price: toNumberOrNull(material.price),
+          density: toNumberOrNull(material.density),
+          pack_size: toNumberOrNull(material.pack_size),
+          pack_unit: material.pack_unit || null,
+          wastage_percent: toNumberOrNull(material.wastage_percent) || 0
         }])
         .select();
       
@@ -64,7 +89,8 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['materials'] });
-      setNewMaterial({ name: '', description: '', unit: '', price: '' });
+      queryClient.invalidateQueries({ queryKey: ['material_properties'] });
+      setNewMaterial(EMPTY_MATERIAL_FORM);
     }
   });
 
@@ -80,24 +106,26 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['materials'] });
+      queryClient.invalidateQueries({ queryKey: ['material_properties'] });
     }
   });
 
   // Edit material mutation
   const editMaterialMutation = useMutation({
-    mutationFn: async (material: Material) => {
-      // Convert price to number or null
-      const price = material.price !== '' ? parseFloat(material.price as unknown as string) : null;
-      
+    mutationFn: async ({ id, material }: { id: string; material: MaterialForm }) => {
       const { data, error } = await supabase
         .from('materials')
         .update({
           name: material.name,
-          description: material.description,
+          description: material.description || null,
           unit: material.unit,
-          price: price
+          price: toNumberOrNull(material.price),
+          density: toNumberOrNull(material.density),
+          pack_size: toNumberOrNull(material.pack_size),
+          pack_unit: material.pack_unit || null,
+          wastage_percent: toNumberOrNull(material.wastage_percent) || 0
         })
-        .eq('id', material.id)
+        .eq('id', id)
         .select();
       
       if (error) throw error;
@@ -105,6 +133,7 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['materials'] });
+      queryClient.invalidateQueries({ queryKey: ['material_properties'] });
       setEditingMaterialId(null);
       setEditMaterial(null);
     }
@@ -125,19 +154,24 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
 
   // Handle editing materials
   const handleEditMaterial = (material: Material) => {
-    // Convert null price to empty string for the input
-    const materialForEdit = {
-      ...material,
-      price: material.price !== null ? material.price : ''
-    };
-    setEditMaterial(materialForEdit);
+    // Convert empty numbers to empty strings for the inputs
+    setEditMaterial({
+      name: material.name,
+      description: material.description || '',
+      unit: material.unit,
+      price: material.price !== null ? material.price.toString() : '',
+      density: material.density !== null ? material.density.toString() : '',
+      pack_size: material.pack_size !== null ? material.pack_size.toString() : '',
+      pack_unit: material.pack_unit || '',
+      wastage_percent: material.wastage_percent ? material.wastage_percent.toString() : ''
+    });
     setEditingMaterialId(material.id);
   };
 
   // Handle saving material edits
   const handleSaveEdit = () => {
-    if (editMaterial) {
-      editMaterialMutation.mutate(editMaterial);
+    if (editMaterial && editingMaterialId) {
+      editMaterialMutation.mutate({ id: editingMaterialId, material: editMaterial });
     }
   };
 
@@ -147,9 +181,15 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
     return `£${price.toFixed(2)}`;
   };
 
+  // Format pack size for display
+  const formatPack = (material: Material) => {
+    if (material.pack_size === null) return '-';
+    return `${material.pack_size} per ${material.pack_unit || 'pack'}`;
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
         {/* Header */}
         <div className="p-4 border-b flex justify-between items-center">
           <div className="flex items-center">
@@ -179,6 +219,9 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
               <p className="text-gray-700">
                 Here is the list of standard materials. As we know that you may use some different things than everyone else, so here you can edit them.
               </p>
+              <p className="text-gray-700 mt-2">
+                Density (tonnes per m³) is used to weigh loose materials. Pack size is how many calculated units go in one pack, e.g. 25 kg of cement in a bag; calculators round up to whole packs, so set the price per pack. Wastage is added before rounding.
+              </p>
             </div>
           )}
           
@@ -231,6 +274,52 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
                 />
               </div>
             </div>
+
+            <div className="grid grid-cols-4 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Density (Optional)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  placeholder="Tonnes per m³"
+                  value={newMaterial.density}
+                  onChange={(e) => setNewMaterial({...newMaterial, density: e.target.value})}
+                  className="w-full p-2 border rounded text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Pack Size (Optional)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  placeholder="e.g. 25"
+                  value={newMaterial.pack_size}
+                  onChange={(e) => setNewMaterial({...newMaterial, pack_size: e.target.value})}
+                  className="w-full p-2 border rounded text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Pack Unit (Optional)</label>
+                <input
+                  type="text"
+                  placeholder="e.g. bags"
+                  value={newMaterial.pack_unit}
+                  onChange={(e) => setNewMaterial({...newMaterial, pack_unit: e.target.value})}
+                  className="w-full p-2 border rounded text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Wastage % (Optional)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  placeholder="e.g. 5"
+                  value={newMaterial.wastage_percent}
+                  onChange={(e) => setNewMaterial({...newMaterial, wastage_percent: e.target.value})}
+                  className="w-full p-2 border rounded text-sm"
+                />
+              </div>
+            </div>
             
             <button
               type="submit"
@@ -261,6 +350,9 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
                   <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
                   <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unit</th>
                   <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Density</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pack</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Wastage</th>
                   <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                 </tr>
               </thead>
@@ -309,13 +401,62 @@ const SetupMaterials: React.FC<SetupMaterialsProps> = ({ onClose }) => {
                           type="number"
                           step="0.01"
                           value={editMaterial?.price || ''}
-                          onChange={(e) => setEditMaterial({...editMaterial!, price: e.target.value ? parseFloat(e.target.value) : ''})}
+                          onChange={(e) => setEditMaterial({...editMaterial!, price: e.target.value})}
                           className="w-full p-1 border rounded text-sm"
                         />
                       ) : (
                         formatPrice(material.price)
                       )}
                     </td>
+                    <td className="px-3 py-2 text-sm text-gray-500">
+                      {editingMaterialId === material.id ? (
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={editMaterial?.density || ''}
+                          onChange={(e) => setEditMaterial({...editMaterial!, density: e.target.value})}
+                          className="w-full p-1 border rounded text-sm"
+                        />
+                      ) : (
+                        material.density !== null ? `${material.density} t/m³` : '-'
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-500">
+                      {editingMaterialId === material.id ? (
+                        <div className="flex gap-1">
+                          <input
+                            type="number"
+                            step="0.01"
+                            placeholder="Size"
+                            value={editMaterial?.pack_size || ''}
+                            onChange={(e) => setEditMaterial({...editMaterial!, pack_size: e.target.value})}
+                            className="w-16 p-1 border rounded text-sm"
+                          />
+                          <input
+                            type="text"
+                            placeholder="Unit"
+                            value={editMaterial?.pack_unit || ''}
+                            onChange={(e) => setEditMaterial({...editMaterial!, pack_unit: e.target.value})}
+                            className="w-16 p-1 border rounded text-sm"
+                          />
+                        </div>
+                      ) : (
+                        formatPack(material)
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-500">
+                      {editingMaterialId === material.id ? (
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={editMaterial?.wastage_percent || ''}
+                          onChange={(e) => setEditMaterial({...editMaterial!, wastage_percent: e.target.value})}
+                          className="w-full p-1 border rounded text-sm"
+                        />
+                      ) : (
+                        material.wastage_percent ? `${material.wastage_percent}%` : '-'
+                      )}
+                    </td>
                     <td className="px-3 py-2 whitespace-nowrap text-right text-sm font-medium">
                       {editingMaterialId === material.id ? (
                         <button
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../../../lib/supabase';
+import { LayoutTemplate, X, Info, Trash2, Settings, Save, Plus, AlertCircle } from 'lucide-react';
+import { ProjectTemplate, fetchProjectTemplates } from '../../../lib/projectTemplates';
+
+interface SetupProjectTemplatesProps {
+  onClose: () => void;
+}
+
+const SetupProjectTemplates: React.FC<SetupProjectTemplatesProps> = ({ onClose }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [showInfo, setShowInfo] = useState(false);
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const [editTemplate, setEditTemplate] = useState<Pick<ProjectTemplate, 'id' | 'name' | 'description'> | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const { data: templates = [], isLoading, error } = useQuery({
+    queryKey: ['project_templates'],
+    queryFn: fetchProjectTemplates
+  });
+
+  // Edit template mutation
+  const editTemplateMutation = useMutation({
+    mutationFn: async (template: Pick<ProjectTemplate, 'id' | 'name' | 'description'>) => {
+      const { error } = await supabase
+        .from('project_templates')
+        .update({
+          name: template.name,
+          description: template.description || null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', template.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project_templates'] });
+      setEditingTemplateId(null);
+      setEditTemplate(null);
+    }
+  });
+
+  // Delete template mutation
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('project_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project_templates'] });
+      setConfirmDelete(null);
+    }
+  });
+
+  const handleSaveTemplateEdit = () => {
+    if (editTemplate?.name) {
+      editTemplateMutation.mutate(editTemplate);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b flex justify-between items-center">
+          <div className="flex items-center">
+            <LayoutTemplate className="w-5 h-5 text-gray-700 mr-2" />
+            <h2 className="text-lg font-semibold">Project Templates</h2>
+          </div>
+          <div className="flex items-center">
+            <button
+              onClick={() => setShowInfo(!showInfo)}
+              className="text-gray-500 hover:text-gray-700 mr-4"
+            >
+              <Info className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-full hover:bg-gray-200 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto space-y-3">
+          {showInfo && (
+            <div className="bg-gray-100 p-3 rounded-lg text-sm">
+              <p className="text-gray-700">
+                Templates hold the main tasks, minor tasks and materials of a job you do often. Build the plan once in Create Project and use Save as Template, then start new projects from it and only enter the site dimensions.
+              </p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-center py-4">Loading templates...</p>
+          ) : error ? (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to load templates
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="text-center text-gray-500 py-4 text-sm">
+              No templates yet. Use Save as Template when creating a project.
+            </p>
+          ) : (
+            templates.map(template => (
+              <div key={template.id} className="p-4 border rounded-lg">
+                <div className="flex justify-between items-start gap-4">
+                  {editingTemplateId === template.id ? (
+                    <div className="flex-1 space-y-2">
+                      <input
+                        type="text"
+                        value={editTemplate?.name || ''}
+                        onChange={(e) => setEditTemplate({ ...editTemplate!, name: e.target.value })}
+                        className="w-full p-1 border rounded text-sm"
+                      />
+                      <textarea
+                        value={editTemplate?.description || ''}
+                        onChange={(e) => setEditTemplate({ ...editTemplate!, description: e.target.value })}
+                        className="w-full p-1 border rounded text-sm"
+                        rows={2}
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900">{template.name}</p>
+                      {template.description && (
+                        <p className="text-sm text-gray-600">{template.description}</p>
+                      )}
+                      <p className="text-sm text-gray-500 mt-1">
+                        {template.plan.mainTasks.map(task => task.name).join(', ') || 'No main tasks'}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {template.plan.minorTasks.length} minor tasks · {template.plan.materials.length} materials
+                      </p>
+                    </div>
+                  )}
+
+                  {confirmDelete === template.id ? (
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setConfirmDelete(null)}
+                        className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => deleteTemplateMutation.mutate(template.id)}
+                        disabled={deleteTemplateMutation.isPending}
+                        className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => navigate(`/project-management/create?template=${template.id}`)}
+                        className="flex items-center px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700"
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Start Project
+                      </button>
+                      {editingTemplateId === template.id ? (
+                        <button
+                          onClick={handleSaveTemplateEdit}
+                          disabled={!editTemplate?.name || editTemplateMutation.isPending}
+                          className="text-green-500 hover:text-green-700 disabled:opacity-50"
+                        >
+                          <Save className="w-4 h-4" />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setEditTemplate({ id: template.id, name: template.name, description: template.description });
+                            setEditingTemplateId(template.id);
+                          }}
+                          className="text-green-500 hover:text-green-700"
+                        >
+                          <Settings className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setConfirmDelete(template.id)}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+
+          {(editTemplateMutation.isError || deleteTemplateMutation.isError) && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to save template changes
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetupProjectTemplates;
@@ -17,7 +17,10 @@ import {
   ChevronDown,
   ChevronUp,
   Settings,
-  Truck
+  Truck,
+  Link2,
+  LayoutTemplate,
+  CalendarOff
 } from 'lucide-react';
 import BackButton from '../../components/BackButton';
 import { Modal } from '../../components/Modal';
@@ -25,6 +28,9 @@ import SetupTasks from './Setup/SetupTasks';
 import SetupEquipment from './Setup/SetupEquipment';
 import SetupMaterials from './Setup/SetupMaterials';
 import SetupDigging from './Setup/SetupDigging';
+import SetupCalculatorMappings from './Setup/SetupCalculatorMappings';
+import SetupProjectTemplates from './Setup/SetupProjectTemplates';
+import SetupHolidays from './Setup/SetupHolidays';
 
 interface Material {
   id: string;
@@ -87,6 +93,9 @@ const SetupPage = () => {
   const [showMaterialsModal, setShowMaterialsModal] = useState(false);
   const [showEquipmentModal, setShowEquipmentModal] = useState(false);
   const [showDiggingModal, setShowDiggingModal] = useState(false);
+  const [showCalculatorMappingsModal, setShowCalculatorMappingsModal] = useState(false);
+  const [showProjectTemplatesModal, setShowProjectTemplatesModal] = useState(false);
+  const [showHolidaysModal, setShowHolidaysModal] = useState(false);
   
   // Fetch materials
   const { data: materials = [] } = useQuery({
@@ -442,6 +451,57 @@ const SetupPage = () => {
             Manage Excavators & Dumpers
           </button>
         </div>
+
+        {/* Calculator Tasks Card */}
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <div className="flex items-center mb-4">
+            <Link2 className="w-6 h-6 text-teal-600 mr-3" />
+            <h2 className="text-xl font-semibold">Calculator Tasks</h2>
+          </div>
+          <p className="text-gray-600 mb-4">
+            Choose which task each calculator result is logged against.
+          </p>
+          <button
+            onClick={() => setShowCalculatorMappingsModal(true)}
+            className="w-full bg-teal-600 text-white py-2 px-4 rounded-lg hover:bg-teal-700 transition-colors"
+          >
+            Manage Calculator Tasks
+          </button>
+        </div>
+
+        {/* Project Templates Card */}
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <div className="flex items-center mb-4">
+            <LayoutTemplate className="w-6 h-6 text-indigo-600 mr-3" />
+            <h2 className="text-xl font-semibold">Project Templates</h2>
+          </div>
+          <p className="text-gray-600 mb-4">
+            Reuse the plans of jobs you do often and start new projects from them.
+          </p>
+          <button
+            onClick={() => setShowProjectTemplatesModal(true)}
+            className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors"
+          >
+            Manage Templates
+          </button>
+        </div>
+
+        {/* Company Holidays Card */}
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <div className="flex items-center mb-4">
+            <CalendarOff className="w-6 h-6 text-rose-600 mr-3" />
+            <h2 className="text-xl font-semibold">Company Holidays</h2>
+          </div>
+          <p className="text-gray-600 mb-4">
+            Days off that project schedules skip, along with weekends.
+          </p>
+          <button
+            onClick={() => setShowHolidaysModal(true)}
+            className="w-full bg-rose-600 text-white py-2 px-4 rounded-lg hover:bg-rose-700 transition-colors"
+          >
+            Manage Holidays
+          </button>
+        </div>
       </div>
       
       {/* Help Section - Floating Version with Triangle Pattern Links */}
@@ -509,6 +569,18 @@ const SetupPage = () => {
       {showDiggingModal && (
         <SetupDigging onClose={() => setShowDiggingModal(false)} />
       )}
+
+      {showCalculatorMappingsModal && (
+        <SetupCalculatorMappings onClose={() => setShowCalculatorMappingsModal(false)} />
+      )}
+
+      {showProjectTemplatesModal && (
+        <SetupProjectTemplates onClose={() => setShowProjectTemplatesModal(false)} />
+      )}
+
+      {showHolidaysModal && (
+        <SetupHolidays onClose={() => setShowHolidaysModal(false)} />
+      )}
     </div>
   );
 };
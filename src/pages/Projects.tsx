@@ -6,6 +6,8 @@ import { format, parseISO } from 'date-fns';
 import { Plus, Calendar, Package, Loader2, Search, CheckSquare } from 'lucide-react';
 import Modal from '../components/Modal';
 import { useAuthStore } from '../lib/store';
+import { useUnits } from '../hooks/useUnits';
+import UnitInput from '../components/UnitInput';
 import BackButton from '../components/BackButton';
 import type { Database } from '../lib/database.types';
 
@@ -18,6 +20,7 @@ const Projects = () => {
   const queryClient = useQueryClient();
   const navigate = useNavigate();
   const { user } = useAuthStore();
+  const { unit } = useUnits();
   const [showTaskModal, setShowTaskModal] = useState(false);
   const [showMaterialModal, setShowMaterialModal] = useState(false);
   const [selectedProject, setSelectedProject] = useState('');
@@ -401,21 +404,21 @@ const Projects = () => {
                 >
                   <h3 className="font-medium">{material.name}</h3>
                   <p className="text-sm text-gray-600">{material.description}</p>
-                  <p className="text-xs text-gray-500">Unit: {material.unit}</p>
+                  <p className="text-xs text-gray-500">Unit: {unit(material.unit)}</p>
                 </div>
               ))}
             </div>
             {selectedMaterial && (
               <div>
                 <label className="block text-sm font-medium text-gray-700">
-                  Quantity ({selectedMaterial.unit})
+                  Quantity ({unit(selectedMaterial.unit)})
                 </label>
-                <input
-                  type="number"
+                <UnitInput
+                  unit={selectedMaterial.unit}
                   value={quantity}
-                  onChange={(e) => setQuantity(e.target.value)}
+                  onValueChange={setQuantity}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                  placeholder={`Enter quantity in ${selectedMaterial.unit}`}
+                  placeholder={`Enter quantity in ${unit(selectedMaterial.unit)}`}
                 />
               </div>
             )}
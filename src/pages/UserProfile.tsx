@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
+import { UnitSystem } from '../lib/units';
 import { useNavigate } from 'react-router-dom';
 import { User, LogOut, Save, AlertCircle, Loader2, BarChart, ClipboardList, Package, FileText, Truck } from 'lucide-react';
 import BackButton from '../components/BackButton';
@@ -14,7 +15,7 @@ import DayNotesModal from '../components/DayNotesModal';
 const UserProfile = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
-  const { user, profile, setProfile } = useAuthStore();
+  const { user, profile, setProfile, unitSystem, setUnitSystem } = useAuthStore();
   const [newName, setNewName] = useState(profile?.full_name || '');
   const [isEditing, setIsEditing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -128,6 +129,18 @@ const UserProfile = () => {
               )}
               <p className="text-gray-600 dark:text-gray-400">{profile?.email}</p>
               <p className="text-sm text-gray-500 dark:text-gray-500">Role: {profile?.role}</p>
+              <div className="mt-2 flex items-center text-sm text-gray-500 dark:text-gray-500">
+                <label htmlFor="unit-system" className="mr-2">Units:</label>
+                <select
+                  id="unit-system"
+                  value={unitSystem}
+                  onChange={(e) => setUnitSystem(e.target.value as UnitSystem)}
+                  className="border rounded-md px-2 py-1 dark:bg-gray-700 dark:border-gray-600"
+                >
+                  <option value="metric">Metric (meters, cm, tonnes)</option>
+                  <option value="imperial">Imperial (feet, inches, cubic yards)</option>
+                </select>
+              </div>
             </div>
           </div>
           
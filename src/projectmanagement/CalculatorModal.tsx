@@ -10,22 +10,32 @@ import Type1AggregateCalculator from '../components/Calculator/Type1AggregateCal
 import SoilExcavationCalculator from '../components/Calculator/SoilExcavationCalculator';
 import PavingCalculator from '../components/Calculator/PavingCalculator';
 import ArtificialGrassCalculator from '../components/Calculator/ArtificialGrassCalculator';
+import DeckCalculator from '../components/Calculator/DeckCalculator';
+import DrainageCalculator from '../components/Calculator/DrainageCalculator';
+import ConcreteCalculator from '../components/Calculator/ConcreteCalculator';
+import SoftLandscapingCalculator from '../components/Calculator/SoftLandscapingCalculator';
+import EdgingCalculator from '../components/Calculator/EdgingCalculator';
+import { CalculatorInputs } from '../hooks/useCalculatorInputs';
 
 interface CalculatorModalProps {
   calculatorType: string;
   calculatorSubType: string;
   onClose: () => void;
-  onSaveResults: (results: any) => void;
+  onSaveResults: (results: any, inputs: CalculatorInputs | null) => void;
+  // Form values of a previous run, to reopen the calculator for editing
+  initialInputs?: CalculatorInputs;
 }
 
 const CalculatorModal: React.FC<CalculatorModalProps> = ({
   calculatorType,
   calculatorSubType,
   onClose,
-  onSaveResults
+  onSaveResults,
+  initialInputs
 }) => {
   const queryClient = useQueryClient();
   const [calculatorResults, setCalculatorResults] = useState<any>(null);
+  const [calculatorInputs, setCalculatorInputs] = useState<CalculatorInputs | null>(null);
 
   // Mutation for saving task results
   const saveTaskMutation = useMutation({
@@ -72,6 +82,12 @@ const CalculatorModal: React.FC<CalculatorModalProps> = ({
     const commonProps = {
       onResultsChange: setCalculatorResults
     };
+    // Aggregate calculators are never main tasks, so only the others keep their inputs
+    const inputProps = {
+      ...commonProps,
+      initialInputs,
+      onInputsChange: setCalculatorInputs
+    };
 
     switch (calculatorType) {
       case 'aggregate':
@@ -84,17 +100,27 @@ const CalculatorModal: React.FC<CalculatorModalProps> = ({
             return null;
         }
       case 'paving':
-        return <PavingCalculator {...commonProps} />;
+        return <PavingCalculator {...inputProps} />;
       case 'wall':
-        return <WallCalculator type={calculatorSubType as 'brick' | 'block4' | 'block7'} {...commonProps} />;
+        return <WallCalculator type={calculatorSubType as 'brick' | 'block4' | 'block7'} {...inputProps} />;
       case 'slab':
-        return <SlabCalculator {...commonProps} />;
+        return <SlabCalculator {...inputProps} />;
       case 'fence':
-        return <FenceCalculator fenceType={calculatorSubType as 'vertical' | 'horizontal'} {...commonProps} />;
+        return <FenceCalculator fenceType={calculatorSubType as 'vertical' | 'horizontal'} {...inputProps} />;
       case 'steps':
-        return <StairCalculator {...commonProps} />;
+        return <StairCalculator {...inputProps} />;
+      case 'deck':
+        return <DeckCalculator deckType={calculatorSubType as 'timber' | 'composite'} {...inputProps} />;
+      case 'drainage':
+        return <DrainageCalculator {...inputProps} />;
+      case 'concrete':
+        return <ConcreteCalculator {...inputProps} />;
+      case 'soft':
+        return <SoftLandscapingCalculator {...inputProps} />;
+      case 'edging':
+        return <EdgingCalculator {...inputProps} />;
       case 'grass':
-        return <ArtificialGrassCalculator {...commonProps} />;
+        return <ArtificialGrassCalculator {...inputProps} />;
       default:
         return null;
     }
@@ -105,7 +131,7 @@ const CalculatorModal: React.FC<CalculatorModalProps> = ({
 
     try {
       // First update the UI with the results
-      onSaveResults(calculatorResults);
+      onSaveResults(calculatorResults, calculatorInputs);
 
       // Then save to database if we have an event_id
       if (calculatorResults.event_id) {
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import CalculatorModal from './CalculatorModal';
+import { CalculatorInputs } from '../hooks/useCalculatorInputs';
 
 interface MainTaskModalProps {
   onClose: () => void;
@@ -9,6 +10,7 @@ interface MainTaskModalProps {
     calculatorType: string;
     calculatorSubType: string;
     results: any;
+    inputs: CalculatorInputs | null;
   }) => void;
   calculatorGroups: {
     type: string;
@@ -35,7 +37,7 @@ const MainTaskModal: React.FC<MainTaskModalProps> = ({
     setShowCalculator(true);
   };
 
-  const handleCalculatorResults = (results: any) => {
+  const handleCalculatorResults = (results: any, inputs: CalculatorInputs | null) => {
     if (selectedCalculator && selectedSubCalculator) {
       const selectedGroup = filteredGroups.find(g => g.type === selectedCalculator);
       const selectedSubType = selectedGroup?.subTypes.find(s => s.type === selectedSubCalculator);
@@ -50,7 +52,8 @@ const MainTaskModal: React.FC<MainTaskModalProps> = ({
         results: {
           ...results,
           name: taskName  // Ensure the name is in both places
-        }
+        },
+        inputs
       });
     }
     setShowCalculator(false);
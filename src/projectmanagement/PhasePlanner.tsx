@@ -0,0 +1,246 @@
+import React from 'react';
+import { Plus, X, AlertCircle, Layers, CalendarClock } from 'lucide-react';
+import {
+  PlanItem,
+  PlanPhase,
+  buildDefaultPhases,
+  findPhaseConflicts,
+  orderPhases,
+  schedulePhases
+} from '../lib/projectPhases';
+
+interface PhasePlannerProps {
+  phases: PlanPhase[];
+  items: PlanItem[];
+  startDate: string;
+  // Company holidays skipped when scheduling (yyyy-MM-dd)
+  holidays: string[];
+  onChange: (phases: PlanPhase[]) => void;
+  // Called with the last phase's end date after scheduling
+  onScheduled: (endDate: string) => void;
+}
+
+const PhasePlanner: React.FC<PhasePlannerProps> = ({
+  phases,
+  items,
+  startDate,
+  holidays,
+  onChange,
+  onScheduled
+}) => {
+  const updatePhase = (id: string, changes: Partial<PlanPhase>) => {
+    onChange(phases.map(phase => (phase.id === id ? { ...phase, ...changes } : phase)));
+  };
+
+  const handleAddPhase = () => {
+    const previous = phases[phases.length - 1];
+    onChange([...phases, {
+      id: crypto.randomUUID(),
+      name: `Phase ${phases.length + 1}`,
+      start_date: '',
+      end_date: '',
+      depends_on: previous ? [previous.id] : [],
+      items: []
+    }]);
+  };
+
+  const handleDeletePhase = (id: string) => {
+    onChange(phases
+      .filter(phase => phase.id !== id)
+      .map(phase => ({ ...phase, depends_on: phase.depends_on.filter(dependency => dependency !== id) })));
+  };
+
+  const handleToggleDependency = (phase: PlanPhase, dependencyId: string) => {
+    updatePhase(phase.id, {
+      depends_on: phase.depends_on.includes(dependencyId)
+        ? phase.depends_on.filter(id => id !== dependencyId)
+        : [...phase.depends_on, dependencyId]
+    });
+  };
+
+  // An item runs in one phase only
+  const handleAssignItem = (itemKey: string, phaseId: string) => {
+    onChange(phases.map(phase => ({
+      ...phase,
+      items: phase.id === phaseId
+        ? [...phase.items.filter(key => key !== itemKey), itemKey]
+        : phase.items.filter(key => key !== itemKey)
+    })));
+  };
+
+  const handleSchedule = () => {
+    const scheduled = schedulePhases(phases, items, startDate, holidays);
+    onChange(scheduled);
+    onScheduled(scheduled.reduce((latest, phase) => (phase.end_date > latest ? phase.end_date : latest), startDate));
+  };
+
+  let loopError: string | null = null;
+  try {
+    orderPhases(phases);
+  } catch (error) {
+    loopError = error instanceof Error ? error.message : 'Phase dependencies form a loop';
+  }
+  const conflicts = loopError ? [] : findPhaseConflicts(phases);
+  const unassigned = items.filter(item => !phases.some(phase => phase.items.includes(item.key)));
+
+  const phaseHours = (phase: PlanPhase) => items
+    .filter(item => phase.items.includes(item.key))
+    .reduce((sum, item) => sum + item.hours, 0);
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <Layers className="w-5 h-5 text-gray-700 mr-2" />
+          <h2 className="text-xl font-semibold text-gray-900">Phases</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onChange(buildDefaultPhases(items))}
+            disabled={items.length === 0}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            Generate Phases
+          </button>
+          <button
+            type="button"
+            onClick={handleSchedule}
+            disabled={phases.length === 0 || !startDate || !!loopError}
+            title={startDate ? undefined : 'Set the start date first'}
+            className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <CalendarClock className="w-5 h-5 mr-2" />
+            Schedule from Hours
+          </button>
+          <button
+            type="button"
+            onClick={handleAddPhase}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-5 h-5 mr-2" />
+            Add Phase
+          </button>
+        </div>
+      </div>
+
+      {phases.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          No phases yet. Generate them from the tasks above to split the project into excavation, sub-base, hard landscaping and finishing.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {(loopError || conflicts.length > 0) && (
+            <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm flex items-center">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {loopError || `Starts before the phase it depends on has finished: ${conflicts.join(', ')}`}
+            </div>
+          )}
+
+          {phases.map((phase, index) => (
+            <div key={phase.id} className="bg-gray-50 p-4 rounded-lg space-y-3">
+              <div className="flex items-start gap-4">
+                <span className="mt-2 text-sm font-medium text-gray-500">{index + 1}.</span>
+                <div className="flex-1 grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Name</label>
+                    <input
+                      type="text"
+                      value={phase.name}
+                      onChange={(e) => updatePhase(phase.id, { name: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Start Date</label>
+                    <input
+                      type="date"
+                      value={phase.start_date}
+                      onChange={(e) => updatePhase(phase.id, { start_date: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">End Date</label>
+                    <input
+                      type="date"
+                      value={phase.end_date}
+                      min={phase.start_date || undefined}
+                      onChange={(e) => updatePhase(phase.id, { end_date: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDeletePhase(phase.id)}
+                  className="mt-6 p-1 text-red-600 hover:text-red-700"
+                  title="Delete Phase"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {phases.length > 1 && (
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                  <span className="font-medium">Starts after:</span>
+                  {phases.filter(other => other.id !== phase.id).map(other => (
+                    <label key={other.id} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={phase.depends_on.includes(other.id)}
+                        onChange={() => handleToggleDependency(phase, other.id)}
+                        className="mr-1"
+                      />
+                      {other.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <p className="text-sm text-gray-600">
+                {items.filter(item => phase.items.includes(item.key)).map(item => item.label).join(', ') || 'No tasks'}
+                <span className="ml-2 text-gray-400">{phaseHours(phase).toFixed(2)} hours</span>
+              </p>
+            </div>
+          ))}
+
+          {/* Task assignment */}
+          <div className="border rounded">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Task</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hours</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phase</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {items.map(item => (
+                  <tr key={item.key}>
+                    <td className="px-3 py-2 text-sm font-medium text-gray-900">{item.label}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{item.hours.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-sm">
+                      <select
+                        value={phases.find(phase => phase.items.includes(item.key))?.id || ''}
+                        onChange={(e) => handleAssignItem(item.key, e.target.value)}
+                        className={`w-full p-1 border rounded text-sm ${unassigned.includes(item) ? 'border-yellow-400' : ''}`}
+                      >
+                        <option value="">No phase</option>
+                        {phases.map(phase => (
+                          <option key={phase.id} value={phase.id}>{phase.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhasePlanner;
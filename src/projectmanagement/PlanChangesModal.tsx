@@ -0,0 +1,165 @@
+import React from 'react';
+import { X, AlertCircle, Check } from 'lucide-react';
+import { EventPlanDiff, countPlanChanges } from '../lib/projectPlan';
+
+interface PlanChangesModalProps {
+  diff: EventPlanDiff;
+  isApplying: boolean;
+  error: string | null;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+interface ChangeRow {
+  key: string;
+  kind: 'added' | 'changed' | 'removed' | 'kept';
+  name: string;
+  before: string;
+  after: string;
+}
+
+const KIND_STYLES: Record<ChangeRow['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  changed: 'bg-blue-100 text-blue-800',
+  removed: 'bg-red-100 text-red-800',
+  kept: 'bg-yellow-100 text-yellow-800'
+};
+
+const describeTask = (task: { amount: string; hours_worked: number }) =>
+  `${task.amount} · ${task.hours_worked.toFixed(2)} h`;
+
+const describeMaterial = (material: { total_amount?: number; unit: string }) =>
+  `${(material.total_amount || 0).toFixed(2)} ${material.unit}`;
+
+const PlanChangesModal: React.FC<PlanChangesModalProps> = ({
+  diff,
+  isApplying,
+  error,
+  onConfirm,
+  onClose
+}) => {
+  const taskRows: ChangeRow[] = [
+    ...diff.tasks.inserts.map((task, index) => ({
+      key: `added-${index}`, kind: 'added' as const, name: task.name || '', before: '', after: describeTask(task)
+    })),
+    ...diff.tasks.updates.map(({ before, after }) => ({
+      key: before.id, kind: 'changed' as const, name: after.name || '', before: describeTask(before), after: describeTask(after)
+    })),
+    ...diff.tasks.deletes.map(task => ({
+      key: task.id, kind: 'removed' as const, name: task.name || '', before: describeTask(task), after: ''
+    })),
+    ...diff.tasks.kept.map(task => ({
+      key: task.id, kind: 'kept' as const, name: task.name || '', before: describeTask(task), after: describeTask(task)
+    }))
+  ];
+
+  const materialRows: ChangeRow[] = [
+    ...diff.materials.inserts.map((material, index) => ({
+      key: `added-${index}`, kind: 'added' as const, name: material.name || '', before: '', after: describeMaterial(material)
+    })),
+    ...diff.materials.updates.map(({ before, after }) => ({
+      key: before.id, kind: 'changed' as const, name: after.name || '', before: describeMaterial(before), after: describeMaterial(after)
+    })),
+    ...diff.materials.deletes.map(material => ({
+      key: material.id, kind: 'removed' as const, name: material.name || '', before: describeMaterial(material), after: ''
+    })),
+    ...diff.materials.kept.map(material => ({
+      key: material.id, kind: 'kept' as const, name: material.name || '', before: describeMaterial(material), after: describeMaterial(material)
+    }))
+  ];
+
+  const changeCount = countPlanChanges(diff);
+
+  const renderRows = (title: string, rows: ChangeRow[], unchanged: number) => (
+    <div className="space-y-2">
+      <h3 className="font-medium text-gray-900">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="py-1 text-left">Change</th>
+              <th className="py-1 text-left">Name</th>
+              <th className="py-1 text-right">Before</th>
+              <th className="py-1 text-right">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-t text-gray-700">
+                <td className="py-1">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${KIND_STYLES[row.kind]}`}>
+                    {row.kind}
+                  </span>
+                </td>
+                <td className="py-1">{row.name}</td>
+                <td className="py-1 text-right text-gray-500">{row.before || '-'}</td>
+                <td className="py-1 text-right">{row.after || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {unchanged > 0 && (
+        <p className="text-xs text-gray-500">{unchanged} unchanged</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">Review Changes</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {renderRows('Tasks', taskRows, diff.tasks.unchanged)}
+          {renderRows('Materials', materialRows, diff.materials.unchanged)}
+
+          {(diff.tasks.kept.length > 0 || diff.materials.kept.length > 0) && (
+            <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+              Items marked as kept are no longer in the plan but already have progress or deliveries logged,
+              so they stay on the project.
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md"
+          >
+            Back to Editing
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={isApplying}
+            className="flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md disabled:opacity-50"
+          >
+            <Check className="w-4 h-4 mr-2" />
+            {isApplying
+              ? 'Applying...'
+              : changeCount > 0 ? `Apply ${changeCount} Change${changeCount !== 1 ? 's' : ''}` : 'Save Project'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanChangesModal;
@@ -1,12 +1,51 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
-import { Plus, X, AlertCircle, Loader2, Check, Pencil } from 'lucide-react';
+import { Plus, X, AlertCircle, Loader2, Check, Pencil, FileText, BookmarkPlus } from 'lucide-react';
 import BackButton from '../components/BackButton';
 import MainTaskModal from './MainTaskModal';
 import CalculatorModal from './CalculatorModal';
+import QuoteModal from './QuoteModal';
+import { QuotePlanSection } from '../lib/quotes';
+import { ProjectDraftPlan, ProjectTemplatePlan } from '../lib/database.types';
+import { DRAFT_AUTOSAVE_DELAY, fetchProjectDraft, saveProjectDraft } from '../lib/projectDrafts';
+import {
+  ProjectTemplate,
+  fetchProjectTemplate,
+  fetchProjectTemplates,
+  saveProjectTemplate,
+  toTemplateInputs
+} from '../lib/projectTemplates';
+import { useDebounce } from '../hooks/useDebounce';
+import { CalculatorInputs } from '../hooks/useCalculatorInputs';
+import {
+  EventPlan,
+  EventPlanDiff,
+  PlannedMaterial,
+  PlannedTask,
+  applyEventPlan,
+  buildEventPlanDiff,
+  fetchEventPlan,
+  reconstructEventPlan
+} from '../lib/projectPlan';
+import PlanChangesModal from './PlanChangesModal';
+import PhasePlanner from './PhasePlanner';
+import { fetchCalculatorTaskMappings, groundworksOutputKey } from '../lib/calculatorTaskMappings';
+import { fetchCompanyHolidays } from '../lib/eventSchedule';
+import { DENSITIES } from '../lib/calculations/common';
+import { CARRYING_RATES, DIGGING_RATES, findMachineRate } from '../lib/calculations/groundworks';
+import {
+  MINOR_TASKS_ITEM,
+  PlanItem,
+  PlanPhase,
+  SOIL_EXCAVATION_ITEM,
+  TAPE1_PREPARATION_ITEM,
+  mainTaskItem,
+  orderPhases,
+  toEventPhaseRows
+} from '../lib/projectPhases';
 
 // Types
 interface CalculatorResults {
@@ -22,9 +61,12 @@ interface CalculatorResults {
   roundedUpHeight?: number;
   taskBreakdown?: {
     name: string;
+    task: string;
     hours: number;
+    amount?: number;
     unit?: string;
     quantity?: number;
+    event_task_id?: string | null;
   }[];
   excavationTime?: number;
   transportTime?: number;
@@ -44,6 +86,8 @@ interface MainTask {
   calculatorType: string;
   calculatorSubType: string;
   results: CalculatorResults | null;
+  // Calculator form values, so the task can be recalculated later
+  inputs?: CalculatorInputs | null;
 }
 
 interface MinorTask {
@@ -77,7 +121,7 @@ interface FormData {
   description: string;
   start_date: string;
   end_date: string;
-  status: 'planned' | 'scheduled' | 'in_progress';
+  status: 'planned' | 'scheduled' | 'in_progress' | 'finished';
   has_equipment: boolean;
   has_materials: boolean;
 }
@@ -102,6 +146,8 @@ interface TaskTemplate {
 
 const ProjectCreating = () => {
   const navigate = useNavigate();
+  // Set when editing the plan of an existing project
+  const { id: editEventId } = useParams();
   const { user } = useAuthStore();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -118,6 +164,7 @@ const ProjectCreating = () => {
   const [mainTasks, setMainTasks] = useState<MainTask[]>([]);
   const [minorTasks, setMinorTasks] = useState<MinorTask[]>([]);
   const [materials, setMaterials] = useState<Material[]>([]);
+  const [phases, setPhases] = useState<PlanPhase[]>([]);
   const [showMainTaskModal, setShowMainTaskModal] = useState(false);
   const [selectedCalculator, setSelectedCalculator] = useState<string | null>(null);
   const [selectedSubCalculator, setSelectedSubCalculator] = useState<string | null>(null);
@@ -151,6 +198,32 @@ const ProjectCreating = () => {
   const [tempMainTask, setTempMainTask] = useState<MainTask | null>(null);
   const [taskName, setTaskName] = useState('');
 
+  // Quote generated from this plan, new saves become new versions of it
+  const [showQuoteModal, setShowQuoteModal] = useState(false);
+  const [quoteNumber, setQuoteNumber] = useState<number | null>(null);
+
+  // Draft the plan is autosaved to, reopened with ?draft=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const draftIdRef = useRef<string | null>(searchParams.get('draft'));
+  const draftSaveRef = useRef<Promise<void>>(Promise.resolve());
+  const lastSavedPlanRef = useRef<string | null>(null);
+  // Template a new project is started from, opened with ?template=<id>
+  const templateIdRef = useRef<string | null>(searchParams.get('template'));
+  const [isDraftLoading, setIsDraftLoading] = useState(
+    draftIdRef.current !== null || templateIdRef.current !== null || !!editEventId
+  );
+  const [draftStatus, setDraftStatus] = useState<'saving' | 'saved' | 'error' | null>(null);
+  const [draftEquipment, setDraftEquipment] = useState<{ excavatorId: string | null; carrierId: string | null } | null>(null);
+
+  // Saving the current plan as a project template
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [templateDescription, setTemplateDescription] = useState('');
+
+  // Rows of the project being edited, and the changes waiting for confirmation
+  const [eventPlan, setEventPlan] = useState<EventPlan | null>(null);
+  const [planDiff, setPlanDiff] = useState<EventPlanDiff | null>(null);
+
   // Add mutation for creating event
   const createEventMutation = useMutation({
     mutationFn: async (eventData: FormData) => {
@@ -187,6 +260,12 @@ const ProjectCreating = () => {
     }
   });
 
+  // Fetch the task templates bound to calculator outputs
+  const { data: calculatorTaskMappings = [] } = useQuery({
+    queryKey: ['calculator_task_mappings'],
+    queryFn: fetchCalculatorTaskMappings
+  });
+
   // Fetch material templates
   const { data: materialTemplates = [] } = useQuery({
     queryKey: ['material_templates'],
@@ -217,6 +296,34 @@ const ProjectCreating = () => {
         { type: 'default', label: 'Monoblock Paving' }
       ]
     },
+    {
+      type: 'drainage',
+      label: 'Drainage Calculator',
+      subTypes: [
+        { type: 'default', label: 'Surface Water Drainage' }
+      ]
+    },
+    {
+      type: 'concrete',
+      label: 'Concrete Calculator',
+      subTypes: [
+        { type: 'base', label: 'Shed & Garden Room Base' }
+      ]
+    },
+    {
+      type: 'soft',
+      label: 'Soft Landscaping Calculator',
+      subTypes: [
+        { type: 'default', label: 'Turf, Topsoil & Planting' }
+      ]
+    },
+    {
+      type: 'edging',
+      label: 'Edging Calculator',
+      subTypes: [
+        { type: 'default', label: 'Kerbs, Setts & Edging' }
+      ]
+    },
     {
       type: 'wall',
       label: 'Wall & Finish Calculator',
@@ -248,6 +355,14 @@ const ProjectCreating = () => {
         { type: 'standard', label: 'Standard Stairs' }
       ]
     },
+    {
+      type: 'deck',
+      label: 'Deck Calculator',
+      subTypes: [
+        { type: 'timber', label: 'Timber Deck' },
+        { type: 'composite', label: 'Composite Deck' }
+      ]
+    },
     {
       type: 'grass',
       label: 'Artificial Grass Calculator',
@@ -257,28 +372,12 @@ const ProjectCreating = () => {
     }
   ];
 
-  // Add helper function at the top level of the component
-  const normalizeTaskName = (name: string): string => name.toLowerCase().trim();
-
-  const findExactTemplate = (taskName: string): TaskTemplate | undefined => {
-    const normalizedTaskName = normalizeTaskName(taskName);
-    return taskTemplates.find((template: TaskTemplate) => 
-      normalizeTaskName(template.name) === normalizedTaskName
-    );
-  };
-
-  const findCuttingTemplate = (taskName: string): TaskTemplate | undefined => {
-    return taskTemplates.find((template: TaskTemplate) => {
-      const normalizedTemplateName = normalizeTaskName(template.name);
-      const normalizedTaskName = normalizeTaskName(taskName);
-      return normalizedTemplateName.includes('cutting') &&
-             normalizedTemplateName.includes(normalizedTaskName.replace('cutting', '').trim());
-    });
-  };
+  const findMappedTaskId = (outputKey: string): string | null =>
+    calculatorTaskMappings.find(mapping => mapping.output_key === outputKey)?.event_task_id || null;
 
   // Add handlers for main tasks
-  const handleAddMainTask = (task: MainTask) => {
-    setTempMainTask(task);
+  const handleAddMainTask = (task: Omit<MainTask, 'id'>) => {
+    setTempMainTask({ ...task, id: crypto.randomUUID() });
     setShowNamePrompt(true);
   };
 
@@ -295,36 +394,14 @@ const ProjectCreating = () => {
     }
   };
 
-  const handleSaveCalculatorResults = (results: CalculatorResults) => {
+  // Replace the results of a main task recalculated from its saved inputs
+  const handleSaveCalculatorResults = (results: CalculatorResults, inputs: CalculatorInputs | null) => {
     if (selectedMainTask) {
-      const newTask = {
-        ...selectedMainTask,
-        results
-      };
-
-      // Update totals
-      if (results.materials) {
-        results.materials.forEach(material => {
-          if (material.name.toLowerCase().includes('soil')) {
-            setTotalSoilExcavation(prev => prev + material.quantity);
-          } else if (material.name.toLowerCase().includes('tape 1')) {
-            setTotalTape1(prev => prev + material.quantity);
-          }
-        });
-      }
-
-      if (results.totalTons) {
-        if (selectedMainTask.calculatorType === 'soil_excavation') {
-          setTotalSoilExcavation(prev => prev + results.totalTons);
-        } else if (selectedMainTask.calculatorType === 'tape1') {
-          setTotalTape1(prev => prev + results.totalTons);
-        }
-      }
-      if (results.labor || results.totalTime) {
-        setTotalHours(prev => prev + (results.labor || results.totalTime || 0));
-      }
-
-      setMainTasks(prev => [...prev, newTask]);
+      setMainTasks(prev => prev.map(task =>
+        task === selectedMainTask
+          ? { ...task, results: { ...results, name: task.name }, inputs }
+          : task
+      ));
     }
     setShowCalculatorModal(false);
     setSelectedMainTask(null);
@@ -338,20 +415,7 @@ const ProjectCreating = () => {
   const handleSaveMinorTask = (index: number) => {
     const task = minorTasks[index];
     if (task.template_id && task.name && task.quantity) {
-      // First try exact match
-      let matchingTemplate = findExactTemplate(task.name);
-      
-      // If no exact match and it's a cutting task, try specialized matching
-      if (!matchingTemplate && normalizeTaskName(task.name).includes('cutting')) {
-        matchingTemplate = findCuttingTemplate(task.name);
-      }
-      
-      // Only if still no match, try includes matching
-      if (!matchingTemplate) {
-        matchingTemplate = taskTemplates.find(template => 
-          normalizeTaskName(template.name).includes(normalizeTaskName(task.name))
-        );
-      }
+      const matchingTemplate: TaskTemplate | undefined = taskTemplates.find(template => template.id === task.template_id);
 
       if (matchingTemplate) {
         const results = {
@@ -424,6 +488,208 @@ const ProjectCreating = () => {
     }
   };
 
+  // Phase a plan item was assigned to in the phase planner
+  const phaseOf = (item: string) => phases.find(phase => phase.items.includes(item))?.id || null;
+
+  // Tasks and materials the plan creates on the event, also used to diff an edited plan
+  const buildPlanRows = () => {
+    const plannedTasks: PlannedTask[] = [];
+    const plannedMaterials: PlannedMaterial[] = [];
+
+    // Process main tasks
+    for (const mainTask of mainTasks) {
+      if (mainTask.results?.taskBreakdown && mainTask.results.taskBreakdown.length > 0) {
+        // Create a task for each item in the task breakdown
+        for (const taskItem of mainTask.results.taskBreakdown) {
+          const taskName = taskItem.task;
+          let actualTaskName = taskName;
+
+          // If the task is "Cutting Slabs", determine the correct type based on the main task name
+          if (taskName.toLowerCase() === 'cutting slabs') {
+            const isPortcelain = mainTask.name.toLowerCase().includes('porcelain') || 
+                                mainTask.results.name?.toLowerCase().includes('porcelain');
+            const isSandstone = mainTask.name.toLowerCase().includes('sandstone') || 
+                               mainTask.results.name?.toLowerCase().includes('sandstone');
+
+            if (isPortcelain) {
+              actualTaskName = 'cutting porcelain';
+            } else if (isSandstone) {
+              actualTaskName = 'cutting sandstones';
+            }
+          }
+
+          plannedTasks.push({
+            name: actualTaskName.toLowerCase() === 'bricklaying' ? 'Bricklaying' : actualTaskName.toLowerCase(),
+            task_name: mainTask.name,
+            description: mainTask.results.name || '',
+            unit: taskName.toLowerCase() === 'cutting slabs' ? 'slabs' : (taskItem.unit || ''),
+            amount: `${taskItem.amount || 0} ${taskName.toLowerCase() === 'cutting slabs' ? 'slabs' : (taskItem.unit || '')}`.trim(),
+            hours_worked: taskItem.hours || 0,
+            // Bound by the calculator from the output mappings set up in Setup
+            event_task_id: taskItem.event_task_id || null,
+            phase_id: phaseOf(mainTaskItem(mainTask.id))
+          });
+        }
+      } else if (mainTask.results) {
+        // If no task breakdown but we have results, create a single task
+        const taskName = mainTask.name || mainTask.results.name || 'Unnamed Task';
+        
+        console.log('Task breakdown:', mainTask.results.taskBreakdown); // Debug log
+        console.log('Full results:', mainTask.results); // Debug log
+
+        if (mainTask.results.taskBreakdown && mainTask.results.taskBreakdown.length > 0) {
+          // Create a task for each item in the task breakdown
+          for (const taskItem of mainTask.results.taskBreakdown) {
+            console.log('Processing task item:', taskItem); // Debug log
+
+            // Extract amount from task name if it's in brackets
+            let amount = 0;
+            let unit = '';
+            const amountMatch = taskItem.task.match(/\[([\d.]+)\s*([^\]]+)\]/);
+            if (amountMatch) {
+              amount = parseFloat(amountMatch[1]);
+              unit = amountMatch[2].trim();
+            } else {
+              // Fallback to task item's amount and unit if available
+              amount = taskItem.amount || 0;
+              unit = taskItem.unit || '';
+            }
+
+            console.log('Task amount and unit:', { amount, unit }); // Debug log
+
+            plannedTasks.push({
+              name: taskItem.task.toLowerCase(),  // Convert to lowercase here
+              task_name: mainTask.name,
+              description: mainTask.results.name || '',
+              unit: unit,
+              amount: `${amount} ${unit}`.trim(),
+              hours_worked: taskItem.hours || 0,
+              event_task_id: taskItem.event_task_id || null,
+              phase_id: phaseOf(mainTaskItem(mainTask.id))
+            });
+          }
+        } else {
+          // If no task breakdown, create a single task
+          plannedTasks.push({
+            name: taskName,
+            description: mainTask.results.name || '',
+            unit: mainTask.results.unit || '',
+            amount: `${mainTask.results.amount || 0} ${mainTask.results.unit || ''}`.trim(),
+            hours_worked: parseFloat((mainTask.results.totalTime || mainTask.results.labor || 0).toFixed(2)),
+            event_task_id: null,
+            phase_id: phaseOf(mainTaskItem(mainTask.id))
+          });
+        }
+      }
+
+      // Process materials from main task
+      if (mainTask.results?.materials) {
+        for (const material of mainTask.results.materials) {
+          plannedMaterials.push({
+            total_amount: material.quantity,
+            unit: material.unit,
+            name: material.name,
+            task_name: mainTask.name
+          });
+        }
+      }
+    }
+
+    // Add this after processing main tasks but before processing minor tasks
+    // Add Soil Excavation and Tape 1 Preparation tasks
+    if (selectedExcavator) {
+      if (totalSoilExcavation > 0) {
+        const excavationTime = findDiggerTimeEstimate(selectedExcavator["size (in tones)"] || 0, totalSoilExcavation);
+        const transportTime = excavationOption === 'removal' && selectedCarrier
+          ? findCarrierTimeEstimate(selectedCarrier["size (in tones)"] || 0, totalSoilExcavation)
+          : 0;
+        
+        // Format the hours to 2 decimal places
+        const totalHours = parseFloat((excavationTime + transportTime).toFixed(2));
+        
+        // Create task name with equipment details
+        const equipmentDetails = selectedCarrier
+          ? `(${selectedExcavator["size (in tones)"]}t digger and ${selectedCarrier["size (in tones)"]}t ${selectedCarrier.type === 'barrows_dumpers' ? 'barrow' : 'carrier'})`
+          : `(${selectedExcavator["size (in tones)"]}t digger)`;
+        
+        // Create Soil Excavation task
+        plannedTasks.push({
+          name: `Soil Excavation ${equipmentDetails}`,
+          description: `Total soil to excavate: ${totalSoilExcavation.toFixed(2)} tonnes`,
+          unit: 'tonnes',
+          amount: `${totalSoilExcavation.toFixed(2)} tonnes`,
+          hours_worked: totalHours,
+          event_task_id: findMappedTaskId(groundworksOutputKey('soil_excavation', selectedExcavator.id, selectedCarrier?.id || null)),
+          phase_id: phaseOf(SOIL_EXCAVATION_ITEM)
+        });
+      }
+
+      if (totalTape1 > 0) {
+        const tape1ExcavationTime = findDiggerTimeEstimate(selectedExcavator["size (in tones)"] || 0, totalTape1);
+        const tape1TransportTime = excavationOption === 'removal' && selectedCarrier
+          ? findCarrierTimeEstimate(selectedCarrier["size (in tones)"] || 0, totalTape1)
+          : 0;
+        
+        // Create task name with equipment details
+        const equipmentDetails = selectedCarrier
+          ? `(${selectedExcavator["size (in tones)"]}t digger and ${selectedCarrier["size (in tones)"]}t ${selectedCarrier.type === 'barrows_dumpers' ? 'barrow' : 'carrier'})`
+          : `(${selectedExcavator["size (in tones)"]}t digger)`;
+        
+        // Create Tape 1 Preparation task
+        plannedTasks.push({
+          name: `Tape 1 Preparation ${equipmentDetails}`,
+          description: `Total Type 1 aggregate to prepare: ${totalTape1.toFixed(2)} tonnes`,
+          unit: 'tonnes',
+          amount: `${totalTape1.toFixed(2)} tonnes`,
+          hours_worked: tape1ExcavationTime + tape1TransportTime,
+          event_task_id: findMappedTaskId(groundworksOutputKey('tape1_preparation', selectedExcavator.id, selectedCarrier?.id || null)),
+          phase_id: phaseOf(TAPE1_PREPARATION_ITEM)
+        });
+      }
+    }
+
+    // Process minor tasks
+    for (const minorTask of minorTasks) {
+      if (minorTask.template_id) {
+        // Create task in tasks_done
+        plannedTasks.push({
+          event_task_id: minorTask.template_id,
+          name: minorTask.name,
+          description: minorTask.description || '',
+          unit: minorTask.unit,
+          amount: `${minorTask.quantity} ${minorTask.unit}`,
+          hours_worked: minorTask.estimated_hours || 0,
+          phase_id: phaseOf(MINOR_TASKS_ITEM)
+        });
+
+        // Process materials from minor task
+        if (minorTask.results?.materials) {
+          for (const material of minorTask.results.materials) {
+            plannedMaterials.push({
+              total_amount: material.quantity,
+              unit: material.unit,
+              name: material.name
+            });
+          }
+        }
+      }
+    }
+
+    // Process direct materials
+    for (const material of materials) {
+      if (material.template_id && material.quantity > 0) {
+        const materialTemplate = materialTemplates.find(t => t.id === material.template_id);
+        plannedMaterials.push({
+          total_amount: material.quantity,
+          unit: material.unit || materialTemplate?.unit || '',
+          name: material.name || materialTemplate?.name || ''
+        });
+      }
+    }
+
+    return { plannedTasks, plannedMaterials };
+  };
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -436,6 +702,23 @@ const ProjectCreating = () => {
         throw new Error('Please fill in all required fields');
       }
 
+      // Main tasks from a template have no results until the site dimensions are entered
+      const uncalculatedTasks = mainTasks.filter(task => !task.results);
+      if (uncalculatedTasks.length > 0) {
+        throw new Error(`Enter the site dimensions for: ${uncalculatedTasks.map(task => task.name).join(', ')}`);
+      }
+
+      // Throws when the phase dependencies form a loop
+      orderPhases(phases);
+
+      const { plannedTasks, plannedMaterials } = buildPlanRows();
+
+      // Changes to an existing project are reviewed before they are applied
+      if (eventPlan) {
+        setPlanDiff(buildEventPlanDiff(eventPlan.tasks, eventPlan.materials, plannedTasks, plannedMaterials));
+        return;
+      }
+
       // Create the event first
       const { data: event, error: eventError } = await supabase
         .from('events')
@@ -454,575 +737,68 @@ const ProjectCreating = () => {
 
       if (eventError) throw eventError;
 
-      // Process main tasks
-      for (const mainTask of mainTasks) {
-        if (mainTask.results?.taskBreakdown && mainTask.results.taskBreakdown.length > 0) {
-          // Create a task for each item in the task breakdown
-          for (const taskItem of mainTask.results.taskBreakdown) {
-            // Use the original task name for template matching
-            const taskName = taskItem.task;
-            console.log('Processing task:', taskName, 'with amount:', taskItem.amount);
-
-            // Determine if we're dealing with porcelain or sandstone
-            let matchingTaskTemplateId = null;
-            let actualTaskName = taskName;
-
-            // If the task is "Cutting Slabs", determine the correct type based on the main task name
-            if (taskName.toLowerCase() === 'cutting slabs') {
-              const isPortcelain = mainTask.name.toLowerCase().includes('porcelain') || 
-                                  mainTask.results.name?.toLowerCase().includes('porcelain');
-              const isSandstone = mainTask.name.toLowerCase().includes('sandstone') || 
-                                 mainTask.results.name?.toLowerCase().includes('sandstone');
-
-              if (isPortcelain) {
-                actualTaskName = 'cutting porcelain';
-              } else if (isSandstone) {
-                actualTaskName = 'cutting sandstones';
-              }
-            }
-
-            // Try multiple matching strategies, from most specific to least specific
-            let matchingTemplate = null;
-            let matchStage = '';
-
-            // 1. Try exact match first
-            matchingTemplate = taskTemplates.find(template => 
-              template.name.toLowerCase() === actualTaskName.toLowerCase()
-            );
-            if (matchingTemplate) {
-              matchStage = 'exact';
-              console.log('Found exact match:', matchingTemplate.name);
-            }
-
-            // 2. If no exact match, try matching task type specifically
-            if (!matchingTemplate) {
-              // For cutting tasks, ensure we match with cutting templates
-              if (actualTaskName.toLowerCase().includes('cutting')) {
-                matchingTemplate = taskTemplates.find(template => {
-                  const name = template.name.toLowerCase();
-                  return name.includes('cutting') && 
-                         name.includes(actualTaskName.toLowerCase().replace('cutting ', ''));
-                });
-                if (matchingTemplate) {
-                  matchStage = 'task-specific';
-                  console.log('Found task-specific match:', matchingTemplate.name);
-                }
-              }
-            }
+      // Phases first, the tasks reference them
+      if (phases.length > 0) {
+        const { error: phaseError } = await supabase
+          .from('event_phases')
+          .insert(toEventPhaseRows(phases, event.id));
 
-            // 3. If still no match, try matching main words in order
-            if (!matchingTemplate) {
-              const taskWords = actualTaskName.toLowerCase().split(' ');
-              matchingTemplate = taskTemplates.find(template => {
-                const templateWords = template.name.toLowerCase().split(' ');
-                // Words must appear in the same order
-                let templateIndex = 0;
-                return taskWords.every(word => {
-                  while (templateIndex < templateWords.length) {
-                    if (templateWords[templateIndex].includes(word)) {
-                      templateIndex++;
-                      return true;
-                    }
-                    templateIndex++;
-                  }
-                  return false;
-                });
-              });
-              if (matchingTemplate) {
-                matchStage = 'word-order';
-                console.log('Found word-order match:', matchingTemplate.name);
-              }
-            }
-
-            // 4. Last resort: try partial match with key terms
-            if (!matchingTemplate) {
-              matchingTemplate = taskTemplates.find(template => {
-                const name = template.name.toLowerCase();
-                const taskNameLower = actualTaskName.toLowerCase();
-                
-                // Split both names into words and find common significant words
-                const templateWords = name.split(' ').filter(word => word.length > 3);
-                const taskWords = taskNameLower.split(' ').filter(word => word.length > 3);
-                
-                // Require all task words to be present in template
-                return taskWords.every(taskWord => 
-                  templateWords.some(templateWord => 
-                    templateWord.includes(taskWord) || taskWord.includes(templateWord)
-                  )
-                );
-              });
-              if (matchingTemplate) {
-                matchStage = 'partial';
-                console.log('Found partial match:', matchingTemplate.name);
-              }
-            }
-
-            // Log the matching results
-            console.log('Template matching results:', {
-              taskName: actualTaskName,
-              matchStage,
-              matchedTemplate: matchingTemplate?.name || 'No match found'
-            });
-
-            matchingTaskTemplateId = matchingTemplate?.id || null;
-
-            const { error: taskError } = await supabase
-              .from('tasks_done')
-              .insert({
-                event_id: event.id,
-                user_id: user?.id,
-                name: actualTaskName.toLowerCase() === 'bricklaying' ? 'Bricklaying' : actualTaskName.toLowerCase(),
-                task_name: mainTask.name,
-                description: mainTask.results.name || '',
-                unit: taskName.toLowerCase() === 'cutting slabs' ? 'slabs' : (taskItem.unit || ''),
-                amount: `${taskItem.amount || 0} ${taskName.toLowerCase() === 'cutting slabs' ? 'slabs' : (taskItem.unit || '')}`.trim(),
-                hours_worked: taskItem.hours || 0,
-                is_finished: false,
-                event_task_id: matchingTaskTemplateId
-              });
-
-            if (taskError) {
-              console.error('Error creating task:', taskError);
-              throw new Error('Failed to create task');
-            }
-          }
-        } else if (mainTask.results) {
-          // If no task breakdown but we have results, create a single task
-          const taskName = mainTask.name || mainTask.results.name || 'Unnamed Task';
-          
-          console.log('Task breakdown:', mainTask.results.taskBreakdown); // Debug log
-          console.log('Full results:', mainTask.results); // Debug log
-
-          if (mainTask.results.taskBreakdown && mainTask.results.taskBreakdown.length > 0) {
-            // Create a task for each item in the task breakdown
-            for (const taskItem of mainTask.results.taskBreakdown) {
-              console.log('Processing task item:', taskItem); // Debug log
-
-              // Find matching task template
-              let matchingTaskTemplateId = null;
-              const matchingTemplate = taskTemplates.find(template => 
-                template.name.toLowerCase() === taskItem.task.toLowerCase() || 
-                template.name.toLowerCase().includes(taskItem.task.toLowerCase())
-              );
-              matchingTaskTemplateId = matchingTemplate?.id || null;
-
-              // Extract amount from task name if it's in brackets
-              let amount = 0;
-              let unit = '';
-              const amountMatch = taskItem.task.match(/\[([\d.]+)\s*([^\]]+)\]/);
-              if (amountMatch) {
-                amount = parseFloat(amountMatch[1]);
-                unit = amountMatch[2].trim();
-              } else {
-                // Fallback to task item's amount and unit if available
-                amount = taskItem.amount || 0;
-                unit = taskItem.unit || '';
-              }
-
-              console.log('Task amount and unit:', { amount, unit }); // Debug log
-
-              const { error: taskError } = await supabase
-                .from('tasks_done')
-                .insert({
-                  event_id: event.id,
-                  user_id: user?.id,
-                  name: taskItem.task.toLowerCase(),  // Convert to lowercase here
-                  task_name: mainTask.name,
-                  description: mainTask.results.name || '',
-                  unit: unit,
-                  amount: `${amount} ${unit}`.trim(),
-                  hours_worked: taskItem.hours || 0,
-                  is_finished: false,
-                  event_task_id: matchingTaskTemplateId
-                });
-
-              if (taskError) {
-                console.error('Error creating task:', taskError);
-                throw new Error('Failed to create task');
-              }
-            }
-          } else {
-            // If no task breakdown, create a single task
-            const { error: taskError } = await supabase
-              .from('tasks_done')
-              .insert({
-                event_id: event.id,
-                user_id: user?.id,
-                name: taskName,
-                description: mainTask.results.name || '',
-                unit: mainTask.results.unit || '',
-                amount: `${mainTask.results.amount || 0} ${mainTask.results.unit || ''}`.trim(),
-                hours_worked: parseFloat((mainTask.results.totalTime || mainTask.results.labor || 0).toFixed(2)),
-                is_finished: false,
-                event_task_id: matchingTaskTemplateId
-              });
-
-            if (taskError) {
-              console.error('Error creating task:', taskError);
-              throw new Error('Failed to create task');
-            }
-          }
-        }
-
-        // Process materials from main task
-        if (mainTask.results?.materials) {
-          for (const material of mainTask.results.materials) {
-            const { error: materialError } = await supabase
-              .from('materials_delivered')
-              .insert({
-                event_id: event.id,
-                amount: 0,
-                total_amount: material.quantity,
-                unit: material.unit,
-                status: 'pending',
-                name: material.name
-              });
-
-            if (materialError) {
-              console.error('Error creating material:', materialError);
-              throw new Error('Failed to create material');
-            }
-          }
+        if (phaseError) {
+          console.error('Error creating phases:', phaseError);
+          throw new Error('Failed to create phases');
         }
       }
 
-      // Add this after processing main tasks but before processing minor tasks
-      // Add Soil Excavation and Tape 1 Preparation tasks
-      if (selectedExcavator) {
-        if (totalSoilExcavation > 0) {
-          const excavationTime = findDiggerTimeEstimate(selectedExcavator["size (in tones)"] || 0, totalSoilExcavation);
-          const transportTime = excavationOption === 'removal' && selectedCarrier
-            ? findCarrierTimeEstimate(selectedCarrier["size (in tones)"] || 0, totalSoilExcavation)
-            : 0;
-          
-          // Format the hours to 2 decimal places
-          const totalHours = parseFloat((excavationTime + transportTime).toFixed(2));
-          
-          // Create task name with equipment details
-          const equipmentDetails = selectedCarrier
-            ? `(${selectedExcavator["size (in tones)"]}t digger and ${selectedCarrier["size (in tones)"]}t ${selectedCarrier.type === 'barrows_dumpers' ? 'barrow' : 'carrier'})`
-            : `(${selectedExcavator["size (in tones)"]}t digger)`;
-          
-          // Find excavation task template with matching equipment
-          const excavatorSize = selectedExcavator["size (in tones)"] || 0;
-          const carrierSize = selectedCarrier ? selectedCarrier["size (in tones)"] || 0 : 0;
-          const carrierType = selectedCarrier ? 
-            (selectedCarrier.type === 'barrows_dumpers' ? 'barrow' : 'carrier') : '';
-
-          // Log information for debugging
-          console.log('Looking for excavation task template with:', {
-            excavatorSize,
-            carrierSize,
-            carrierType
-          });
-
-          let excavationTaskTemplate = null;
-
-          if (selectedCarrier) {
-            // Search for template with both excavator and carrier
-            excavationTaskTemplate = taskTemplates.find(template => {
-              const name = template.name.toLowerCase();
-              const nameMatches = 
-                name.includes('excavation') || 
-                name.includes('soil');
-              const excavatorMatches = name.includes(`${excavatorSize}t`);
-              const carrierMatches = name.includes(`${carrierSize}t`) && 
-                                    (name.includes('barrow') || 
-                                     name.includes('wheelbarrow') || 
-                                     name.includes('carrier'));
-              
-              return nameMatches && excavatorMatches && carrierMatches;
-            });
-            
-            console.log('Found excavation template with carrier:', excavationTaskTemplate?.name || 'None');
-            
-            // If no exact match, try a looser match with just excavator size and carrier type
-            if (!excavationTaskTemplate) {
-              excavationTaskTemplate = taskTemplates.find(template => {
-                const name = template.name.toLowerCase();
-                const isExcavation = name.includes('excavation') || name.includes('soil');
-                const hasExcavatorSize = name.includes(`${excavatorSize}t`);
-                const hasCarrierType = selectedCarrier.type === 'barrows_dumpers' 
-                  ? (name.includes('barrow') || name.includes('wheelbarrow'))
-                  : name.includes('carrier');
-                
-                return isExcavation && hasExcavatorSize && hasCarrierType;
-              });
-              
-              console.log('Found excavation template with looser carrier match:', excavationTaskTemplate?.name || 'None');
-            }
-            
-            // Fall back to just matching excavation with excavator size
-            if (!excavationTaskTemplate) {
-              excavationTaskTemplate = taskTemplates.find(template => {
-                const name = template.name.toLowerCase();
-                return (name.includes('excavation') || name.includes('soil')) && 
-                       name.includes(`${excavatorSize}t`);
-              });
-              
-              console.log('Found excavation template with excavator size only:', excavationTaskTemplate?.name || 'None');
-            }
-          } else {
-            // Search for template with just excavator
-            excavationTaskTemplate = taskTemplates.find(template => {
-              const name = template.name.toLowerCase();
-              const nameMatches = 
-                name.includes('excavation') || 
-                name.includes('soil');
-              const excavatorMatches = name.includes(`${excavatorSize}t`);
-              const noCarrierMention = !name.includes('carrier') && 
-                                       !name.includes('barrow') && 
-                                       !name.includes('wheelbarrow');
-              
-              return nameMatches && excavatorMatches && noCarrierMention;
-            });
-            
-            console.log('Found excavation template with just excavator:', excavationTaskTemplate?.name || 'None');
-            
-            // Fall back to just matching excavation with excavator size
-            if (!excavationTaskTemplate) {
-              excavationTaskTemplate = taskTemplates.find(template => {
-                const name = template.name.toLowerCase();
-                return (name.includes('excavation') || name.includes('soil')) && 
-                       name.includes(`${excavatorSize}t`);
-              });
-              
-              console.log('Found excavation fallback template:', excavationTaskTemplate?.name || 'None');
-            }
-          }
-
-          // Absolute fallback - just find any excavation task if everything else fails
-          if (!excavationTaskTemplate) {
-            excavationTaskTemplate = taskTemplates.find(template => {
-              const name = template.name.toLowerCase();
-              return name.includes('excavation') || name.includes('soil');
-            });
-            
-            console.log('Found generic excavation template as last resort:', excavationTaskTemplate?.name || 'None');
-          }
-
-          // Create Soil Excavation task
-          const { error: soilTaskError } = await supabase
-            .from('tasks_done')
-            .insert({
-              event_id: event.id,
-              user_id: user?.id,
-              name: `Soil Excavation ${equipmentDetails}`,
-              description: `Total soil to excavate: ${totalSoilExcavation.toFixed(2)} tonnes`,
-              unit: 'tonnes',
-              amount: `${totalSoilExcavation.toFixed(2)} tonnes`,
-              hours_worked: totalHours,
-              is_finished: false,
-              event_task_id: excavationTaskTemplate?.id || null
-            });
-
-          if (soilTaskError) {
-            console.error('Error creating soil excavation task:', soilTaskError);
-            throw new Error('Failed to create soil excavation task');
-          }
+      if (plannedTasks.length > 0) {
+        const { error: taskError } = await supabase
+          .from('tasks_done')
+          .insert(plannedTasks.map(task => ({
+            ...task,
+            event_id: event.id,
+            user_id: user?.id,
+            is_finished: false
+          })));
+
+        if (taskError) {
+          console.error('Error creating tasks:', taskError);
+          throw new Error('Failed to create tasks');
         }
+      }
 
-        if (totalTape1 > 0) {
-          const tape1ExcavationTime = findDiggerTimeEstimate(selectedExcavator["size (in tones)"] || 0, totalTape1);
-          const tape1TransportTime = excavationOption === 'removal' && selectedCarrier
-            ? findCarrierTimeEstimate(selectedCarrier["size (in tones)"] || 0, totalTape1)
-            : 0;
-          
-          // Create task name with equipment details
-          const equipmentDetails = selectedCarrier
-            ? `(${selectedExcavator["size (in tones)"]}t digger and ${selectedCarrier["size (in tones)"]}t ${selectedCarrier.type === 'barrows_dumpers' ? 'barrow' : 'carrier'})`
-            : `(${selectedExcavator["size (in tones)"]}t digger)`;
-          
-          // Find tape1 task template with matching equipment
-          const excavatorSize = selectedExcavator["size (in tones)"] || 0;
-          const carrierSize = selectedCarrier ? selectedCarrier["size (in tones)"] || 0 : 0;
-          const carrierType = selectedCarrier ? 
-            (selectedCarrier.type === 'barrows_dumpers' ? 'barrow' : 'carrier') : '';
-
-          // Log information for debugging
-          console.log('Looking for tape1 task template with:', {
-            excavatorSize,
-            carrierSize,
-            carrierType
-          });
-
-          let tape1TaskTemplate = null;
-
-          if (selectedCarrier) {
-            // Search for template with both excavator and carrier
-            tape1TaskTemplate = taskTemplates.find(template => {
-              const name = template.name.toLowerCase();
-              const nameMatches = 
-                name.includes('tape 1') || 
-                name.includes('preparation') ||
-                name.includes('type 1');
-              const excavatorMatches = name.includes(`${excavatorSize}t`);
-              const carrierMatches = name.includes(`${carrierSize}t`) && 
-                                    (name.includes('barrow') || 
-                                     name.includes('wheelbarrow') || 
-                                     name.includes('carrier'));
-              
-              return nameMatches && excavatorMatches && carrierMatches;
-            });
-            
-            console.log('Found tape1 template with carrier:', tape1TaskTemplate?.name || 'None');
-            
-            // If no exact match, try a looser match with just excavator size and carrier type
-            if (!tape1TaskTemplate) {
-              tape1TaskTemplate = taskTemplates.find(template => {
-                const name = template.name.toLowerCase();
-                const isPreparation = name.includes('tape 1') || 
-                                      name.includes('preparation') || 
-                                      name.includes('type 1');
-                const hasExcavatorSize = name.includes(`${excavatorSize}t`);
-                const hasCarrierType = selectedCarrier.type === 'barrows_dumpers' 
-                  ? (name.includes('barrow') || name.includes('wheelbarrow'))
-                  : name.includes('carrier');
-                
-                return isPreparation && hasExcavatorSize && hasCarrierType;
-              });
-              
-              console.log('Found tape1 template with looser carrier match:', tape1TaskTemplate?.name || 'None');
-            }
-            
-            // Fall back to just matching preparation with excavator size
-            if (!tape1TaskTemplate) {
-              tape1TaskTemplate = taskTemplates.find(template => {
-                const name = template.name.toLowerCase();
-                return (name.includes('tape 1') || name.includes('preparation') || name.includes('type 1')) && 
-                       name.includes(`${excavatorSize}t`);
-              });
-              
-              console.log('Found tape1 template with excavator size only:', tape1TaskTemplate?.name || 'None');
-            }
-          } else {
-            // Search for template with just excavator
-            tape1TaskTemplate = taskTemplates.find(template => {
-              const name = template.name.toLowerCase();
-              const nameMatches = 
-                name.includes('tape 1') || 
-                name.includes('preparation') ||
-                name.includes('type 1');
-              const excavatorMatches = name.includes(`${excavatorSize}t`);
-              const noCarrierMention = !name.includes('carrier') && 
-                                       !name.includes('barrow') && 
-                                       !name.includes('wheelbarrow');
-              
-              return nameMatches && excavatorMatches && noCarrierMention;
-            });
-            
-            console.log('Found tape1 template with just excavator:', tape1TaskTemplate?.name || 'None');
-            
-            // Fall back to just matching preparation with excavator size
-            if (!tape1TaskTemplate) {
-              tape1TaskTemplate = taskTemplates.find(template => {
-                const name = template.name.toLowerCase();
-                return (name.includes('tape 1') || name.includes('preparation') || name.includes('type 1')) && 
-                       name.includes(`${excavatorSize}t`);
-              });
-              
-              console.log('Found tape1 fallback template:', tape1TaskTemplate?.name || 'None');
-            }
-          }
-
-          // Absolute fallback - just find any preparation task if everything else fails
-          if (!tape1TaskTemplate) {
-            tape1TaskTemplate = taskTemplates.find(template => {
-              const name = template.name.toLowerCase();
-              return name.includes('tape 1') || name.includes('preparation') || name.includes('type 1');
-            });
-            
-            console.log('Found generic tape1 template as last resort:', tape1TaskTemplate?.name || 'None');
-          }
-
-          // Create Tape 1 Preparation task
-          const { error: tape1TaskError } = await supabase
-            .from('tasks_done')
-            .insert({
-              event_id: event.id,
-              user_id: user?.id,
-              name: `Tape 1 Preparation ${equipmentDetails}`,
-              description: `Total Type 1 aggregate to prepare: ${totalTape1.toFixed(2)} tonnes`,
-              unit: 'tonnes',
-              amount: `${totalTape1.toFixed(2)} tonnes`,
-              hours_worked: tape1ExcavationTime + tape1TransportTime,
-              is_finished: false,
-              event_task_id: tape1TaskTemplate?.id || null
-            });
-
-          if (tape1TaskError) {
-            console.error('Error creating tape 1 preparation task:', tape1TaskError);
-            throw new Error('Failed to create tape 1 preparation task');
-          }
+      if (plannedMaterials.length > 0) {
+        const { error: materialError } = await supabase
+          .from('materials_delivered')
+          .insert(plannedMaterials.map(material => ({
+            ...material,
+            event_id: event.id,
+            amount: 0,
+            status: 'pending'
+          })));
+
+        if (materialError) {
+          console.error('Error creating materials:', materialError);
+          throw new Error('Failed to create materials');
         }
       }
 
-      // Process minor tasks
-      for (const minorTask of minorTasks) {
-        if (minorTask.template_id) {
-          // Create task in tasks_done
-          const { error: taskError } = await supabase
-            .from('tasks_done')
-            .insert({
-              event_id: event.id,
-              event_task_id: minorTask.template_id,
-              user_id: user?.id,
-              name: minorTask.name,
-              description: minorTask.description || '',
-              unit: minorTask.unit,
-              amount: `${minorTask.quantity} ${minorTask.unit}`,
-              hours_worked: minorTask.estimated_hours || 0,
-              is_finished: false
-            });
+      // Link every version of the quote to the new event
+      if (quoteNumber !== null) {
+        const { error: quoteError } = await supabase
+          .from('quotes')
+          .update({ event_id: event.id })
+          .eq('quote_number', quoteNumber);
 
-          if (taskError) {
-            console.error('Error creating minor task:', taskError);
-            throw new Error('Failed to create minor task');
-          }
-
-          // Process materials from minor task
-          if (minorTask.results?.materials) {
-            for (const material of minorTask.results.materials) {
-              const { error: materialError } = await supabase
-                .from('materials_delivered')
-                .insert({
-                  event_id: event.id,
-                  amount: 0,
-                  total_amount: material.quantity,
-                  unit: material.unit,
-                  status: 'pending',
-                  name: material.name
-                });
-
-              if (materialError) {
-                console.error('Error creating material:', materialError);
-                throw new Error('Failed to create material');
-              }
-            }
-          }
+        if (quoteError) {
+          console.error('Error linking quote:', quoteError);
         }
       }
 
-      // Process direct materials
-      for (const material of materials) {
-        if (material.template_id && material.quantity > 0) {
-          const materialTemplate = materialTemplates.find(t => t.id === material.template_id);
-          const { error: materialError } = await supabase
-            .from('materials_delivered')
-            .insert({
-              event_id: event.id,
-              amount: 0,
-              total_amount: material.quantity,
-              unit: material.unit || materialTemplate?.unit || '',
-              status: 'pending',
-              name: material.name || materialTemplate?.name || ''
-            });
-
-          if (materialError) {
-            console.error('Error creating material:', materialError);
-            throw new Error('Failed to create material');
-          }
-        }
+      // Keep the plan on the event, with calculator inputs, so it can be edited later
+      await draftSaveRef.current;
+      try {
+        await saveProjectDraft(draftIdRef.current, formData.title, draftPlan, user?.id, event.id);
+      } catch (draftError) {
+        console.error('Error saving project plan:', draftError);
       }
 
       // Navigate to projects page on success
@@ -1035,6 +811,127 @@ const ProjectCreating = () => {
     }
   };
 
+  // Save the plan without its site dimensions so other projects can start from it
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const plan: ProjectTemplatePlan = {
+        mainTasks: mainTasks
+          .filter(task => task.calculatorType)
+          .map(task => ({
+            name: task.name,
+            calculatorType: task.calculatorType,
+            calculatorSubType: task.calculatorSubType,
+            inputs: toTemplateInputs(task.calculatorType, task.inputs)
+          })),
+        minorTasks,
+        materials
+      };
+      return saveProjectTemplate(templateName.trim(), templateDescription.trim(), plan, user?.id);
+    },
+    onSuccess: () => {
+      setShowTemplateModal(false);
+      setTemplateName('');
+      setTemplateDescription('');
+    }
+  });
+
+  // Days the phase schedule skips along with weekends
+  const { data: holidays = [] } = useQuery({
+    queryKey: ['company_holidays'],
+    queryFn: fetchCompanyHolidays
+  });
+
+  // Project templates a new, empty plan can start from
+  const { data: projectTemplates = [] } = useQuery({
+    queryKey: ['project_templates'],
+    queryFn: fetchProjectTemplates,
+    enabled: !editEventId
+  });
+
+  // Apply the reviewed changes to the project being edited
+  const applyPlanMutation = useMutation({
+    mutationFn: async (diff: EventPlanDiff) => {
+      await applyEventPlan(editEventId!, {
+        title: formData.title,
+        description: formData.description,
+        start_date: formData.start_date,
+        end_date: formData.end_date,
+        status: formData.status,
+        has_equipment: formData.has_equipment,
+        has_materials: formData.has_materials
+      }, phases, diff, user?.id);
+      await saveProjectDraft(eventPlan?.draft?.id || null, formData.title, draftPlan, user?.id, editEventId);
+    },
+    onSuccess: () => {
+      navigate(`/events/${editEventId}`);
+    }
+  });
+
+  // Turn the plan into quote sections: one per main task, plus one for
+  // groundworks, minor tasks and direct materials, as created by handleSubmit
+  const buildQuoteSections = (): QuotePlanSection[] => {
+    const sections: QuotePlanSection[] = mainTasks.map(mainTask => {
+      const breakdown = mainTask.results?.taskBreakdown || [];
+      return {
+        name: mainTask.name,
+        tasks: breakdown.length > 0
+          ? breakdown.map(item => ({
+              name: item.task || item.name,
+              hours: item.hours || 0,
+              amount: item.amount || 0,
+              unit: item.unit || ''
+            }))
+          : mainTask.results
+            ? [{
+                name: mainTask.name,
+                hours: mainTask.results.totalTime || mainTask.results.labor || 0,
+                amount: mainTask.results.amount || 0,
+                unit: mainTask.results.unit || ''
+              }]
+            : [],
+        materials: mainTask.results?.materials || []
+      };
+    });
+
+    const additional: QuotePlanSection = { name: 'Additional Works & Materials', tasks: [], materials: [] };
+
+    if (selectedExcavator) {
+      const groundworkHours = (tons: number) =>
+        findDiggerTimeEstimate(selectedExcavator["size (in tones)"] || 0, tons) +
+        (excavationOption === 'removal' && selectedCarrier
+          ? findCarrierTimeEstimate(selectedCarrier["size (in tones)"] || 0, tons)
+          : 0);
+
+      if (totalSoilExcavation > 0) {
+        additional.tasks.push({ name: 'Soil Excavation', hours: groundworkHours(totalSoilExcavation), amount: totalSoilExcavation, unit: 'tonnes' });
+      }
+      if (totalTape1 > 0) {
+        additional.tasks.push({ name: 'Type 1 Preparation', hours: groundworkHours(totalTape1), amount: totalTape1, unit: 'tonnes' });
+      }
+    }
+
+    minorTasks.filter(task => task.template_id).forEach(task => {
+      additional.tasks.push({
+        name: task.name,
+        hours: task.results?.labor ?? (task.estimated_hours || 0) * task.quantity,
+        amount: task.quantity,
+        unit: task.unit
+      });
+      additional.materials.push(...(task.results?.materials || []));
+    });
+
+    materials.filter(material => material.template_id && material.quantity > 0).forEach(material => {
+      const materialTemplate = materialTemplates.find(t => t.id === material.template_id);
+      additional.materials.push({
+        name: material.name || materialTemplate?.name || '',
+        quantity: material.quantity,
+        unit: material.unit || materialTemplate?.unit || ''
+      });
+    });
+
+    return [...sections, additional];
+  };
+
   // Update the useEffect that calculates totals
   useEffect(() => {
     let soilTotal = 0;
@@ -1115,7 +1012,7 @@ const ProjectCreating = () => {
     // Add additional excavation time if there is any
     if (extraSoilExcavation.area || extraSoilExcavation.weight) {
       const additionalTons = excavationMeasureType === 'area' 
-        ? Number(extraSoilExcavation.area) * 1.5 // Convert m³ to tonnes (1.5 tonnes per m³)
+        ? Number(extraSoilExcavation.area) * DENSITIES.soil // Convert m³ to tonnes
         : Number(extraSoilExcavation.weight);
 
       if (additionalTons > 0 && selectedExcavator) {
@@ -1178,18 +1075,166 @@ const ProjectCreating = () => {
     fetchEquipment();
   }, []);
 
-  // Add calculation functions
-  const findDiggerTimeEstimate = (sizeInTons: number, totalTons: number) => {
-    if (sizeInTons <= 3) return totalTons * 0.5;
-    if (sizeInTons <= 8) return totalTons * 0.35;
-    return totalTons * 0.25;
-  };
+  const loadPlan = useCallback((plan: ProjectDraftPlan) => {
+    setFormData(prev => ({ ...prev, ...plan.formData }));
+    setMainTasks(plan.mainTasks as MainTask[]);
+    setMinorTasks(plan.minorTasks as MinorTask[]);
+    setMaterials(plan.materials as Material[]);
+    setPhases((plan.phases || []) as PlanPhase[]);
+    setExtraSoilExcavation(plan.extraSoilExcavation);
+    setExcavationMeasureType(plan.excavationMeasureType);
+    setExcavationOption(plan.excavationOption);
+    setDraftEquipment({ excavatorId: plan.excavatorId, carrierId: plan.carrierId });
+    setQuoteNumber(plan.quoteNumber);
+  }, []);
+
+  // Load an existing project into the builder, from the plan saved with it when there is one
+  useEffect(() => {
+    if (!editEventId) return;
+
+    const loadEventPlan = async () => {
+      try {
+        const plan = await fetchEventPlan(editEventId);
+        if (plan.draft) {
+          loadPlan(plan.draft.plan);
+        } else {
+          const [{ data: equipment, error: equipmentError }, { data: templates, error: templatesError }] = await Promise.all([
+            supabase.from('setup_digging').select('*'),
+            supabase.from('materials').select('id, name')
+          ]);
+          if (equipmentError) throw equipmentError;
+          if (templatesError) throw templatesError;
+
+          loadPlan(reconstructEventPlan(
+            plan,
+            (equipment || []).filter(item => item.type === 'excavator'),
+            (equipment || []).filter(item => item.type === 'barrows_dumpers'),
+            templates || []
+          ));
+        }
+
+        // Event details may have changed since the plan was saved
+        setFormData({
+          title: plan.event.title,
+          description: plan.event.description || '',
+          start_date: plan.event.start_date,
+          end_date: plan.event.end_date,
+          status: plan.event.status,
+          has_equipment: plan.event.has_equipment,
+          has_materials: plan.event.has_materials
+        });
+        setEventPlan(plan);
+      } catch (error) {
+        console.error('Error loading project:', error);
+        setError('Failed to load the project');
+      } finally {
+        setIsDraftLoading(false);
+      }
+    };
+
+    loadEventPlan();
+  }, [editEventId, loadPlan]);
+
+  // Main tasks are recalculated once the site dimensions are entered
+  const applyTemplate = useCallback((template: ProjectTemplate) => {
+    setMainTasks(template.plan.mainTasks.map(task => ({ ...task, id: crypto.randomUUID(), results: null })));
+    setMinorTasks(template.plan.minorTasks as MinorTask[]);
+    setMaterials(template.plan.materials as Material[]);
+    setFormData(prev => ({ ...prev, description: prev.description || template.description || '' }));
+  }, []);
+
+  // Start a new project from a template
+  useEffect(() => {
+    if (!templateIdRef.current) return;
+
+    const loadTemplate = async () => {
+      try {
+        applyTemplate(await fetchProjectTemplate(templateIdRef.current!));
+      } catch (error) {
+        console.error('Error loading template:', error);
+        setError('Failed to load the template');
+      } finally {
+        setIsDraftLoading(false);
+      }
+    };
+
+    loadTemplate();
+  }, [applyTemplate]);
+
+  // Reopen a saved draft
+  useEffect(() => {
+    if (!isDraftLoading || !draftIdRef.current) return;
+
+    const loadDraft = async () => {
+      try {
+        const { plan } = await fetchProjectDraft(draftIdRef.current!);
+        loadPlan(plan);
+        setDraftStatus('saved');
+      } catch (error) {
+        console.error('Error loading draft:', error);
+        setError('Failed to load the draft');
+      } finally {
+        setIsDraftLoading(false);
+      }
+    };
 
-  const findCarrierTimeEstimate = (sizeInTons: number, totalTons: number) => {
-    if (sizeInTons <= 3) return totalTons * 0.4;
-    if (sizeInTons <= 8) return totalTons * 0.3;
-    return totalTons * 0.2;
+    loadDraft();
+  }, [isDraftLoading, loadPlan]);
+
+  // Equipment is fetched separately, so the draft's machines are picked once both are in
+  useEffect(() => {
+    if (!draftEquipment) return;
+    setSelectedExcavator(excavators.find(excavator => excavator.id === draftEquipment.excavatorId) || null);
+    setSelectedCarrier(carriers.find(carrier => carrier.id === draftEquipment.carrierId) || null);
+  }, [draftEquipment, excavators, carriers]);
+
+  // Autosave the whole plan a moment after the last change
+  const draftPlan: ProjectDraftPlan = {
+    formData: { ...formData },
+    mainTasks,
+    minorTasks,
+    materials,
+    extraSoilExcavation,
+    excavationMeasureType,
+    excavationOption,
+    excavatorId: selectedExcavator?.id || null,
+    carrierId: selectedCarrier?.id || null,
+    quoteNumber,
+    phases
   };
+  const debouncedPlan = useDebounce(JSON.stringify(draftPlan), DRAFT_AUTOSAVE_DELAY);
+
+  useEffect(() => {
+    const plan: ProjectDraftPlan = JSON.parse(debouncedPlan);
+    const isEmpty = !plan.formData.title && plan.mainTasks.length === 0 &&
+      plan.minorTasks.length === 0 && plan.materials.length === 0;
+    if (editEventId || isDraftLoading || isSubmitting || isEmpty || debouncedPlan === lastSavedPlanRef.current) return;
+
+    lastSavedPlanRef.current = debouncedPlan;
+    setDraftStatus('saving');
+    // Saves are chained so later ones update the draft the first one created
+    draftSaveRef.current = draftSaveRef.current.then(async () => {
+      try {
+        const draft = await saveProjectDraft(draftIdRef.current, String(plan.formData.title), plan, user?.id);
+        if (!draftIdRef.current) {
+          draftIdRef.current = draft.id;
+          setSearchParams({ draft: draft.id }, { replace: true });
+        }
+        setDraftStatus('saved');
+      } catch (error) {
+        console.error('Error saving draft:', error);
+        lastSavedPlanRef.current = null;
+        setDraftStatus('error');
+      }
+    });
+  }, [debouncedPlan, editEventId, isDraftLoading, isSubmitting, user?.id, setSearchParams]);
+
+  // Same rates as the Soil Excavation calculator
+  const findDiggerTimeEstimate = (sizeInTons: number, totalTons: number) =>
+    findMachineRate(DIGGING_RATES, sizeInTons) * totalTons;
+
+  const findCarrierTimeEstimate = (sizeInTons: number, totalTons: number) =>
+    findMachineRate(CARRYING_RATES, sizeInTons) * totalTons;
 
   useEffect(() => {
     if (selectedExcavator && selectedCarrier) {
@@ -1215,7 +1260,7 @@ const ProjectCreating = () => {
   useEffect(() => {
     const additionalSoil = excavationMeasureType === 'weight' 
       ? Number(extraSoilExcavation.weight) || 0
-      : Number(extraSoilExcavation.area) * 1.5; // Assuming 1.5 tonnes per square meter, adjust as needed
+      : Number(extraSoilExcavation.area) * DENSITIES.soil; // Convert m³ to tonnes
     
     setTotalSoilExcavation(prev => {
       const baseAmount = mainTasks.reduce((total, task) => {
@@ -1233,19 +1278,78 @@ const ProjectCreating = () => {
     });
   }, [extraSoilExcavation, excavationMeasureType, mainTasks]);
 
+  // Parts of the plan the phase planner assigns to phases, with their estimated hours
+  const groundworksHours = (tons: number) => selectedExcavator
+    ? findDiggerTimeEstimate(selectedExcavator["size (in tones)"] || 0, tons) +
+      (excavationOption === 'removal' && selectedCarrier
+        ? findCarrierTimeEstimate(selectedCarrier["size (in tones)"] || 0, tons)
+        : 0)
+    : 0;
+  const plannedMinorTasks = minorTasks.filter(task => task.template_id);
+  const planItems: PlanItem[] = [
+    ...mainTasks.map(task => ({
+      key: mainTaskItem(task.id),
+      label: task.name,
+      hours: task.results?.taskBreakdown?.length
+        ? task.results.taskBreakdown.reduce((sum, item) => sum + (item.hours || 0), 0)
+        : task.results?.totalTime || task.results?.labor || 0,
+      calculatorType: task.calculatorType,
+      calculatorSubType: task.calculatorSubType
+    })),
+    ...(selectedExcavator && totalSoilExcavation > 0
+      ? [{ key: SOIL_EXCAVATION_ITEM, label: 'Soil Excavation', hours: groundworksHours(totalSoilExcavation) }]
+      : []),
+    ...(selectedExcavator && totalTape1 > 0
+      ? [{ key: TAPE1_PREPARATION_ITEM, label: 'Tape 1 Preparation', hours: groundworksHours(totalTape1) }]
+      : []),
+    ...(plannedMinorTasks.length > 0
+      ? [{
+          key: MINOR_TASKS_ITEM,
+          label: 'Minor Tasks',
+          hours: plannedMinorTasks.reduce((sum, task) => sum + (task.results?.labor ?? (task.estimated_hours || 0) * task.quantity), 0)
+        }]
+      : [])
+  ];
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-5xl">
         <BackButton />
         <div className="flex justify-between items-center mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Create New Project</h1>
+          <h1 className="text-3xl font-bold text-gray-900">{editEventId ? 'Edit Project' : 'Create New Project'}</h1>
+          <div className="flex items-center gap-2">
+          {draftStatus && (
+            <span className={`text-sm mr-2 ${draftStatus === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+              {draftStatus === 'saving' ? 'Saving draft...' : draftStatus === 'saved' ? 'Draft saved' : 'Draft not saved'}
+            </span>
+          )}
+          <button
+            onClick={() => setShowQuoteModal(true)}
+            disabled={!formData.title}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <FileText className="w-5 h-5 mr-2" />
+            Generate Quote
+          </button>
+          <button
+            onClick={() => {
+              setTemplateName(formData.title);
+              setShowTemplateModal(true);
+            }}
+            disabled={mainTasks.length === 0 && minorTasks.length === 0 && materials.length === 0}
+            className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <BookmarkPlus className="w-5 h-5 mr-2" />
+            Save as Template
+          </button>
           <button
           onClick={handleSubmit}
-          disabled={!formData.title || !formData.start_date || !formData.end_date}
+          disabled={!formData.title || !formData.start_date || !formData.end_date || isDraftLoading}
           className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
           >
-            <Plus className="w-5 h-5 mr-2" />
-            Create Event
+            {editEventId ? <Check className="w-5 h-5 mr-2" /> : <Plus className="w-5 h-5 mr-2" />}
+            {editEventId ? 'Review Changes' : 'Create Event'}
           </button>
+          </div>
         </div>
 
         <div className="space-y-8">
@@ -1253,6 +1357,26 @@ const ProjectCreating = () => {
           <div className="bg-white shadow rounded-lg p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Basic Information</h2>
             <div className="space-y-4">
+              {!editEventId && !isDraftLoading && projectTemplates.length > 0 &&
+                mainTasks.length === 0 && minorTasks.length === 0 && materials.length === 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Start from template</label>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const template = projectTemplates.find(item => item.id === e.target.value);
+                      if (template) applyTemplate(template);
+                    }}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    <option value="">Choose a template...</option>
+                    {projectTemplates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700">Title</label>
                 <input
@@ -1284,6 +1408,7 @@ const ProjectCreating = () => {
                   <option value="planned">Planned</option>
                   <option value="scheduled">Scheduled</option>
                   <option value="in_progress">In Progress</option>
+                  {editEventId && <option value="finished">Finished</option>}
                 </select>
               </div>
 
@@ -1353,6 +1478,19 @@ const ProjectCreating = () => {
             <div key={task.id} className="bg-gray-700 rounded-lg p-4 mb-4">
               <div className="flex justify-between items-start mb-4">
                 <h3 className="text-lg font-medium text-white">{task.name}</h3>
+                <div className="flex items-center gap-2">
+                  {task.calculatorType && (
+                  <button
+                    onClick={() => {
+                      setSelectedMainTask(task);
+                      setShowCalculatorModal(true);
+                    }}
+                    className="text-gray-400 hover:text-white"
+                    title="Edit calculation"
+                  >
+                    <Pencil className="w-5 h-5" />
+                  </button>
+                  )}
                     <button
                       onClick={() => {
                     const updatedTasks = mainTasks.filter((_, i) => i !== index);
@@ -1362,7 +1500,20 @@ const ProjectCreating = () => {
                     >
                       <X className="w-5 h-5" />
                     </button>
+                </div>
                   </div>
+
+                  {!task.results && task.calculatorType && (
+                    <button
+                      onClick={() => {
+                        setSelectedMainTask(task);
+                        setShowCalculatorModal(true);
+                      }}
+                      className="w-full py-2 px-4 bg-yellow-500 text-gray-900 rounded-lg hover:bg-yellow-400 transition-colors"
+                    >
+                      Enter site dimensions
+                    </button>
+                  )}
                   
                   {task.results && (
                 <>
@@ -1913,6 +2064,16 @@ const ProjectCreating = () => {
             </div>
           </div>
 
+          {/* Phases Section */}
+          <PhasePlanner
+            phases={phases}
+            items={planItems}
+            startDate={formData.start_date}
+            holidays={holidays.map(holiday => holiday.holiday_date)}
+            onChange={setPhases}
+            onScheduled={(endDate) => setFormData(prev => ({ ...prev, end_date: endDate }))}
+          />
+
           {/* Results Section */}
         <div className="mt-8 bg-gray-800 rounded-lg p-6">
           <h2 className="text-xl font-semibold text-white mb-4">Total Results</h2>
@@ -1973,7 +2134,7 @@ const ProjectCreating = () => {
                     if (task === mainTasks[mainTasks.length - 1]) {
                       if (extraSoilExcavation.area || extraSoilExcavation.weight) {
                         const additionalTons = excavationMeasureType === 'area' 
-                          ? Number(extraSoilExcavation.area) * 1.5 // Convert area to tonnes (1.5 tonnes per m³)
+                          ? Number(extraSoilExcavation.area) * DENSITIES.soil // Convert m³ to tonnes
                           : Number(extraSoilExcavation.weight);
 
                         if (additionalTons > 0) {
@@ -2102,6 +2263,7 @@ const ProjectCreating = () => {
         <CalculatorModal
           calculatorType={selectedMainTask.calculatorType}
           calculatorSubType={selectedMainTask.calculatorSubType}
+          initialInputs={selectedMainTask.inputs || undefined}
           onClose={() => {
             setShowCalculatorModal(false);
             setSelectedMainTask(null);
@@ -2110,6 +2272,73 @@ const ProjectCreating = () => {
         />
       )}
 
+      {planDiff && (
+        <PlanChangesModal
+          diff={planDiff}
+          isApplying={applyPlanMutation.isPending}
+          error={applyPlanMutation.error?.message || null}
+          onConfirm={() => applyPlanMutation.mutate(planDiff)}
+          onClose={() => setPlanDiff(null)}
+        />
+      )}
+
+      {showQuoteModal && (
+        <QuoteModal
+          title={formData.title}
+          description={formData.description}
+          sections={buildQuoteSections()}
+          quoteNumber={quoteNumber}
+          onSaved={(quote) => setQuoteNumber(quote.quote_number)}
+          onClose={() => setShowQuoteModal(false)}
+        />
+      )}
+
+      {showTemplateModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg shadow-lg max-w-md w-full">
+            <h3 className="text-lg font-semibold mb-2">Save as Template</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Areas, lengths and heights are left out and entered for each new project.
+            </p>
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Template name, e.g. Patio + wall + fence"
+              className="w-full p-2 border rounded mb-3"
+            />
+            <textarea
+              value={templateDescription}
+              onChange={(e) => setTemplateDescription(e.target.value)}
+              placeholder="Description"
+              rows={2}
+              className="w-full p-2 border rounded mb-4"
+            />
+            {saveTemplateMutation.isError && (
+              <div className="p-3 mb-4 bg-red-50 text-red-700 rounded-md flex items-center">
+                <AlertCircle className="w-5 h-5 mr-2" />
+                Failed to save template
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setShowTemplateModal(false)}
+                className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => saveTemplateMutation.mutate()}
+                disabled={!templateName.trim() || saveTemplateMutation.isPending}
+                className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saveTemplateMutation.isPending ? 'Saving...' : 'Save Template'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showNamePrompt && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white p-6 rounded-lg shadow-lg max-w-md w-full">
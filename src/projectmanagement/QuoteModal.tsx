@@ -0,0 +1,315 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, FileText, Printer, Download, AlertCircle, Save } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, addDays } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../lib/store';
+import {
+  DEFAULT_PRICING_SETTINGS,
+  fetchLabourRates,
+  fetchMaterialPriceMap,
+  fetchPricingSettings
+} from '../lib/pricing';
+import {
+  DEFAULT_QUOTE_VALIDITY_DAYS,
+  QUOTE_STATUS_LABELS,
+  Quote,
+  QuotePlanSection,
+  calculateQuoteTotals,
+  fetchQuoteVersions,
+  formatQuoteNumber,
+  priceQuotePlan,
+  renderQuoteHtml
+} from '../lib/quotes';
+import { DEFAULT_VAT_RATE } from '../lib/invoices';
+import { downloadHtmlDocument, printHtmlDocument } from '../lib/documentExport';
+
+interface QuoteModalProps {
+  title: string;
+  description: string;
+  sections: QuotePlanSection[];
+  quoteNumber: number | null;
+  onSaved: (quote: Quote) => void;
+  onClose: () => void;
+}
+
+const QuoteModal: React.FC<QuoteModalProps> = ({
+  title,
+  description,
+  sections,
+  quoteNumber,
+  onSaved,
+  onClose
+}) => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const [client, setClient] = useState('');
+  const [notes, setNotes] = useState('');
+  const [vatRate, setVatRate] = useState(DEFAULT_VAT_RATE);
+  const [validityDays, setValidityDays] = useState(DEFAULT_QUOTE_VALIDITY_DAYS);
+  const [scopeOverrides, setScopeOverrides] = useState<Record<number, string>>({});
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const materialNames = useMemo(
+    () => Array.from(new Set(sections.flatMap(section => section.materials.map(m => m.name)).filter(Boolean))),
+    [sections]
+  );
+
+  const { data: priceMap = {} } = useQuery({
+    queryKey: ['material_price_map', materialNames],
+    queryFn: () => fetchMaterialPriceMap(materialNames)
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['pricing_settings'],
+    queryFn: fetchPricingSettings
+  });
+
+  const { data: labourRates = [] } = useQuery({
+    queryKey: ['labour_rates'],
+    queryFn: fetchLabourRates
+  });
+
+  const { data: versions = [] } = useQuery({
+    queryKey: ['quote_versions', quoteNumber],
+    queryFn: () => fetchQuoteVersions(quoteNumber!),
+    enabled: quoteNumber !== null
+  });
+
+  // Start a new version from the client details of the latest one
+  const latestVersion = versions[0];
+  useEffect(() => {
+    if (latestVersion) {
+      setClient(latestVersion.client || '');
+      setNotes(latestVersion.notes || '');
+      setVatRate(latestVersion.vat_rate);
+    }
+  }, [latestVersion]);
+
+  const priced = useMemo(
+    () => priceQuotePlan(sections, priceMap, labourRates, settings || DEFAULT_PRICING_SETTINGS),
+    [sections, priceMap, labourRates, settings]
+  );
+  const quoteSections = priced.sections.map((section, index) => ({
+    ...section,
+    scope: scopeOverrides[index] ?? section.scope
+  }));
+  const totals = calculateQuoteTotals(quoteSections, vatRate);
+
+  const saveQuoteMutation = useMutation({
+    mutationFn: async () => {
+      const issueDate = new Date();
+      const { data, error } = await supabase
+        .from('quotes')
+        .insert([{
+          ...(quoteNumber !== null && { quote_number: quoteNumber }),
+          version: latestVersion ? latestVersion.version + 1 : 1,
+          title,
+          description: description || null,
+          client: client || null,
+          issue_date: format(issueDate, 'yyyy-MM-dd'),
+          valid_until: format(addDays(issueDate, validityDays), 'yyyy-MM-dd'),
+          vat_rate: vatRate,
+          sections: quoteSections,
+          notes: notes || null,
+          created_by: user?.id,
+          ...totals
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Quote;
+    },
+    onSuccess: (quote) => {
+      queryClient.invalidateQueries({ queryKey: ['quote_versions', quote.quote_number] });
+      onSaved(quote);
+    }
+  });
+
+  const handlePrint = (quote: Quote) => {
+    setExportError(null);
+    try {
+      printHtmlDocument(renderQuoteHtml(quote));
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to open the quote for printing');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Generate Quote
+            {latestVersion && (
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                new version of {formatQuoteNumber(latestVersion.quote_number, latestVersion.version)}
+              </span>
+            )}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Prepared for</label>
+              <textarea
+                value={client}
+                onChange={(e) => setClient(e.target.value)}
+                rows={3}
+                placeholder="Client name and address"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">VAT (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={vatRate}
+                  onChange={(e) => setVatRate(parseFloat(e.target.value) || 0)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Valid for (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={validityDays}
+                  onChange={(e) => setValidityDays(parseInt(e.target.value) || 0)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          </div>
+
+          {priced.missingPrices.length > 0 && (
+            <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+              No price set for: {priced.missingPrices.join(', ')}. Add prices in Setup &gt; Materials.
+            </div>
+          )}
+
+          {/* Scope per main task */}
+          <div className="space-y-4">
+            <h3 className="font-medium text-gray-900">Scope of Work</h3>
+            {quoteSections.length === 0 && (
+              <p className="text-gray-500">Add main tasks, minor tasks or materials to quote</p>
+            )}
+            {quoteSections.map((section, index) => (
+              <div key={index} className="p-4 bg-gray-50 rounded-lg space-y-2">
+                <div className="flex justify-between font-medium">
+                  <span>{section.name}</span>
+                  <span>£{section.price.toFixed(2)}</span>
+                </div>
+                <textarea
+                  value={section.scope}
+                  onChange={(e) => setScopeOverrides(prev => ({ ...prev, [index]: e.target.value }))}
+                  rows={3}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              placeholder="Terms, exclusions, payment schedule..."
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="ml-auto w-64 text-sm space-y-1">
+            <div className="flex justify-between"><span>Subtotal</span><span>£{totals.subtotal.toFixed(2)}</span></div>
+            <div className="flex justify-between"><span>VAT ({vatRate}%)</span><span>£{totals.vat_amount.toFixed(2)}</span></div>
+            <div className="flex justify-between font-semibold border-t pt-1"><span>Total</span><span>£{totals.total.toFixed(2)}</span></div>
+          </div>
+
+          {/* Saved versions */}
+          {versions.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-medium text-gray-900">Saved Versions</h3>
+              {versions.map(version => (
+                <div key={version.id} className="flex justify-between items-center p-3 border rounded-lg text-sm">
+                  <div>
+                    <span className="font-medium">{formatQuoteNumber(version.quote_number, version.version)}</span>
+                    <span className="ml-2 text-gray-500">
+                      {format(new Date(version.created_at), 'MMM dd, yyyy HH:mm')} · {QUOTE_STATUS_LABELS[version.status]} · £{version.total.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handlePrint(version)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                      title="Print / PDF"
+                    >
+                      <Printer className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => downloadHtmlDocument(
+                        renderQuoteHtml(version),
+                        `${formatQuoteNumber(version.quote_number, version.version).replace(' ', '-')}.html`
+                      )}
+                      className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                      title="Download HTML"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {exportError && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              {exportError}
+            </div>
+          )}
+
+          {saveQuoteMutation.isError && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              Failed to save quote
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 border-t">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => saveQuoteMutation.mutate()}
+            disabled={!title || quoteSections.length === 0 || saveQuoteMutation.isPending}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {latestVersion ? <Save className="w-4 h-4 mr-2" /> : <FileText className="w-4 h-4 mr-2" />}
+            {saveQuoteMutation.isPending
+              ? 'Saving...'
+              : latestVersion ? `Save as v${latestVersion.version + 1}` : 'Save Quote'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteModal;
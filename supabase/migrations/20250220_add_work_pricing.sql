@@ -0,0 +1,114 @@
+/*
+  # Add Work Pricing configuration
+
+  1. New Tables
+    - `pricing_settings`
+      - Company-wide pricing configuration (single row)
+      - Columns:
+        - id (uuid, primary key)
+        - material_markup_percent (numeric)
+        - overhead_percent (numeric)
+        - profit_margin_percent (numeric)
+        - updated_at (timestamptz)
+    - `labour_rates`
+      - Hourly labour rate per user role
+      - Columns:
+        - id (uuid, primary key)
+        - role (text, unique)
+        - hourly_rate (numeric)
+        - crew_share (numeric, weight of the role in a typical crew)
+        - created_at (timestamptz)
+
+  2. Changes
+    - Add task_name column to materials_delivered so materials can be
+      priced against the main task that produced them
+
+  3. Security
+    - Enable RLS
+    - Everyone authenticated can read, only Admins can manage
+*/
+
+-- Create pricing_settings table
+CREATE TABLE IF NOT EXISTS pricing_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  material_markup_percent numeric NOT NULL DEFAULT 0 CHECK (material_markup_percent >= 0),
+  overhead_percent numeric NOT NULL DEFAULT 0 CHECK (overhead_percent >= 0),
+  profit_margin_percent numeric NOT NULL DEFAULT 0 CHECK (profit_margin_percent >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create labour_rates table
+CREATE TABLE IF NOT EXISTS labour_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  role text NOT NULL UNIQUE CHECK (role IN ('user', 'project_manager', 'Team_Leader', 'Admin')),
+  hourly_rate numeric NOT NULL DEFAULT 0 CHECK (hourly_rate >= 0),
+  crew_share numeric NOT NULL DEFAULT 0 CHECK (crew_share >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Link delivered materials to the main task they belong to
+ALTER TABLE materials_delivered
+ADD COLUMN IF NOT EXISTS task_name text;
+
+-- Enable RLS
+ALTER TABLE pricing_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE labour_rates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Authenticated users can view pricing settings"
+  ON pricing_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage pricing settings"
+  ON pricing_settings
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view labour rates"
+  ON labour_rates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage labour rates"
+  ON labour_rates
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+-- Seed default configuration
+INSERT INTO pricing_settings (material_markup_percent, overhead_percent, profit_margin_percent)
+SELECT 0, 0, 0
+WHERE NOT EXISTS (SELECT 1 FROM pricing_settings);
+
+INSERT INTO labour_rates (role, hourly_rate, crew_share)
+VALUES
+  ('user', 0, 1),
+  ('Team_Leader', 0, 0),
+  ('project_manager', 0, 0)
+ON CONFLICT (role) DO NOTHING;
+
+-- Add index for grouping materials by main task
+CREATE INDEX IF NOT EXISTS idx_materials_delivered_task_name
+ON materials_delivered(event_id, task_name);
@@ -0,0 +1,136 @@
+/*
+  # Add Invoices
+
+  1. New Tables
+    - `invoices`
+      - One invoice raised against an event
+      - Columns:
+        - id (uuid, primary key)
+        - invoice_number (integer, unique, sequential)
+        - event_id (uuid, references events)
+        - invoice_type (text: final, stage or deposit)
+        - status (text: draft, sent, paid or overdue)
+        - bill_to (text, client name and address)
+        - issue_date (date)
+        - due_date (date)
+        - vat_rate (numeric, percent)
+        - subtotal (numeric)
+        - vat_amount (numeric)
+        - total (numeric)
+        - notes (text)
+        - created_by (uuid, references profiles)
+        - created_at (timestamptz)
+        - updated_at (timestamptz)
+    - `invoice_items`
+      - Line items of an invoice
+      - Columns:
+        - id (uuid, primary key)
+        - invoice_id (uuid, references invoices)
+        - item_type (text: task, material, deposit or adjustment)
+        - source_id (uuid, the tasks_done, materials_delivered or deposit
+          invoice row the line was built from)
+        - description (text)
+        - quantity (numeric)
+        - unit (text)
+        - unit_price (numeric)
+        - line_total (numeric)
+        - sort_order (integer)
+        - created_at (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Everyone authenticated can read, only Admins can manage
+*/
+
+-- Invoice numbers are issued from a sequence so they stay sequential
+CREATE SEQUENCE IF NOT EXISTS invoice_number_seq START 1;
+
+-- Create invoices table
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number integer NOT NULL UNIQUE DEFAULT nextval('invoice_number_seq'),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  invoice_type text NOT NULL DEFAULT 'final' CHECK (invoice_type IN ('final', 'stage', 'deposit')),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid', 'overdue')),
+  bill_to text,
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date,
+  vat_rate numeric NOT NULL DEFAULT 20 CHECK (vat_rate >= 0),
+  subtotal numeric NOT NULL DEFAULT 0,
+  vat_amount numeric NOT NULL DEFAULT 0,
+  total numeric NOT NULL DEFAULT 0,
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER SEQUENCE invoice_number_seq OWNED BY invoices.invoice_number;
+
+-- Create invoice_items table
+CREATE TABLE IF NOT EXISTS invoice_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  item_type text NOT NULL CHECK (item_type IN ('task', 'material', 'deposit', 'adjustment')),
+  source_id uuid,
+  description text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 1,
+  unit text,
+  unit_price numeric NOT NULL DEFAULT 0,
+  line_total numeric NOT NULL DEFAULT 0,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_items ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Authenticated users can view invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage invoices"
+  ON invoices
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view invoice items"
+  ON invoice_items
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage invoice items"
+  ON invoice_items
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_invoices_event_id ON invoices(event_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice_id ON invoice_items(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_source_id ON invoice_items(source_id);
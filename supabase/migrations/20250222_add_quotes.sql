@@ -0,0 +1,88 @@
+/*
+  # Add Quotes
+
+  1. New Tables
+    - `quotes`
+      - Priced, client-facing quote generated from a project plan.
+        Every save of the same quote is kept as a new version.
+      - Columns:
+        - id (uuid, primary key)
+        - quote_number (integer, shared by all versions of a quote)
+        - version (integer)
+        - title (text)
+        - description (text)
+        - client (text, client name and address)
+        - status (text: draft, sent, accepted or rejected)
+        - issue_date (date)
+        - valid_until (date)
+        - vat_rate (numeric, percent)
+        - sections (jsonb, priced scope per main task)
+        - subtotal (numeric)
+        - vat_amount (numeric)
+        - total (numeric)
+        - notes (text)
+        - event_id (uuid, the event created from the quoted plan)
+        - created_by (uuid, references profiles)
+        - created_at (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Everyone authenticated can read, only Admins can manage
+*/
+
+-- New quotes take the next number, new versions reuse it
+CREATE SEQUENCE IF NOT EXISTS quote_number_seq START 1;
+
+-- Create quotes table
+CREATE TABLE IF NOT EXISTS quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_number integer NOT NULL DEFAULT nextval('quote_number_seq'),
+  version integer NOT NULL DEFAULT 1 CHECK (version > 0),
+  title text NOT NULL,
+  description text,
+  client text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'rejected')),
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  valid_until date,
+  vat_rate numeric NOT NULL DEFAULT 20 CHECK (vat_rate >= 0),
+  sections jsonb NOT NULL DEFAULT '[]'::jsonb,
+  subtotal numeric NOT NULL DEFAULT 0,
+  vat_amount numeric NOT NULL DEFAULT 0,
+  total numeric NOT NULL DEFAULT 0,
+  notes text,
+  event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (quote_number, version)
+);
+
+ALTER SEQUENCE quote_number_seq OWNED BY quotes.quote_number;
+
+-- Enable RLS
+ALTER TABLE quotes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Authenticated users can view quotes"
+  ON quotes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage quotes"
+  ON quotes
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_quotes_quote_number ON quotes(quote_number);
+CREATE INDEX IF NOT EXISTS idx_quotes_event_id ON quotes(event_id);
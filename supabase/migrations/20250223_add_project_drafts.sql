@@ -0,0 +1,59 @@
+/*
+  # Add Project Drafts
+
+  1. New Tables
+    - `project_drafts`
+      - Unfinished project plan from the project builder, autosaved while estimating
+      - Columns:
+        - id (uuid, primary key)
+        - title (text)
+        - plan (jsonb, builder state including each main task's calculator inputs)
+        - event_id (uuid, the event the draft was converted into)
+        - created_by (uuid, references profiles)
+        - created_at (timestamptz)
+        - updated_at (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Everyone authenticated can read, only Admins can manage
+*/
+
+-- Create project_drafts table
+CREATE TABLE IF NOT EXISTS project_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL DEFAULT '',
+  plan jsonb NOT NULL DEFAULT '{}'::jsonb,
+  event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE project_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Authenticated users can view project drafts"
+  ON project_drafts
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage project drafts"
+  ON project_drafts
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_project_drafts_event_id ON project_drafts(event_id);
+CREATE INDEX IF NOT EXISTS idx_project_drafts_updated_at ON project_drafts(updated_at);
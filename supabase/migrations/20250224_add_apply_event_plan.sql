@@ -0,0 +1,104 @@
+/*
+  # Apply Event Plan
+
+  1. New Functions
+    - `apply_event_plan`
+      - Applies the changes made to a project's plan in the project builder in one transaction:
+        event details, and inserts, updates and deletes of `tasks_done` and `materials_delivered`
+      - Tasks with progress entries and materials with deliveries are never deleted, so logged
+        progress is preserved
+
+  2. Security
+    - Runs with the caller's permissions, existing RLS policies apply
+*/
+
+CREATE OR REPLACE FUNCTION apply_event_plan(
+  p_event_id uuid,
+  p_event jsonb,
+  p_task_inserts jsonb,
+  p_task_updates jsonb,
+  p_task_deletes uuid[],
+  p_material_inserts jsonb,
+  p_material_updates jsonb,
+  p_material_deletes uuid[]
+)
+RETURNS void AS $$
+BEGIN
+  -- Refuse to drop logged progress
+  IF EXISTS (
+    SELECT 1 FROM task_progress_entries WHERE task_id = ANY(p_task_deletes)
+  ) THEN
+    RAISE EXCEPTION 'Cannot delete tasks that already have progress entries';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM material_deliveries WHERE material_id = ANY(p_material_deletes)
+  ) THEN
+    RAISE EXCEPTION 'Cannot delete materials that already have deliveries';
+  END IF;
+
+  UPDATE events
+  SET
+    title = p_event->>'title',
+    description = p_event->>'description',
+    start_date = (p_event->>'start_date')::date,
+    end_date = (p_event->>'end_date')::date,
+    status = p_event->>'status',
+    has_equipment = (p_event->>'has_equipment')::boolean,
+    has_materials = (p_event->>'has_materials')::boolean
+  WHERE id = p_event_id;
+
+  -- Tasks
+  DELETE FROM tasks_done
+  WHERE event_id = p_event_id AND id = ANY(p_task_deletes);
+
+  UPDATE tasks_done t
+  SET
+    name = u.name,
+    task_name = u.task_name,
+    description = u.description,
+    unit = u.unit,
+    amount = u.amount,
+    hours_worked = u.hours_worked,
+    event_task_id = u.event_task_id
+  FROM jsonb_to_recordset(p_task_updates) AS u(
+    id uuid, name text, task_name text, description text, unit text,
+    amount text, hours_worked numeric, event_task_id uuid
+  )
+  WHERE t.id = u.id AND t.event_id = p_event_id;
+
+  INSERT INTO tasks_done (
+    event_id, user_id, name, task_name, description, unit, amount, hours_worked, is_finished, event_task_id
+  )
+  SELECT
+    p_event_id, i.user_id, i.name, i.task_name, i.description, i.unit, i.amount, i.hours_worked, false, i.event_task_id
+  FROM jsonb_to_recordset(p_task_inserts) AS i(
+    user_id uuid, name text, task_name text, description text, unit text,
+    amount text, hours_worked numeric, event_task_id uuid
+  );
+
+  -- Materials
+  DELETE FROM materials_delivered
+  WHERE event_id = p_event_id AND id = ANY(p_material_deletes);
+
+  UPDATE materials_delivered m
+  SET
+    name = u.name,
+    task_name = u.task_name,
+    unit = u.unit,
+    total_amount = u.total_amount
+  FROM jsonb_to_recordset(p_material_updates) AS u(
+    id uuid, name text, task_name text, unit text, total_amount numeric
+  )
+  WHERE m.id = u.id AND m.event_id = p_event_id;
+
+  INSERT INTO materials_delivered (
+    event_id, name, task_name, unit, total_amount, amount, status
+  )
+  SELECT
+    p_event_id, i.name, i.task_name, i.unit, i.total_amount, 0, 'pending'
+  FROM jsonb_to_recordset(p_material_inserts) AS i(
+    name text, task_name text, unit text, total_amount numeric
+  );
+END;
+$$ LANGUAGE plpgsql;
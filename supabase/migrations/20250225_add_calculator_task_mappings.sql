@@ -0,0 +1,80 @@
+/*
+  # Add Calculator Task Mappings
+
+  1. New Tables
+    - `calculator_task_mappings`
+      - Binds each calculator output (e.g. `paving.laying`) to the task template it is logged against
+      - Columns:
+        - id (uuid, primary key)
+        - output_key (text, unique)
+        - event_task_id (uuid, references event_tasks)
+        - created_at (timestamptz)
+        - updated_at (timestamptz)
+
+  2. Data
+    - Bind the fixed calculator outputs to the templates they were previously matched to by name.
+      Groundworks outputs depend on the excavators and carriers set up and are left for admins to bind.
+
+  3. Security
+    - Enable RLS
+    - Everyone authenticated can read, only Admins can manage
+*/
+
+-- Create calculator_task_mappings table
+CREATE TABLE IF NOT EXISTS calculator_task_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  output_key text NOT NULL UNIQUE,
+  event_task_id uuid NOT NULL REFERENCES event_tasks(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Seed the fixed outputs from the old name matching
+INSERT INTO calculator_task_mappings (output_key, event_task_id)
+SELECT DISTINCT ON (defaults.output_key) defaults.output_key, event_tasks.id
+FROM (
+  VALUES
+    ('paving.laying', 'laying monoblocks with screed'),
+    ('paving.cutting', 'cutting blocks'),
+    ('slab.cutting_porcelain', 'cutting porcelain'),
+    ('slab.cutting_sandstone', 'cutting sandstones'),
+    ('fence.vertical', 'standard fence vertical'),
+    ('fence.horizontal', 'standard fence horizontal'),
+    ('grass.laying', 'laying artificial grass'),
+    ('wall.brick', '%bricklaying%'),
+    ('wall.block4_standing', '%4-inch block%standing%'),
+    ('wall.block4_flat', '%4-inch block%flat%'),
+    ('wall.block7_standing', '%7-inch block%standing%'),
+    ('wall.block7_flat', '%7-inch block%flat%')
+) AS defaults(output_key, name_pattern)
+JOIN event_tasks ON event_tasks.name ILIKE defaults.name_pattern
+ORDER BY defaults.output_key, event_tasks.name
+ON CONFLICT (output_key) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE calculator_task_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Authenticated users can view calculator task mappings"
+  ON calculator_task_mappings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage calculator task mappings"
+  ON calculator_task_mappings
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_calculator_task_mappings_event_task_id ON calculator_task_mappings(event_task_id);
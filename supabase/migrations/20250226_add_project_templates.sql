@@ -0,0 +1,58 @@
+/*
+  # Add Project Templates
+
+  1. New Tables
+    - `project_templates`
+      - Reusable plan for a recurring job type, e.g. patio, wall and fence
+      - Columns:
+        - id (uuid, primary key)
+        - name (text)
+        - description (text)
+        - plan (jsonb, main tasks with calculator types and default inputs, minor tasks and materials)
+        - created_by (uuid, references profiles)
+        - created_at (timestamptz)
+        - updated_at (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Everyone authenticated can read, only Admins can manage
+*/
+
+-- Create project_templates table
+CREATE TABLE IF NOT EXISTS project_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  plan jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE project_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Authenticated users can view project templates"
+  ON project_templates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage project templates"
+  ON project_templates
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_project_templates_name ON project_templates(name);
@@ -0,0 +1,188 @@
+/*
+  # Add Event Phases
+
+  1. New Tables
+    - `event_phases`
+      - Stage of a project with its own dates, e.g. excavation, sub-base, hard landscaping, finishing
+      - Columns:
+        - id (uuid, primary key)
+        - event_id (uuid, references events)
+        - name (text)
+        - position (integer, order of the phases in the plan)
+        - start_date (date)
+        - end_date (date)
+        - depends_on (uuid[], phases that have to finish before this one starts)
+        - created_at (timestamptz)
+
+  2. Changes
+    - `tasks_done.phase_id` links each planned task to the phase it runs in
+    - `apply_event_plan` takes the edited phases and saves them with the tasks in the same transaction
+
+  3. Security
+    - Enable RLS
+    - Everyone authenticated can read, the event's creator and Admins can manage
+*/
+
+-- Create event_phases table
+CREATE TABLE IF NOT EXISTS event_phases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  start_date date,
+  end_date date,
+  depends_on uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE tasks_done ADD COLUMN IF NOT EXISTS phase_id uuid REFERENCES event_phases(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE event_phases ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Authenticated users can view event phases"
+  ON event_phases
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Event creators and admins can manage event phases"
+  ON event_phases
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events WHERE events.id = event_phases.event_id AND events.created_by = auth.uid()
+    ) OR
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events WHERE events.id = event_phases.event_id AND events.created_by = auth.uid()
+    ) OR
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_event_phases_event_id ON event_phases(event_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_done_phase_id ON tasks_done(phase_id);
+
+-- Recreate apply_event_plan with the phases
+DROP FUNCTION IF EXISTS apply_event_plan(uuid, jsonb, jsonb, jsonb, uuid[], jsonb, jsonb, uuid[]);
+
+CREATE OR REPLACE FUNCTION apply_event_plan(
+  p_event_id uuid,
+  p_event jsonb,
+  p_phases jsonb,
+  p_task_inserts jsonb,
+  p_task_updates jsonb,
+  p_task_deletes uuid[],
+  p_material_inserts jsonb,
+  p_material_updates jsonb,
+  p_material_deletes uuid[]
+)
+RETURNS void AS $$
+BEGIN
+  -- Refuse to drop logged progress
+  IF EXISTS (
+    SELECT 1 FROM task_progress_entries WHERE task_id = ANY(p_task_deletes)
+  ) THEN
+    RAISE EXCEPTION 'Cannot delete tasks that already have progress entries';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM material_deliveries WHERE material_id = ANY(p_material_deletes)
+  ) THEN
+    RAISE EXCEPTION 'Cannot delete materials that already have deliveries';
+  END IF;
+
+  UPDATE events
+  SET
+    title = p_event->>'title',
+    description = p_event->>'description',
+    start_date = (p_event->>'start_date')::date,
+    end_date = (p_event->>'end_date')::date,
+    status = p_event->>'status',
+    has_equipment = (p_event->>'has_equipment')::boolean,
+    has_materials = (p_event->>'has_materials')::boolean
+  WHERE id = p_event_id;
+
+  -- Phases, saved before the tasks that reference them
+  DELETE FROM event_phases
+  WHERE event_id = p_event_id
+    AND id NOT IN (SELECT p.id FROM jsonb_to_recordset(p_phases) AS p(id uuid));
+
+  INSERT INTO event_phases (id, event_id, name, position, start_date, end_date, depends_on)
+  SELECT p.id, p_event_id, p.name, p.position, p.start_date, p.end_date, COALESCE(p.depends_on, '{}')
+  FROM jsonb_to_recordset(p_phases) AS p(
+    id uuid, name text, position integer, start_date date, end_date date, depends_on uuid[]
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET
+    name = EXCLUDED.name,
+    position = EXCLUDED.position,
+    start_date = EXCLUDED.start_date,
+    end_date = EXCLUDED.end_date,
+    depends_on = EXCLUDED.depends_on
+  WHERE event_phases.event_id = p_event_id;
+
+  -- Tasks
+  DELETE FROM tasks_done
+  WHERE event_id = p_event_id AND id = ANY(p_task_deletes);
+
+  UPDATE tasks_done t
+  SET
+    name = u.name,
+    task_name = u.task_name,
+    description = u.description,
+    unit = u.unit,
+    amount = u.amount,
+    hours_worked = u.hours_worked,
+    event_task_id = u.event_task_id,
+    phase_id = u.phase_id
+  FROM jsonb_to_recordset(p_task_updates) AS u(
+    id uuid, name text, task_name text, description text, unit text,
+    amount text, hours_worked numeric, event_task_id uuid, phase_id uuid
+  )
+  WHERE t.id = u.id AND t.event_id = p_event_id;
+
+  INSERT INTO tasks_done (
+    event_id, user_id, name, task_name, description, unit, amount, hours_worked, is_finished, event_task_id, phase_id
+  )
+  SELECT
+    p_event_id, i.user_id, i.name, i.task_name, i.description, i.unit, i.amount, i.hours_worked, false, i.event_task_id, i.phase_id
+  FROM jsonb_to_recordset(p_task_inserts) AS i(
+    user_id uuid, name text, task_name text, description text, unit text,
+    amount text, hours_worked numeric, event_task_id uuid, phase_id uuid
+  );
+
+  -- Materials
+  DELETE FROM materials_delivered
+  WHERE event_id = p_event_id AND id = ANY(p_material_deletes);
+
+  UPDATE materials_delivered m
+  SET
+    name = u.name,
+    task_name = u.task_name,
+    unit = u.unit,
+    total_amount = u.total_amount
+  FROM jsonb_to_recordset(p_material_updates) AS u(
+    id uuid, name text, task_name text, unit text, total_amount numeric
+  )
+  WHERE m.id = u.id AND m.event_id = p_event_id;
+
+  INSERT INTO materials_delivered (
+    event_id, name, task_name, unit, total_amount, amount, status
+  )
+  SELECT
+    p_event_id, i.name, i.task_name, i.unit, i.total_amount, 0, 'pending'
+  FROM jsonb_to_recordset(p_material_inserts) AS i(
+    name text, task_name text, unit text, total_amount numeric
+  );
+END;
+$$ LANGUAGE plpgsql;
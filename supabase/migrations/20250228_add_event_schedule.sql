@@ -0,0 +1,177 @@
+/*
+  # Add Event Schedule
+
+  1. New Tables
+    - `company_holidays`
+      - Days nobody works, skipped by the scheduler along with weekends
+      - Columns:
+        - id (uuid, primary key)
+        - holiday_date (date, unique)
+        - name (text)
+        - created_at (timestamptz)
+
+    - `event_crew`
+      - Workers assigned to an event
+      - Columns:
+        - id (uuid, primary key)
+        - event_id (uuid, references events)
+        - user_id (uuid, references profiles)
+        - created_at (timestamptz)
+
+    - `event_schedule`
+      - Day-by-day plan of who works on which task
+      - Columns:
+        - id (uuid, primary key)
+        - event_id (uuid, references events)
+        - task_id (uuid, references tasks_done)
+        - user_id (uuid, references profiles)
+        - work_date (date)
+        - hours (numeric)
+        - created_at (timestamptz)
+
+  2. New Functions
+    - `apply_event_schedule`
+      - Replaces an event's schedule and moves its end date in one transaction
+
+  3. Security
+    - Enable RLS on all tables
+    - Everyone authenticated can read
+    - Admins manage holidays, the event's creator and Admins manage its crew and schedule
+*/
+
+-- Create company_holidays table
+CREATE TABLE IF NOT EXISTS company_holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date date NOT NULL UNIQUE,
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create event_crew table
+CREATE TABLE IF NOT EXISTS event_crew (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (event_id, user_id)
+);
+
+-- Create event_schedule table
+CREATE TABLE IF NOT EXISTS event_schedule (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  task_id uuid NOT NULL REFERENCES tasks_done(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  work_date date NOT NULL,
+  hours numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE company_holidays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_crew ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_schedule ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Authenticated users can view company holidays"
+  ON company_holidays
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage company holidays"
+  ON company_holidays
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view event crew"
+  ON event_crew
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Event creators and admins can manage event crew"
+  ON event_crew
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events WHERE events.id = event_crew.event_id AND events.created_by = auth.uid()
+    ) OR
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events WHERE events.id = event_crew.event_id AND events.created_by = auth.uid()
+    ) OR
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view event schedule"
+  ON event_schedule
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Event creators and admins can manage event schedule"
+  ON event_schedule
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events WHERE events.id = event_schedule.event_id AND events.created_by = auth.uid()
+    ) OR
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events WHERE events.id = event_schedule.event_id AND events.created_by = auth.uid()
+    ) OR
+    auth.uid() IN (
+      SELECT id FROM profiles WHERE role = 'Admin'
+    )
+  );
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_event_crew_event_id ON event_crew(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_crew_user_id ON event_crew(user_id);
+CREATE INDEX IF NOT EXISTS idx_event_schedule_event_id ON event_schedule(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_schedule_user_date ON event_schedule(user_id, work_date);
+
+-- Replace an event's schedule
+CREATE OR REPLACE FUNCTION apply_event_schedule(
+  p_event_id uuid,
+  p_end_date date,
+  p_assignments jsonb
+)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM event_schedule WHERE event_id = p_event_id;
+
+  INSERT INTO event_schedule (event_id, task_id, user_id, work_date, hours)
+  SELECT p_event_id, a.task_id, a.user_id, a.work_date, a.hours
+  FROM jsonb_to_recordset(p_assignments) AS a(
+    task_id uuid, user_id uuid, work_date date, hours numeric
+  );
+
+  UPDATE events
+  SET end_date = p_end_date
+  WHERE id = p_event_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,35 @@
+/*
+  # Add Deck Tasks
+
+  1. Data
+    - Task templates for the deck calculator: setting posts, building the frame and laying timber or composite boards
+    - Bind the deck calculator outputs to them, unless an admin already bound them in Setup
+*/
+
+-- Create the deck task templates
+INSERT INTO event_tasks (name, description, unit, estimated_hours)
+SELECT defaults.name, defaults.description, defaults.unit, defaults.estimated_hours
+FROM (
+  VALUES
+    ('setting deck posts', 'Dig, set and concrete deck posts', 'posts', 0.5),
+    ('building deck frame', 'Fix bearers, joists and hangers of the deck frame', 'square meters', 0.8),
+    ('laying timber deck boards', 'Cut and screw timber deck boards', 'square meters', 0.5),
+    ('laying composite deck boards', 'Cut and clip composite deck boards', 'square meters', 0.6)
+) AS defaults(name, description, unit, estimated_hours)
+WHERE NOT EXISTS (
+  SELECT 1 FROM event_tasks WHERE event_tasks.name ILIKE defaults.name
+);
+
+-- Bind the deck outputs
+INSERT INTO calculator_task_mappings (output_key, event_task_id)
+SELECT DISTINCT ON (defaults.output_key) defaults.output_key, event_tasks.id
+FROM (
+  VALUES
+    ('deck.posts', 'setting deck posts'),
+    ('deck.frame', 'building deck frame'),
+    ('deck.boards_timber', 'laying timber deck boards'),
+    ('deck.boards_composite', 'laying composite deck boards')
+) AS defaults(output_key, name_pattern)
+JOIN event_tasks ON event_tasks.name ILIKE defaults.name_pattern
+ORDER BY defaults.output_key, event_tasks.created_at
+ON CONFLICT (output_key) DO NOTHING;
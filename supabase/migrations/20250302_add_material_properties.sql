@@ -0,0 +1,38 @@
+/*
+  # Add Material Properties
+
+  1. Changes
+    - `materials.density`: tonnes per cubic meter, used to weigh loose materials
+    - `materials.pack_size`: calculated units in one pack, e.g. 25 kg in a bag of cement
+    - `materials.pack_unit`: what a pack is called, e.g. bags
+    - `materials.wastage_percent`: extra ordered on top of the calculated quantity
+
+  2. Data
+    - Seed the densities and the cement bag size the calculators used before, where none are set
+*/
+
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS density numeric;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS pack_size numeric;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS pack_unit text;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS wastage_percent numeric NOT NULL DEFAULT 0;
+
+-- Densities the calculators had hard-coded
+UPDATE materials
+SET density = defaults.density
+FROM (
+  VALUES
+    ('Soil excavation', 1.5),
+    ('Soil', 1.5),
+    ('Sand', 1.6),
+    ('tape1', 2.1),
+    ('Cement', 1.5)
+) AS defaults(name, density)
+WHERE materials.name = defaults.name
+  AND materials.density IS NULL;
+
+-- Cement is calculated in kg and sold in 25kg bags
+UPDATE materials
+SET pack_size = 25,
+    pack_unit = 'bags'
+WHERE name = 'Cement'
+  AND pack_size IS NULL;
@@ -0,0 +1,52 @@
+/*
+  # Add Calculator Runs
+
+  1. New Tables
+    - `calculator_runs`
+      - History of runs of the standalone calculators, so a run can be reopened or added to a project
+      - Columns:
+        - id (uuid, primary key)
+        - calculator_type (text)
+        - calculator_sub_type (text)
+        - inputs (jsonb, the calculator's form values, null for calculators that do not report them)
+        - results (jsonb, name, amount, hours, task breakdown and materials)
+        - event_id (uuid, the project the run was added to)
+        - created_by (uuid, references profiles)
+        - created_at (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Users can only see and manage their own runs
+*/
+
+-- Create calculator_runs table
+CREATE TABLE IF NOT EXISTS calculator_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  calculator_type text NOT NULL,
+  calculator_sub_type text NOT NULL,
+  inputs jsonb,
+  results jsonb NOT NULL,
+  event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE calculator_runs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own calculator runs"
+  ON calculator_runs
+  FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Users can manage their own calculator runs"
+  ON calculator_runs
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_calculator_runs_created_by ON calculator_runs(created_by, created_at);
@@ -0,0 +1,40 @@
+/*
+  # Add Wall Tasks
+
+  1. Data
+    - Task templates for the parts of a wall beyond the bricks and blocks: piers, coping stones,
+      render, cladding, concrete footings and the drainage behind retaining walls
+    - Bind the wall calculator outputs to them, unless an admin already bound them in Setup
+*/
+
+-- Create the wall task templates
+INSERT INTO event_tasks (name, description, unit, estimated_hours)
+SELECT defaults.name, defaults.description, defaults.unit, defaults.estimated_hours
+FROM (
+  VALUES
+    ('building piers', 'Lay the bricks or blocks of piers bonded into a wall', 'pieces', 0.03),
+    ('laying coping stones', 'Bed and point coping stones on top of a wall', 'meters', 0.4),
+    ('rendering', 'Apply sand and cement render to a wall face', 'square meters', 0.5),
+    ('fixing cladding', 'Fix cladding panels or stone to a wall face', 'square meters', 0.8),
+    ('pouring wall footing', 'Dig out, mix and pour a concrete wall footing', 'cubic meters', 3),
+    ('retaining wall drainage', 'Lay membrane, drainage pipe and gravel backfill behind a retaining wall', 'meters', 0.5)
+) AS defaults(name, description, unit, estimated_hours)
+WHERE NOT EXISTS (
+  SELECT 1 FROM event_tasks WHERE event_tasks.name ILIKE defaults.name
+);
+
+-- Bind the wall outputs
+INSERT INTO calculator_task_mappings (output_key, event_task_id)
+SELECT DISTINCT ON (defaults.output_key) defaults.output_key, event_tasks.id
+FROM (
+  VALUES
+    ('wall.piers', 'building piers'),
+    ('wall.coping', 'laying coping stones'),
+    ('wall.render', 'rendering'),
+    ('wall.cladding', 'fixing cladding'),
+    ('wall.footing', 'pouring wall footing'),
+    ('wall.retaining_drainage', 'retaining wall drainage')
+) AS defaults(output_key, name_pattern)
+JOIN event_tasks ON event_tasks.name ILIKE defaults.name_pattern
+ORDER BY defaults.output_key, event_tasks.created_at
+ON CONFLICT (output_key) DO NOTHING;
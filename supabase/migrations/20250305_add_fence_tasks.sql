@@ -0,0 +1,33 @@
+/*
+  # Add Fence Tasks
+
+  1. Data
+    - Task templates for the fence items timed one by one: posts, gravel boards and gates with their hardware
+    - Bind the fence calculator outputs to them, unless an admin already bound them in Setup
+*/
+
+-- Create the fence task templates
+INSERT INTO event_tasks (name, description, unit, estimated_hours)
+SELECT defaults.name, defaults.description, defaults.unit, defaults.estimated_hours
+FROM (
+  VALUES
+    ('setting fence posts', 'Dig, set and postmix a fence or gate post', 'posts', 0.5),
+    ('fitting gravel boards', 'Fit a gravel board between two posts', 'boards', 0.25),
+    ('hanging gates', 'Hang a gate and fit its hinges and latch', 'gates', 1.5)
+) AS defaults(name, description, unit, estimated_hours)
+WHERE NOT EXISTS (
+  SELECT 1 FROM event_tasks WHERE event_tasks.name ILIKE defaults.name
+);
+
+-- Bind the fence outputs
+INSERT INTO calculator_task_mappings (output_key, event_task_id)
+SELECT DISTINCT ON (defaults.output_key) defaults.output_key, event_tasks.id
+FROM (
+  VALUES
+    ('fence.posts', 'setting fence posts'),
+    ('fence.gravel_boards', 'fitting gravel boards'),
+    ('fence.gates', 'hanging gates')
+) AS defaults(output_key, name_pattern)
+JOIN event_tasks ON event_tasks.name ILIKE defaults.name_pattern
+ORDER BY defaults.output_key, event_tasks.created_at
+ON CONFLICT (output_key) DO NOTHING;
@@ -0,0 +1,33 @@
+/*
+  # Add Drainage Tasks
+
+  1. Data
+    - Task templates for the drainage calculator: laying channel drains, laying drainage pipe and building soakaways
+    - Bind the drainage calculator outputs to them, unless an admin already bound them in Setup
+*/
+
+-- Create the drainage task templates
+INSERT INTO event_tasks (name, description, unit, estimated_hours)
+SELECT defaults.name, defaults.description, defaults.unit, defaults.estimated_hours
+FROM (
+  VALUES
+    ('laying channel drains', 'Dig out, bed and haunch channel drains in concrete and fit their outlets', 'meters', 0.6),
+    ('laying drainage pipe', 'Dig the trench, lay and join the pipe in a gravel surround and backfill', 'meters', 0.4),
+    ('building soakaway', 'Dig the soakaway, line it with membrane, fill it and cover it', 'cubic meters', 2)
+) AS defaults(name, description, unit, estimated_hours)
+WHERE NOT EXISTS (
+  SELECT 1 FROM event_tasks WHERE event_tasks.name ILIKE defaults.name
+);
+
+-- Bind the drainage outputs
+INSERT INTO calculator_task_mappings (output_key, event_task_id)
+SELECT DISTINCT ON (defaults.output_key) defaults.output_key, event_tasks.id
+FROM (
+  VALUES
+    ('drainage.channel', 'laying channel drains'),
+    ('drainage.pipe', 'laying drainage pipe'),
+    ('drainage.soakaway', 'building soakaway')
+) AS defaults(output_key, name_pattern)
+JOIN event_tasks ON event_tasks.name ILIKE defaults.name_pattern
+ORDER BY defaults.output_key, event_tasks.created_at
+ON CONFLICT (output_key) DO NOTHING;
@@ -0,0 +1,37 @@
+/*
+  # Add Concrete Tasks
+
+  1. Data
+    - Task templates for the concrete base calculator: formwork, sub-base, mesh and pouring ready-mix or site-mixed concrete
+    - Bind the concrete calculator outputs to them, unless an admin already bound them in Setup
+*/
+
+-- Create the concrete task templates
+INSERT INTO event_tasks (name, description, unit, estimated_hours)
+SELECT defaults.name, defaults.description, defaults.unit, defaults.estimated_hours
+FROM (
+  VALUES
+    ('setting up formwork', 'Set out, peg and level formwork boards around a base', 'meters', 0.3),
+    ('laying and compacting sub-base', 'Spread and compact Type 1 under a base', 'square meters', 0.15),
+    ('laying reinforcement mesh', 'Cut, lap and tie mesh sheets on spacers', 'sheets', 0.3),
+    ('pouring ready-mix concrete', 'Barrow, pour, tamp and finish ready-mix concrete', 'cubic meters', 1.5),
+    ('mixing and pouring concrete', 'Mix concrete on site, then pour, tamp and finish it', 'cubic meters', 4)
+) AS defaults(name, description, unit, estimated_hours)
+WHERE NOT EXISTS (
+  SELECT 1 FROM event_tasks WHERE event_tasks.name ILIKE defaults.name
+);
+
+-- Bind the concrete outputs
+INSERT INTO calculator_task_mappings (output_key, event_task_id)
+SELECT DISTINCT ON (defaults.output_key) defaults.output_key, event_tasks.id
+FROM (
+  VALUES
+    ('concrete.formwork', 'setting up formwork'),
+    ('concrete.sub_base', 'laying and compacting sub-base'),
+    ('concrete.mesh', 'laying reinforcement mesh'),
+    ('concrete.pour_readymix', 'pouring ready-mix concrete'),
+    ('concrete.pour_site', 'mixing and pouring concrete')
+) AS defaults(output_key, name_pattern)
+JOIN event_tasks ON event_tasks.name ILIKE defaults.name_pattern
+ORDER BY defaults.output_key, event_tasks.created_at
+ON CONFLICT (output_key) DO NOTHING;
@@ -0,0 +1,37 @@
+/*
+  # Add Soft Landscaping Tasks
+
+  1. Data
+    - Task templates for the soft landscaping calculator: turf, topsoil, planting, weed membrane and mulch
+    - Bind the soft landscaping calculator outputs to them, unless an admin already bound them in Setup
+*/
+
+-- Create the soft landscaping task templates
+INSERT INTO event_tasks (name, description, unit, estimated_hours)
+SELECT defaults.name, defaults.description, defaults.unit, defaults.estimated_hours
+FROM (
+  VALUES
+    ('laying turf', 'Rake and level the ground, lay and firm the turf and water it in', 'square meters', 0.1),
+    ('spreading topsoil', 'Barrow, spread and level topsoil', 'tonnes', 0.5),
+    ('planting', 'Dig in, plant and water a plant', 'plants', 0.1),
+    ('laying weed membrane', 'Lay, overlap and pin weed membrane and cut it for the plants', 'square meters', 0.05),
+    ('spreading mulch', 'Spread bark or mulch over a planting bed', 'square meters', 0.05)
+) AS defaults(name, description, unit, estimated_hours)
+WHERE NOT EXISTS (
+  SELECT 1 FROM event_tasks WHERE event_tasks.name ILIKE defaults.name
+);
+
+-- Bind the soft landscaping outputs
+INSERT INTO calculator_task_mappings (output_key, event_task_id)
+SELECT DISTINCT ON (defaults.output_key) defaults.output_key, event_tasks.id
+FROM (
+  VALUES
+    ('soft.turf', 'laying turf'),
+    ('soft.topsoil', 'spreading topsoil'),
+    ('soft.planting', 'planting'),
+    ('soft.membrane', 'laying weed membrane'),
+    ('soft.mulch', 'spreading mulch')
+) AS defaults(output_key, name_pattern)
+JOIN event_tasks ON event_tasks.name ILIKE defaults.name_pattern
+ORDER BY defaults.output_key, event_tasks.created_at
+ON CONFLICT (output_key) DO NOTHING;
@@ -0,0 +1,41 @@
+/*
+  # Add Edging Tasks
+
+  1. Data
+    - Task templates for the edging calculator: laying each kind of edging, cutting corners and haunching in concrete
+    - Bind the edging calculator outputs to them, unless an admin already bound them in Setup
+*/
+
+-- Create the edging task templates
+INSERT INTO event_tasks (name, description, unit, estimated_hours)
+SELECT defaults.name, defaults.description, defaults.unit, defaults.estimated_hours
+FROM (
+  VALUES
+    ('laying kerbs', 'Set out, bed and line up concrete kerbs', 'meters', 0.4),
+    ('laying setts', 'Bed and line up a row of granite setts', 'meters', 0.5),
+    ('laying timber edging boards', 'Set out, peg and level timber edging boards', 'meters', 0.15),
+    ('laying steel edging', 'Set out and stake steel edging', 'meters', 0.12),
+    ('laying composite edging', 'Set out and peg composite edging', 'meters', 0.12),
+    ('cutting and fitting corners', 'Cut and fit edging at a corner', 'corners', 0.25),
+    ('bedding and haunching in concrete', 'Mix concrete, bed edging and haunch behind it', 'cubic meters', 3)
+) AS defaults(name, description, unit, estimated_hours)
+WHERE NOT EXISTS (
+  SELECT 1 FROM event_tasks WHERE event_tasks.name ILIKE defaults.name
+);
+
+-- Bind the edging outputs
+INSERT INTO calculator_task_mappings (output_key, event_task_id)
+SELECT DISTINCT ON (defaults.output_key) defaults.output_key, event_tasks.id
+FROM (
+  VALUES
+    ('edging.kerb', 'laying kerbs'),
+    ('edging.sett', 'laying setts'),
+    ('edging.timber', 'laying timber edging boards'),
+    ('edging.steel', 'laying steel edging'),
+    ('edging.composite', 'laying composite edging'),
+    ('edging.corner', 'cutting and fitting corners'),
+    ('edging.haunching', 'bedding and haunching in concrete')
+) AS defaults(output_key, name_pattern)
+JOIN event_tasks ON event_tasks.name ILIKE defaults.name_pattern
+ORDER BY defaults.output_key, event_tasks.created_at
+ON CONFLICT (output_key) DO NOTHING;
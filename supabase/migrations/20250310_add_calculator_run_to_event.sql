@@ -0,0 +1,49 @@
+/*
+  # Add Calculator Run To Event
+
+  1. New Functions
+    - `add_calculator_run_to_event`
+      - Adds a calculator run's tasks and materials to an existing project and links the run to it
+        in one transaction, so a failed insert leaves nothing half added to retry over
+
+  2. Security
+    - Runs with the caller's permissions, existing RLS policies apply
+*/
+
+CREATE OR REPLACE FUNCTION add_calculator_run_to_event(
+  p_run_id uuid,
+  p_event_id uuid,
+  p_user_id uuid,
+  p_tasks jsonb,
+  p_materials jsonb
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO tasks_done (
+    event_id, user_id, name, task_name, description, unit, amount, hours_worked, is_finished, event_task_id, phase_id
+  )
+  SELECT
+    p_event_id, p_user_id, i.name, i.task_name, i.description, i.unit, i.amount, i.hours_worked, false, i.event_task_id, i.phase_id
+  FROM jsonb_to_recordset(p_tasks) AS i(
+    name text, task_name text, description text, unit text,
+    amount text, hours_worked numeric, event_task_id uuid, phase_id uuid
+  );
+
+  INSERT INTO materials_delivered (
+    event_id, name, task_name, unit, total_amount, amount, status
+  )
+  SELECT
+    p_event_id, i.name, i.task_name, i.unit, i.total_amount, 0, 'pending'
+  FROM jsonb_to_recordset(p_materials) AS i(
+    name text, task_name text, unit text, total_amount numeric
+  );
+
+  UPDATE calculator_runs
+  SET event_id = p_event_id
+  WHERE id = p_run_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calculator run % not found', p_run_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,58 @@
+/*
+  # Create Invoice
+
+  1. New Functions
+    - `create_invoice`
+      - Takes the next invoice number and inserts the invoice with its line items in one transaction,
+        so a failed save leaves neither an invoice without lines nor a gap in the numbering
+      - Numbers are taken under a transaction lock as one more than the highest issued, since a
+        sequence value is used up even when the transaction that took it rolls back
+
+  2. Security
+    - Runs with the caller's permissions, existing RLS policies apply
+*/
+
+CREATE OR REPLACE FUNCTION create_invoice(
+  p_invoice jsonb,
+  p_items jsonb
+)
+RETURNS invoices AS $$
+DECLARE
+  v_invoice invoices;
+BEGIN
+  -- Invoices created at the same time wait for each other's number
+  PERFORM pg_advisory_xact_lock(hashtext('invoice_number'));
+
+  INSERT INTO invoices (
+    invoice_number, event_id, invoice_type, bill_to, issue_date, due_date,
+    vat_rate, subtotal, vat_amount, total, notes, created_by
+  )
+  VALUES (
+    (SELECT COALESCE(MAX(invoice_number), 0) + 1 FROM invoices),
+    (p_invoice->>'event_id')::uuid,
+    p_invoice->>'invoice_type',
+    p_invoice->>'bill_to',
+    (p_invoice->>'issue_date')::date,
+    (p_invoice->>'due_date')::date,
+    (p_invoice->>'vat_rate')::numeric,
+    (p_invoice->>'subtotal')::numeric,
+    (p_invoice->>'vat_amount')::numeric,
+    (p_invoice->>'total')::numeric,
+    p_invoice->>'notes',
+    (p_invoice->>'created_by')::uuid
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO invoice_items (
+    invoice_id, item_type, source_id, description, quantity, unit, unit_price, line_total, sort_order
+  )
+  SELECT
+    v_invoice.id, i.item_type, i.source_id, i.description, i.quantity, i.unit, i.unit_price, i.line_total, i.sort_order
+  FROM jsonb_to_recordset(p_items) AS i(
+    item_type text, source_id uuid, description text, quantity numeric,
+    unit text, unit_price numeric, line_total numeric, sort_order integer
+  );
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;